@@ -171,6 +171,18 @@ export class DatabaseManager {
     return this.pool;
   }
 
+  public getPoolStats(): { size: number; available: number; borrowed: number; pending: number } | null {
+    if (!this.pool || !this.pool.connected) {
+      return null;
+    }
+    return {
+      size: this.pool.size,
+      available: this.pool.available,
+      borrowed: this.pool.borrowed,
+      pending: this.pool.pending
+    };
+  }
+
   public async disconnect(): Promise<void> {
     if (this.pool) {
       await this.pool.close();
@@ -211,6 +223,20 @@ export class DatabaseManager {
           role NVARCHAR(50) DEFAULT 'user' CHECK (role IN ('admin', 'user')),
           isActive BIT DEFAULT 1,
           lastLoginAt DATETIME2,
+          emailVerified BIT NOT NULL DEFAULT 0,
+          emailVerifiedAt DATETIME2,
+          failedLoginAttempts INT NOT NULL DEFAULT 0,
+          lastFailedLoginAt DATETIME2,
+          lockedUntil DATETIME2,
+          passwordChangedAt DATETIME2,
+          twoFactorEnabled BIT NOT NULL DEFAULT 0,
+          twoFactorSecret NVARCHAR(255),
+          twoFactorPendingSecret NVARCHAR(255),
+          twoFactorEnabledAt DATETIME2,
+          twoFactorLastUsedStep BIGINT,
+          deletionRequestedAt DATETIME2,
+          deletionScheduledFor DATETIME2,
+          deletedAt DATETIME2,
           createdAt DATETIME2 DEFAULT GETUTCDATE(),
           updatedAt DATETIME2 DEFAULT GETUTCDATE()
         )
@@ -222,6 +248,56 @@ export class DatabaseManager {
         ALTER TABLE Users ADD role NVARCHAR(50) DEFAULT 'user' CHECK (role IN ('admin', 'user'))
       `);
 
+      // Add verification and lockout columns to existing Users table if they don't exist.
+      // Accounts created before email verification existed are treated as verified.
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'emailVerified')
+        BEGIN
+          ALTER TABLE Users ADD emailVerified BIT NOT NULL DEFAULT 0;
+          EXEC('UPDATE Users SET emailVerified = 1');
+        END
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'emailVerifiedAt')
+        ALTER TABLE Users ADD emailVerifiedAt DATETIME2;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'failedLoginAttempts')
+        ALTER TABLE Users ADD failedLoginAttempts INT NOT NULL DEFAULT 0;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'lastFailedLoginAt')
+        ALTER TABLE Users ADD lastFailedLoginAt DATETIME2;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'lockedUntil')
+        ALTER TABLE Users ADD lockedUntil DATETIME2;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'passwordChangedAt')
+        ALTER TABLE Users ADD passwordChangedAt DATETIME2;
+      `);
+
+      // Add two-factor authentication columns to existing Users table if they don't exist
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'twoFactorEnabled')
+        ALTER TABLE Users ADD twoFactorEnabled BIT NOT NULL DEFAULT 0;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'twoFactorSecret')
+        ALTER TABLE Users ADD twoFactorSecret NVARCHAR(255);
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'twoFactorPendingSecret')
+        ALTER TABLE Users ADD twoFactorPendingSecret NVARCHAR(255);
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'twoFactorEnabledAt')
+        ALTER TABLE Users ADD twoFactorEnabledAt DATETIME2;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'twoFactorLastUsedStep')
+        ALTER TABLE Users ADD twoFactorLastUsedStep BIGINT;
+      `);
+
+      // Add account deletion columns to existing Users table if they don't exist
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'deletionRequestedAt')
+        ALTER TABLE Users ADD deletionRequestedAt DATETIME2;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'deletionScheduledFor')
+        ALTER TABLE Users ADD deletionScheduledFor DATETIME2;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Users' AND COLUMN_NAME = 'deletedAt')
+        ALTER TABLE Users ADD deletedAt DATETIME2;
+      `);
+
+      // Look up users by their external sign-in identity
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_Users_Provider_ProviderId')
+        CREATE INDEX IX_Users_Provider_ProviderId ON Users(provider, providerId)
+      `);
+
       // Create Workspaces table
       await this.pool.request().query(`
         IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Workspaces' AND xtype='U')
@@ -250,6 +326,9 @@ export class DatabaseManager {
           messageCount INT DEFAULT 0,
           isArchived BIT DEFAULT 0,
           lastMessageAt DATETIME2,
+          summary NVARCHAR(MAX),
+          summaryThroughMessageId NVARCHAR(255),
+          summaryUpdatedAt DATETIME2,
           createdAt DATETIME2 DEFAULT GETUTCDATE(),
           updatedAt DATETIME2 DEFAULT GETUTCDATE(),
           FOREIGN KEY (userId) REFERENCES Users(id) ON DELETE CASCADE,
@@ -257,6 +336,16 @@ export class DatabaseManager {
         )
       `);
 
+      // Add conversation summary columns to existing Chats table if they don't exist
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Chats' AND COLUMN_NAME = 'summary')
+        ALTER TABLE Chats ADD summary NVARCHAR(MAX);
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Chats' AND COLUMN_NAME = 'summaryThroughMessageId')
+        ALTER TABLE Chats ADD summaryThroughMessageId NVARCHAR(255);
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Chats' AND COLUMN_NAME = 'summaryUpdatedAt')
+        ALTER TABLE Chats ADD summaryUpdatedAt DATETIME2;
+      `);
+
       // Create Messages table
       await this.pool.request().query(`
         IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Messages' AND xtype='U')
@@ -270,12 +359,35 @@ export class DatabaseManager {
           tokens INT DEFAULT 0,
           isEdited BIT DEFAULT 0,
           editedAt DATETIME2,
+          parentMessageId NVARCHAR(255),
+          isActive BIT NOT NULL DEFAULT 1,
           createdAt DATETIME2 DEFAULT GETUTCDATE(),
           FOREIGN KEY (chatId) REFERENCES Chats(id) ON DELETE CASCADE,
           FOREIGN KEY (userId) REFERENCES Users(id)
         )
       `);
 
+      // Add branching columns to existing Messages table if they don't exist. Existing
+      // messages are linked to the message before them so each chat becomes a single branch.
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Messages' AND COLUMN_NAME = 'parentMessageId')
+        BEGIN
+          ALTER TABLE Messages ADD parentMessageId NVARCHAR(255);
+          EXEC('UPDATE m SET parentMessageId = (
+            SELECT TOP 1 p.id FROM Messages p
+            WHERE p.chatId = m.chatId AND (p.createdAt < m.createdAt OR (p.createdAt = m.createdAt AND p.id < m.id))
+            ORDER BY p.createdAt DESC, p.id DESC
+          ) FROM Messages m');
+        END
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Messages' AND COLUMN_NAME = 'isActive')
+        ALTER TABLE Messages ADD isActive BIT NOT NULL DEFAULT 1;
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_Messages_ChatId_Active')
+        CREATE INDEX IX_Messages_ChatId_Active ON Messages(chatId, isActive, createdAt)
+      `);
+
       // Create MessageActions table for likes, bookmarks, etc.
       await this.pool.request().query(`
         IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='MessageActions' AND xtype='U')
@@ -317,15 +429,73 @@ export class DatabaseManager {
           userId NVARCHAR(255) NOT NULL,
           token NVARCHAR(500) NOT NULL,
           refreshToken NVARCHAR(500),
+          previousRefreshToken NVARCHAR(500),
           expiresAt DATETIME2 NOT NULL,
           isActive BIT DEFAULT 1,
           userAgent NVARCHAR(1000),
           ipAddress NVARCHAR(45),
           createdAt DATETIME2 DEFAULT GETUTCDATE(),
+          lastUsedAt DATETIME2 DEFAULT GETUTCDATE(),
+          revokedAt DATETIME2,
+          twoFactorVerified BIT NOT NULL DEFAULT 0,
           FOREIGN KEY (userId) REFERENCES Users(id)
         )
       `);
 
+      // Add refresh token rotation columns to existing Sessions table if they don't exist
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Sessions' AND COLUMN_NAME = 'previousRefreshToken')
+        ALTER TABLE Sessions ADD previousRefreshToken NVARCHAR(500);
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Sessions' AND COLUMN_NAME = 'lastUsedAt')
+        ALTER TABLE Sessions ADD lastUsedAt DATETIME2;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Sessions' AND COLUMN_NAME = 'revokedAt')
+        ALTER TABLE Sessions ADD revokedAt DATETIME2;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'Sessions' AND COLUMN_NAME = 'twoFactorVerified')
+        ALTER TABLE Sessions ADD twoFactorVerified BIT NOT NULL DEFAULT 0;
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_Sessions_UserId_Active')
+        CREATE INDEX IX_Sessions_UserId_Active ON Sessions(userId, isActive)
+      `);
+
+      // Create UserTokens table for one-time email verification and password reset tokens
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='UserTokens' AND xtype='U')
+        CREATE TABLE UserTokens (
+          id NVARCHAR(255) PRIMARY KEY,
+          userId NVARCHAR(255) NOT NULL,
+          purpose NVARCHAR(50) NOT NULL CHECK (purpose IN ('verify_email', 'reset_password')),
+          expiresAt DATETIME2 NOT NULL,
+          usedAt DATETIME2,
+          createdAt DATETIME2 DEFAULT GETUTCDATE(),
+          FOREIGN KEY (userId) REFERENCES Users(id) ON DELETE CASCADE
+        )
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_UserTokens_UserId_Purpose')
+        CREATE INDEX IX_UserTokens_UserId_Purpose ON UserTokens(userId, purpose, createdAt)
+      `);
+
+      // Create UserRecoveryCodes table for two-factor recovery codes
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='UserRecoveryCodes' AND xtype='U')
+        CREATE TABLE UserRecoveryCodes (
+          id NVARCHAR(255) PRIMARY KEY,
+          userId NVARCHAR(255) NOT NULL,
+          codeHash NVARCHAR(64) NOT NULL,
+          usedAt DATETIME2,
+          createdAt DATETIME2 DEFAULT GETUTCDATE(),
+          FOREIGN KEY (userId) REFERENCES Users(id) ON DELETE CASCADE
+        )
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_UserRecoveryCodes_UserId')
+        CREATE INDEX IX_UserRecoveryCodes_UserId ON UserRecoveryCodes(userId)
+      `);
+
       // Create WorkspaceUsers table for user-workspace assignments
       await this.pool.request().query(`
         IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='WorkspaceUsers' AND xtype='U')
@@ -343,6 +513,41 @@ export class DatabaseManager {
         )
       `);
 
+      // Create WorkspaceInvitations table for email invitations and join links. Only a hash
+      // of each invitation token is stored.
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='WorkspaceInvitations' AND xtype='U')
+        CREATE TABLE WorkspaceInvitations (
+          id NVARCHAR(255) PRIMARY KEY,
+          workspaceId NVARCHAR(255) NOT NULL,
+          type NVARCHAR(20) NOT NULL CHECK (type IN ('email', 'link')),
+          email NVARCHAR(255),
+          tokenHash NVARCHAR(64) NOT NULL UNIQUE,
+          accessLevel NVARCHAR(50) NOT NULL CHECK (accessLevel IN ('admin', 'member', 'readonly')),
+          maxUses INT,
+          useCount INT NOT NULL DEFAULT 0,
+          status NVARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+          expiresAt DATETIME2 NOT NULL,
+          createdBy NVARCHAR(255) NOT NULL,
+          createdAt DATETIME2 DEFAULT GETUTCDATE(),
+          respondedAt DATETIME2,
+          respondedBy NVARCHAR(255),
+          revokedAt DATETIME2,
+          FOREIGN KEY (workspaceId) REFERENCES Workspaces(id) ON DELETE CASCADE,
+          FOREIGN KEY (createdBy) REFERENCES Users(id)
+        )
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_WorkspaceInvitations_WorkspaceId_Status')
+        CREATE INDEX IX_WorkspaceInvitations_WorkspaceId_Status ON WorkspaceInvitations(workspaceId, status)
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_WorkspaceInvitations_Email')
+        CREATE INDEX IX_WorkspaceInvitations_Email ON WorkspaceInvitations(email)
+      `);
+
       // Create AuditLogs table
       await this.pool.request().query(`
         IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='AuditLogs' AND xtype='U')
@@ -360,6 +565,16 @@ export class DatabaseManager {
         )
       `);
 
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_AuditLogs_CreatedAt')
+        CREATE INDEX IX_AuditLogs_CreatedAt ON AuditLogs(createdAt DESC)
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_AuditLogs_UserId_CreatedAt')
+        CREATE INDEX IX_AuditLogs_UserId_CreatedAt ON AuditLogs(userId, createdAt DESC)
+      `);
+
       // Create DatabaseConnections table
       await this.pool.request().query(`
         IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='DatabaseConnections' AND xtype='U')
@@ -372,16 +587,71 @@ export class DatabaseManager {
           port INT NOT NULL,
           [database] NVARCHAR(200),
           username NVARCHAR(200),
-          password NVARCHAR(500), -- In production, this should be encrypted
+          password NVARCHAR(MAX), -- Encrypted by ConnectionSecretService
+          encrypt BIT NOT NULL DEFAULT 1,
+          trustServerCertificate BIT NOT NULL DEFAULT 0,
           status NVARCHAR(50) DEFAULT 'disconnected' CHECK (status IN ('connected', 'disconnected', 'error')),
           isDefault BIT DEFAULT 0,
           lastConnected DATETIME2,
+          lastTestedAt DATETIME2,
+          lastLatencyMs INT,
+          lastError NVARCHAR(1000),
+          serverVersion NVARCHAR(500),
+          allowWrites BIT NOT NULL DEFAULT 0, -- Write mode: admins may run INSERT/UPDATE/DELETE/MERGE
+          writeModeChangedBy NVARCHAR(255),
+          writeModeChangedAt DATETIME2,
           createdAt DATETIME2 DEFAULT GETUTCDATE(),
           updatedAt DATETIME2 DEFAULT GETUTCDATE(),
           FOREIGN KEY (userId) REFERENCES Users(id)
         )
       `);
 
+      // Connection passwords used to be stored in plaintext in NVARCHAR(500); encrypted
+      // values need more room. Existing rows are encrypted at startup.
+      await this.pool.request().query(`
+        IF EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'DatabaseConnections' AND COLUMN_NAME = 'password' AND CHARACTER_MAXIMUM_LENGTH <> -1)
+        ALTER TABLE DatabaseConnections ALTER COLUMN password NVARCHAR(MAX)
+      `);
+
+      // Add connection options and test results to existing DatabaseConnections tables
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'DatabaseConnections' AND COLUMN_NAME = 'encrypt')
+        ALTER TABLE DatabaseConnections ADD encrypt BIT NOT NULL DEFAULT 1;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'DatabaseConnections' AND COLUMN_NAME = 'trustServerCertificate')
+        ALTER TABLE DatabaseConnections ADD trustServerCertificate BIT NOT NULL DEFAULT 0;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'DatabaseConnections' AND COLUMN_NAME = 'lastTestedAt')
+        ALTER TABLE DatabaseConnections ADD lastTestedAt DATETIME2;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'DatabaseConnections' AND COLUMN_NAME = 'lastLatencyMs')
+        ALTER TABLE DatabaseConnections ADD lastLatencyMs INT;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'DatabaseConnections' AND COLUMN_NAME = 'lastError')
+        ALTER TABLE DatabaseConnections ADD lastError NVARCHAR(1000);
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'DatabaseConnections' AND COLUMN_NAME = 'serverVersion')
+        ALTER TABLE DatabaseConnections ADD serverVersion NVARCHAR(500);
+      `);
+
+      // Add write mode to existing DatabaseConnections tables; connections stay read-only
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'DatabaseConnections' AND COLUMN_NAME = 'allowWrites')
+        ALTER TABLE DatabaseConnections ADD allowWrites BIT NOT NULL DEFAULT 0;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'DatabaseConnections' AND COLUMN_NAME = 'writeModeChangedBy')
+        ALTER TABLE DatabaseConnections ADD writeModeChangedBy NVARCHAR(255);
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'DatabaseConnections' AND COLUMN_NAME = 'writeModeChangedAt')
+        ALTER TABLE DatabaseConnections ADD writeModeChangedAt DATETIME2;
+      `);
+
+      // Create ConnectionDataKeys table: data keys for connection passwords, wrapped by the master key
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='ConnectionDataKeys' AND xtype='U')
+        CREATE TABLE ConnectionDataKeys (
+          id NVARCHAR(255) PRIMARY KEY,
+          wrappedKey NVARCHAR(500) NOT NULL,
+          masterKeyId NVARCHAR(64) NOT NULL,
+          status NVARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+          createdAt DATETIME2 DEFAULT GETUTCDATE(),
+          retiredAt DATETIME2
+        )
+      `);
+
       // Create Feedback table
       await this.pool.request().query(`
         IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Feedback' AND xtype='U')
@@ -415,12 +685,31 @@ export class DatabaseManager {
           url NVARCHAR(1000) NOT NULL,
           userId NVARCHAR(255) NOT NULL,
           workspaceId NVARCHAR(255) NOT NULL,
+          contentHash NVARCHAR(64),
+          indexedContentHash NVARCHAR(64),
+          indexVersion INT,
+          indexedChunkCount INT,
+          indexedAt DATETIME2,
           createdAt DATETIME2 DEFAULT GETUTCDATE(),
           FOREIGN KEY (userId) REFERENCES Users(id) ON DELETE CASCADE,
           FOREIGN KEY (workspaceId) REFERENCES Workspaces(id) ON DELETE NO ACTION
         )
       `);
 
+      // Add incremental indexing columns to existing WorkspaceFiles table if they don't exist
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'WorkspaceFiles' AND COLUMN_NAME = 'contentHash')
+        ALTER TABLE WorkspaceFiles ADD contentHash NVARCHAR(64);
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'WorkspaceFiles' AND COLUMN_NAME = 'indexedContentHash')
+        ALTER TABLE WorkspaceFiles ADD indexedContentHash NVARCHAR(64);
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'WorkspaceFiles' AND COLUMN_NAME = 'indexVersion')
+        ALTER TABLE WorkspaceFiles ADD indexVersion INT;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'WorkspaceFiles' AND COLUMN_NAME = 'indexedChunkCount')
+        ALTER TABLE WorkspaceFiles ADD indexedChunkCount INT;
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'WorkspaceFiles' AND COLUMN_NAME = 'indexedAt')
+        ALTER TABLE WorkspaceFiles ADD indexedAt DATETIME2;
+      `);
+
       await this.pool.request().query(`
         IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_WorkspaceFiles_WorkspaceId')
         CREATE INDEX IX_WorkspaceFiles_WorkspaceId ON WorkspaceFiles(workspaceId)
@@ -436,6 +725,133 @@ export class DatabaseManager {
         CREATE INDEX IX_WorkspaceFiles_CreatedAt ON WorkspaceFiles(createdAt DESC)
       `);
 
+      // Create IndexingJobs table for the background indexing queue. A workspace job fans out
+      // into one file job per file (linked by parentJobId); uploads enqueue file jobs directly.
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='IndexingJobs' AND xtype='U')
+        CREATE TABLE IndexingJobs (
+          id NVARCHAR(255) PRIMARY KEY,
+          workspaceId NVARCHAR(255) NOT NULL,
+          fileId NVARCHAR(255),
+          parentJobId NVARCHAR(255),
+          type NVARCHAR(50) NOT NULL CHECK (type IN ('workspace', 'file')),
+          status NVARCHAR(50) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'skipped')),
+          attempts INT DEFAULT 0,
+          maxAttempts INT DEFAULT 5,
+          runAfter DATETIME2 DEFAULT GETUTCDATE(),
+          lockedBy NVARCHAR(255),
+          lockedAt DATETIME2,
+          filesTotal INT DEFAULT 0,
+          filesProcessed INT DEFAULT 0,
+          filesFailed INT DEFAULT 0,
+          filesSkipped INT DEFAULT 0,
+          chunkCount INT DEFAULT 0,
+          force BIT DEFAULT 0,
+          lastError NVARCHAR(MAX),
+          createdBy NVARCHAR(255),
+          createdAt DATETIME2 DEFAULT GETUTCDATE(),
+          startedAt DATETIME2,
+          completedAt DATETIME2,
+          updatedAt DATETIME2 DEFAULT GETUTCDATE(),
+          FOREIGN KEY (workspaceId) REFERENCES Workspaces(id) ON DELETE CASCADE
+        )
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_IndexingJobs_Status_RunAfter')
+        CREATE INDEX IX_IndexingJobs_Status_RunAfter ON IndexingJobs(status, runAfter)
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_IndexingJobs_ParentJobId')
+        CREATE INDEX IX_IndexingJobs_ParentJobId ON IndexingJobs(parentJobId)
+      `);
+
+      // Add force column to existing IndexingJobs table if it doesn't exist
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'IndexingJobs' AND COLUMN_NAME = 'force')
+        ALTER TABLE IndexingJobs ADD force BIT DEFAULT 0
+      `);
+
+      // Create SavedQueries table: a question or a raw SQL/DAX/MongoDB query, optionally run on
+      // a cron schedule by SavedQueryService with results delivered to history or a webhook
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='SavedQueries' AND xtype='U')
+        CREATE TABLE SavedQueries (
+          id NVARCHAR(255) PRIMARY KEY,
+          userId NVARCHAR(255) NOT NULL,
+          name NVARCHAR(200) NOT NULL,
+          description NVARCHAR(1000),
+          kind NVARCHAR(20) NOT NULL CHECK (kind IN ('question', 'query')),
+          question NVARCHAR(1000),
+          query NVARCHAR(MAX),
+          queryType NVARCHAR(20) CHECK (queryType IN ('dax', 'sql', 'mongo')),
+          datasetId NVARCHAR(255),
+          connectionId NVARCHAR(255),
+          workspaceId NVARCHAR(255),
+          visualization NVARCHAR(MAX), -- JSON
+          keyColumns NVARCHAR(MAX), -- JSON array; rows are matched on these when diffing runs
+          schedule NVARCHAR(100), -- Cron expression; NULL runs only on demand
+          timeZone NVARCHAR(100) NOT NULL DEFAULT 'UTC',
+          isActive BIT NOT NULL DEFAULT 1,
+          deliverTo NVARCHAR(100) NOT NULL DEFAULT 'history', -- Comma-separated: history, webhook
+          notifyOn NVARCHAR(20) NOT NULL DEFAULT 'changes' CHECK (notifyOn IN ('always', 'changes')),
+          webhookUrl NVARCHAR(2000),
+          webhookSecret NVARCHAR(128),
+          historyChatId NVARCHAR(255),
+          nextRunAt DATETIME2,
+          lastRunAt DATETIME2,
+          lastRunStatus NVARCHAR(20),
+          lastError NVARCHAR(1000),
+          lockedBy NVARCHAR(255),
+          lockedAt DATETIME2,
+          createdAt DATETIME2 DEFAULT GETUTCDATE(),
+          updatedAt DATETIME2 DEFAULT GETUTCDATE(),
+          FOREIGN KEY (userId) REFERENCES Users(id) ON DELETE CASCADE
+        )
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_SavedQueries_UserId')
+        CREATE INDEX IX_SavedQueries_UserId ON SavedQueries(userId)
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_SavedQueries_IsActive_NextRunAt')
+        CREATE INDEX IX_SavedQueries_IsActive_NextRunAt ON SavedQueries(isActive, nextRunAt)
+      `);
+
+      // Create SavedQueryRuns table: one row per run with a snapshot of the result and its diff
+      // against the previous successful run
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='SavedQueryRuns' AND xtype='U')
+        CREATE TABLE SavedQueryRuns (
+          id NVARCHAR(255) PRIMARY KEY,
+          savedQueryId NVARCHAR(255) NOT NULL,
+          [trigger] NVARCHAR(20) NOT NULL CHECK ([trigger] IN ('schedule', 'manual')),
+          status NVARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+          startedAt DATETIME2 DEFAULT GETUTCDATE(),
+          completedAt DATETIME2,
+          [rowCount] INT,
+          truncated BIT NOT NULL DEFAULT 0,
+          columns NVARCHAR(MAX), -- JSON
+          snapshot NVARCHAR(MAX), -- JSON rows, capped at SavedQueryService.SNAPSHOT_MAX_ROWS
+          snapshotHash NVARCHAR(64),
+          executedQuery NVARCHAR(MAX),
+          answer NVARCHAR(MAX),
+          diff NVARCHAR(MAX), -- JSON
+          error NVARCHAR(MAX),
+          deliveryStatus NVARCHAR(MAX), -- JSON
+          createdAt DATETIME2 DEFAULT GETUTCDATE(),
+          FOREIGN KEY (savedQueryId) REFERENCES SavedQueries(id) ON DELETE CASCADE
+        )
+      `);
+
+      await this.pool.request().query(`
+        IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_SavedQueryRuns_SavedQueryId_StartedAt')
+        CREATE INDEX IX_SavedQueryRuns_SavedQueryId_StartedAt ON SavedQueryRuns(savedQueryId, startedAt DESC)
+      `);
+
       logger.info('✅ Database tables created/verified');
     } catch (error) {
       logger.error('❌ Failed to initialize database schema:', error);
@@ -11,6 +11,7 @@ dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
 import { requestSizeLimiter, corsOptions } from './middleware/security';
 import { generalLimiter } from './middleware/rateLimiter';
+import { requestMetrics, requireMetricsToken } from './middleware/metrics';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { authRoutes } from './routes/auth';
@@ -19,6 +20,7 @@ import { userRoutes } from './routes/user';
 import { dataRoutes } from './routes/data';
 import { fileRoutes } from './routes/files';
 import { workspaceRoutes } from './routes/workspace';
+import { invitationRoutes } from './routes/invitations';
 import { searchRoutes } from './routes/search';
 import { adminRoutes } from './routes/admin';
 import { feedbackRoutes } from './routes/feedback';
@@ -33,6 +35,11 @@ import { cardScanRoutes } from './routes/cardScan';
 import { DatabaseManager } from './config/database';
 import { StorageService } from './services/storage';
 import { CacheService } from './services/cache';
+import { IndexingJobService } from './services/indexingJobService';
+import { AccountDeletionService } from './services/accountDeletionService';
+import { SavedQueryService } from './services/savedQueryService';
+import { MetricsService } from './services/metricsService';
+import { ConnectionSecretService } from './services/connectionSecretService';
 import { authenticateToken, requireAdmin } from './middleware/auth';
 
 // Load environment variables
@@ -47,6 +54,8 @@ app.set('trust proxy', true);
 // Use port 3002 instead of 3001 to avoid conflicts
 const PORT = process.env.PORT || 3002;
 
+// Request metrics come first so rejected requests are counted too
+app.use(requestMetrics);
 app.use(requestSizeLimiter);
 app.use(compression());
 
@@ -71,6 +80,12 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Prometheus metrics endpoint (bearer token required when METRICS_TOKEN is set)
+app.get('/metrics', requireMetricsToken, (req, res) => {
+  res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.send(MetricsService.getInstance().toPrometheus());
+});
+
 // API info endpoint
 app.get('/api', (req, res) => {
   res.json({
@@ -99,6 +114,7 @@ app.use('/api/user', userRoutes);
 app.use('/api/data', dataRoutes);
 app.use('/api/files', fileRoutes);
 app.use('/api/workspaces', workspaceRoutes);
+app.use('/api/invitations', invitationRoutes);
 app.use('/api/search', searchRoutes);
 app.use('/api/admin', authenticateToken, requireAdmin, adminRoutes);
 app.use('/api/feedback', feedbackRoutes);
@@ -125,6 +141,8 @@ app.use('*', (req, res) => {
 // Initialize services and start server
 async function startServer() {
   try {
+    MetricsService.getInstance().start();
+
     // Initialize Azure services
     const { initializeAzureServices } = require('./services/azure');
     await initializeAzureServices();
@@ -149,6 +167,32 @@ async function startServer() {
     await cacheService.initialize();
     logger.info('✅ Cache service ready');
     
+    // Start the background indexing worker (disable on instances that should only serve requests)
+    const mockDatabase = process.env.MOCK_SQL === 'true' || process.env.MOCK_DATABASE === 'true';
+    if (process.env.INDEXING_WORKER_ENABLED !== 'false' && !mockDatabase) {
+      IndexingJobService.getInstance().start();
+      logger.info('✅ Indexing worker started');
+    }
+
+    // Encrypt data connection passwords stored before encryption was introduced
+    if (!mockDatabase) {
+      try {
+        await ConnectionSecretService.getInstance().migratePlaintextSecrets();
+      } catch (error) {
+        logger.error('Failed to encrypt stored connection passwords:', error);
+      }
+    }
+
+    // Carry out account deletions whose grace period has ended
+    if (process.env.ACCOUNT_DELETION_WORKER_ENABLED !== 'false' && !mockDatabase) {
+      AccountDeletionService.getInstance().start();
+    }
+
+    // Run saved queries on their schedules
+    if (process.env.SAVED_QUERY_WORKER_ENABLED !== 'false' && !mockDatabase) {
+      SavedQueryService.getInstance().start();
+    }
+    
     app.listen(PORT, () => {
       logger.info(`🚀 AIVA Backend API running on port ${PORT}`);
       logger.info(`📊 Health check: http://localhost:${PORT}/health`);
@@ -166,6 +210,11 @@ process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
   
   // Cleanup services
+  IndexingJobService.getInstance().stop();
+  AccountDeletionService.getInstance().stop();
+  SavedQueryService.getInstance().stop();
+  MetricsService.getInstance().stop();
+  
   const dbManager = DatabaseManager.getInstance();
   dbManager.disconnect();
   
@@ -179,6 +228,11 @@ process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
   
   // Cleanup services
+  IndexingJobService.getInstance().stop();
+  AccountDeletionService.getInstance().stop();
+  SavedQueryService.getInstance().stop();
+  MetricsService.getInstance().stop();
+  
   const dbManager = DatabaseManager.getInstance();
   dbManager.disconnect();
   
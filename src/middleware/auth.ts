@@ -2,6 +2,9 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { logger } from '../utils/logger';
 import { DatabaseManager } from '../config/database';
+import { SessionService, SessionState } from '../services/sessionService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { WorkspacePermissionService, WorkspaceAccess, WorkspaceCapability } from '../services/workspacePermissionService';
 import sql from 'mssql';
 
 // Extend Request interface to include user
@@ -12,12 +15,16 @@ declare global {
         userId: string;
         email: string;
         role?: string;
+        sessionId?: string;
+        twoFactorVerified?: boolean;
       };
+      // Set by requireWorkspaceCapability
+      workspaceAccess?: WorkspaceAccess;
     }
   }
 }
 
-export function authenticateToken(req: any, res: any, next: any) {
+export async function authenticateToken(req: any, res: any, next: any) {
   // Development mode: bypass authentication for testing Azure SQL integration
   if (process.env.NODE_ENV === 'development' && process.env.BYPASS_AUTH === 'true') {
     // Check if this is a request with a real token
@@ -31,7 +38,8 @@ export function authenticateToken(req: any, res: any, next: any) {
         req.user = {
           userId: decoded.userId,
           email: decoded.email,
-          role: decoded.role
+          role: decoded.role,
+          sessionId: decoded.sid
         };
         return next();
       } catch (error) {
@@ -59,21 +67,16 @@ export function authenticateToken(req: any, res: any, next: any) {
     });
   }
 
+  let decoded: any;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as any;
-    req.user = {
-      userId: decoded.userId,
-      email: decoded.email,
-      role: decoded.role
-    };
-    next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET as string) as any;
   } catch (error) {
     logger.error('Token verification failed:', error);
     
     if (error instanceof jwt.TokenExpiredError) {
       return res.status(401).json({
         error: 'Token expired',
-        message: 'Please login again'
+        message: 'Refresh the access token or login again'
       });
     }
     
@@ -89,10 +92,47 @@ export function authenticateToken(req: any, res: any, next: any) {
       message: 'Token verification failed'
     });
   }
+
+  // Access tokens are tied to a server-side session so that logout and revocation take effect
+  let twoFactorVerified = false;
+  try {
+    const session = await getTokenSessionState(decoded);
+    twoFactorVerified = session.twoFactorVerified;
+    if (!session.active) {
+      return res.status(401).json({
+        error: 'Session revoked',
+        message: 'Please login again'
+      });
+    }
+  } catch (error) {
+    logger.error('Session check failed:', error);
+    return res.status(500).json({
+      error: 'Authentication failed',
+      message: 'Unable to verify session'
+    });
+  }
+
+  req.user = {
+    userId: decoded.userId,
+    email: decoded.email,
+    role: decoded.role,
+    sessionId: decoded.sid,
+    twoFactorVerified
+  };
+  next();
+}
+
+// The session behind a verified access token. Tokens without a session id are only
+// accepted in mock mode, where there are no sessions.
+async function getTokenSessionState(decoded: any): Promise<SessionState> {
+  const mockMode = process.env.MOCK_SQL === 'true' || process.env.MOCK_DATABASE === 'true';
+  return decoded.sid
+    ? SessionService.getInstance().getSessionState(decoded.sid)
+    : { active: mockMode, twoFactorVerified: mockMode };
 }
 
 // Optional authentication middleware (for public endpoints that can benefit from user context)
-export function optionalAuth(req: Request, res: Response, next: NextFunction) {
+export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -102,13 +142,19 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction) {
 
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as any;
-    req.user = {
-      userId: decoded.userId,
-      email: decoded.email,
-      role: decoded.role
-    };
+    // Tokens of revoked sessions are treated like no token at all
+    const session = await getTokenSessionState(decoded);
+    if (session.active) {
+      req.user = {
+        userId: decoded.userId,
+        email: decoded.email,
+        role: decoded.role,
+        sessionId: decoded.sid,
+        twoFactorVerified: session.twoFactorVerified
+      };
+    }
   } catch (error) {
-    // Ignore token errors for optional auth
+    // Ignore token and session errors for optional auth
     logger.warn('Optional auth token verification failed:', error);
   }
 
@@ -131,5 +177,87 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction) {
     });
   }
 
+  // Sessions without a session id (mock mode, BYPASS_AUTH) have nothing to verify against
+  if (req.user.sessionId && !req.user.twoFactorVerified &&
+      TwoFactorService.getInstance().isRequiredForRole(req.user.role)) {
+    return res.status(403).json({
+      error: 'Two-factor authentication required',
+      message: 'Enroll in two-factor authentication at /api/user/2fa, or sign in again with your authenticator code, to access admin features'
+    });
+  }
+
   next();
-}
\ No newline at end of file
+}
+
+type WorkspaceIdResolver = (req: Request) => string | null | undefined | Promise<string | null | undefined>;
+
+// Workspace capability middleware. Resolves the workspace from the :id route parameter unless
+// a resolver is given, and stores the user's access in req.workspaceAccess for the handler.
+// With optional, requests that don't refer to a workspace are let through.
+export function requireWorkspaceCapability(
+  capability: WorkspaceCapability,
+  options: { workspaceId?: WorkspaceIdResolver; optional?: boolean } = {}
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        message: 'Please login to access this resource'
+      });
+    }
+
+    try {
+      const workspaceId = options.workspaceId ? await options.workspaceId(req) : req.params.id;
+      if (!workspaceId) {
+        if (options.optional) {
+          return next();
+        }
+        return res.status(400).json({
+          error: 'Workspace required',
+          message: 'No workspace was specified'
+        });
+      }
+
+      const access = await WorkspacePermissionService.getInstance().getAccess(workspaceId, req.user);
+      if (!access) {
+        return res.status(404).json({
+          error: 'Workspace not found',
+          message: 'Workspace not found or access denied'
+        });
+      }
+
+      if (!access.capabilities.includes(capability)) {
+        logger.warn(`User ${req.user.userId} (${access.accessLevel}) denied '${capability}' in workspace ${workspaceId}`);
+        return res.status(403).json({
+          error: 'Access denied',
+          message: `Your access level in this workspace does not allow '${capability}'`
+        });
+      }
+
+      req.workspaceAccess = access;
+      next();
+    } catch (error) {
+      logger.error('Workspace access check failed:', error);
+      res.status(500).json({
+        error: 'Failed to verify workspace access'
+      });
+    }
+  };
+}
+
+// Resolver for chat routes: the workspace of one of the user's chats. Chats that don't exist or
+// belong to someone else resolve to nothing, so the route's own lookup answers with a 404.
+export function chatWorkspaceId(getChatId: (req: Request) => string | undefined): WorkspaceIdResolver {
+  return async (req: Request) => {
+    const chatId = getChatId(req);
+    if (!chatId) {
+      return null;
+    }
+    const pool = await DatabaseManager.getInstance().getPool();
+    const result = await pool.request()
+      .input('chatId', sql.NVarChar, chatId)
+      .input('userId', sql.NVarChar, req.user.userId)
+      .query('SELECT workspaceId FROM Chats WHERE id = @chatId AND userId = @userId');
+    return result.recordset[0]?.workspaceId || null;
+  };
+}
@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { MetricsService } from '../services/metricsService';
+
+// Records every request once its response is sent. Requests are labelled with the matched
+// route pattern rather than the URL, so ids in paths don't create new series.
+export const requestMetrics = (req: Request, res: Response, next: NextFunction) => {
+  const startedAt = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const durationMs = Number(process.hrtime.bigint() - startedAt) / 1e6;
+    const route = req.route ? `${req.baseUrl}${String(req.route.path)}` : 'unmatched';
+    MetricsService.getInstance().recordRequest(req.method, route, res.statusCode, durationMs, req.user?.userId);
+  });
+
+  next();
+};
+
+// Protects the Prometheus endpoint with a bearer token when METRICS_TOKEN is set
+export const requireMetricsToken = (req: Request, res: Response, next: NextFunction) => {
+  const expected = process.env.METRICS_TOKEN;
+  if (!expected) {
+    return next();
+  }
+
+  const header = req.headers.authorization || '';
+  const provided = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const expectedDigest = crypto.createHash('sha256').update(expected).digest();
+  const providedDigest = crypto.createHash('sha256').update(provided).digest();
+  if (!crypto.timingSafeEqual(expectedDigest, providedDigest)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid metrics token is required'
+    });
+  }
+
+  next();
+};
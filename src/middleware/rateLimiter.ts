@@ -76,6 +76,20 @@ export const authLimiter = rateLimit({
   }
 });
 
+// Requests that send an email answer 200 whether or not one was sent, so unlike authLimiter
+// every request counts
+export const authEmailLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // limit each IP to 5 verification or reset emails per windowMs
+  handler: (req, res) => {
+    logger.warn(`Auth email rate limit exceeded for IP: ${req.ip}`);
+    res.status(429).json({
+      error: 'Too many authentication attempts',
+      message: 'Too many authentication attempts, please try again later.'
+    });
+  }
+});
+
 export const chatLimiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute
   max: 20, // limit each IP to 20 chat requests per minute
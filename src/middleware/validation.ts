@@ -156,7 +156,7 @@ export const schemas = {
   assignUsersToWorkspace: {
     body: Joi.object({
       userIds: Joi.array().items(Joi.string().pattern(/^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|user_[0-9]+_[a-z0-9]+)$/)).min(1).required(),
-      accessLevel: Joi.string().valid('member', 'readonly').default('member')
+      accessLevel: Joi.string().valid('admin', 'member', 'readonly').default('member')
     })
   },
 
@@ -169,7 +169,48 @@ export const schemas = {
   updateUserAccess: {
     body: Joi.object({
       userId: Joi.string().pattern(/^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|user_[0-9]+_[a-z0-9]+)$/).required(),
-      accessLevel: Joi.string().valid('member', 'readonly').required()
+      accessLevel: Joi.string().valid('admin', 'member', 'readonly').required()
+    })
+  },
+
+  createWorkspaceInvitation: {
+    params: Joi.object({
+      id: Joi.string().uuid().required()
+    }),
+    body: Joi.object({
+      email: Joi.string().email().required(),
+      accessLevel: Joi.string().valid('admin', 'member', 'readonly').default('member'),
+      expiresInDays: Joi.number().integer().min(1).max(30).optional()
+    })
+  },
+
+  createWorkspaceJoinLink: {
+    params: Joi.object({
+      id: Joi.string().uuid().required()
+    }),
+    body: Joi.object({
+      accessLevel: Joi.string().valid('admin', 'member', 'readonly').default('member'),
+      maxUses: Joi.number().integer().min(1).max(1000).optional(),
+      expiresInHours: Joi.number().integer().min(1).max(720).optional()
+    })
+  },
+
+  workspaceInvitationParam: {
+    params: Joi.object({
+      id: Joi.string().uuid().required(),
+      invitationId: Joi.string().uuid().required()
+    })
+  },
+
+  invitationToken: {
+    body: Joi.object({
+      token: Joi.string().max(200).required()
+    })
+  },
+
+  invitationIdParam: {
+    params: Joi.object({
+      invitationId: Joi.string().uuid().required()
     })
   },
 
@@ -188,6 +229,32 @@ export const schemas = {
     })
   },
 
+  workspaceFileParam: {
+    params: Joi.object({
+      id: Joi.string().uuid().required(),
+      fileId: Joi.string().uuid().required()
+    })
+  },
+
+  workspaceIndex: {
+    params: Joi.object({
+      id: Joi.string().uuid().required()
+    }),
+    body: Joi.object({
+      force: Joi.boolean().optional()
+    }),
+    query: Joi.object({
+      force: Joi.boolean().optional()
+    })
+  },
+
+  workspaceJobParam: {
+    params: Joi.object({
+      id: Joi.string().uuid().required(),
+      jobId: Joi.string().uuid().required()
+    })
+  },
+
   chatIdParam: {
     params: Joi.object({
       chatId: Joi.string().uuid().required()
@@ -200,6 +267,23 @@ export const schemas = {
     })
   },
 
+  chatMessageParam: {
+    params: Joi.object({
+      chatId: Joi.string().uuid().required(),
+      messageId: Joi.string().uuid().required()
+    })
+  },
+
+  editMessage: {
+    params: Joi.object({
+      chatId: Joi.string().uuid().required(),
+      messageId: Joi.string().uuid().required()
+    }),
+    body: Joi.object({
+      message: Joi.string().trim().min(1).max(4000).required()
+    })
+  },
+
   // Pagination schema
   pagination: {
     query: Joi.object({
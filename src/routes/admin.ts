@@ -1,10 +1,54 @@
 import express from 'express';
 import { DatabaseManager } from '../config/database';
-import { logger } from '../utils/logger';
+import { logger, getRecentLogs } from '../utils/logger';
 import sql from 'mssql';
+import Joi from 'joi';
+import { validate } from '../middleware/validation';
+import { AuditService, getAuditContext } from '../services/auditService';
+import { SessionService } from '../services/sessionService';
+import { MetricsService } from '../services/metricsService';
+import { ConnectionSecretService, ConnectionSecretError } from '../services/connectionSecretService';
 
 const router = express.Router();
 const dbManager = DatabaseManager.getInstance();
+const auditService = AuditService.getInstance();
+
+const updateUserRoleSchema = {
+  params: Joi.object({
+    id: Joi.string().required()
+  }),
+  body: Joi.object({
+    role: Joi.string().valid('user', 'admin').required()
+  })
+};
+
+const auditQuerySchema = {
+  query: Joi.object({
+    actor: Joi.string().max(255),
+    resource: Joi.string().max(100),
+    action: Joi.string().max(100),
+    from: Joi.date().iso(),
+    to: Joi.date().iso(),
+    page: Joi.number().integer().min(1),
+    limit: Joi.number().integer().min(1).max(200),
+    format: Joi.string().valid('json', 'csv')
+  })
+};
+
+const rotateConnectionKeySchema = {
+  body: Joi.object({
+    scope: Joi.string().valid('data-key', 'master-key').required()
+  })
+};
+
+const monitoringQuerySchema = {
+  query: Joi.object({
+    minutes: Joi.number().integer().min(1).max(60)
+  })
+};
+
+// At most this many rows go into one CSV export
+const AUDIT_EXPORT_LIMIT = 10000;
 
 // Get server configuration
 router.get('/config', async (req, res) => {
@@ -169,6 +213,132 @@ router.get('/users', async (req, res) => {
   }
 });
 
+// Change a user's role. Their sessions are revoked so tokens carrying the old role stop working.
+router.put('/users/:id/role', validate(updateUserRoleSchema), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    if (id === req.user.userId) {
+      return res.status(400).json({
+        error: 'Cannot change own role',
+        message: 'Ask another admin to change your role'
+      });
+    }
+
+    const pool = await dbManager.getPool();
+    const current = await pool.request()
+      .input('id', sql.NVarChar, id)
+      .query('SELECT role FROM Users WHERE id = @id');
+    if (current.recordset.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const previousRole = current.recordset[0].role;
+    if (previousRole === role) {
+      return res.json({ message: 'Role unchanged', userId: id, role });
+    }
+
+    await pool.request()
+      .input('id', sql.NVarChar, id)
+      .input('role', sql.NVarChar, role)
+      .query('UPDATE Users SET role = @role, updatedAt = GETUTCDATE() WHERE id = @id');
+    await SessionService.getInstance().revokeOtherSessions(id);
+
+    await auditService.record(getAuditContext(req), {
+      action: 'user_role_changed',
+      resource: 'user',
+      resourceId: id,
+      details: { before: { role: previousRole }, after: { role } }
+    });
+
+    logger.info(`Role of user ${id} changed from ${previousRole} to ${role} by ${req.user.userId}`);
+    res.json({ message: 'Role updated', userId: id, role });
+  } catch (error) {
+    logger.error('Update user role error:', error);
+    res.status(500).json({ error: 'Failed to update role' });
+  }
+});
+
+// Encryption keys of data connection passwords
+router.get('/connection-keys', async (req, res) => {
+  try {
+    const status = await ConnectionSecretService.getInstance().getStatus();
+    res.json({ message: 'Connection key status retrieved successfully', status });
+  } catch (error) {
+    logger.error('Get connection key status error:', error);
+    const statusCode = error instanceof ConnectionSecretError ? error.statusCode : 500;
+    res.status(statusCode).json({
+      error: 'Failed to retrieve connection key status',
+      message: error instanceof ConnectionSecretError ? error.message : 'Please try again later'
+    });
+  }
+});
+
+// Rotate the data key (re-encrypts every connection password) or the master key (rewraps
+// the data keys)
+router.post('/connection-keys/rotate', validate(rotateConnectionKeySchema), async (req, res) => {
+  try {
+    const { scope } = req.body;
+    const connectionSecrets = ConnectionSecretService.getInstance();
+    const result = scope === 'master-key'
+      ? await connectionSecrets.rotateMasterKey()
+      : await connectionSecrets.rotateDataKey();
+
+    await auditService.record(getAuditContext(req), {
+      action: 'connection_key_rotated',
+      resource: 'connection_key',
+      resourceId: 'dataKeyId' in result ? result.dataKeyId : result.masterKeyId,
+      details: { scope, ...result }
+    });
+
+    res.json({ message: 'Connection key rotated', scope, result });
+  } catch (error) {
+    logger.error('Rotate connection key error:', error);
+    const statusCode = error instanceof ConnectionSecretError ? error.statusCode : 500;
+    res.status(statusCode).json({
+      error: 'Failed to rotate connection key',
+      message: error instanceof ConnectionSecretError ? error.message : 'Please try again later'
+    });
+  }
+});
+
+// Audit log, filterable by actor (user id or email), resource, action and date range.
+// ?format=csv downloads every matching entry up to AUDIT_EXPORT_LIMIT.
+router.get('/audit', validate(auditQuerySchema), async (req, res) => {
+  try {
+    const { actor, resource, action, from, to, page = 1, limit = 50, format = 'json' } = req.query as Record<string, string | undefined>;
+    const filter = {
+      actor,
+      resource,
+      action,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined
+    };
+
+    if (format === 'csv') {
+      const { entries } = await auditService.list({ ...filter, page: 1, limit: AUDIT_EXPORT_LIMIT });
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      return res.send(auditService.toCsv(entries));
+    }
+
+    const { entries, total } = await auditService.list({ ...filter, page: Number(page), limit: Number(limit) });
+    res.json({
+      entries,
+      pagination: {
+        page: Number(page),
+        limit: Number(limit),
+        total,
+        pages: Math.ceil(total / Number(limit))
+      }
+    });
+  } catch (error) {
+    logger.error('Get audit log error:', error);
+    res.status(500).json({ error: 'Failed to retrieve audit log' });
+  }
+});
+
 // Get disliked messages
 router.get('/disliked-messages', async (req, res) => {
   try {
@@ -288,37 +458,14 @@ router.get('/azure-services', async (req, res) => {
   }
 });
 
-// Get system monitoring data
-router.get('/monitoring', async (req, res) => {
+// Get system monitoring data: metrics of this instance and its recent warnings and errors
+router.get('/monitoring', validate(monitoringQuerySchema), async (req, res) => {
   try {
-    // Simulate system metrics (in production, integrate with actual monitoring)
-    const metrics = {
-      cpu: Math.floor(Math.random() * 40) + 20, // 20-60%
-      memory: Math.floor(Math.random() * 30) + 50, // 50-80%
-      disk: Math.floor(Math.random() * 20) + 30, // 30-50%
-      network: Math.floor(Math.random() * 100) + 50, // 50-150 Mbps
-      activeUsers: Math.floor(Math.random() * 50) + 25,
-      requestsPerMin: Math.floor(Math.random() * 200) + 100,
-      responseTime: Math.floor(Math.random() * 100) + 50, // 50-150ms
-      uptime: '99.8%'
-    };
-
-    // Get recent logs
-    const pool = await dbManager.getPool();
-    const recentLogs = await pool.request().query(`
-      SELECT TOP 20
-        'INFO' as level,
-        'User ' + u.firstName + ' ' + u.lastName + ' sent a message' as message,
-        m.createdAt as timestamp
-      FROM Messages m
-      JOIN Users u ON m.userId = u.id
-      WHERE m.role = 'user'
-      ORDER BY m.createdAt DESC
-    `);
+    const minutes = req.query.minutes ? Number(req.query.minutes) : 15;
 
     res.json({
-      metrics,
-      logs: recentLogs.recordset
+      metrics: MetricsService.getInstance().getSnapshot(minutes),
+      logs: getRecentLogs(50)
     });
   } catch (error) {
     logger.error('Get monitoring data error:', error);
@@ -3,7 +3,11 @@ import { authenticateToken } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import { aiLimiter } from '../middleware/rateLimiter';
 import { AdminDataService } from '../services/adminDataService';
+import { ExternalDatabaseService } from '../services/externalDatabaseService';
+import { DatabaseDriverError } from '../services/databaseDriver';
+import { QueryRejectedError } from '../services/queryGuardService';
 import { logger } from '../utils/logger';
+import { AuditService, getAuditContext } from '../services/auditService';
 import { DatabaseManager } from '../config/database';
 import Joi from 'joi';
 import { v4 as uuidv4 } from 'uuid';
@@ -15,6 +19,8 @@ const router = express.Router();
 router.use(authenticateToken);
 
 const adminDataService = AdminDataService.getInstance();
+const externalDatabases = ExternalDatabaseService.getInstance();
+const auditService = AuditService.getInstance();
 
 // Middleware to check admin privileges
 const requireAdmin = (req: any, res: any, next: any) => {
@@ -104,7 +110,19 @@ router.post('/question', aiLimiter, validate(adminDataQuestionSchema), async (re
   }
 });
 
-// Admin execute direct query endpoint
+// What the audit log keeps of an admin query; very long queries are truncated
+function auditQueryDetails(body: any) {
+  return {
+    queryType: body.queryType,
+    query: typeof body.query === 'string' ? body.query.substring(0, 4000) : null,
+    datasetId: body.datasetId || null,
+    connectionId: body.connectionId || null,
+    workspaceId: body.workspaceId || null
+  };
+}
+
+// Admin execute direct query endpoint. Writes on a connection in write mode are audited
+// separately from reads, and so are queries the guard rejects.
 router.post('/query', aiLimiter, validate(adminExecuteQuerySchema), async (req, res) => {
   try {
     const { query, queryType, datasetId, connectionId, workspaceId } = req.body;
@@ -119,6 +137,21 @@ router.post('/query', aiLimiter, validate(adminExecuteQuerySchema), async (req,
       userId
     });
 
+    const isWrite = !!result.statementType && result.statementType !== 'select';
+    await auditService.record(getAuditContext(req), {
+      action: isWrite ? 'admin_write_query_executed' : 'admin_query_executed',
+      resource: 'data_query',
+      resourceId: connectionId || datasetId || null,
+      details: {
+        ...auditQueryDetails(req.body),
+        statementType: result.statementType || null,
+        tables: result.tables || [],
+        rowCount: result.rowCount,
+        rowsAffected: isWrite ? result.rowsAffected : undefined,
+        executionTime: result.executionTime
+      }
+    });
+
     res.json({
       message: 'Admin query executed successfully',
       result: {
@@ -126,15 +159,44 @@ router.post('/query', aiLimiter, validate(adminExecuteQuerySchema), async (req,
         columns: result.columns,
         executionTime: result.executionTime,
         queryType: result.queryType,
+        statementType: result.statementType,
+        rowsAffected: result.rowsAffected,
         cached: result.cached,
+        truncated: result.truncated ?? result.data.length > AdminDataService.MAX_ROWS,
         // Include more data for admin (up to 5000 rows)
-        data: result.data.slice(0, 5000),
+        data: result.data.slice(0, AdminDataService.MAX_ROWS),
         adminContext: true
       }
     });
 
   } catch (error) {
     logger.error('Admin direct query execution error:', error);
+    if (error instanceof QueryRejectedError) {
+      await auditService.record(getAuditContext(req), {
+        action: 'admin_query_rejected',
+        resource: 'data_query',
+        resourceId: req.body.connectionId || req.body.datasetId || null,
+        details: { ...auditQueryDetails(req.body), reason: error.rejection }
+      });
+      return res.status(error.statusCode).json({
+        error: 'Query rejected',
+        message: error.message,
+        reason: error.rejection
+      });
+    }
+
+    await auditService.record(getAuditContext(req), {
+      action: 'admin_query_failed',
+      resource: 'data_query',
+      resourceId: req.body.connectionId || req.body.datasetId || null,
+      details: { ...auditQueryDetails(req.body), error: error instanceof Error ? error.message : 'Unknown error' }
+    });
+    if (error instanceof DatabaseDriverError) {
+      return res.status(error.statusCode).json({
+        error: 'Failed to execute admin query',
+        message: error.message
+      });
+    }
     res.status(500).json({
       error: 'Failed to execute admin query',
       message: error instanceof Error ? error.message : 'Unknown error occurred'
@@ -294,6 +356,68 @@ router.post('/connections', validate({
   }
 });
 
+// Switch write mode on a connection. In write mode admins can run INSERT, UPDATE, DELETE and
+// MERGE through /query; everyone else, the owner included, stays read-only.
+router.put('/connections/:connectionId/write-mode', validate({
+  params: Joi.object({
+    connectionId: Joi.string().uuid().required()
+  }),
+  body: Joi.object({
+    enabled: Joi.boolean().required()
+  })
+}), async (req, res) => {
+  try {
+    const { connectionId } = req.params;
+    const { enabled } = req.body;
+    const userId = req.user.userId;
+
+    const connection = await externalDatabases.getConnectionById(connectionId);
+    if (!connection) {
+      return res.status(404).json({
+        error: 'Connection not found'
+      });
+    }
+
+    await externalDatabases.setWriteMode(connection, enabled, userId);
+    await auditService.record(getAuditContext(req), {
+      action: 'connection_write_mode_changed',
+      resource: 'database_connection',
+      resourceId: connectionId,
+      details: {
+        name: connection.name,
+        type: connection.type,
+        ownerId: connection.userId,
+        before: !!connection.allowWrites,
+        after: enabled
+      }
+    });
+
+    res.json({
+      message: `Write mode ${enabled ? 'enabled' : 'disabled'}`,
+      connection: {
+        id: connection.id,
+        name: connection.name,
+        type: connection.type,
+        allowWrites: enabled
+      },
+      adminContext: true
+    });
+
+  } catch (error) {
+    logger.error('Change connection write mode error:', error);
+    if (error instanceof DatabaseDriverError) {
+      return res.status(error.statusCode).json({
+        error: 'Failed to change write mode',
+        message: error.message
+      });
+    }
+    res.status(500).json({
+      error: 'Failed to change write mode',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
 // Admin system health check
 router.get('/health', async (req, res) => {
   try {
@@ -1,11 +1,14 @@
 import express from 'express';
-import { ConfidentialClientApplication } from '@azure/msal-node';
-import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import Joi from 'joi';
 import { logger } from '../utils/logger';
-import { createUser, getUserById, getUserByEmail } from '../services/azure';
+import { createUser, getUserById, getUserByEmail, sanitizeUser } from '../services/azure';
 import { authenticateToken } from '../middleware/auth';
+import { SessionService } from '../services/sessionService';
+import { OidcService, OidcError } from '../services/oidcService';
+import { AccountSecurityService } from '../services/accountSecurityService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { authLimiter, authEmailLimiter } from '../middleware/rateLimiter';
 
 const router = express.Router();
 
@@ -18,29 +21,6 @@ router.get('/status', (req, res) => {
   });
 });
 
-// MSAL configuration
-let cca: ConfidentialClientApplication | null = null;
-
-// Only initialize MSAL if all required environment variables are present
-if (process.env.AZURE_CLIENT_ID && process.env.AZURE_CLIENT_SECRET && process.env.AZURE_TENANT_ID) {
-  const msalConfig = {
-    auth: {
-      clientId: process.env.AZURE_CLIENT_ID,
-      clientSecret: process.env.AZURE_CLIENT_SECRET,
-      authority: `https://login.microsoftonline.com/${process.env.AZURE_TENANT_ID}`
-    }
-  };
-  
-  try {
-    cca = new ConfidentialClientApplication(msalConfig);
-    logger.info('✅ Microsoft Authentication initialized');
-  } catch (error) {
-    logger.error('❌ Failed to initialize Microsoft Authentication:', error);
-  }
-} else {
-  logger.warn('⚠️ Microsoft Authentication not initialized: Missing environment variables');
-}
-
 // Validation schemas
 const registerSchema = Joi.object({
   firstName: Joi.string().required().min(2).max(50),
@@ -55,13 +35,64 @@ const loginSchema = Joi.object({
   adminLogin: Joi.boolean().optional() // Allow adminLogin field but make it optional
 });
 
-// Helper function to generate JWT token
-function generateToken(userId: string, email: string, role: string = 'user') {
-  return jwt.sign(
-    { userId, email, role },
-    process.env.JWT_SECRET as string,
-    { expiresIn: process.env.JWT_EXPIRES_IN || '24h' } as jwt.SignOptions
+const emailSchema = Joi.object({
+  email: Joi.string().email().required()
+});
+
+const verifyEmailSchema = Joi.object({
+  token: Joi.string().required()
+});
+
+const resetPasswordSchema = Joi.object({
+  token: Joi.string().required(),
+  password: Joi.string().min(6).required()
+});
+
+const oidcCallbackSchema = Joi.object({
+  code: Joi.string().required(),
+  state: Joi.string().required()
+});
+
+const refreshSchema = Joi.object({
+  refreshToken: Joi.string().required()
+});
+
+const twoFactorVerifySchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: Joi.string().required().max(32)
+});
+
+// Helper function to start a session and return the token fields of the auth response
+async function issueTokens(
+  req: express.Request,
+  userId: string,
+  email: string,
+  role: string = 'user',
+  options: { twoFactorVerified?: boolean } = {}
+) {
+  const tokens = await SessionService.getInstance().createSession(
+    { id: userId, email, role },
+    { userAgent: req.get('user-agent'), ipAddress: req.ip },
+    options
   );
+  return {
+    token: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresIn: tokens.expiresIn,
+    // Admins without 2FA get a session, but admin routes stay closed until they enrol
+    ...(!options.twoFactorVerified && TwoFactorService.getInstance().isRequiredForRole(role)
+      ? { twoFactorEnrollmentRequired: true }
+      : {})
+  };
+}
+
+// Helper function for the step-up response sent instead of tokens to users enrolled in 2FA
+function twoFactorChallenge(userId: string) {
+  return {
+    message: 'Two-factor authentication required',
+    twoFactorRequired: true,
+    challengeToken: TwoFactorService.getInstance().createChallenge(userId)
+  };
 }
 
 // Register endpoint
@@ -103,16 +134,35 @@ router.post('/register', async (req, res) => {
 
     const user = await createUser(userData);
 
-    // Generate token
-    const token = generateToken(user.id, user.email, user.role || 'user');
+    const accountSecurity = AccountSecurityService.getInstance();
+    try {
+      await accountSecurity.sendVerificationEmail(user);
+    } catch (mailError) {
+      // The user can ask for another email, so registration still succeeds
+      logger.error(`Failed to send verification email to ${email}:`, mailError);
+    }
 
-    // Remove password from response
-    const { password: _, ...userResponse } = user;
+    // Remove credentials from response
+    const userResponse = sanitizeUser(user);
+
+    // Without a verified email there is no session until the link in the email is opened
+    if (accountSecurity.isEmailVerificationRequired()) {
+      res.status(201).json({
+        message: 'User registered successfully. Check your email to verify your account.',
+        user: userResponse,
+        verificationRequired: true
+      });
+      logger.info(`User registered: ${email}`);
+      return;
+    }
+
+    // Start a session
+    const tokens = await issueTokens(req, user.id, user.email, user.role || 'user');
 
     res.status(201).json({
       message: 'User registered successfully',
       user: userResponse,
-      token
+      ...tokens
     });
 
     logger.info(`User registered: ${email}`);
@@ -154,14 +204,15 @@ router.post('/login', async (req, res) => {
         updatedAt: new Date().toISOString()
       };
       
-      // Generate token
-      const token = generateToken(mockUser.id, mockUser.email, mockUser.role);
+      // Without a database there are no sessions, so only an access token is issued
+      const { accessToken, expiresIn } = SessionService.getInstance().signAccessToken(mockUser);
       
       logger.info(`Mock login successful for ${email}`);
       
       return res.json({
         user: mockUser,
-        token: token,
+        token: accessToken,
+        expiresIn,
         message: 'Login successful'
       });
     }
@@ -183,25 +234,67 @@ router.post('/login', async (req, res) => {
       });
     }
 
-    // Check password
-    const isValidPassword = await bcrypt.compare(password, user.password);
+    // Refuse locked accounts before looking at the password
+    const accountSecurity = AccountSecurityService.getInstance();
+    const lockedUntil = accountSecurity.getLockedUntil(user);
+    if (lockedUntil) {
+      return res.status(423).json({
+        error: 'Account locked',
+        message: 'Too many failed login attempts. Please try again later or reset your password.',
+        retryAfter: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)
+      });
+    }
+
+    // Check password (accounts created through single sign-on have none)
+    const isValidPassword = user.password ? await bcrypt.compare(password, user.password) : false;
     if (!isValidPassword) {
+      const failure = await accountSecurity.recordFailedLogin(user.id);
+      if (failure.lockedUntil) {
+        return res.status(423).json({
+          error: 'Account locked',
+          message: 'Too many failed login attempts. Please try again later or reset your password.',
+          retryAfter: Math.ceil((failure.lockedUntil.getTime() - Date.now()) / 1000)
+        });
+      }
       return res.status(401).json({
         error: 'Authentication failed',
         message: 'Invalid email or password'
       });
     }
 
-    // Generate token
-    const token = generateToken(user.id, user.email, user.role || 'user');
+    const refusal = accountSecurity.getSignInRefusal(user);
+    if (refusal) {
+      return res.status(403).json({
+        error: 'Account unavailable',
+        message: refusal
+      });
+    }
+
+    if (!user.emailVerified && accountSecurity.isEmailVerificationRequired()) {
+      return res.status(403).json({
+        error: 'Email not verified',
+        message: 'Please verify your email address before logging in'
+      });
+    }
+
+    // Enrolled users finish signing in at /2fa/verify with a code from their authenticator
+    if (user.twoFactorEnabled) {
+      logger.info(`Two-factor challenge issued for ${email}`);
+      return res.json(twoFactorChallenge(user.id));
+    }
 
-    // Remove password from response
-    const { password: _, ...userResponse } = user;
+    await accountSecurity.recordSuccessfulLogin(user.id);
+
+    // Start a session
+    const tokens = await issueTokens(req, user.id, user.email, user.role || 'user');
+
+    // Remove credentials from response
+    const userResponse = sanitizeUser(user);
 
     res.json({
       message: 'Login successful',
       user: userResponse,
-      token
+      ...tokens
     });
 
     logger.info(`User logged in: ${email}`);
@@ -214,188 +307,314 @@ router.post('/login', async (req, res) => {
   }
 });
 
-// Microsoft OAuth callback
-router.post('/microsoft/callback', async (req, res) => {
+// Verify email endpoint: confirms the address with the token from the verification email
+router.post('/verify-email', authLimiter, async (req, res) => {
   try {
-    // Check if we're receiving user data directly (new approach) or authorization code (old approach)
-    const { code, email, name, clientId, tenantId } = req.body;
-
-    // If we have user data directly, use it (new approach)
-    if (email) {
-      // Validate email
-      if (!email) {
-        return res.status(400).json({
-          error: 'Email is required'
-        });
-      }
+    const { error, value } = verifyEmailSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
 
-      // Check if user exists, create if not
-      let user = await getUserByEmail(email);
-      
-      if (!user) {
-        const [firstName, ...lastNameParts] = (name || email.split('@')[0]).split(' ');
-        const lastName = lastNameParts.join(' ');
-
-        // Generate a proper user ID
-        const userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-        const userData = {
-          id: userId,
-          firstName: firstName || email.split('@')[0],
-          lastName: lastName || '',
-          email,
-          provider: 'microsoft',
-          providerId: null, // We don't have this in the new approach
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        };
-
-        user = await createUser(userData);
-      }
+    const userId = await AccountSecurityService.getInstance().verifyEmail(value.token);
+    if (!userId) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'The verification link is invalid, expired or has already been used'
+      });
+    }
 
-      // Generate JWT token
-      const token = generateToken(user.id, user.email, user.role || 'user');
+    res.json({
+      message: 'Email verified successfully'
+    });
+  } catch (error) {
+    logger.error('Email verification error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to verify email'
+    });
+  }
+});
 
-      return res.json({
-        message: 'Microsoft login successful',
-        user: {
-          id: user.id,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          email: user.email,
-          provider: user.provider
-        },
-        token
+// Resend verification endpoint. Responds the same whether or not the account exists.
+router.post('/resend-verification', authEmailLimiter, async (req, res) => {
+  try {
+    const { error, value } = emailSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
       });
+    }
 
-      logger.info(`Microsoft OAuth login: ${email}`);
+    const user = await getUserByEmail(value.email);
+    if (user && !user.emailVerified) {
+      await AccountSecurityService.getInstance().sendVerificationEmail(user);
     }
 
-    // If we have an authorization code, use the old approach
-    if (code) {
-      // Use client-provided clientId and tenantId if available
-      const msalConfigForRequest = {
-        auth: {
-          clientId: clientId || process.env.AZURE_CLIENT_ID,
-          clientSecret: process.env.AZURE_CLIENT_SECRET,
-          authority: tenantId ? 
-            `https://login.microsoftonline.com/${tenantId}` : 
-            `https://login.microsoftonline.com/${process.env.AZURE_TENANT_ID}`
-        }
-      };
+    res.json({
+      message: 'If the account exists and is not verified yet, a verification email has been sent'
+    });
+  } catch (error) {
+    logger.error('Resend verification error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to send verification email'
+    });
+  }
+});
 
-      // Create a new confidential client application with the provided config
-      const clientApp = new ConfidentialClientApplication(msalConfigForRequest);
+// Forgot password endpoint. Responds the same whether or not the account exists.
+router.post('/forgot-password', authEmailLimiter, async (req, res) => {
+  try {
+    const { error, value } = emailSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
 
-      // Exchange code for tokens
-      const tokenRequest = {
-        code,
-        scopes: ['openid', 'profile', 'email'],
-        redirectUri: process.env.MICROSOFT_REDIRECT_URI!
-      };
+    const user = await getUserByEmail(value.email);
+    if (user) {
+      await AccountSecurityService.getInstance().sendPasswordResetEmail(user);
+    }
 
-      const response = await clientApp.acquireTokenByCode(tokenRequest);
-      
-      if (!response) {
-        return res.status(400).json({
-          error: 'Failed to acquire token'
-        });
-      }
+    res.json({
+      message: 'If the account exists, a password reset email has been sent'
+    });
+  } catch (error) {
+    logger.error('Forgot password error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to send password reset email'
+    });
+  }
+});
 
-      // Extract user info from token
-      const { account } = response;
-      const email = account?.username;
-      const name = account?.name;
+// Reset password endpoint: sets a new password with the token from the reset email
+router.post('/reset-password', authLimiter, async (req, res) => {
+  try {
+    const { error, value } = resetPasswordSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
 
-      if (!email) {
-        return res.status(400).json({
-          error: 'Email not found in token'
-        });
-      }
+    const userId = await AccountSecurityService.getInstance().resetPassword(value.token, value.password);
+    if (!userId) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'The reset link is invalid, expired or has already been used'
+      });
+    }
 
-      // Check if user exists, create if not
-      let user = await getUserByEmail(email);
-      
-      if (!user) {
-        const [firstName, ...lastNameParts] = (name || email.split('@')[0]).split(' ');
-        const lastName = lastNameParts.join(' ');
-
-        // Generate a proper user ID
-        const userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-        const userData = {
-          id: userId,
-          firstName: firstName || email.split('@')[0],
-          lastName: lastName || '',
-          email,
-          provider: 'microsoft',
-          providerId: account?.localAccountId,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        };
-
-        user = await createUser(userData);
-      }
+    res.json({
+      message: 'Password reset successfully. Please login with your new password.'
+    });
+  } catch (error) {
+    logger.error('Reset password error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to reset password'
+    });
+  }
+});
 
-      // Generate JWT token
-      const token = generateToken(user.id, user.email, user.role || 'user');
+// List the configured sign-in providers
+router.get('/oidc/providers', (req, res) => {
+  try {
+    const providers = OidcService.getInstance().getProviders().map(provider => ({
+      id: provider.id,
+      name: provider.name
+    }));
 
-      res.json({
-        message: 'Microsoft login successful',
-        user: {
-          id: user.id,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          email: user.email,
-          provider: user.provider
-        },
-        token
-      });
+    res.json({ providers });
+  } catch (error) {
+    logger.error('Get sign-in providers error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve sign-in providers'
+    });
+  }
+});
 
-      logger.info(`Microsoft OAuth login: ${email}`);
-    } else {
-      // Neither email nor code provided
-      return res.status(400).json({
-        error: 'Either email or authorization code is required'
+// Start an OIDC sign-in: returns the provider URL to redirect the browser to
+router.get('/oidc/:provider/authorize', async (req, res) => {
+  try {
+    const { authorizationUrl, state } = await OidcService.getInstance().createAuthorizationRequest(req.params.provider);
+
+    res.json({ authorizationUrl, state });
+  } catch (error) {
+    if (error instanceof OidcError) {
+      return res.status(error.statusCode).json({
+        error: 'Sign-in failed',
+        message: error.message
       });
     }
-  } catch (error) {
-    logger.error('Microsoft OAuth error:', error);
+    logger.error('OIDC authorize error:', error);
     res.status(500).json({
-      error: 'Microsoft authentication failed',
+      error: 'Sign-in failed',
       message: 'Please try again'
     });
   }
 });
 
-// Google OAuth callback (placeholder - requires Google OAuth setup)
-router.post('/google/callback', async (req, res) => {
+// Complete an OIDC sign-in with the code and state the provider redirected back with
+async function handleOidcCallback(providerId: string, req: express.Request, res: express.Response) {
   try {
-    // This would require Google OAuth library setup
-    // For now, return a placeholder response
-    res.status(501).json({
-      error: 'Google OAuth not implemented yet',
-      message: 'Please use Microsoft login or email/password'
+    const { error, value } = oidcCallbackSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
+
+    const oidcService = OidcService.getInstance();
+    const claims = await oidcService.handleCallback(providerId, value.code, value.state);
+    const user = await oidcService.findOrLinkUser(providerId, claims);
+
+    // The same account checks as a password login
+    const accountSecurity = AccountSecurityService.getInstance();
+    const lockedUntil = accountSecurity.getLockedUntil(user);
+    if (lockedUntil) {
+      return res.status(423).json({
+        error: 'Account locked',
+        message: 'Too many failed login attempts. Please try again later or reset your password.',
+        retryAfter: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)
+      });
+    }
+
+    const refusal = accountSecurity.getSignInRefusal(user);
+    if (refusal) {
+      return res.status(403).json({
+        error: 'Account unavailable',
+        message: refusal
+      });
+    }
+
+    if (user.twoFactorEnabled) {
+      logger.info(`Two-factor challenge issued for OIDC login via ${providerId}: ${user.email}`);
+      return res.json(twoFactorChallenge(user.id));
+    }
+
+    await accountSecurity.recordSuccessfulLogin(user.id);
+
+    // Start a session
+    const tokens = await issueTokens(req, user.id, user.email, user.role || 'user');
+
+    res.json({
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        provider: user.provider,
+        role: user.role
+      },
+      ...tokens
     });
+
+    logger.info(`OIDC login via ${providerId}: ${user.email}`);
   } catch (error) {
-    logger.error('Google OAuth error:', error);
+    if (error instanceof OidcError) {
+      return res.status(error.statusCode).json({
+        error: 'Sign-in failed',
+        message: error.message
+      });
+    }
+    logger.error(`OIDC callback error (${providerId}):`, error);
     res.status(500).json({
-      error: 'Google authentication failed'
+      error: 'Sign-in failed',
+      message: 'Please try again'
     });
   }
-});
+}
+
+router.post('/oidc/:provider/callback', (req, res) => handleOidcCallback(req.params.provider, req, res));
 
-// Yahoo OAuth callback (placeholder)
-router.post('/yahoo/callback', async (req, res) => {
+// Provider-specific callbacks kept for existing clients
+router.post('/microsoft/callback', (req, res) => handleOidcCallback('microsoft', req, res));
+router.post('/google/callback', (req, res) => handleOidcCallback('google', req, res));
+router.post('/yahoo/callback', (req, res) => handleOidcCallback('yahoo', req, res));
+
+// Two-factor verify endpoint: completes a login that returned a challenge, with a TOTP or recovery code
+router.post('/2fa/verify', authLimiter, async (req, res) => {
   try {
-    res.status(501).json({
-      error: 'Yahoo OAuth not implemented yet',
-      message: 'Please use Microsoft login or email/password'
+    const { error, value } = twoFactorVerifySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
+
+    const twoFactor = TwoFactorService.getInstance();
+    const userId = twoFactor.verifyChallenge(value.challengeToken);
+    const user = userId ? await getUserById(userId) : null;
+    if (!user || user.isActive === false) {
+      return res.status(401).json({
+        error: 'Invalid challenge',
+        message: 'The sign-in attempt has expired. Please login again.'
+      });
+    }
+
+    const accountSecurity = AccountSecurityService.getInstance();
+    const lockedUntil = accountSecurity.getLockedUntil(user);
+    if (lockedUntil) {
+      return res.status(423).json({
+        error: 'Account locked',
+        message: 'Too many failed login attempts. Please try again later or reset your password.',
+        retryAfter: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)
+      });
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    if (!(await twoFactor.verifyCode(user.id, value.code))) {
+      const failure = await accountSecurity.recordFailedLogin(user.id);
+      if (failure.lockedUntil) {
+        return res.status(423).json({
+          error: 'Account locked',
+          message: 'Too many failed login attempts. Please try again later or reset your password.',
+          retryAfter: Math.ceil((failure.lockedUntil.getTime() - Date.now()) / 1000)
+        });
+      }
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'Invalid authentication code'
+      });
+    }
+
+    const refusal = accountSecurity.getSignInRefusal(user);
+    if (refusal) {
+      return res.status(403).json({
+        error: 'Account unavailable',
+        message: refusal
+      });
+    }
+
+    await accountSecurity.recordSuccessfulLogin(user.id);
+
+    // Start a session
+    const tokens = await issueTokens(req, user.id, user.email, user.role || 'user', { twoFactorVerified: true });
+
+    res.json({
+      message: 'Login successful',
+      user: sanitizeUser(user),
+      ...tokens
     });
+
+    logger.info(`User logged in with two-factor authentication: ${user.email}`);
   } catch (error) {
-    logger.error('Yahoo OAuth error:', error);
+    logger.error('Two-factor verification error:', error);
     res.status(500).json({
-      error: 'Yahoo authentication failed'
+      error: 'Internal server error',
+      message: 'Failed to verify authentication code'
     });
   }
 });
@@ -434,7 +653,7 @@ router.get('/verify', authenticateToken, async (req, res) => {
             }
           }
           
-          const { password: _, ...userResponse } = user;
+          const userResponse = sanitizeUser(user);
           
           return res.json({
             message: 'Token valid',
@@ -467,7 +686,7 @@ router.get('/verify', authenticateToken, async (req, res) => {
         });
       }
 
-      const { password: _, ...userResponse } = user;
+      const userResponse = sanitizeUser(user);
 
       res.json({
         message: 'Token valid',
@@ -489,13 +708,60 @@ router.get('/verify', authenticateToken, async (req, res) => {
   }
 });
 
-// Logout endpoint
-router.post('/logout', authenticateToken, (req, res) => {
-  // In a stateless JWT system, logout is handled client-side
-  // You could implement token blacklisting here if needed
-  res.json({
-    message: 'Logout successful'
-  });
+// Refresh endpoint: exchanges a refresh token for a new access token and refresh token
+router.post('/refresh', async (req, res) => {
+  try {
+    const { error, value } = refreshSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
+
+    const tokens = await SessionService.getInstance().refreshSession(
+      value.refreshToken,
+      { userAgent: req.get('user-agent'), ipAddress: req.ip }
+    );
+    if (!tokens) {
+      return res.status(401).json({
+        error: 'Invalid refresh token',
+        message: 'Please login again'
+      });
+    }
+
+    res.json({
+      message: 'Token refreshed',
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn
+    });
+  } catch (error) {
+    logger.error('Token refresh error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to refresh token'
+    });
+  }
+});
+
+// Logout endpoint: revokes the session of the access token
+router.post('/logout', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.sessionId) {
+      await SessionService.getInstance().revokeSession(req.user.sessionId, req.user.userId);
+    }
+
+    res.json({
+      message: 'Logout successful'
+    });
+  } catch (error) {
+    logger.error('Logout error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to logout'
+    });
+  }
 });
 
 export { router as authRoutes };
\ No newline at end of file
@@ -1,12 +1,14 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireWorkspaceCapability, chatWorkspaceId } from '../middleware/auth';
 import { AIDataService } from '../services/aiDataService';
 import { validate, schemas } from '../middleware/validation';
 import { chatLimiter, aiLimiter } from '../middleware/rateLimiter';
 import { DatabaseManager } from '../config/database';
-import { OpenAIService } from '../services/openai';
+import { OpenAIService, ChatMessage, RAGContext } from '../services/openai';
 import { CacheService } from '../services/cache';
+import { RAGService, Citation } from '../services/ragService';
+import { ConversationMemoryService } from '../services/conversationMemoryService';
 import { logger } from '../utils/logger';
 import sql from 'mssql';
 
@@ -19,8 +21,27 @@ router.use(authenticateToken);
 // Get services
 const openAIService = OpenAIService.getInstance();
 const cacheService = CacheService.getInstance();
+const ragService = RAGService.getInstance();
+const conversationMemoryService = ConversationMemoryService.getInstance();
 let aiDataService: AIDataService | null = null;
 
+// Stored as the assistant reply when the AI service fails before producing any content
+const AI_ERROR_PLACEHOLDER = 'Sorry, I encountered an issue processing your request. Please try again.';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Message requests may name a workspace in the body; malformed ids are ignored as before
+const bodyWorkspaceId = (req: express.Request) =>
+  typeof req.body.workspaceId === 'string' && UUID_REGEX.test(req.body.workspaceId) ? req.body.workspaceId : null;
+
+// Checks for chat routes: the chat's own workspace, for chats that still have one
+const canViewChat = requireWorkspaceCapability('view', { workspaceId: chatWorkspaceId(req => req.params.chatId), optional: true });
+const canChatInChat = requireWorkspaceCapability('chat', { workspaceId: chatWorkspaceId(req => req.params.chatId), optional: true });
+
+// Sending a message needs chat access to the existing chat's workspace and to the requested one
+const canChatInMessageChat = requireWorkspaceCapability('chat', { workspaceId: chatWorkspaceId(req => req.body.chatId), optional: true });
+const canChatInRequestedWorkspace = requireWorkspaceCapability('chat', { workspaceId: bodyWorkspaceId, optional: true });
+
 // Get user's chats
 router.get('/', validate(schemas.pagination), async (req, res) => {
   try {
@@ -39,7 +60,7 @@ router.get('/', validate(schemas.pagination), async (req, res) => {
           c.*,
           w.name as workspaceName,
           w.color as workspaceColor,
-          (SELECT COUNT(*) FROM Messages WHERE chatId = c.id) as messageCount
+          (SELECT COUNT(*) FROM Messages WHERE chatId = c.id AND isActive = 1) as messageCount
         FROM Chats c
         LEFT JOIN Workspaces w ON c.workspaceId = w.id
         WHERE c.userId = @userId AND c.isArchived = 0
@@ -73,7 +94,7 @@ router.get('/', validate(schemas.pagination), async (req, res) => {
 });
 
 // Create new chat
-router.post('/', validate(schemas.createChat), async (req, res) => {
+router.post('/', validate(schemas.createChat), requireWorkspaceCapability('chat', { workspaceId: req => req.body.workspaceId, optional: true }), async (req, res) => {
   try {
     const { title, description, workspaceId } = req.body;
     const userId = req.user.userId;
@@ -103,8 +124,8 @@ router.post('/', validate(schemas.createChat), async (req, res) => {
             .input('email', sql.NVarChar, `${userId}@example.com`)
             .input('role', sql.NVarChar, req.user.role || 'user')
             .query(`
-              INSERT INTO Users (id, firstName, lastName, email, role, isActive, createdAt, updatedAt)
-              VALUES (@id, @firstName, @lastName, @email, @role, 1, GETUTCDATE(), GETUTCDATE())
+              INSERT INTO Users (id, firstName, lastName, email, role, isActive, emailVerified, createdAt, updatedAt)
+              VALUES (@id, @firstName, @lastName, @email, @role, 1, 1, GETUTCDATE(), GETUTCDATE())
             `);
         } else {
           // If user with email exists, update the user ID
@@ -166,64 +187,6 @@ router.post('/', validate(schemas.createChat), async (req, res) => {
         finalWorkspaceId = workspaceResult.recordset[0].id;
         logger.info(`Created default workspace ${finalWorkspaceId} for user ${userId}`);
       }
-    } else {
-      // Verify workspace belongs to user or user is assigned to shared workspace
-      const workspaceCheck = await pool.request()
-        .input('workspaceId', sql.NVarChar, finalWorkspaceId)
-        .input('userId', sql.NVarChar, userId)
-        .query(`
-          SELECT w.id 
-          FROM Workspaces w 
-          LEFT JOIN WorkspaceUsers wu ON w.id = wu.workspaceId AND wu.userId = @userId
-          WHERE w.id = @workspaceId AND (w.ownerId = @userId OR (w.isShared = 1 AND wu.userId = @userId))
-        `);
-      
-      if (workspaceCheck.recordset.length === 0) {
-        // Check if workspace exists but doesn't belong to user
-        const workspaceExists = await pool.request()
-          .input('workspaceId', sql.NVarChar, finalWorkspaceId)
-          .query('SELECT id, ownerId, isShared FROM Workspaces WHERE id = @workspaceId');
-        
-        if (workspaceExists.recordset.length > 0) {
-          const workspace = workspaceExists.recordset[0];
-          // Workspace exists but user doesn't have access
-          logger.warn(`User ${userId} does not have access to workspace ${finalWorkspaceId}. Owner: ${workspace.ownerId}, Shared: ${workspace.isShared}`);
-          return res.status(403).json({
-            error: 'Access denied',
-            message: 'You do not have access to this workspace.'
-          });
-        } else {
-          // Workspace doesn't exist, create a default one
-          const defaultWorkspaceId = uuidv4();
-          const workspaceResult = await pool.request()
-            .input('id', sql.NVarChar, defaultWorkspaceId)
-            .input('name', sql.NVarChar, 'Default Workspace')
-            .input('description', sql.NVarChar, 'Auto-created default workspace')
-            .input('color', sql.NVarChar, '#3B82F6')
-            .input('ownerId', sql.NVarChar, userId)
-            .query(`
-              INSERT INTO Workspaces (id, name, description, color, ownerId, createdAt, updatedAt)
-              OUTPUT INSERTED.id
-              VALUES (@id, @name, @description, @color, @ownerId, GETUTCDATE(), GETUTCDATE())
-            `);
-          
-          // Also assign the owner to their own workspace
-          const assignmentId = uuidv4();
-          await pool.request()
-            .input('id', sql.NVarChar, assignmentId)
-            .input('workspaceId', sql.NVarChar, defaultWorkspaceId)
-            .input('userId', sql.NVarChar, userId)
-            .input('accessLevel', sql.NVarChar, 'owner')
-            .input('assignedBy', sql.NVarChar, userId)
-            .query(`
-              INSERT INTO WorkspaceUsers (id, workspaceId, userId, accessLevel, assignedBy)
-              VALUES (@id, @workspaceId, @userId, @accessLevel, @assignedBy)
-            `);
-          
-          finalWorkspaceId = workspaceResult.recordset[0].id;
-          logger.info(`Created default workspace ${finalWorkspaceId} for user ${userId} as fallback`);
-        }
-      }
     }
     
     // Ensure user exists before creating chat
@@ -248,8 +211,8 @@ router.post('/', validate(schemas.createChat), async (req, res) => {
             .input('email', sql.NVarChar, `${userId}@example.com`)
             .input('role', sql.NVarChar, req.user.role || 'user')
             .query(`
-              INSERT INTO Users (id, firstName, lastName, email, role, isActive, createdAt, updatedAt)
-              VALUES (@id, @firstName, @lastName, @email, @role, 1, GETUTCDATE(), GETUTCDATE())
+              INSERT INTO Users (id, firstName, lastName, email, role, isActive, emailVerified, createdAt, updatedAt)
+              VALUES (@id, @firstName, @lastName, @email, @role, 1, 1, GETUTCDATE(), GETUTCDATE())
             `);
         } else {
           // If user with email exists, update the user ID
@@ -276,8 +239,8 @@ router.post('/', validate(schemas.createChat), async (req, res) => {
             .input('email', sql.NVarChar, req.user.email || `${userId}@example.com`)
             .input('role', sql.NVarChar, req.user.role || 'user')
             .query(`
-              INSERT INTO Users (id, firstName, lastName, email, role, isActive, createdAt, updatedAt)
-              VALUES (@id, @firstName, @lastName, @email, @role, 1, GETUTCDATE(), GETUTCDATE())
+              INSERT INTO Users (id, firstName, lastName, email, role, isActive, emailVerified, createdAt, updatedAt)
+              VALUES (@id, @firstName, @lastName, @email, @role, 1, 1, GETUTCDATE(), GETUTCDATE())
             `);
           logger.info(`Created missing user record for user ${userId}`);
         } else {
@@ -322,8 +285,21 @@ router.post('/', validate(schemas.createChat), async (req, res) => {
   }
 });
 
-// Send message and get AI response
-router.post('/message', validate(schemas.sendMessage), async (req, res) => {
+interface PreparedMessageTurn {
+  pool: sql.ConnectionPool;
+  userId: string;
+  chatId: string;
+  workspaceId: string;
+  userMessageId: string;
+  userMessageContent: string;
+  chatHistory: ChatMessage[];
+}
+
+// Shared by the regular and streaming message routes: validates the request, resolves the
+// user, workspace and chat, stores the user message and loads the chat history.
+// Returns null when an error response, including a 500 for unexpected errors, has already
+// been sent.
+async function prepareMessageTurn(req: express.Request, res: express.Response): Promise<PreparedMessageTurn | null> {
   try {
     // Log the entire request body for debugging
     logger.info('Received message request body:', JSON.stringify(req.body, null, 2));
@@ -334,10 +310,11 @@ router.post('/message', validate(schemas.sendMessage), async (req, res) => {
 
     // Validate message content or files
     if ((!message || message.trim().length === 0) && (!files || files.length === 0)) {
-      return res.status(400).json({
+      res.status(400).json({
         error: 'Message content or files are required',
         message: 'Please provide a message or attach files to send'
       });
+      return null;
     }
 
     // Validate files array structure if present
@@ -349,18 +326,20 @@ router.post('/message', validate(schemas.sendMessage), async (req, res) => {
         // Check required properties
         if (!file.originalName) {
           logger.error(`File at index ${index} missing originalName:`, JSON.stringify(file));
-          return res.status(400).json({
+          res.status(400).json({
             error: 'Invalid file format',
             message: `File at index ${index} missing originalName property`
           });
+          return null;
         }
         
         if (!file.url) {
           logger.error(`File at index ${index} missing url:`, JSON.stringify(file));
-          return res.status(400).json({
+          res.status(400).json({
             error: 'Invalid file format',
             message: `File at index ${index} missing url property`
           });
+          return null;
         }
         
         // Check if fileName property exists
@@ -405,8 +384,8 @@ router.post('/message', validate(schemas.sendMessage), async (req, res) => {
             .input('email', sql.NVarChar, `${userId}@example.com`)
             .input('role', sql.NVarChar, req.user.role || 'user')
             .query(`
-              INSERT INTO Users (id, firstName, lastName, email, role, isActive, createdAt, updatedAt)
-              VALUES (@id, @firstName, @lastName, @email, @role, 1, GETUTCDATE(), GETUTCDATE())
+              INSERT INTO Users (id, firstName, lastName, email, role, isActive, emailVerified, createdAt, updatedAt)
+              VALUES (@id, @firstName, @lastName, @email, @role, 1, 1, GETUTCDATE(), GETUTCDATE())
             `);
         } else {
           // If user with email exists, update the user ID to match our expected ID
@@ -433,8 +412,8 @@ router.post('/message', validate(schemas.sendMessage), async (req, res) => {
             .input('email', sql.NVarChar, req.user.email || `${userId}@example.com`)
             .input('role', sql.NVarChar, req.user.role || 'user')
             .query(`
-              INSERT INTO Users (id, firstName, lastName, email, role, isActive, createdAt, updatedAt)
-              VALUES (@id, @firstName, @lastName, @email, @role, 1, GETUTCDATE(), GETUTCDATE())
+              INSERT INTO Users (id, firstName, lastName, email, role, isActive, emailVerified, createdAt, updatedAt)
+              VALUES (@id, @firstName, @lastName, @email, @role, 1, 1, GETUTCDATE(), GETUTCDATE())
             `);
           logger.info(`Created missing user record for user ${userId}`);
         } else {
@@ -454,15 +433,17 @@ router.post('/message', validate(schemas.sendMessage), async (req, res) => {
     let actualWorkspaceId = workspaceId;
     
     // Validate workspaceId format if provided
-    if (actualWorkspaceId) {
-      const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-      if (!uuidRegex.test(actualWorkspaceId)) {
-        logger.warn(`Invalid workspaceId format: ${actualWorkspaceId}, ignoring it`);
-        actualWorkspaceId = null;
-      }
+    if (actualWorkspaceId && !UUID_REGEX.test(actualWorkspaceId)) {
+      logger.warn(`Invalid workspaceId format: ${actualWorkspaceId}, ignoring it`);
+      actualWorkspaceId = null;
+    }
+    
+    // Without a workspace in the request, an existing chat stays in its own workspace
+    if (!actualWorkspaceId && req.workspaceAccess) {
+      actualWorkspaceId = req.workspaceAccess.workspaceId;
     }
     
-    // Only proceed if workspaceId is valid or create a default one
+    // A requested workspace was already checked by requireWorkspaceCapability; otherwise use or create a default one
     if (!actualWorkspaceId) {
       // Check if user has any workspaces (either owned or assigned)
       const workspaceCheck = await pool.request()
@@ -495,50 +476,6 @@ router.post('/message', validate(schemas.sendMessage), async (req, res) => {
         actualWorkspaceId = workspaceResult.recordset[0].id;
         logger.info(`Created default workspace ${actualWorkspaceId} for user ${userId}`);
       }
-    } else {
-      // Verify workspace exists and user has access (either owner or assigned to shared workspace)
-      const workspaceCheck = await pool.request()
-        .input('workspaceId', sql.NVarChar, actualWorkspaceId)
-        .input('userId', sql.NVarChar, userId)
-        .query(`
-          SELECT w.id 
-          FROM Workspaces w 
-          LEFT JOIN WorkspaceUsers wu ON w.id = wu.workspaceId AND wu.userId = @userId
-          WHERE w.id = @workspaceId AND (w.ownerId = @userId OR (w.isShared = 1 AND wu.userId = @userId))
-        `);
-      
-      if (workspaceCheck.recordset.length === 0) {
-        logger.warn(`Workspace ${actualWorkspaceId} does not exist or doesn't belong to user ${userId}`);
-        // Create a default workspace instead
-        const defaultWorkspaceId = uuidv4();
-        const workspaceResult = await pool.request()
-          .input('id', sql.NVarChar, defaultWorkspaceId)
-          .input('name', sql.NVarChar, 'Default Workspace')
-          .input('description', sql.NVarChar, 'Auto-created default workspace')
-          .input('color', sql.NVarChar, '#3B82F6')
-          .input('ownerId', sql.NVarChar, userId)
-          .query(`
-            INSERT INTO Workspaces (id, name, description, color, ownerId, createdAt, updatedAt)
-            OUTPUT INSERTED.id
-            VALUES (@id, @name, @description, @color, @ownerId, GETUTCDATE(), GETUTCDATE())
-          `);
-        
-        // Also assign the owner to their own workspace
-        const assignmentId = uuidv4();
-        await pool.request()
-          .input('id', sql.NVarChar, assignmentId)
-          .input('workspaceId', sql.NVarChar, defaultWorkspaceId)
-          .input('userId', sql.NVarChar, userId)
-          .input('accessLevel', sql.NVarChar, 'owner')
-          .input('assignedBy', sql.NVarChar, userId)
-          .query(`
-            INSERT INTO WorkspaceUsers (id, workspaceId, userId, accessLevel, assignedBy)
-            VALUES (@id, @workspaceId, @userId, @accessLevel, @assignedBy)
-          `);
-        
-        actualWorkspaceId = workspaceResult.recordset[0].id;
-        logger.info(`Created default workspace ${actualWorkspaceId} for user ${userId} as fallback`);
-      }
     }
 
     // Get or create chat
@@ -568,10 +505,11 @@ router.post('/message', validate(schemas.sendMessage), async (req, res) => {
       
       if (chatResult.recordset.length === 0) {
         logger.error(`Chat ${actualChatId} not found for user ${userId}`);
-        return res.status(404).json({
+        res.status(404).json({
           error: 'Chat not found',
           message: 'The specified chat was not found or does not belong to you.'
         });
+        return null;
       }
       
       chatTitle = chatResult.recordset[0].title;
@@ -583,10 +521,11 @@ router.post('/message', validate(schemas.sendMessage), async (req, res) => {
     // Validate files array if present
     if (files && !Array.isArray(files)) {
       logger.error('Files property is not an array:', files);
-      return res.status(400).json({
+      res.status(400).json({
         error: 'Invalid files format',
         message: 'Files must be an array of file objects'
       });
+      return null;
     }
     
     // Add file information to the message content if files were sent
@@ -800,10 +739,10 @@ router.post('/message', validate(schemas.sendMessage), async (req, res) => {
         // Format file contents for the AI
         const fileContentSection = fileContents.map((f: any) => 
           `File: ${f.name}
-Content:
-${f.content}
----
-`
+  Content:
+  ${f.content}
+  ---
+  `
         ).join('\n');
         
         if (userMessageContent) {
@@ -822,10 +761,33 @@ ${f.content}
     
     // If no message content and no files, return an error
     if (!userMessageContent) {
-      return res.status(400).json({
+      res.status(400).json({
         error: 'Message content or files are required',
         message: 'Please provide a message or attach files to send'
       });
+      return null;
+    }
+
+    // Attach the message to the end of the active branch, or branch off at parentMessageId
+    let userMessageParentId: string | null = null;
+    if (parentMessageId) {
+      const parentResult = await pool.request()
+        .input('id', sql.NVarChar, parentMessageId)
+        .input('chatId', sql.NVarChar, actualChatId)
+        .query('SELECT id, createdAt FROM Messages WHERE id = @id AND chatId = @chatId AND isActive = 1');
+
+      if (parentResult.recordset.length === 0) {
+        res.status(404).json({
+          error: 'Parent message not found',
+          message: 'The parent message was not found on the active branch of this chat'
+        });
+        return null;
+      }
+
+      await deactivateActiveMessages(pool, actualChatId, parentResult.recordset[0], false);
+      userMessageParentId = parentMessageId;
+    } else {
+      userMessageParentId = await getActiveBranchTail(pool, actualChatId);
     }
 
     // Store user message in database
@@ -838,87 +800,290 @@ ${f.content}
         .input('userId', sql.NVarChar, userId)
         .input('content', sql.NVarChar, userMessageContent)
         .input('role', sql.NVarChar, 'user')
+        .input('parentMessageId', sql.NVarChar, userMessageParentId)
         .query(`
-          INSERT INTO Messages (id, chatId, userId, content, role, createdAt)
-          VALUES (@id, @chatId, @userId, @content, @role, GETUTCDATE())
+          INSERT INTO Messages (id, chatId, userId, content, role, parentMessageId, createdAt)
+          VALUES (@id, @chatId, @userId, @content, @role, @parentMessageId, GETUTCDATE())
         `);
     } catch (insertError) {
       logger.error(`Failed to insert user message into chat ${actualChatId}:`, insertError);
-      return res.status(500).json({
+      res.status(500).json({
         error: 'Failed to save message',
         message: 'There was an error saving your message. Please try again.'
       });
+      return null;
     }
 
-    // Get chat history for context
-    const historyResult = await pool.request()
-      .input('chatId', sql.NVarChar, actualChatId)
-      .query('SELECT content, role FROM Messages WHERE chatId = @chatId ORDER BY createdAt ASC');
+    // Get chat history for context, condensing older turns into the chat's summary when it
+    // outgrows the token budget. The new message is sent separately with its RAG context.
+    const chatHistory = await conversationMemoryService.getChatHistory(pool, actualChatId, userMessageId);
 
-    // Prepare messages for OpenAI
-    const chatHistory = historyResult.recordset.map((msg: any) => ({
-      role: msg.role,
-      content: msg.content
-    }));
+    return {
+      pool,
+      userId,
+      chatId: actualChatId,
+      workspaceId: actualWorkspaceId,
+      userMessageId,
+      userMessageContent,
+      chatHistory
+    };
+  } catch (error) {
+    logger.error('Send message error:', error);
+    
+    // Return a proper error response instead of a fake success
+    res.status(500).json({
+      error: 'Failed to process message',
+      message: 'Sorry, there was an error processing your message. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return null;
+  }
+}
+
+interface CompletionRequest {
+  messages: ChatMessage[];
+  documents: any[];  // Passages given to the model, in [n] marker order
+}
+
+// Build the completion messages, adding workspace document context via RAG
+async function buildCompletionMessages(
+  pool: sql.ConnectionPool,
+  workspaceId: string,
+  userMessageContent: string,
+  chatHistory: ChatMessage[]
+): Promise<CompletionRequest> {
+  // Get workspace information if available
+  let workspaceName = undefined;
+  if (workspaceId) {
+    const workspaceResult = await pool.request()
+      .input('workspaceId', sql.NVarChar, workspaceId)
+      .query('SELECT name FROM Workspaces WHERE id = @workspaceId');
+
+    if (workspaceResult.recordset.length > 0) {
+      workspaceName = workspaceResult.recordset[0].name;
+    }
+  }
+
+  // Get relevant documents using RAG if workspace is selected
+  const relevantDocuments = await ragService.getRelevantDocuments(
+    userMessageContent,
+    workspaceId,
+    workspaceName
+  );
+
+  // Format documents context
+  const documentsContext = ragService.formatDocumentsContext(relevantDocuments);
+
+  // Prepare user message with document context if available
+  let finalUserMessage = userMessageContent;
+  if (documentsContext) {
+    finalUserMessage = `Context from workspace documents:\n${documentsContext}\n\nQuestion: ${userMessageContent}`;
+  }
+
+  // Prepare RAG context for system prompt
+  const ragContext: RAGContext = {
+    documents: relevantDocuments,
+    workspaceId,
+    workspaceName
+  };
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: openAIService.getSystemPrompt(ragContext)
+    },
+    ...chatHistory,
+    {
+      role: 'user',
+      content: finalUserMessage
+    }
+  ];
+
+  return { messages, documents: relevantDocuments };
+}
+
+// Map the reply's [n] markers to the passages it was given, keeping only sources that
+// still have a WorkspaceFiles record so every citation can be opened
+async function resolveCitations(
+  pool: sql.ConnectionPool,
+  workspaceId: string,
+  documents: any[],
+  responseContent: string
+): Promise<Citation[]> {
+  const citations = ragService.buildCitations(documents, responseContent);
+  if (citations.length === 0) {
+    return [];
+  }
+
+  try {
+    const request = pool.request().input('workspaceId', sql.NVarChar, workspaceId);
+    const fileIds = Array.from(new Set(citations.map(citation => citation.fileId)));
+    const placeholders = fileIds.map((fileId, index) => {
+      request.input(`fileId${index}`, sql.NVarChar, fileId);
+      return `@fileId${index}`;
+    });
+
+    const fileResult = await request.query(`
+      SELECT id, originalName FROM WorkspaceFiles
+      WHERE workspaceId = @workspaceId AND id IN (${placeholders.join(', ')})
+    `);
+    const files = new Map<string, string>(fileResult.recordset.map((file: any) => [file.id, file.originalName]));
+
+    return citations
+      .filter(citation => files.has(citation.fileId))
+      .map(citation => ({
+        ...citation,
+        fileName: files.get(citation.fileId) || citation.fileName,
+        workspaceId
+      }));
+  } catch (error) {
+    logger.error(`Failed to resolve citations for workspace ${workspaceId}:`, error);
+    return citations;
+  }
+}
+
+// Store an assistant reply to a user message and bump the chat's message count for the
+// exchange (only the reply itself when regenerating)
+async function storeAssistantMessage(
+  pool: sql.ConnectionPool,
+  chatId: string,
+  userId: string,
+  content: string,
+  options: { tokens?: number; metadata?: Record<string, any>; parentMessageId?: string; newMessageCount?: number } = {}
+): Promise<string> {
+  const aiMessageId = uuidv4();
+
+  await pool.request()
+    .input('id', sql.NVarChar, aiMessageId)
+    .input('chatId', sql.NVarChar, chatId)
+    .input('userId', sql.NVarChar, userId)
+    .input('content', sql.NVarChar, content)
+    .input('role', sql.NVarChar, 'assistant')
+    .input('tokens', sql.Int, options.tokens || 0)
+    .input('metadata', sql.NVarChar, options.metadata ? JSON.stringify(options.metadata) : null)
+    .input('parentMessageId', sql.NVarChar, options.parentMessageId || null)
+    .query(`
+      INSERT INTO Messages (id, chatId, userId, content, role, tokens, metadata, parentMessageId, createdAt)
+      VALUES (@id, @chatId, @userId, @content, @role, @tokens, @metadata, @parentMessageId, GETUTCDATE())
+    `);
+
+  // Update chat message count
+  try {
+    await pool.request()
+      .input('chatId', sql.NVarChar, chatId)
+      .input('newMessageCount', sql.Int, options.newMessageCount ?? 2)
+      .query('UPDATE Chats SET messageCount = messageCount + @newMessageCount, lastMessageAt = GETUTCDATE(), updatedAt = GETUTCDATE() WHERE id = @chatId');
+  } catch (updateError) {
+    logger.error(`Failed to update chat ${chatId} message count:`, updateError);
+    // Continue anyway since this is just metadata
+  }
+
+  return aiMessageId;
+}
+
+// Messages form a tree through parentMessageId. Edits and regenerated replies are stored as
+// siblings of the message they replace, and isActive marks the branch the chat currently shows.
+
+interface BranchMessage {
+  id: string;
+  createdAt: Date;
+}
+
+// Get the last message on the chat's active branch
+async function getActiveBranchTail(pool: sql.ConnectionPool, chatId: string): Promise<string | null> {
+  const result = await pool.request()
+    .input('chatId', sql.NVarChar, chatId)
+    .query('SELECT TOP 1 id FROM Messages WHERE chatId = @chatId AND isActive = 1 ORDER BY createdAt DESC, id DESC');
+
+  return result.recordset.length > 0 ? result.recordset[0].id : null;
+}
+
+// Take the active branch's messages after a message (and optionally the message itself)
+// off the active branch, so a new sibling can take their place
+async function deactivateActiveMessages(
+  pool: sql.ConnectionPool,
+  chatId: string,
+  from: BranchMessage,
+  inclusive: boolean
+): Promise<void> {
+  await pool.request()
+    .input('chatId', sql.NVarChar, chatId)
+    .input('id', sql.NVarChar, from.id)
+    .input('createdAt', sql.DateTime2, from.createdAt)
+    .query(`
+      UPDATE Messages SET isActive = 0
+      WHERE chatId = @chatId AND isActive = 1
+        AND (createdAt > @createdAt OR (createdAt = @createdAt AND id > @id)${inclusive ? ' OR id = @id' : ''})
+    `);
+}
+
+interface BranchReply {
+  id: string | null;
+  content: string;
+  citations: Citation[];
+  error?: unknown;
+}
+
+// Generate and store the assistant reply to a user message at the end of the active branch.
+// Used by edit and regenerate; on failure the error placeholder is stored as the reply.
+async function generateBranchReply(
+  pool: sql.ConnectionPool,
+  chat: { id: string; workspaceId: string },
+  userId: string,
+  userMessage: { id: string; content: string },
+  options: { temperature: number; newMessageCount: number }
+): Promise<BranchReply> {
+  try {
+    const chatHistory = await conversationMemoryService.getChatHistory(pool, chat.id, userMessage.id);
+    const { messages, documents } = await buildCompletionMessages(pool, chat.workspaceId, userMessage.content, chatHistory);
+    const aiResponse = await openAIService.getChatCompletion(messages, {
+      maxTokens: 1000,
+      temperature: options.temperature
+    });
+
+    const citations = await resolveCitations(pool, chat.workspaceId, documents, aiResponse.content);
+    const id = await storeAssistantMessage(pool, chat.id, userId, aiResponse.content, {
+      tokens: aiResponse.tokens,
+      parentMessageId: userMessage.id,
+      newMessageCount: options.newMessageCount,
+      metadata: citations.length > 0 ? { citations } : undefined
+    });
+
+    return { id, content: aiResponse.content, citations };
+  } catch (error) {
+    logger.error(`Failed to generate reply to message ${userMessage.id}:`, error);
+    let id: string | null = null;
+    try {
+      id = await storeAssistantMessage(pool, chat.id, userId, AI_ERROR_PLACEHOLDER, {
+        parentMessageId: userMessage.id,
+        newMessageCount: options.newMessageCount
+      });
+    } catch (insertError) {
+      logger.error(`Failed to insert error message into chat ${chat.id}:`, insertError);
+    }
+    return { id, content: AI_ERROR_PLACEHOLDER, citations: [], error };
+  }
+}
+
+// Send message and get AI response
+router.post('/message', validate(schemas.sendMessage), canChatInMessageChat, canChatInRequestedWorkspace, async (req, res) => {
+  try {
+    const turn = await prepareMessageTurn(req, res);
+    if (!turn) {
+      return;
+    }
+
+    const { pool, userId, chatId: actualChatId, workspaceId: actualWorkspaceId, userMessageId, userMessageContent, chatHistory } = turn;
 
     // Get AI response using OpenAI service with RAG support
     let aiResponseContent = '';
+    let aiResponseTokens = 0;
+    let sourceDocuments: any[] = [];
     let openAIError = null;
     
     try {
-      // Import services
-      const { OpenAIService } = require('../services/openai');
-      const { RAGService } = require('../services/ragService');
-      const openAIService = OpenAIService.getInstance();
-      const ragService = RAGService.getInstance();
-      
-      // Get workspace information if available
-      let workspaceName = null;
-      if (actualWorkspaceId) {
-        const workspaceResult = await pool.request()
-          .input('workspaceId', sql.NVarChar, actualWorkspaceId)
-          .query('SELECT name FROM Workspaces WHERE id = @workspaceId');
-        
-        if (workspaceResult.recordset.length > 0) {
-          workspaceName = workspaceResult.recordset[0].name;
-        }
-      }
-      
-      // Get relevant documents using RAG if workspace is selected
-      const relevantDocuments = await ragService.getRelevantDocuments(
-        userMessageContent, 
-        actualWorkspaceId, 
-        workspaceName
-      );
-      
-      // Format documents context
-      const documentsContext = ragService.formatDocumentsContext(relevantDocuments);
-      
-      // Prepare user message with document context if available
-      let finalUserMessage = userMessageContent;
-      if (documentsContext) {
-        finalUserMessage = `Context from workspace documents:\n${documentsContext}\n\nQuestion: ${userMessageContent}`;
-      }
-      
-      // Prepare RAG context for system prompt
-      const ragContext = {
-        documents: relevantDocuments,
-        workspaceId: actualWorkspaceId,
-        workspaceName: workspaceName
-      };
-      
-      // Prepare messages with system prompt including RAG context
-      const messages = [
-        {
-          role: 'system',
-          content: openAIService.getSystemPrompt(ragContext)
-        },
-        ...chatHistory,
-        {
-          role: 'user',
-          content: finalUserMessage
-        }
-      ];
+      const { messages, documents } = await buildCompletionMessages(pool, actualWorkspaceId, userMessageContent, chatHistory);
+      sourceDocuments = documents;
 
       // Get AI response
       const aiResponse = await openAIService.getChatCompletion(messages, {
@@ -927,6 +1092,7 @@ ${f.content}
       });
       
       aiResponseContent = aiResponse.content;
+      aiResponseTokens = aiResponse.tokens;
     } catch (error) {
       logger.error('OpenAI API error:', error);
       openAIError = error;
@@ -936,35 +1102,13 @@ ${f.content}
     // If OpenAI failed, return an appropriate error response
     if (openAIError) {
       // Store a placeholder AI response in database
-      const aiMessageId = uuidv4();
-      const errorMessage = 'Sorry, I encountered an issue processing your request. Please try again.';
-      
       try {
-        await pool.request()
-          .input('id', sql.NVarChar, aiMessageId)
-          .input('chatId', sql.NVarChar, actualChatId)
-          .input('userId', sql.NVarChar, userId)
-          .input('content', sql.NVarChar, errorMessage)
-          .input('role', sql.NVarChar, 'assistant')
-          .query(`
-            INSERT INTO Messages (id, chatId, userId, content, role, createdAt)
-            VALUES (@id, @chatId, @userId, @content, @role, GETUTCDATE())
-          `);
+        await storeAssistantMessage(pool, actualChatId, userId, AI_ERROR_PLACEHOLDER, { parentMessageId: userMessageId });
       } catch (insertError) {
         logger.error(`Failed to insert error message into chat ${actualChatId}:`, insertError);
         // Continue anyway since this is just a placeholder
       }
 
-      // Update chat message count
-      try {
-        await pool.request()
-          .input('chatId', sql.NVarChar, actualChatId)
-          .query('UPDATE Chats SET messageCount = messageCount + 2, lastMessageAt = GETUTCDATE(), updatedAt = GETUTCDATE() WHERE id = @chatId');
-      } catch (updateError) {
-        logger.error(`Failed to update chat ${actualChatId} message count:`, updateError);
-        // Continue anyway since this is just metadata
-      }
-
       // Return error response
       return res.status(500).json({
         error: 'Failed to get AI response',
@@ -973,20 +1117,17 @@ ${f.content}
       });
     }
 
+    const citations = await resolveCitations(pool, actualWorkspaceId, sourceDocuments, aiResponseContent);
+
     // Store AI response in database
-    const aiMessageId = uuidv4();
+    let aiMessageId: string;
     
     try {
-      await pool.request()
-        .input('id', sql.NVarChar, aiMessageId)
-        .input('chatId', sql.NVarChar, actualChatId)
-        .input('userId', sql.NVarChar, userId)
-        .input('content', sql.NVarChar, aiResponseContent)
-        .input('role', sql.NVarChar, 'assistant')
-        .query(`
-          INSERT INTO Messages (id, chatId, userId, content, role, createdAt)
-          VALUES (@id, @chatId, @userId, @content, @role, GETUTCDATE())
-        `);
+      aiMessageId = await storeAssistantMessage(pool, actualChatId, userId, aiResponseContent, {
+        tokens: aiResponseTokens,
+        parentMessageId: userMessageId,
+        metadata: citations.length > 0 ? { citations } : undefined
+      });
     } catch (insertError) {
       logger.error(`Failed to insert AI message into chat ${actualChatId}:`, insertError);
       // Even if we can't save the AI response, we should still return it to the user
@@ -1001,25 +1142,16 @@ ${f.content}
           timestamp: new Date().toISOString()
         },
         aiResponse: {
-          id: aiMessageId,
+          id: uuidv4(),
           content: aiResponseContent,
           role: 'assistant',
+          citations,
           timestamp: new Date().toISOString()
         },
         warning: 'Message could not be saved to database'
       });
     }
 
-    // Update chat message count
-    try {
-      await pool.request()
-        .input('chatId', sql.NVarChar, actualChatId)
-        .query('UPDATE Chats SET messageCount = messageCount + 2, lastMessageAt = GETUTCDATE(), updatedAt = GETUTCDATE() WHERE id = @chatId');
-    } catch (updateError) {
-      logger.error(`Failed to update chat ${actualChatId} message count:`, updateError);
-      // Continue anyway since this is just metadata
-    }
-
     // Return both messages with AI response
     res.status(200).json({
       message: 'Message processed successfully',
@@ -1034,6 +1166,7 @@ ${f.content}
         id: aiMessageId,
         content: aiResponseContent,
         role: 'assistant',
+        citations,
         timestamp: new Date().toISOString()
       }
     });
@@ -1051,6 +1184,139 @@ ${f.content}
   }
 });
 
+// Send message and stream the AI response as Server-Sent Events.
+// Events: `start` (chat and user message), `token` (content delta), `done` (persisted
+// user/assistant messages) and `error`. The assistant message is stored once the stream
+// ends; if the client disconnects first, the partial reply is stored marked as truncated.
+router.post('/message/stream', validate(schemas.sendMessage), canChatInMessageChat, canChatInRequestedWorkspace, async (req, res) => {
+  const turn = await prepareMessageTurn(req, res);
+  if (!turn) {
+    return;
+  }
+
+  const { pool, userId, chatId, workspaceId, userMessageId, userMessageContent, chatHistory } = turn;
+  const userMessage = {
+    id: userMessageId,
+    content: userMessageContent,
+    role: 'user',
+    timestamp: new Date().toISOString()
+  };
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  // req 'close' fires as soon as the body is consumed, so watch the response instead
+  let clientDisconnected = false;
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      clientDisconnected = true;
+    }
+  });
+
+  const sendEvent = (event: string, data: any) => {
+    if (clientDisconnected) {
+      return;
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    // compression() buffers writes unless explicitly flushed
+    (res as express.Response & { flush?: () => void }).flush?.();
+  };
+
+  sendEvent('start', { chatId, userMessage });
+
+  let aiResponseContent = '';
+  let sourceDocuments: any[] = [];
+  let streamError: unknown = null;
+
+  try {
+    const { messages, documents } = await buildCompletionMessages(pool, workspaceId, userMessageContent, chatHistory);
+    sourceDocuments = documents;
+    const stream = await openAIService.getStreamingChatCompletion(messages, {
+      maxTokens: 1000,
+      temperature: 0.7
+    });
+
+    for await (const content of stream) {
+      if (clientDisconnected) {
+        break;
+      }
+      aiResponseContent += content;
+      sendEvent('token', { content });
+    }
+  } catch (error) {
+    logger.error('OpenAI streaming error:', error);
+    streamError = error;
+  }
+
+  let content = aiResponseContent;
+  const citations = aiResponseContent
+    ? await resolveCitations(pool, workspaceId, sourceDocuments, aiResponseContent)
+    : [];
+  const metadata: Record<string, any> = {};
+
+  if (citations.length > 0) {
+    metadata.citations = citations;
+  }
+
+  if (clientDisconnected) {
+    Object.assign(metadata, { truncated: true, reason: 'client_disconnected' });
+    logger.info(`Client disconnected from stream in chat ${chatId}, saving partial reply`);
+  } else if (streamError) {
+    if (aiResponseContent) {
+      Object.assign(metadata, { truncated: true, reason: 'stream_error' });
+    } else {
+      content = AI_ERROR_PLACEHOLDER;
+    }
+  }
+
+  let aiMessageId: string | null = null;
+  try {
+    aiMessageId = await storeAssistantMessage(pool, chatId, userId, content, {
+      parentMessageId: userMessageId,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined
+    });
+  } catch (insertError) {
+    logger.error(`Failed to insert AI message into chat ${chatId}:`, insertError);
+  }
+
+  if (clientDisconnected) {
+    return;
+  }
+
+  if (streamError) {
+    sendEvent('error', {
+      error: 'Failed to get AI response',
+      message: 'Sorry, there was an error processing your message. Please try again.',
+      details: streamError instanceof Error ? streamError.message : 'Unknown error',
+      chatId,
+      userMessage,
+      aiResponse: aiMessageId ? { id: aiMessageId, content, role: 'assistant', citations, metadata } : null
+    });
+  } else {
+    sendEvent('done', {
+      message: aiMessageId ? 'Message processed successfully' : 'Message processed successfully (but not saved)',
+      chatId,
+      userMessage,
+      aiResponse: {
+        id: aiMessageId,
+        content,
+        role: 'assistant',
+        citations,
+        timestamp: new Date().toISOString()
+      },
+      ...(aiMessageId ? {} : { warning: 'Message could not be saved to database' })
+    });
+    logger.info(`Streamed message processed for user ${userId} in chat ${chatId}`);
+  }
+
+  res.end();
+});
+
 // Helper function to check if message contains data-related keywords
 function containsDataKeywords(message: string): boolean {
   const dataKeywords = [
@@ -1083,8 +1349,9 @@ async function getRegularAIResponse(chatHistory: any[], openAIService: any) {
   });
 }
 
-// Get messages for a specific chat
-router.get('/:chatId/messages', validate(schemas.chatIdParam), validate(schemas.pagination), async (req, res) => {
+// Get the messages on a chat's active branch. Messages that have edited versions or
+// regenerated replies list them all (including themselves) as `alternatives`.
+router.get('/:chatId/messages', validate(schemas.chatIdParam), validate(schemas.pagination), canViewChat, async (req, res) => {
   try {
     const { chatId } = req.params;
     const { page = 1, limit = 50 } = req.query;
@@ -1116,21 +1383,71 @@ router.get('/:chatId/messages', validate(schemas.chatIdParam), validate(schemas.
           (SELECT COUNT(*) FROM MessageActions WHERE messageId = m.id AND actionType = 'like') as likeCount,
           (SELECT COUNT(*) FROM MessageActions WHERE messageId = m.id AND actionType = 'bookmark') as bookmarkCount
         FROM Messages m
-        WHERE m.chatId = @chatId
-        ORDER BY m.createdAt ASC
+        WHERE m.chatId = @chatId AND m.isActive = 1
+        ORDER BY m.createdAt ASC, m.id ASC
         OFFSET @offset ROWS
         FETCH NEXT @limit ROWS ONLY
       `);
     
     const countResult = await pool.request()
       .input('chatId', sql.NVarChar, chatId)
-      .query('SELECT COUNT(*) as total FROM Messages WHERE chatId = @chatId');
+      .query('SELECT COUNT(*) as total FROM Messages WHERE chatId = @chatId AND isActive = 1');
     
     const total = countResult.recordset[0].total;
 
+    // Siblings share a parent and role with a message on the active branch
+    const siblingResult = await pool.request()
+      .input('chatId', sql.NVarChar, chatId)
+      .query(`
+        SELECT s.id, s.parentMessageId, s.role, s.content, s.isActive, s.isEdited, s.createdAt
+        FROM Messages s
+        WHERE s.chatId = @chatId AND EXISTS (
+          SELECT 1 FROM Messages a
+          WHERE a.chatId = s.chatId AND a.isActive = 1 AND a.role = s.role
+            AND (a.parentMessageId = s.parentMessageId OR (a.parentMessageId IS NULL AND s.parentMessageId IS NULL))
+        )
+        ORDER BY s.createdAt ASC, s.id ASC
+      `);
+
+    const siblingGroups = new Map<string, any[]>();
+    for (const sibling of siblingResult.recordset) {
+      const key = `${sibling.parentMessageId || ''}|${sibling.role}`;
+      siblingGroups.set(key, [...(siblingGroups.get(key) || []), sibling]);
+    }
+
+    // Metadata is stored as JSON (citations, truncation markers)
+    const messages = result.recordset.map((message: any) => {
+      let metadata = null;
+      if (message.metadata) {
+        try {
+          metadata = JSON.parse(message.metadata);
+        } catch (parseError) {
+          logger.warn(`Failed to parse metadata for message ${message.id}`);
+        }
+      }
+      const siblings = siblingGroups.get(`${message.parentMessageId || ''}|${message.role}`) || [];
+      return {
+        ...message,
+        metadata,
+        citations: metadata?.citations || [],
+        branch: siblings.length > 1
+          ? { index: siblings.findIndex(sibling => sibling.id === message.id), count: siblings.length }
+          : null,
+        alternatives: siblings.length > 1
+          ? siblings.map(sibling => ({
+              id: sibling.id,
+              content: sibling.content,
+              isActive: sibling.isActive,
+              isEdited: sibling.isEdited,
+              createdAt: sibling.createdAt
+            }))
+          : []
+      };
+    });
+
     res.json({
       message: 'Messages retrieved successfully',
-      messages: result.recordset,
+      messages,
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -1146,8 +1463,300 @@ router.get('/:chatId/messages', validate(schemas.chatIdParam), validate(schemas.
   }
 });
 
+// Edit a user message and regenerate the reply. The edited text is stored as a new sibling
+// of the original message, which stays available as an alternative with its replies.
+router.put('/:chatId/messages/:messageId', validate(schemas.editMessage), canChatInChat, async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+    const content = req.body.message.trim();
+    const userId = req.user.userId;
+
+    const pool = await dbManager.getPool();
+
+    const chatResult = await pool.request()
+      .input('chatId', sql.NVarChar, chatId)
+      .input('userId', sql.NVarChar, userId)
+      .query('SELECT id, workspaceId FROM Chats WHERE id = @chatId AND userId = @userId');
+
+    if (chatResult.recordset.length === 0) {
+      return res.status(404).json({
+        error: 'Chat not found',
+        message: 'Chat not found or access denied'
+      });
+    }
+
+    const messageResult = await pool.request()
+      .input('messageId', sql.NVarChar, messageId)
+      .input('chatId', sql.NVarChar, chatId)
+      .query('SELECT id, role, parentMessageId, isActive, createdAt FROM Messages WHERE id = @messageId AND chatId = @chatId');
+
+    if (messageResult.recordset.length === 0) {
+      return res.status(404).json({
+        error: 'Message not found',
+        message: 'Message not found or access denied'
+      });
+    }
+
+    const original = messageResult.recordset[0];
+    if (original.role !== 'user') {
+      return res.status(400).json({
+        error: 'Invalid message',
+        message: 'Only user messages can be edited, use regenerate for replies'
+      });
+    }
+    if (!original.isActive) {
+      return res.status(400).json({
+        error: 'Invalid message',
+        message: 'Only messages on the active branch can be edited'
+      });
+    }
+
+    await deactivateActiveMessages(pool, chatId, original, true);
+
+    const editedMessageId = uuidv4();
+    await pool.request()
+      .input('id', sql.NVarChar, editedMessageId)
+      .input('chatId', sql.NVarChar, chatId)
+      .input('userId', sql.NVarChar, userId)
+      .input('content', sql.NVarChar, content)
+      .input('parentMessageId', sql.NVarChar, original.parentMessageId)
+      .query(`
+        INSERT INTO Messages (id, chatId, userId, content, role, parentMessageId, isEdited, editedAt, createdAt)
+        VALUES (@id, @chatId, @userId, @content, 'user', @parentMessageId, 1, GETUTCDATE(), GETUTCDATE())
+      `);
+
+    const reply = await generateBranchReply(
+      pool,
+      chatResult.recordset[0],
+      userId,
+      { id: editedMessageId, content },
+      { temperature: 0.7, newMessageCount: 2 }
+    );
+
+    const userMessage = {
+      id: editedMessageId,
+      content,
+      role: 'user',
+      parentMessageId: original.parentMessageId,
+      isEdited: true,
+      editedFrom: messageId,
+      timestamp: new Date().toISOString()
+    };
+
+    if (reply.error) {
+      return res.status(500).json({
+        error: 'Failed to get AI response',
+        message: 'Sorry, there was an error processing your message. Please try again.',
+        details: reply.error instanceof Error ? reply.error.message : 'Unknown error',
+        chatId,
+        userMessage
+      });
+    }
+
+    res.json({
+      message: 'Message edited successfully',
+      chatId,
+      userMessage,
+      aiResponse: {
+        id: reply.id,
+        content: reply.content,
+        role: 'assistant',
+        parentMessageId: editedMessageId,
+        citations: reply.citations,
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    logger.info(`Message ${messageId} edited as ${editedMessageId} in chat ${chatId} by user ${userId}`);
+  } catch (error) {
+    logger.error('Edit message error:', error);
+    res.status(500).json({
+      error: 'Failed to edit message',
+      message: 'Please try again later'
+    });
+  }
+});
+
+// Regenerate an assistant reply. The new reply is stored as a sibling of the given one and
+// becomes the active branch; earlier replies stay available as alternatives.
+router.post('/:chatId/messages/:messageId/regenerate', validate(schemas.chatMessageParam), canChatInChat, async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+    const userId = req.user.userId;
+
+    const pool = await dbManager.getPool();
+
+    const chatResult = await pool.request()
+      .input('chatId', sql.NVarChar, chatId)
+      .input('userId', sql.NVarChar, userId)
+      .query('SELECT id, workspaceId FROM Chats WHERE id = @chatId AND userId = @userId');
+
+    if (chatResult.recordset.length === 0) {
+      return res.status(404).json({
+        error: 'Chat not found',
+        message: 'Chat not found or access denied'
+      });
+    }
+
+    const messageResult = await pool.request()
+      .input('messageId', sql.NVarChar, messageId)
+      .input('chatId', sql.NVarChar, chatId)
+      .query(`
+        SELECT m.id, m.role, m.isActive, m.createdAt, p.id AS parentId, p.role AS parentRole, p.content AS parentContent
+        FROM Messages m
+        LEFT JOIN Messages p ON p.id = m.parentMessageId
+        WHERE m.id = @messageId AND m.chatId = @chatId
+      `);
+
+    if (messageResult.recordset.length === 0) {
+      return res.status(404).json({
+        error: 'Message not found',
+        message: 'Message not found or access denied'
+      });
+    }
+
+    const original = messageResult.recordset[0];
+    if (original.role !== 'assistant' || original.parentRole !== 'user') {
+      return res.status(400).json({
+        error: 'Invalid message',
+        message: 'Only assistant replies to a user message can be regenerated'
+      });
+    }
+    if (!original.isActive) {
+      return res.status(400).json({
+        error: 'Invalid message',
+        message: 'Only replies on the active branch can be regenerated'
+      });
+    }
+
+    await deactivateActiveMessages(pool, chatId, original, true);
+
+    // A higher temperature than regular replies so the alternative actually differs
+    const reply = await generateBranchReply(
+      pool,
+      chatResult.recordset[0],
+      userId,
+      { id: original.parentId, content: original.parentContent },
+      { temperature: 0.9, newMessageCount: 1 }
+    );
+
+    if (reply.error) {
+      return res.status(500).json({
+        error: 'Failed to get AI response',
+        message: 'Sorry, there was an error regenerating the response. Please try again.',
+        details: reply.error instanceof Error ? reply.error.message : 'Unknown error',
+        chatId
+      });
+    }
+
+    res.json({
+      message: 'Response regenerated successfully',
+      chatId,
+      aiResponse: {
+        id: reply.id,
+        content: reply.content,
+        role: 'assistant',
+        parentMessageId: original.parentId,
+        regeneratedFrom: messageId,
+        citations: reply.citations,
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    logger.info(`Response ${messageId} regenerated as ${reply.id} in chat ${chatId} by user ${userId}`);
+  } catch (error) {
+    logger.error('Regenerate message error:', error);
+    res.status(500).json({
+      error: 'Failed to regenerate response',
+      message: 'Please try again later'
+    });
+  }
+});
+
+// Switch the chat to the branch containing an alternative message. Below it, the most
+// recent reply at each level becomes active.
+router.post('/:chatId/messages/:messageId/activate', validate(schemas.chatMessageParam), canChatInChat, async (req, res) => {
+  try {
+    const { chatId, messageId } = req.params;
+    const userId = req.user.userId;
+
+    const pool = await dbManager.getPool();
+
+    const messageResult = await pool.request()
+      .input('messageId', sql.NVarChar, messageId)
+      .input('chatId', sql.NVarChar, chatId)
+      .input('userId', sql.NVarChar, userId)
+      .query(`
+        SELECT m.id, m.parentMessageId, m.isActive, p.isActive AS parentIsActive
+        FROM Messages m
+        JOIN Chats c ON m.chatId = c.id
+        LEFT JOIN Messages p ON p.id = m.parentMessageId
+        WHERE m.id = @messageId AND m.chatId = @chatId AND c.userId = @userId
+      `);
+
+    if (messageResult.recordset.length === 0) {
+      return res.status(404).json({
+        error: 'Message not found',
+        message: 'Message not found or access denied'
+      });
+    }
+
+    const target = messageResult.recordset[0];
+    if (target.parentMessageId && !target.parentIsActive) {
+      return res.status(400).json({
+        error: 'Invalid message',
+        message: 'Switch to the branch containing the parent message first'
+      });
+    }
+
+    if (!target.isActive) {
+      // Take the currently active sibling and everything after it off the active branch
+      const activeSiblingResult = await pool.request()
+        .input('chatId', sql.NVarChar, chatId)
+        .input('parentMessageId', sql.NVarChar, target.parentMessageId)
+        .query(`
+          SELECT TOP 1 id, createdAt FROM Messages
+          WHERE chatId = @chatId AND isActive = 1
+            AND (parentMessageId = @parentMessageId OR (@parentMessageId IS NULL AND parentMessageId IS NULL))
+        `);
+      if (activeSiblingResult.recordset.length > 0) {
+        await deactivateActiveMessages(pool, chatId, activeSiblingResult.recordset[0], true);
+      }
+
+      let currentId: string | null = messageId;
+      while (currentId) {
+        await pool.request()
+          .input('id', sql.NVarChar, currentId)
+          .query('UPDATE Messages SET isActive = 1 WHERE id = @id');
+
+        const childResult: sql.IResult<any> = await pool.request()
+          .input('chatId', sql.NVarChar, chatId)
+          .input('parentMessageId', sql.NVarChar, currentId)
+          .query(`
+            SELECT TOP 1 id FROM Messages
+            WHERE chatId = @chatId AND parentMessageId = @parentMessageId
+            ORDER BY createdAt DESC, id DESC
+          `);
+        currentId = childResult.recordset.length > 0 ? childResult.recordset[0].id : null;
+      }
+    }
+
+    res.json({
+      message: 'Branch activated successfully',
+      chatId,
+      messageId
+    });
+  } catch (error) {
+    logger.error('Activate message branch error:', error);
+    res.status(500).json({
+      error: 'Failed to switch branch',
+      message: 'Please try again later'
+    });
+  }
+});
+
 // Delete chat
-router.delete('/:chatId', validate(schemas.chatIdParam), async (req, res) => {
+router.delete('/:chatId', validate(schemas.chatIdParam), canViewChat, async (req, res) => {
   try {
     const { chatId } = req.params;
     const userId = req.user.userId;
@@ -1194,6 +1803,7 @@ router.delete('/:chatId', validate(schemas.chatIdParam), async (req, res) => {
 router.post('/:chatId/messages/:messageId/actions', 
   validate(schemas.chatIdParam), 
   validate(schemas.messageIdParam),
+  canViewChat,
   async (req, res) => {
     try {
       const { chatId, messageId } = req.params;
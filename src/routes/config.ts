@@ -1,10 +1,12 @@
 import express from 'express';
 import { authenticateToken, requireAdmin } from '../middleware/auth';
 import { logger } from '../utils/logger';
+import { AuditService, getAuditContext } from '../services/auditService';
 import { DatabaseManager } from '../config/database';
 import { StorageService } from '../services/storage';
 import { OpenAIService } from '../services/openai';
 import { ConfigurationManager } from '../services/configurationManager';
+import { getSearchProvider } from '../services/searchProvider';
 
 const router = express.Router();
 
@@ -33,6 +35,11 @@ router.get('/', async (req, res) => {
   }
 });
 
+function snapshotSection(configManager: ConfigurationManager, section: string): Record<string, string | undefined> {
+  const keys = Object.keys(configManager.getConfiguration(section));
+  return Object.fromEntries(keys.map(key => [key, configManager.getValue(section, key)]));
+}
+
 // Update configuration for a specific section
 router.put('/:section', async (req, res) => {
   try {
@@ -43,7 +50,7 @@ router.put('/:section', async (req, res) => {
     logger.info(`Admin ${adminEmail} updating ${section} configuration`);
 
     // Validate section
-    const validSections = ['database', 'openai', 'storage', 'identity', 'fabric', 'security'];
+    const validSections = ['database', 'openai', 'storage', 'identity', 'fabric', 'search', 'security', 'oidc', 'mail'];
     if (!validSections.includes(section)) {
       return res.status(400).json({
         error: 'Invalid configuration section',
@@ -58,7 +65,23 @@ router.put('/:section', async (req, res) => {
     const validation = await configManager.validateConfiguration(section);
     
     // Update configuration
+    const before = snapshotSection(configManager, section);
     await configManager.updateConfiguration(section, configData, adminEmail);
+    const after = snapshotSection(configManager, section);
+
+    // Only changed settings are audited, and sensitive values are never written to the log
+    const changedKeys = Object.keys({ ...before, ...after }).filter(key => before[key] !== after[key]);
+    const auditValue = (key: string, value: string | undefined) =>
+      !value ? null : configManager.isSensitiveKey(key) ? '(set)' : value;
+    await AuditService.getInstance().record(getAuditContext(req), {
+      action: 'config_updated',
+      resource: 'config',
+      resourceId: section,
+      details: {
+        before: Object.fromEntries(changedKeys.map(key => [key, auditValue(key, before[key])])),
+        after: Object.fromEntries(changedKeys.map(key => [key, auditValue(key, after[key])]))
+      }
+    });
 
     // Test the configuration if critical services
     if (['database', 'openai', 'storage'].includes(section)) {
@@ -134,6 +157,9 @@ async function testServiceConnection(section: string) {
     case 'fabric':
       testResult = await testFabricConnection();
       break;
+    case 'search':
+      testResult = await testSearchConnection();
+      break;
     case 'security':
       testResult = await testSecurityConfig();
       break;
@@ -223,6 +249,45 @@ async function testStorageConnection() {
   }
 }
 
+async function testSearchConnection() {
+  try {
+    const searchProvider = getSearchProvider();
+    if (!searchProvider.isAvailable()) {
+      return {
+        success: false,
+        message: 'Search connection failed',
+        details: { provider: searchProvider.name, error: 'Search provider is not configured' }
+      };
+    }
+
+    let details: Record<string, any> = { provider: searchProvider.name, connected: true };
+
+    if (searchProvider.name === 'local') {
+      // Round trip through a scratch index to check the data directory is writable
+      const indexName = 'connectiontestindex';
+      await searchProvider.ensureIndex(indexName);
+      await searchProvider.indexDocuments(indexName, [{ id: 'test', content: 'Search connection test' }]);
+      const results = await searchProvider.searchDocuments(indexName, 'connection test', { top: 1 });
+      await searchProvider.deleteWorkspaceIndex(indexName);
+      details = { ...details, dataDir: process.env.LOCAL_SEARCH_DATA_DIR || 'data/search-indexes', testSearch: results.length === 1 };
+    } else {
+      details = { ...details, endpoint: process.env.AZURE_AI_SEARCH_ENDPOINT };
+    }
+
+    return {
+      success: true,
+      message: 'Search connection successful',
+      details
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Search connection failed',
+      details: { error: error instanceof Error ? error.message : 'Unknown error' }
+    };
+  }
+}
+
 async function testIdentityConnection() {
   // For Azure AD, we can test by checking if credentials are configured
   const tenantId = process.env.AZURE_TENANT_ID;
@@ -4,6 +4,12 @@ import { validate, schemas } from '../middleware/validation';
 import { aiLimiter } from '../middleware/rateLimiter';
 import { AIDataService } from '../services/aiDataService';
 import { FabricDataAgentService } from '../services/fabricDataAgent';
+import { ConnectionSecretService } from '../services/connectionSecretService';
+import { ExternalDatabaseService } from '../services/externalDatabaseService';
+import { DatabaseDriverError } from '../services/databaseDriver';
+import { QueryGuardService, QueryRejectedError } from '../services/queryGuardService';
+import { SavedQueryError, SavedQueryService } from '../services/savedQueryService';
+import { CronScheduleError } from '../services/cronSchedule';
 import { logger } from '../utils/logger';
 import Joi from 'joi';
 import { DatabaseManager } from '../config/database';
@@ -18,6 +24,9 @@ router.use(authenticateToken);
 const aiDataService = AIDataService.getInstance();
 const fabricService = FabricDataAgentService.getInstance();
 const dbManager = DatabaseManager.getInstance();
+const connectionSecrets = ConnectionSecretService.getInstance();
+const externalDatabases = ExternalDatabaseService.getInstance();
+const savedQueries = SavedQueryService.getInstance();
 
 // Validation schemas for data routes
 const dataQuestionSchema = {
@@ -34,10 +43,12 @@ const dataQuestionSchema = {
 const executeQuerySchema = {
   body: Joi.object({
     query: Joi.string().min(1).max(10000).required(),
-    queryType: Joi.string().valid('dax', 'sql').required(),
+    queryType: Joi.string().valid('dax', 'sql', 'mongo').required(),
     datasetId: Joi.string().uuid().optional(),
     connectionId: Joi.string().uuid().optional(),
-    workspaceId: Joi.string().uuid().optional()
+    workspaceId: Joi.string().uuid().optional(),
+    maxRows: Joi.number().integer().min(1).max(ExternalDatabaseService.MAX_ROWS).optional(),
+    timeoutSeconds: Joi.number().integer().min(1).max(300).optional()
   })
 };
 
@@ -74,6 +85,7 @@ router.post('/question', aiLimiter, validate(dataQuestionSchema), async (req, re
         } : null,
         query: result.query,
         queryType: result.queryType,
+        explanation: result.explanation,
         visualization: result.visualization,
         confidence: result.confidence,
         executionTime: result.executionTime,
@@ -90,24 +102,73 @@ router.post('/question', aiLimiter, validate(dataQuestionSchema), async (req, re
   }
 });
 
-// Execute direct query endpoint
+// Execute direct query endpoint. Queries must pass the query guard (a single read-only SELECT
+// or EVALUATE) and get the row limit written into them. With a connectionId they run on that
+// external database, otherwise on Fabric.
 router.post('/query', aiLimiter, validate(executeQuerySchema), async (req, res) => {
   try {
-    const { query, queryType, datasetId, connectionId, workspaceId } = req.body;
+    const { query, queryType, datasetId, connectionId, workspaceId, timeoutSeconds } = req.body;
+    const maxRows = req.body.maxRows || ExternalDatabaseService.DEFAULT_MAX_ROWS;
     const userId = req.user.userId;
 
     logger.info(`Direct query execution from user ${userId}: ${queryType.toUpperCase()}`);
 
-    let result;
-    if (queryType === 'dax') {
-      if (!datasetId) {
+    if (connectionId) {
+      const connection = await externalDatabases.getConnection(connectionId, userId);
+      if (!connection) {
+        return res.status(404).json({
+          error: 'Connection not found'
+        });
+      }
+
+      const expectedType = connection.type === 'mongodb' ? 'mongo' : 'sql';
+      if (queryType !== expectedType) {
         return res.status(400).json({
-          error: 'Dataset ID required for DAX queries'
+          error: 'Invalid query type',
+          message: `${connection.type} connections take ${expectedType} queries`
         });
       }
-      result = await fabricService.executeDaxQuery(datasetId, query, workspaceId);
+
+      const result = await externalDatabases.executeQuery(connection, query, {
+        maxRows,
+        timeoutMs: timeoutSeconds ? timeoutSeconds * 1000 : undefined
+      });
+      return res.json({
+        message: 'Query executed successfully',
+        result: {
+          rowCount: result.rowCount,
+          columns: result.columns,
+          executionTime: result.executionTime,
+          queryType: result.queryType,
+          cached: result.cached,
+          truncated: result.truncated,
+          data: result.data
+        }
+      });
+    }
+
+    if (queryType === 'mongo') {
+      return res.status(400).json({
+        error: 'Connection ID required for MongoDB queries'
+      });
+    }
+
+    if (queryType === 'dax' && !datasetId) {
+      return res.status(400).json({
+        error: 'Dataset ID required for DAX queries'
+      });
+    }
+
+    // One row over the cap tells whether the result was truncated
+    const inspection = QueryGuardService.getInstance().enforce(query, QueryGuardService.dialectFor(queryType)!, {
+      rowLimit: maxRows + 1
+    });
+
+    let result;
+    if (queryType === 'dax') {
+      result = await fabricService.executeDaxQuery(datasetId, inspection.query, workspaceId);
     } else {
-      result = await fabricService.executeSqlQuery(query, workspaceId, connectionId);
+      result = await fabricService.executeSqlQuery(inspection.query, workspaceId);
     }
 
     res.json({
@@ -118,13 +179,26 @@ router.post('/query', aiLimiter, validate(executeQuerySchema), async (req, res)
         executionTime: result.executionTime,
         queryType: result.queryType,
         cached: result.cached,
-        // Only include first 1000 rows for direct queries
-        data: result.data.slice(0, 1000)
+        truncated: result.data.length > maxRows,
+        data: result.data.slice(0, maxRows)
       }
     });
 
   } catch (error) {
     logger.error('Direct query execution error:', error);
+    if (error instanceof QueryRejectedError) {
+      return res.status(error.statusCode).json({
+        error: 'Query rejected',
+        message: error.message,
+        reason: error.rejection
+      });
+    }
+    if (error instanceof DatabaseDriverError) {
+      return res.status(error.statusCode).json({
+        error: error.statusCode === 400 ? 'Query rejected' : 'Failed to execute query',
+        message: error.message
+      });
+    }
     res.status(500).json({
       error: 'Failed to execute query',
       message: error instanceof Error ? error.message : 'Unknown error occurred'
@@ -248,8 +322,8 @@ router.get('/connections', async (req, res) => {
       .input('userId', sql.NVarChar, userId)
       .query(`
         SELECT 
-          id, name, type, host, port, database, username, 
-          status, lastConnected, isDefault, createdAt
+          id, name, type, host, port, [database], username, encrypt, trustServerCertificate,
+          status, lastConnected, lastTestedAt, lastLatencyMs, lastError, serverVersion, allowWrites, isDefault, createdAt
         FROM DatabaseConnections 
         WHERE userId = @userId 
         ORDER BY isDefault DESC, name ASC
@@ -279,11 +353,13 @@ router.post('/connections', validate({
     database: Joi.string().max(200).optional(),
     username: Joi.string().max(200).optional(),
     password: Joi.string().max(500).optional(),
+    encrypt: Joi.boolean().optional(),
+    trustServerCertificate: Joi.boolean().optional(),
     isDefault: Joi.boolean().default(false)
   })
 }), async (req, res) => {
   try {
-    const { name, type, host, port, database, username, password, isDefault } = req.body;
+    const { name, type, host, port, database, username, password, encrypt = true, trustServerCertificate = false, isDefault = false } = req.body;
     const userId = req.user.userId;
     const connectionId = uuidv4();
 
@@ -309,13 +385,15 @@ router.post('/connections', validate({
       .input('port', sql.Int, port)
       .input('database', sql.NVarChar, database || null)
       .input('username', sql.NVarChar, username || null)
-      .input('password', sql.NVarChar, password || null) // In production, encrypt this
+      .input('password', sql.NVarChar, password ? await connectionSecrets.encrypt(connectionId, password) : null)
+      .input('encrypt', sql.Bit, encrypt)
+      .input('trustServerCertificate', sql.Bit, trustServerCertificate)
       .input('isDefault', sql.Bit, isDefault)
       .query(`
         INSERT INTO DatabaseConnections 
-        (id, userId, name, type, host, port, database, username, password, isDefault, status)
+        (id, userId, name, type, host, port, [database], username, password, encrypt, trustServerCertificate, isDefault, status)
         OUTPUT INSERTED.*
-        VALUES (@id, @userId, @name, @type, @host, @port, @database, @username, @password, @isDefault, 'disconnected')
+        VALUES (@id, @userId, @name, @type, @host, @port, @database, @username, @password, @encrypt, @trustServerCertificate, @isDefault, 'disconnected')
       `);
 
     const connection = result.recordset[0];
@@ -338,62 +416,28 @@ router.post('/connections', validate({
   }
 });
 
-// Test database connection
+// Test database connection: opens it, runs a health probe and records the outcome
 router.post('/connections/:connectionId/test', async (req, res) => {
   try {
     const { connectionId } = req.params;
     const userId = req.user.userId;
 
-    const pool = await dbManager.getPool();
-    
-    // Get connection details
-    const connectionResult = await pool.request()
-      .input('connectionId', sql.NVarChar, connectionId)
-      .input('userId', sql.NVarChar, userId)
-      .query(`
-        SELECT * FROM DatabaseConnections 
-        WHERE id = @connectionId AND userId = @userId
-      `);
-
-    if (connectionResult.recordset.length === 0) {
+    const connection = await externalDatabases.getConnection(connectionId, userId);
+    if (!connection) {
       return res.status(404).json({
         error: 'Connection not found'
       });
     }
 
-    const connection = connectionResult.recordset[0];
-    
-    // Test the connection (implement actual connection testing based on type)
-    let status = 'connected';
-    let errorMessage = null;
-    
-    try {
-      // This would contain actual connection testing logic for each database type
-      // For now, simulate a successful test
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    } catch (error) {
-      status = 'error';
-      errorMessage = error instanceof Error ? error.message : 'Connection failed';
-    }
-
-    // Update connection status
-    await pool.request()
-      .input('connectionId', sql.NVarChar, connectionId)
-      .input('status', sql.NVarChar, status)
-      .input('lastConnected', sql.DateTime2, status === 'connected' ? new Date() : null)
-      .query(`
-        UPDATE DatabaseConnections 
-        SET status = @status, lastConnected = @lastConnected, updatedAt = GETUTCDATE()
-        WHERE id = @connectionId
-      `);
+    const result = await externalDatabases.testConnection(connection);
 
     res.json({
-      message: status === 'connected' ? 'Connection test successful' : 'Connection test failed',
-      status,
-      error: errorMessage
+      message: result.status === 'connected' ? 'Connection test successful' : 'Connection test failed',
+      status: result.status,
+      latencyMs: result.latencyMs,
+      serverVersion: result.serverVersion,
+      error: result.error
     });
-
-    logger.info(`Connection test for ${connectionId}: ${status}`);
   } catch (error) {
     logger.error('Test connection error:', error);
     res.status(500).json({
@@ -439,6 +483,224 @@ router.delete('/connections/:connectionId', async (req, res) => {
   }
 });
 
+// Fields of a saved query. Questions are answered like POST /question; queries run like
+// POST /query. Without a schedule a saved query only runs on demand.
+const savedQueryFields = {
+  name: Joi.string().min(1).max(200),
+  description: Joi.string().max(1000).allow('', null),
+  kind: Joi.string().valid('question', 'query'),
+  question: Joi.string().min(1).max(1000).allow(null),
+  query: Joi.string().min(1).max(10000).allow(null),
+  queryType: Joi.string().valid('dax', 'sql', 'mongo').allow(null),
+  datasetId: Joi.string().uuid().allow(null),
+  connectionId: Joi.string().uuid().allow(null),
+  workspaceId: Joi.string().uuid().allow(null),
+  visualization: Joi.object().allow(null),
+  keyColumns: Joi.array().items(Joi.string().min(1).max(200)).max(10),
+  schedule: Joi.string().max(100).allow(null),
+  timeZone: Joi.string().max(100),
+  isActive: Joi.boolean(),
+  deliverTo: Joi.array().items(Joi.string().valid('history', 'webhook')).unique(),
+  notifyOn: Joi.string().valid('always', 'changes'),
+  webhookUrl: Joi.string().uri({ scheme: ['http', 'https'] }).max(2000).allow(null)
+};
+
+const savedQueryParamsSchema = Joi.object({
+  savedQueryId: Joi.string().uuid().required()
+});
+
+// List saved queries
+router.get('/saved-queries', async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const list = await savedQueries.list(userId);
+
+    res.json({
+      savedQueries: list
+    });
+  } catch (error) {
+    logger.error('Get saved queries error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve saved queries',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Create saved query. The webhook signing secret is only returned here and on rotation.
+router.post('/saved-queries', validate({
+  body: Joi.object({
+    ...savedQueryFields,
+    name: savedQueryFields.name.required(),
+    kind: savedQueryFields.kind.required()
+  })
+}), async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const { savedQuery, webhookSecret } = await savedQueries.create(userId, req.body);
+
+    res.status(201).json({
+      message: 'Saved query created successfully',
+      savedQuery,
+      ...(webhookSecret ? { webhookSecret } : {})
+    });
+  } catch (error) {
+    sendSavedQueryError(res, error, 'Failed to create saved query');
+  }
+});
+
+// Get saved query
+router.get('/saved-queries/:savedQueryId', validate({ params: savedQueryParamsSchema }), async (req, res) => {
+  try {
+    const savedQuery = await savedQueries.get(req.params.savedQueryId, req.user.userId);
+    if (!savedQuery) {
+      return res.status(404).json({
+        error: 'Saved query not found'
+      });
+    }
+
+    res.json({ savedQuery });
+  } catch (error) {
+    sendSavedQueryError(res, error, 'Failed to retrieve saved query');
+  }
+});
+
+// Update saved query; fields left out are unchanged
+router.put('/saved-queries/:savedQueryId', validate({
+  params: savedQueryParamsSchema,
+  body: Joi.object({
+    ...savedQueryFields,
+    rotateWebhookSecret: Joi.boolean()
+  }).min(1)
+}), async (req, res) => {
+  try {
+    const result = await savedQueries.update(req.params.savedQueryId, req.user.userId, req.body);
+    if (!result) {
+      return res.status(404).json({
+        error: 'Saved query not found'
+      });
+    }
+
+    res.json({
+      message: 'Saved query updated successfully',
+      savedQuery: result.savedQuery,
+      ...(result.webhookSecret ? { webhookSecret: result.webhookSecret } : {})
+    });
+  } catch (error) {
+    sendSavedQueryError(res, error, 'Failed to update saved query');
+  }
+});
+
+// Delete saved query and its runs
+router.delete('/saved-queries/:savedQueryId', validate({ params: savedQueryParamsSchema }), async (req, res) => {
+  try {
+    const deleted = await savedQueries.delete(req.params.savedQueryId, req.user.userId);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Saved query not found'
+      });
+    }
+
+    res.json({
+      message: 'Saved query deleted successfully'
+    });
+
+    logger.info(`Saved query deleted: ${req.params.savedQueryId} by user: ${req.user.userId}`);
+  } catch (error) {
+    sendSavedQueryError(res, error, 'Failed to delete saved query');
+  }
+});
+
+// Run saved query now. The run is stored and delivered like a scheduled one.
+router.post('/saved-queries/:savedQueryId/run', aiLimiter, validate({ params: savedQueryParamsSchema }), async (req, res) => {
+  try {
+    const run = await savedQueries.runNow(req.params.savedQueryId, req.user.userId);
+    if (!run) {
+      return res.status(404).json({
+        error: 'Saved query not found'
+      });
+    }
+
+    res.json({
+      message: run.status === 'succeeded' ? 'Saved query run completed' : 'Saved query run failed',
+      run
+    });
+  } catch (error) {
+    sendSavedQueryError(res, error, 'Failed to run saved query');
+  }
+});
+
+// List a saved query's runs, newest first
+router.get('/saved-queries/:savedQueryId/runs', validate({
+  params: savedQueryParamsSchema,
+  query: Joi.object({
+    limit: Joi.number().integer().min(1).max(100).optional()
+  })
+}), async (req, res) => {
+  try {
+    const savedQuery = await savedQueries.get(req.params.savedQueryId, req.user.userId);
+    if (!savedQuery) {
+      return res.status(404).json({
+        error: 'Saved query not found'
+      });
+    }
+
+    const runs = await savedQueries.listRuns(savedQuery.id, req.query.limit ? parseInt(req.query.limit as string, 10) : undefined);
+    res.json({ runs });
+  } catch (error) {
+    sendSavedQueryError(res, error, 'Failed to retrieve saved query runs');
+  }
+});
+
+// Get a run with its snapshot and diff
+router.get('/saved-queries/:savedQueryId/runs/:runId', validate({
+  params: savedQueryParamsSchema.keys({
+    runId: Joi.string().uuid().required()
+  })
+}), async (req, res) => {
+  try {
+    const savedQuery = await savedQueries.get(req.params.savedQueryId, req.user.userId);
+    if (!savedQuery) {
+      return res.status(404).json({
+        error: 'Saved query not found'
+      });
+    }
+
+    const run = await savedQueries.getRun(savedQuery.id, req.params.runId);
+    if (!run) {
+      return res.status(404).json({
+        error: 'Run not found'
+      });
+    }
+
+    res.json({ run });
+  } catch (error) {
+    sendSavedQueryError(res, error, 'Failed to retrieve saved query run');
+  }
+});
+
+// Maps saved query, schedule and query guard errors to their status codes
+function sendSavedQueryError(res: express.Response, error: unknown, fallback: string) {
+  if (error instanceof QueryRejectedError) {
+    return res.status(error.statusCode).json({
+      error: 'Query rejected',
+      message: error.message,
+      reason: error.rejection
+    });
+  }
+  if (error instanceof SavedQueryError || error instanceof CronScheduleError || error instanceof DatabaseDriverError) {
+    return res.status(error.statusCode).json({
+      error: error.statusCode === 404 ? 'Not found' : error.statusCode < 500 ? 'Invalid saved query' : fallback,
+      message: error.message
+    });
+  }
+  logger.error(`${fallback}:`, error);
+  res.status(500).json({
+    error: fallback,
+    message: error instanceof Error ? error.message : 'Unknown error occurred'
+  });
+}
+
 // Helper function to generate query suggestions
 function generateQuerySuggestions(schema: any): string[] {
   const suggestions: string[] = [];
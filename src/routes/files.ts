@@ -1,9 +1,10 @@
 import express from 'express';
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireWorkspaceCapability, chatWorkspaceId } from '../middleware/auth';
 import { blobServiceClient, createFile, getFileById, getFilesByUserId, deleteFileRecord } from '../services/azure';
 import { logger } from '../utils/logger';
+import { AuditService, getAuditContext } from '../services/auditService';
 
 const router = express.Router();
 
@@ -37,7 +38,8 @@ const upload = multer({
 });
 
 // Upload file endpoint
-router.post('/upload', upload.single('file'), async (req, res) => {
+// Files attached to a chat need chat access to its workspace; the body is only parsed by multer
+router.post('/upload', upload.single('file'), requireWorkspaceCapability('chat', { workspaceId: chatWorkspaceId(req => req.body.chatId), optional: true }), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({
@@ -165,6 +167,13 @@ router.delete('/:fileId', async (req, res) => {
     // Delete file record from database
     await deleteFileRecord(fileId);
 
+    await AuditService.getInstance().record(getAuditContext(req), {
+      action: 'file_deleted',
+      resource: 'file',
+      resourceId: fileId,
+      details: { chatId: file.chatId || null, before: { originalName: file.originalName, mimeType: file.mimeType, size: file.size } }
+    });
+
     res.json({
       message: 'File deleted successfully',
       fileId
@@ -1,5 +1,5 @@
 import express from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireWorkspaceCapability, chatWorkspaceId } from '../middleware/auth';
 import { DatabaseManager } from '../config/database';
 import { logger } from '../utils/logger';
 import sql from 'mssql';
@@ -16,7 +16,7 @@ async function getUserChatHistory(userId: string, limit: number = 50) {
       .input('limit', sql.Int, limit)
       .query(`
         SELECT TOP (@limit) c.*, 
-               (SELECT TOP 1 content FROM Messages m WHERE m.chatId = c.id ORDER BY m.createdAt DESC) as lastMessage
+               (SELECT TOP 1 content FROM Messages m WHERE m.chatId = c.id AND m.isActive = 1 ORDER BY m.createdAt DESC) as lastMessage
         FROM Chats c
         WHERE c.userId = @userId AND c.isArchived = 0
         ORDER BY ISNULL(c.lastMessageAt, c.updatedAt) DESC, c.createdAt DESC
@@ -55,7 +55,8 @@ async function getMessagesByChatId(chatId: string) {
     const pool = await dbManager.getPool();
     const result = await pool.request()
       .input('chatId', sql.NVarChar, chatId)
-      .query('SELECT * FROM Messages WHERE chatId = @chatId ORDER BY createdAt ASC');
+      // Only the active branch; replaced replies and abandoned edits stay hidden
+      .query('SELECT * FROM Messages WHERE chatId = @chatId AND isActive = 1 ORDER BY createdAt ASC');
     
     return result.recordset.map(message => ({
       ...message,
@@ -82,7 +83,7 @@ router.get('/', async (req, res) => {
       .input('limit', sql.Int, limit)
       .query(`
         SELECT TOP (@limit) c.*, 
-               (SELECT TOP 1 content FROM Messages m WHERE m.chatId = c.id ORDER BY m.createdAt DESC) as lastMessage
+               (SELECT TOP 1 content FROM Messages m WHERE m.chatId = c.id AND m.isActive = 1 ORDER BY m.createdAt DESC) as lastMessage
         FROM Chats c
         WHERE c.userId = @userId AND c.isArchived = 0
         ORDER BY ISNULL(c.lastMessageAt, c.updatedAt) DESC, c.createdAt DESC
@@ -110,7 +111,7 @@ router.get('/', async (req, res) => {
 });
 
 // Get specific chat details with messages
-router.get('/:chatId', async (req, res) => {
+router.get('/:chatId', requireWorkspaceCapability('view', { workspaceId: chatWorkspaceId(req => req.params.chatId), optional: true }), async (req, res) => {
   try {
     const userId = req.user.userId;
     const { chatId } = req.params;
@@ -0,0 +1,90 @@
+import express from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { validate, schemas } from '../middleware/validation';
+import { logger } from '../utils/logger';
+import { WorkspaceInvitationService, WorkspaceInvitationError, InvitationReference } from '../services/workspaceInvitationService';
+
+const router = express.Router();
+const invitationService = WorkspaceInvitationService.getInstance();
+
+// Invitations are always answered by a signed-in user, so new users register or sign in first
+router.use(authenticateToken);
+
+function sendInvitationError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof WorkspaceInvitationError) {
+    return res.status(error.statusCode).json({
+      error: `Failed to ${action} invitation`,
+      message: error.message
+    });
+  }
+  logger.error(`${action} invitation error:`, error);
+  res.status(500).json({
+    error: `Failed to ${action} invitation`,
+    message: `An error occurred while trying to ${action} the invitation`
+  });
+}
+
+async function acceptInvitation(req: express.Request, res: express.Response, reference: InvitationReference) {
+  try {
+    const result = await invitationService.accept(
+      reference,
+      { userId: req.user.userId, email: req.user.email },
+      { userAgent: req.get('user-agent'), ipAddress: req.ip }
+    );
+    res.json({
+      message: result.alreadyMember ? 'You are already a member of this workspace' : 'Invitation accepted',
+      ...result
+    });
+  } catch (error) {
+    sendInvitationError(res, error, 'accept');
+  }
+}
+
+async function declineInvitation(req: express.Request, res: express.Response, reference: InvitationReference) {
+  try {
+    await invitationService.decline(
+      reference,
+      { userId: req.user.userId, email: req.user.email },
+      { userAgent: req.get('user-agent'), ipAddress: req.ip }
+    );
+    res.json({ message: 'Invitation declined' });
+  } catch (error) {
+    sendInvitationError(res, error, 'decline');
+  }
+}
+
+// Pending invitations sent to the current user's email address
+router.get('/', async (req, res) => {
+  try {
+    const invitations = await invitationService.listForUser(req.user.email);
+    res.json({ invitations });
+  } catch (error) {
+    logger.error('List invitations error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch invitations',
+      message: 'An error occurred while fetching invitations'
+    });
+  }
+});
+
+// Describe the invitation behind an emailed or shared token before answering it
+router.post('/preview', validate(schemas.invitationToken), async (req, res) => {
+  try {
+    const invitation = await invitationService.preview(req.body.token, { userId: req.user.userId, email: req.user.email });
+    res.json({ invitation });
+  } catch (error) {
+    sendInvitationError(res, error, 'load');
+  }
+});
+
+router.post('/accept', validate(schemas.invitationToken), (req, res) => acceptInvitation(req, res, { token: req.body.token }));
+
+router.post('/decline', validate(schemas.invitationToken), (req, res) => declineInvitation(req, res, { token: req.body.token }));
+
+router.post('/:invitationId/accept', validate(schemas.invitationIdParam), (req, res) =>
+  acceptInvitation(req, res, { invitationId: req.params.invitationId }));
+
+router.post('/:invitationId/decline', validate(schemas.invitationIdParam), (req, res) =>
+  declineInvitation(req, res, { invitationId: req.params.invitationId }));
+
+export { router as invitationRoutes };
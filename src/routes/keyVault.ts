@@ -3,6 +3,7 @@ import { authenticateToken, requireAdmin } from '../middleware/auth';
 import { ConfigurationManager } from '../services/configurationManager';
 import { KeyVaultService } from '../services/keyVaultService';
 import { logger } from '../utils/logger';
+import { AuditService, getAuditContext } from '../services/auditService';
 
 const router = express.Router();
 
@@ -119,8 +120,14 @@ router.post('/secrets', authenticateToken, requireAdmin, async (req, res) => {
     const keyVaultService = configManager.getKeyVaultService();
     await keyVaultService.setSecret(secretName, secretValue, contentType);
 
-    // Log the action
+    // Log the action; the secret value is never recorded
     logger.info(`Admin ${req.user?.email} stored secret '${secretName}' in Key Vault`);
+    await AuditService.getInstance().record(getAuditContext(req), {
+      action: 'keyvault_secret_created',
+      resource: 'keyvault_secret',
+      resourceId: secretName,
+      details: { contentType: contentType || null }
+    });
 
     res.json({
       success: true,
@@ -160,8 +167,13 @@ router.put('/secrets/:secretName', authenticateToken, requireAdmin, async (req,
     const keyVaultService = configManager.getKeyVaultService();
     await keyVaultService.updateSecret(secretName, secretValue);
 
-    // Log the action
+    // Log the action; the secret value is never recorded
     logger.info(`Admin ${req.user?.email} updated secret '${secretName}' in Key Vault`);
+    await AuditService.getInstance().record(getAuditContext(req), {
+      action: 'keyvault_secret_updated',
+      resource: 'keyvault_secret',
+      resourceId: secretName
+    });
 
     res.json({
       success: true,
@@ -194,6 +206,11 @@ router.delete('/secrets/:secretName', authenticateToken, requireAdmin, async (re
 
     // Log the action
     logger.info(`Admin ${req.user?.email} deleted secret '${secretName}' from Key Vault`);
+    await AuditService.getInstance().record(getAuditContext(req), {
+      action: 'keyvault_secret_deleted',
+      resource: 'keyvault_secret',
+      resourceId: secretName
+    });
 
     res.json({
       success: true,
@@ -224,6 +241,10 @@ router.post('/migrate', authenticateToken, requireAdmin, async (req, res) => {
 
     // Log the action
     logger.info(`Admin ${req.user?.email} initiated secret migration to Key Vault`);
+    await AuditService.getInstance().record(getAuditContext(req), {
+      action: 'keyvault_secrets_migrated',
+      resource: 'keyvault_secret'
+    });
 
     res.json({
       success: true,
@@ -35,7 +35,7 @@ router.get('/', validate(schemas.search), async (req, res) => {
           SELECT 
             c.*,
             w.name as workspaceName,
-            (SELECT COUNT(*) FROM Messages WHERE chatId = c.id) as messageCount
+            (SELECT COUNT(*) FROM Messages WHERE chatId = c.id AND isActive = 1) as messageCount
           FROM Chats c
           LEFT JOIN Workspaces w ON c.workspaceId = w.id
           WHERE c.userId = @userId 
@@ -66,6 +66,7 @@ router.get('/', validate(schemas.search), async (req, res) => {
           LEFT JOIN Workspaces w ON c.workspaceId = w.id
           WHERE c.userId = @userId 
             AND c.isArchived = 0
+            AND m.isActive = 1
             AND m.content LIKE @searchTerm
           ORDER BY m.createdAt DESC
           OFFSET @offset ROWS
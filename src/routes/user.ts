@@ -1,7 +1,14 @@
 import express from 'express';
+import bcrypt from 'bcryptjs';
 import Joi from 'joi';
 import { authenticateToken } from '../middleware/auth';
-import { getUserById, updateUser } from '../services/azure';
+import { getUserById, updateUser, sanitizeUser } from '../services/azure';
+import { SessionService } from '../services/sessionService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { UserStatsService } from '../services/userStatsService';
+import { AccountDeletionService } from '../services/accountDeletionService';
+import { AccountExportService } from '../services/accountExportService';
+import { AuditService, getAuditContext } from '../services/auditService';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
@@ -20,6 +27,18 @@ const updateProfileSchema = Joi.object({
   }).optional()
 });
 
+const twoFactorCodeSchema = Joi.object({
+  code: Joi.string().required().max(32)
+});
+
+const deleteAccountSchema = Joi.object({
+  password: Joi.string().max(128)
+});
+
+const statsQuerySchema = Joi.object({
+  days: Joi.number().integer().min(1).max(365).default(30)
+});
+
 // Get user profile
 router.get('/profile', async (req, res) => {
   try {
@@ -32,8 +51,8 @@ router.get('/profile', async (req, res) => {
       });
     }
 
-    // Remove sensitive information
-    const { password, ...userProfile } = user;
+    // Remove credentials
+    const userProfile = sanitizeUser(user);
 
     res.json({
       message: 'Profile retrieved successfully',
@@ -80,8 +99,8 @@ router.put('/profile', async (req, res) => {
 
     const updatedUser = await updateUser(userId, updatedUserData);
 
-    // Remove sensitive information
-    const { password, ...userProfile } = updatedUser;
+    // Remove credentials
+    const userProfile = sanitizeUser(updatedUser);
 
     res.json({
       message: 'Profile updated successfully',
@@ -100,18 +119,15 @@ router.put('/profile', async (req, res) => {
 // Get user statistics
 router.get('/stats', async (req, res) => {
   try {
-    const userId = req.user.userId;
-    
-    // This would typically involve querying multiple containers
-    // For now, return mock statistics
-    const stats = {
-      totalChats: 0,
-      totalMessages: 0,
-      averageMessagesPerChat: 0,
-      mostActiveDay: null,
-      joinedDate: new Date().toISOString(),
-      lastActivity: new Date().toISOString()
-    };
+    const { error, value } = statsQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
+
+    const stats = await UserStatsService.getInstance().getStats(req.user.userId, value.days);
 
     res.json({
       message: 'Statistics retrieved successfully',
@@ -125,23 +141,258 @@ router.get('/stats', async (req, res) => {
   }
 });
 
-// Delete user account
+// List the user's active sessions (devices)
+router.get('/sessions', async (req, res) => {
+  try {
+    const sessions = await SessionService.getInstance().listSessions(req.user.userId);
+
+    res.json({
+      message: 'Sessions retrieved successfully',
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === req.user.sessionId
+      }))
+    });
+  } catch (error) {
+    logger.error('Get sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve sessions'
+    });
+  }
+});
+
+// Revoke all sessions except the current one
+router.delete('/sessions', async (req, res) => {
+  try {
+    const revokedCount = await SessionService.getInstance().revokeOtherSessions(
+      req.user.userId,
+      req.user.sessionId
+    );
+
+    res.json({
+      message: 'Other sessions revoked successfully',
+      revokedCount
+    });
+  } catch (error) {
+    logger.error('Revoke sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke sessions'
+    });
+  }
+});
+
+// Revoke one of the user's sessions
+router.delete('/sessions/:sessionId', async (req, res) => {
+  try {
+    const revoked = await SessionService.getInstance().revokeSession(req.params.sessionId, req.user.userId);
+    if (!revoked) {
+      return res.status(404).json({
+        error: 'Session not found'
+      });
+    }
+
+    res.json({
+      message: 'Session revoked successfully'
+    });
+  } catch (error) {
+    logger.error('Revoke session error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke session'
+    });
+  }
+});
+
+// Get two-factor authentication status
+router.get('/2fa', async (req, res) => {
+  try {
+    const status = await TwoFactorService.getInstance().getStatus(req.user.userId, req.user.role);
+
+    res.json({
+      message: 'Two-factor status retrieved successfully',
+      twoFactor: status
+    });
+  } catch (error) {
+    logger.error('Get two-factor status error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve two-factor status'
+    });
+  }
+});
+
+// Start two-factor enrolment: returns a secret and an otpauth:// URI to show as a QR code
+router.post('/2fa/setup', async (req, res) => {
+  try {
+    const twoFactor = TwoFactorService.getInstance();
+    const status = await twoFactor.getStatus(req.user.userId, req.user.role);
+    if (status.enabled) {
+      return res.status(409).json({
+        error: 'Two-factor authentication already enabled',
+        message: 'Disable it first to enrol a new authenticator'
+      });
+    }
+
+    const setup = await twoFactor.beginEnrollment(req.user.userId, req.user.email);
+
+    res.json({
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      secret: setup.secret,
+      otpauthUrl: setup.otpauthUrl
+    });
+  } catch (error) {
+    logger.error('Two-factor setup error:', error);
+    res.status(500).json({
+      error: 'Failed to start two-factor setup'
+    });
+  }
+});
+
+// Finish two-factor enrolment with a code from the authenticator app
+router.post('/2fa/enable', async (req, res) => {
+  try {
+    const { error, value } = twoFactorCodeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
+
+    const recoveryCodes = await TwoFactorService.getInstance().confirmEnrollment(req.user.userId, value.code);
+    if (!recoveryCodes) {
+      return res.status(400).json({
+        error: 'Invalid code',
+        message: 'The code did not match. Start the setup again if the problem persists.'
+      });
+    }
+
+    // The current session has just proven the second factor
+    if (req.user.sessionId) {
+      await SessionService.getInstance().markTwoFactorVerified(req.user.sessionId);
+    }
+
+    res.json({
+      message: 'Two-factor authentication enabled. Store the recovery codes somewhere safe.',
+      recoveryCodes
+    });
+
+    logger.info(`Two-factor authentication enabled for user: ${req.user.userId}`);
+  } catch (error) {
+    logger.error('Two-factor enable error:', error);
+    res.status(500).json({
+      error: 'Failed to enable two-factor authentication'
+    });
+  }
+});
+
+// Turn off two-factor authentication, unless the user's role requires it
+router.post('/2fa/disable', async (req, res) => {
+  try {
+    const { error, value } = twoFactorCodeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
+
+    const twoFactor = TwoFactorService.getInstance();
+    if (twoFactor.isRequiredForRole(req.user.role)) {
+      return res.status(400).json({
+        error: 'Two-factor authentication required',
+        message: 'Two-factor authentication is mandatory for your role'
+      });
+    }
+
+    if (!(await twoFactor.verifyCode(req.user.userId, value.code))) {
+      return res.status(400).json({
+        error: 'Invalid code'
+      });
+    }
+
+    await twoFactor.disable(req.user.userId);
+
+    res.json({
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    logger.error('Two-factor disable error:', error);
+    res.status(500).json({
+      error: 'Failed to disable two-factor authentication'
+    });
+  }
+});
+
+// Replace the recovery codes; the old ones stop working
+router.post('/2fa/recovery-codes', async (req, res) => {
+  try {
+    const { error, value } = twoFactorCodeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
+
+    const twoFactor = TwoFactorService.getInstance();
+    if (!(await twoFactor.verifyCode(req.user.userId, value.code))) {
+      return res.status(400).json({
+        error: 'Invalid code'
+      });
+    }
+
+    const recoveryCodes = await twoFactor.replaceRecoveryCodes(req.user.userId);
+
+    res.json({
+      message: 'Recovery codes replaced. Store them somewhere safe.',
+      recoveryCodes
+    });
+  } catch (error) {
+    logger.error('Recovery code replacement error:', error);
+    res.status(500).json({
+      error: 'Failed to replace recovery codes'
+    });
+  }
+});
+
+// Schedule the user's account for deletion after the grace period
 router.delete('/account', async (req, res) => {
   try {
+    const { error, value } = deleteAccountSchema.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation error',
+        details: error.details[0].message
+      });
+    }
+
     const userId = req.user.userId;
-    
-    // In a production environment, you would:
-    // 1. Soft delete the user account
-    // 2. Anonymize or delete associated data
-    // 3. Handle data retention policies
-    // 4. Send confirmation emails
-    
-    // For now, just log the request
-    logger.info(`Account deletion requested for user: ${userId}`);
-    
-    res.json({
-      message: 'Account deletion request received',
-      note: 'Your account will be processed for deletion within 24 hours'
+    const user = await getUserById(userId);
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found'
+      });
+    }
+
+    // Accounts with a password confirm it; accounts that only sign in externally can't
+    if (user.password && (!value.password || !(await bcrypt.compare(value.password, user.password)))) {
+      return res.status(401).json({
+        error: 'Invalid password',
+        message: 'Enter your current password to delete your account'
+      });
+    }
+
+    const status = await AccountDeletionService.getInstance().requestDeletion(user);
+    await AuditService.getInstance().record(getAuditContext(req), {
+      action: 'account_deletion_requested',
+      resource: 'user',
+      resourceId: userId,
+      details: { scheduledFor: status.scheduledFor }
+    });
+
+    res.status(202).json({
+      message: 'Account deletion scheduled',
+      note: 'Sign in and cancel before the scheduled date to keep your account',
+      ...status
     });
   } catch (error) {
     logger.error('Delete account error:', error);
@@ -151,4 +402,76 @@ router.delete('/account', async (req, res) => {
   }
 });
 
+// Get the status of a pending account deletion
+router.get('/account/deletion', async (req, res) => {
+  try {
+    const status = await AccountDeletionService.getInstance().getStatus(req.user.userId);
+    res.json({
+      pending: !!status.scheduledFor,
+      ...status
+    });
+  } catch (error) {
+    logger.error('Get account deletion status error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve account deletion status'
+    });
+  }
+});
+
+// Cancel a pending account deletion
+router.post('/account/cancel-deletion', async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const cancelled = await AccountDeletionService.getInstance().cancelDeletion(userId);
+    if (!cancelled) {
+      return res.status(404).json({
+        error: 'No deletion pending',
+        message: 'Your account is not scheduled for deletion'
+      });
+    }
+
+    await AuditService.getInstance().record(getAuditContext(req), {
+      action: 'account_deletion_cancelled',
+      resource: 'user',
+      resourceId: userId
+    });
+
+    res.json({
+      message: 'Account deletion cancelled'
+    });
+  } catch (error) {
+    logger.error('Cancel account deletion error:', error);
+    res.status(500).json({
+      error: 'Failed to cancel account deletion'
+    });
+  }
+});
+
+// Download everything stored about the user as a zip archive
+router.get('/export', async (req, res) => {
+  try {
+    const userId = req.user.userId;
+    const archive = await AccountExportService.getInstance().buildArchive(userId);
+
+    await AuditService.getInstance().record(getAuditContext(req), {
+      action: 'account_data_exported',
+      resource: 'user',
+      resourceId: userId
+    });
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="aiva-export-${new Date().toISOString().slice(0, 10)}.zip"`);
+    archive.on('error', (streamError: Error) => {
+      logger.error('Data export stream error:', streamError);
+      res.destroy(streamError);
+    });
+    archive.pipe(res);
+  } catch (error) {
+    logger.error('Export user data error:', error);
+    res.status(500).json({
+      error: 'Failed to export data'
+    });
+  }
+});
+
 export { router as userRoutes };
\ No newline at end of file
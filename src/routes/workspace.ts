@@ -1,6 +1,6 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { authenticateToken, requireAdmin } from '../middleware/auth';
+import { authenticateToken, requireAdmin, requireWorkspaceCapability } from '../middleware/auth';
 import { validate, schemas } from '../middleware/validation';
 import { DatabaseManager } from '../config/database';
 import { logger } from '../utils/logger';
@@ -9,8 +9,14 @@ import { blobServiceClient } from '../services/azure';
 import { WorkspaceStorageService } from '../services/workspaceStorage';
 import multer from 'multer';
 
-// Import the Azure Search Service
-import { AzureSearchService } from '../services/azureSearchService';
+// Import the search provider used for workspace indexes
+import { getSearchProvider } from '../services/searchProvider';
+import { IndexingJobService } from '../services/indexingJobService';
+import { DocumentIndexingService } from '../services/documentIndexingService';
+import { FileAnalysisService } from '../services/fileAnalysisService';
+import { WorkspacePermissionService, WorkspaceAccess, WorkspaceAccessLevel } from '../services/workspacePermissionService';
+import { WorkspaceInvitationService, WorkspaceInvitationError } from '../services/workspaceInvitationService';
+import { AuditService, getAuditContext } from '../services/auditService';
 
 const router = express.Router();
 
@@ -46,6 +52,18 @@ const upload = multer({
 router.use(authenticateToken);
 
 const dbManager = DatabaseManager.getInstance();
+const permissionService = WorkspacePermissionService.getInstance();
+const invitationService = WorkspaceInvitationService.getInstance();
+const auditService = AuditService.getInstance();
+
+// Workspace admins manage members and readonly users; granting or changing admin access
+// takes an owner or a platform admin, and the owner's access can't be changed
+function canManageAccessLevel(access: WorkspaceAccess, accessLevel: string | null): boolean {
+  if (accessLevel === 'owner') {
+    return false;
+  }
+  return accessLevel !== 'admin' || access.capabilities.includes('manageWorkspace');
+}
 
 // Initialize the main workspace container when the server starts
 const workspaceStorageService = WorkspaceStorageService.getInstance();
@@ -59,7 +77,7 @@ workspaceStorageService.initializeMainContainer().then(success => {
   logger.error('Error initializing main workspace container:', error);
 });
 
-// Get user's workspaces (users see only assigned workspaces, admins see all they own)
+// Get user's workspaces (users see the ones they own or are assigned to, admins see all)
 router.get('/', validate(schemas.pagination), async (req: any, res: any) => {
   try {
     const userId = req.user.userId;
@@ -104,43 +122,21 @@ router.get('/', validate(schemas.pagination), async (req: any, res: any) => {
     const pool = await dbManager.getPool();
     const offset = (Number(page) - 1) * Number(limit);
     
-    let workspaceQuery = '';
-    let countQuery = '';
+    const seesAll = permissionService.isPlatformAdmin(req.user);
     
-    if (userRole === 'admin') {
-      // Admins can see all workspaces they own
-      workspaceQuery = `
-        SELECT 
-          w.*,
-          COALESCE(chatStats.chatCount, 0) as chatCount,
-          chatStats.lastActivity
-        FROM Workspaces w
-        LEFT JOIN (
-          SELECT 
-            workspaceId,
-            COUNT(*) as chatCount,
-            MAX(lastMessageAt) as lastActivity
-          FROM Chats 
-          WHERE isArchived = 0
-          GROUP BY workspaceId
-        ) chatStats ON w.id = chatStats.workspaceId
-        WHERE w.ownerId = @userId
-        ORDER BY w.${sortBy} ${sortOrder}
-        OFFSET @offset ROWS
-        FETCH NEXT @limit ROWS ONLY
-      `;
-      countQuery = 'SELECT COUNT(*) as total FROM Workspaces WHERE ownerId = @userId';
-      logger.info(`Admin user ${userId} retrieving owned workspaces`);
-    } else {
-      // Regular users can only see workspaces they're assigned to
-      workspaceQuery = `
+    const result = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .input('seesAll', sql.Bit, seesAll)
+      .input('limit', sql.Int, Number(limit))
+      .input('offset', sql.Int, offset)
+      .query(`
         SELECT 
           w.*,
           wu.accessLevel,
           COALESCE(chatStats.chatCount, 0) as chatCount,
           chatStats.lastActivity
         FROM Workspaces w
-        INNER JOIN WorkspaceUsers wu ON w.id = wu.workspaceId
+        LEFT JOIN WorkspaceUsers wu ON w.id = wu.workspaceId AND wu.userId = @userId
         LEFT JOIN (
           SELECT 
             workspaceId,
@@ -150,29 +146,31 @@ router.get('/', validate(schemas.pagination), async (req: any, res: any) => {
           WHERE isArchived = 0
           GROUP BY workspaceId
         ) chatStats ON w.id = chatStats.workspaceId
-        WHERE wu.userId = @userId
+        WHERE @seesAll = 1 OR w.ownerId = @userId OR wu.id IS NOT NULL
         ORDER BY w.${sortBy} ${sortOrder}
         OFFSET @offset ROWS
         FETCH NEXT @limit ROWS ONLY
-      `;
-      countQuery = `
-        SELECT COUNT(*) as total 
-        FROM Workspaces w
-        INNER JOIN WorkspaceUsers wu ON w.id = wu.workspaceId
-        WHERE wu.userId = @userId
-      `;
-      logger.info(`Regular user ${userId} retrieving assigned workspaces`);
-    }
-    
-    const result = await pool.request()
-      .input('userId', sql.NVarChar, userId)
-      .input('limit', sql.Int, Number(limit))
-      .input('offset', sql.Int, offset)
-      .query(workspaceQuery);
+      `);
     
     const countResult = await pool.request()
       .input('userId', sql.NVarChar, userId)
-      .query(countQuery);
+      .input('seesAll', sql.Bit, seesAll)
+      .query(`
+        SELECT COUNT(*) as total 
+        FROM Workspaces w
+        LEFT JOIN WorkspaceUsers wu ON w.id = wu.workspaceId AND wu.userId = @userId
+        WHERE @seesAll = 1 OR w.ownerId = @userId OR wu.id IS NOT NULL
+      `);
+    
+    // Tell the client what the user can do in each workspace
+    const workspaces = result.recordset.map((workspace: any) => {
+      const accessLevel: WorkspaceAccessLevel | null = workspace.ownerId === userId ? 'owner' : workspace.accessLevel || null;
+      return {
+        ...workspace,
+        accessLevel,
+        capabilities: permissionService.getCapabilities(accessLevel, req.user)
+      };
+    });
     
     const total = countResult.recordset[0].total;
     
@@ -180,7 +178,7 @@ router.get('/', validate(schemas.pagination), async (req: any, res: any) => {
 
     res.json({
       message: 'Workspaces retrieved successfully',
-      workspaces: result.recordset,
+      workspaces,
       pagination: {
         page: Number(page),
         limit: Number(limit),
@@ -247,23 +245,22 @@ router.post('/', requireAdmin, validate(schemas.createWorkspace), async (req: an
       // Add folder info to workspace object
       workspace.folderPath = folderPath;
       
-      // Create Azure Search index for the workspace
-      const azureSearchService = AzureSearchService.getInstance();
+      // Create the search index for the workspace
+      const searchProvider = getSearchProvider();
       const workspaceFolderName = workspaceStorageService.getWorkspaceFolderName(workspaceId, name);
       const indexName = `${workspaceFolderName}index`;
       const semanticConfigName = `search${indexName}`;
       
-      logger.info(`🔍 Attempting to create Azure Search index: ${indexName} for workspace: ${name}`);
+      logger.info(`🔍 Attempting to create ${searchProvider.name} search index: ${indexName} for workspace: ${name}`);
       logger.info(`🔍 Semantic configuration name: ${semanticConfigName}`);
       
-      const indexCreated = await azureSearchService.createWorkspaceIndex(indexName);
+      const indexCreated = await searchProvider.createWorkspaceIndex(indexName);
       if (indexCreated) {
-        logger.info(`✅ Azure Search index created successfully: ${indexName}`);
-        logger.info(`🔍 Azure AI Search location: aivasearch/${indexName}`);
+        logger.info(`✅ Search index created successfully: ${indexName}`);
         workspace.searchIndexName = indexName;
         workspace.semanticConfigName = semanticConfigName;
       } else {
-        logger.error(`❌ Failed to create Azure Search index for workspace: ${name}`);
+        logger.error(`❌ Failed to create search index for workspace: ${name}`);
         logger.error(`❌ Index name attempted: ${indexName}`);
       }
     } else {
@@ -286,8 +283,8 @@ router.post('/', requireAdmin, validate(schemas.createWorkspace), async (req: an
   }
 });
 
-// Update workspace (admin only)
-router.put('/:id', requireAdmin, validate(schemas.uuidParam), validate(schemas.updateWorkspace), async (req: any, res: any) => {
+// Update workspace (owner or admin only)
+router.put('/:id', validate(schemas.uuidParam), validate(schemas.updateWorkspace), requireWorkspaceCapability('manageWorkspace'), async (req: any, res: any) => {
   try {
     const { id } = req.params;
     const { name, description, color, isShared } = req.body;
@@ -295,19 +292,6 @@ router.put('/:id', requireAdmin, validate(schemas.uuidParam), validate(schemas.u
     
     const pool = await dbManager.getPool();
     
-    // Verify workspace belongs to user
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('userId', sql.NVarChar, userId)
-      .query('SELECT id FROM Workspaces WHERE id = @id AND ownerId = @userId');
-    
-    if (workspaceCheck.recordset.length === 0) {
-      return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
-      });
-    }
-    
     const result = await pool.request()
       .input('id', sql.NVarChar, id)
       .input('name', sql.NVarChar, name)
@@ -343,45 +327,13 @@ router.put('/:id', requireAdmin, validate(schemas.uuidParam), validate(schemas.u
 });
 
 // Get workspace details with chats
-router.get('/:id', validate(schemas.uuidParam), async (req: any, res: any) => {
+router.get('/:id', validate(schemas.uuidParam), requireWorkspaceCapability('view'), async (req: any, res: any) => {
   try {
     const { id } = req.params;
     const userId = req.user.userId;
-    const userRole = req.user.role;
     
     const pool = await dbManager.getPool();
     
-    // Check if user has access to this workspace
-    let accessQuery = '';
-    if (userRole === 'admin') {
-      // Admin can access any workspace they own
-      accessQuery = `
-        SELECT id FROM Workspaces 
-        WHERE id = @id AND ownerId = @userId
-      `;
-    } else {
-      // Regular users can only access workspaces they're assigned to
-      accessQuery = `
-        SELECT w.id 
-        FROM Workspaces w
-        INNER JOIN WorkspaceUsers wu ON w.id = wu.workspaceId
-        WHERE w.id = @id AND wu.userId = @userId
-      `;
-    }
-    
-    // Verify workspace exists and user has access
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('userId', sql.NVarChar, userId)
-      .query(accessQuery);
-    
-    if (workspaceCheck.recordset.length === 0) {
-      return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
-      });
-    }
-    
     // Get workspace details
     const result = await pool.request()
       .input('id', sql.NVarChar, id)
@@ -417,7 +369,7 @@ router.get('/:id', validate(schemas.uuidParam), async (req: any, res: any) => {
           u.avatar,
           wu.accessLevel,
           wu.assignedBy,
-          wu.createdAt as assignedAt
+          wu.assignedAt
         FROM Users u
         INNER JOIN WorkspaceUsers wu ON u.id = wu.userId
         WHERE wu.workspaceId = @workspaceId
@@ -425,6 +377,8 @@ router.get('/:id', validate(schemas.uuidParam), async (req: any, res: any) => {
       `);
     
     workspace.users = usersResult.recordset;
+    workspace.accessLevel = req.workspaceAccess.accessLevel;
+    workspace.capabilities = req.workspaceAccess.capabilities;
 
     res.json({
       message: 'Workspace retrieved successfully',
@@ -440,30 +394,16 @@ router.get('/:id', validate(schemas.uuidParam), async (req: any, res: any) => {
   }
 });
 
-// Admin endpoints for user-workspace management
+// Member management endpoints (workspace owners and admins)
 
-// Get all users for workspace assignment (admin only)
-router.get('/:id/available-users', requireAdmin, validate(schemas.uuidParam), async (req, res) => {
+// Get all users for workspace assignment
+router.get('/:id/available-users', validate(schemas.uuidParam), requireWorkspaceCapability('manageMembers'), async (req, res) => {
   try {
     const { id } = req.params;
-    const userId = req.user.userId;
     const { search = '' } = req.query;
     
     const pool = await dbManager.getPool();
     
-    // Verify workspace belongs to admin
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('userId', sql.NVarChar, userId)
-      .query('SELECT id FROM Workspaces WHERE id = @id AND ownerId = @userId');
-    
-    if (workspaceCheck.recordset.length === 0) {
-      return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
-      });
-    }
-    
     let whereClause = "WHERE u.role != 'admin'";
     let searchInput = '';
     
@@ -503,8 +443,8 @@ router.get('/:id/available-users', requireAdmin, validate(schemas.uuidParam), as
   }
 });
 
-// Assign user to workspace (admin only)
-router.post('/:id/assign-user', requireAdmin, validate(schemas.uuidParam), validate(schemas.assignUsersToWorkspace), async (req, res) => {
+// Assign user to workspace
+router.post('/:id/assign-user', validate(schemas.uuidParam), validate(schemas.assignUsersToWorkspace), requireWorkspaceCapability('manageMembers'), async (req, res) => {
   try {
     const { id } = req.params;
     const { userIds, accessLevel = 'member' } = req.body;
@@ -517,21 +457,15 @@ router.post('/:id/assign-user', requireAdmin, validate(schemas.uuidParam), valid
       });
     }
     
-    const pool = await dbManager.getPool();
-    
-    // Verify workspace belongs to admin
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('adminId', sql.NVarChar, adminId)
-      .query('SELECT id FROM Workspaces WHERE id = @id AND ownerId = @adminId');
-    
-    if (workspaceCheck.recordset.length === 0) {
-      return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
+    if (!canManageAccessLevel(req.workspaceAccess!, accessLevel)) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'Only the workspace owner can grant admin access'
       });
     }
     
+    const pool = await dbManager.getPool();
+    
     const assignments = [];
     for (const userId of userIds) {
       try {
@@ -556,6 +490,12 @@ router.post('/:id/assign-user', requireAdmin, validate(schemas.uuidParam), valid
             `);
           
           assignments.push({ userId, assignmentId, status: 'assigned' });
+          await auditService.record(getAuditContext(req), {
+            action: 'workspace_member_added',
+            resource: 'workspace',
+            resourceId: id,
+            details: { userId, before: { accessLevel: null }, after: { accessLevel } }
+          });
         } else {
           assignments.push({ userId, status: 'already_assigned' });
         }
@@ -580,8 +520,8 @@ router.post('/:id/assign-user', requireAdmin, validate(schemas.uuidParam), valid
   }
 });
 
-// Remove user from workspace (admin only)
-router.post('/:id/remove-user', requireAdmin, validate(schemas.uuidParam), validate(schemas.removeUsersFromWorkspace), async (req, res) => {
+// Remove user from workspace
+router.post('/:id/remove-user', validate(schemas.uuidParam), validate(schemas.removeUsersFromWorkspace), requireWorkspaceCapability('manageMembers'), async (req, res) => {
   try {
     const { id } = req.params;
     const { userIds } = req.body;
@@ -596,22 +536,19 @@ router.post('/:id/remove-user', requireAdmin, validate(schemas.uuidParam), valid
     
     const pool = await dbManager.getPool();
     
-    // Verify workspace belongs to admin
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('adminId', sql.NVarChar, adminId)
-      .query('SELECT id FROM Workspaces WHERE id = @id AND ownerId = @adminId');
-    
-    if (workspaceCheck.recordset.length === 0) {
-      return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
-      });
-    }
-    
     const removals = [];
     for (const userId of userIds) {
       try {
+        const assignment = await pool.request()
+          .input('workspaceId', sql.NVarChar, id)
+          .input('userId', sql.NVarChar, userId)
+          .query('SELECT accessLevel FROM WorkspaceUsers WHERE workspaceId = @workspaceId AND userId = @userId');
+        const currentLevel = userId === req.workspaceAccess!.ownerId ? 'owner' : assignment.recordset[0]?.accessLevel || null;
+        if (!canManageAccessLevel(req.workspaceAccess!, currentLevel)) {
+          removals.push({ userId, status: 'forbidden' });
+          continue;
+        }
+        
         const result = await pool.request()
           .input('workspaceId', sql.NVarChar, id)
           .input('userId', sql.NVarChar, userId)
@@ -619,6 +556,12 @@ router.post('/:id/remove-user', requireAdmin, validate(schemas.uuidParam), valid
         
         if (result.rowsAffected[0] > 0) {
           removals.push({ userId, status: 'removed' });
+          await auditService.record(getAuditContext(req), {
+            action: 'workspace_member_removed',
+            resource: 'workspace',
+            resourceId: id,
+            details: { userId, before: { accessLevel: currentLevel }, after: { accessLevel: null } }
+          });
         } else {
           removals.push({ userId, status: 'not_found' });
         }
@@ -643,8 +586,8 @@ router.post('/:id/remove-user', requireAdmin, validate(schemas.uuidParam), valid
   }
 });
 
-// Update user access level in workspace (admin only)
-router.put('/:id/user-access', requireAdmin, validate(schemas.uuidParam), validate(schemas.updateUserAccess), async (req, res) => {
+// Update user access level in workspace
+router.put('/:id/user-access', validate(schemas.uuidParam), validate(schemas.updateUserAccess), requireWorkspaceCapability('manageMembers'), async (req, res) => {
   try {
     const { id } = req.params;
     const { userId, accessLevel } = req.body;
@@ -656,34 +599,21 @@ router.put('/:id/user-access', requireAdmin, validate(schemas.uuidParam), valida
       });
     }
     
-    const validAccessLevels = ['member', 'readonly'];
+    const validAccessLevels = ['admin', 'member', 'readonly'];
     if (!validAccessLevels.includes(accessLevel)) {
       return res.status(400).json({
         error: 'Invalid access level',
-        message: 'Access level must be one of: member, readonly'
+        message: 'Access level must be one of: admin, member, readonly'
       });
     }
     
     const pool = await dbManager.getPool();
     
-    // Verify workspace belongs to admin
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('adminId', sql.NVarChar, adminId)
-      .query('SELECT id FROM Workspaces WHERE id = @id AND ownerId = @adminId');
-    
-    if (workspaceCheck.recordset.length === 0) {
-      return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
-      });
-    }
-    
     // Check if user is assigned to workspace
     const userCheck = await pool.request()
       .input('workspaceId', sql.NVarChar, id)
       .input('userId', sql.NVarChar, userId)
-      .query('SELECT id FROM WorkspaceUsers WHERE workspaceId = @workspaceId AND userId = @userId');
+      .query('SELECT id, accessLevel FROM WorkspaceUsers WHERE workspaceId = @workspaceId AND userId = @userId');
     
     if (userCheck.recordset.length === 0) {
       return res.status(404).json({
@@ -692,6 +622,14 @@ router.put('/:id/user-access', requireAdmin, validate(schemas.uuidParam), valida
       });
     }
     
+    const currentLevel = userId === req.workspaceAccess!.ownerId ? 'owner' : userCheck.recordset[0].accessLevel;
+    if (!canManageAccessLevel(req.workspaceAccess!, currentLevel) || !canManageAccessLevel(req.workspaceAccess!, accessLevel)) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'Only the workspace owner can change admin access, and the owner\'s access cannot be changed'
+      });
+    }
+    
     const result = await pool.request()
       .input('workspaceId', sql.NVarChar, id)
       .input('userId', sql.NVarChar, userId)
@@ -709,6 +647,13 @@ router.put('/:id/user-access', requireAdmin, validate(schemas.uuidParam), valida
       });
     }
 
+    await auditService.record(getAuditContext(req), {
+      action: 'workspace_member_access_changed',
+      resource: 'workspace',
+      resourceId: id,
+      details: { userId, before: { accessLevel: currentLevel }, after: { accessLevel } }
+    });
+
     res.json({
       message: 'User access level updated successfully',
       userId,
@@ -725,29 +670,126 @@ router.put('/:id/user-access', requireAdmin, validate(schemas.uuidParam), valida
   }
 });
 
-// Delete workspace (admin only)
-router.delete('/:id', requireAdmin, validate(schemas.uuidParam), async (req: any, res: any) => {
+// List pending invitations and join links of a workspace
+router.get('/:id/invitations', validate(schemas.uuidParam), requireWorkspaceCapability('manageMembers'), async (req, res) => {
+  try {
+    const invitations = await invitationService.listPending(req.params.id);
+    res.json({ invitations });
+  } catch (error) {
+    logger.error('List workspace invitations error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch invitations',
+      message: 'An error occurred while fetching invitations'
+    });
+  }
+});
+
+// Invite someone to the workspace by email
+router.post('/:id/invitations', validate(schemas.createWorkspaceInvitation), requireWorkspaceCapability('manageMembers'), async (req, res) => {
+  try {
+    const { email, accessLevel = 'member', expiresInDays } = req.body;
+
+    if (!canManageAccessLevel(req.workspaceAccess!, accessLevel)) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'Only the workspace owner can invite admins'
+      });
+    }
+
+    const invitation = await invitationService.createEmailInvitation(
+      { id: req.params.id, name: req.workspaceAccess!.workspaceName },
+      email,
+      accessLevel,
+      { userId: req.user.userId, email: req.user.email },
+      expiresInDays
+    );
+
+    res.status(201).json({
+      message: 'Invitation sent',
+      invitation
+    });
+  } catch (error) {
+    if (error instanceof WorkspaceInvitationError) {
+      return res.status(error.statusCode).json({
+        error: 'Invitation failed',
+        message: error.message
+      });
+    }
+    logger.error('Create workspace invitation error:', error);
+    res.status(500).json({
+      error: 'Failed to send invitation',
+      message: 'An error occurred while sending the invitation'
+    });
+  }
+});
+
+// Create a join link; the link is only shown in this response
+router.post('/:id/join-links', validate(schemas.createWorkspaceJoinLink), requireWorkspaceCapability('manageMembers'), async (req, res) => {
+  try {
+    const { accessLevel = 'member', maxUses, expiresInHours } = req.body;
+
+    if (!canManageAccessLevel(req.workspaceAccess!, accessLevel)) {
+      return res.status(403).json({
+        error: 'Access denied',
+        message: 'Only the workspace owner can create join links granting admin access'
+      });
+    }
+
+    const { invitation, token, url } = await invitationService.createJoinLink(
+      req.params.id,
+      accessLevel,
+      req.user.userId,
+      { maxUses, expiresInHours }
+    );
+
+    res.status(201).json({
+      message: 'Join link created',
+      invitation,
+      token,
+      url
+    });
+  } catch (error) {
+    logger.error('Create workspace join link error:', error);
+    res.status(500).json({
+      error: 'Failed to create join link',
+      message: 'An error occurred while creating the join link'
+    });
+  }
+});
+
+// Revoke a pending invitation or join link
+router.delete('/:id/invitations/:invitationId', validate(schemas.workspaceInvitationParam), requireWorkspaceCapability('manageMembers'), async (req, res) => {
+  try {
+    const { id, invitationId } = req.params;
+    const revoked = await invitationService.revoke(id, invitationId);
+
+    if (!revoked) {
+      return res.status(404).json({
+        error: 'Invitation not found',
+        message: 'The invitation does not exist or is no longer pending'
+      });
+    }
+
+    logger.info(`Invitation ${invitationId} of workspace ${id} revoked by ${req.user.userId}`);
+    res.json({ message: 'Invitation revoked' });
+  } catch (error) {
+    logger.error('Revoke workspace invitation error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke invitation',
+      message: 'An error occurred while revoking the invitation'
+    });
+  }
+});
+
+// Delete workspace (owner or admin only)
+router.delete('/:id', validate(schemas.uuidParam), requireWorkspaceCapability('manageWorkspace'), async (req: any, res: any) => {
   try {
     const { id } = req.params;
     const userId = req.user.userId;
     
     const pool = await dbManager.getPool();
     
-    // Verify workspace belongs to user and get workspace details
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('userId', sql.NVarChar, userId)
-      .query('SELECT id, name FROM Workspaces WHERE id = @id AND ownerId = @userId');
-    
-    if (workspaceCheck.recordset.length === 0) {
-      return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
-      });
-    }
-    
-    const workspace = workspaceCheck.recordset[0];
-    const workspaceName = workspace.name;
+    const workspaceName = req.workspaceAccess.workspaceName;
     
     // Check if workspace has any chats (archived or active)
     const chatCheck = await pool.request()
@@ -777,17 +819,24 @@ router.delete('/:id', requireAdmin, validate(schemas.uuidParam), async (req: any
     await pool.request()
       .input('id', sql.NVarChar, id)
       .query('DELETE FROM Workspaces WHERE id = @id');
+
+    await auditService.record(getAuditContext(req), {
+      action: 'workspace_deleted',
+      resource: 'workspace',
+      resourceId: id,
+      details: { before: { name: workspaceName, chatCount } }
+    });
     
-    // Delete workspace folder and Azure Search index in parallel for better performance
+    // Delete workspace folder and search index in parallel for better performance
     const workspaceStorageService = WorkspaceStorageService.getInstance();
-    const azureSearchService = AzureSearchService.getInstance();
+    const searchProvider = getSearchProvider();
     const workspaceFolderName = workspaceStorageService.getWorkspaceFolderName(id, workspaceName);
     const indexName = `${workspaceFolderName}index`;
     
     // Run Azure operations in parallel to improve performance
     const [folderDeleted, indexDeleted] = await Promise.allSettled([
       workspaceStorageService.deleteWorkspaceFolder(id, workspaceName),
-      azureSearchService.deleteWorkspaceIndex(indexName)
+      searchProvider.deleteWorkspaceIndex(indexName)
     ]);
     
     // Log results
@@ -799,9 +848,9 @@ router.delete('/:id', requireAdmin, validate(schemas.uuidParam), async (req: any
     }
     
     if (indexDeleted.status === 'fulfilled' && indexDeleted.value) {
-      logger.info(`Azure Search index deleted for workspace: ${indexName}`);
+      logger.info(`Search index deleted for workspace: ${indexName}`);
     } else {
-      logger.warn(`Failed to delete Azure Search index for workspace: ${workspaceName}`, 
+      logger.warn(`Failed to delete search index for workspace: ${workspaceName}`, 
         indexDeleted.status === 'rejected' ? indexDeleted.reason : 'Operation returned false');
     }
 
@@ -821,11 +870,10 @@ router.delete('/:id', requireAdmin, validate(schemas.uuidParam), async (req: any
 });
 
 // Upload file to workspace
-router.post('/:id/upload', validate(schemas.uuidParam), upload.single('file'), async (req: any, res: any) => {
+router.post('/:id/upload', validate(schemas.uuidParam), requireWorkspaceCapability('upload'), upload.single('file'), async (req: any, res: any) => {
   try {
     const { id } = req.params;
     const userId = req.user.userId;
-    const userRole = req.user.role;
     
     // Check if file was uploaded
     if (!req.file) {
@@ -839,40 +887,7 @@ router.post('/:id/upload', validate(schemas.uuidParam), upload.single('file'), a
     const fileId = uuidv4();
     
     const pool = await dbManager.getPool();
-    
-    // Check if user has access to this workspace
-    let accessQuery = '';
-    if (userRole === 'admin') {
-      // Admin can upload files to workspaces they own
-      accessQuery = `
-        SELECT id, name FROM Workspaces 
-        WHERE id = @id AND ownerId = @userId
-      `;
-    } else {
-      // Regular users can upload files to workspaces they're assigned to with member access
-      accessQuery = `
-        SELECT w.id, w.name 
-        FROM Workspaces w
-        INNER JOIN WorkspaceUsers wu ON w.id = wu.workspaceId
-        WHERE w.id = @id AND wu.userId = @userId AND wu.accessLevel = 'member'
-      `;
-    }
-    
-    // Verify workspace exists and user has access
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('userId', sql.NVarChar, userId)
-      .query(accessQuery);
-    
-    if (workspaceCheck.recordset.length === 0) {
-      return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
-      });
-    }
-    
-    const workspace = workspaceCheck.recordset[0];
-    const workspaceName = workspace.name;
+    const workspaceName = req.workspaceAccess.workspaceName;
     
     // Upload file to workspace-specific folder within the main container
     let fileUrl = '';
@@ -923,7 +938,8 @@ router.post('/:id/upload', validate(schemas.uuidParam), upload.single('file'), a
       size: file.size,
       url: fileUrl,
       userId: userId,
-      workspaceId: id
+      workspaceId: id,
+      contentHash: FileAnalysisService.hashContent(file.buffer)
     };
     
     const insertResult = await pool.request()
@@ -935,101 +951,29 @@ router.post('/:id/upload', validate(schemas.uuidParam), upload.single('file'), a
       .input('url', sql.NVarChar, fileData.url)
       .input('userId', sql.NVarChar, fileData.userId)
       .input('workspaceId', sql.NVarChar, fileData.workspaceId)
+      .input('contentHash', sql.NVarChar, fileData.contentHash)
       .query(`
-        INSERT INTO WorkspaceFiles (id, originalName, fileName, mimeType, size, url, userId, workspaceId)
+        INSERT INTO WorkspaceFiles (id, originalName, fileName, mimeType, size, url, userId, workspaceId, contentHash)
         OUTPUT INSERTED.*
-        VALUES (@id, @originalName, @fileName, @mimeType, @size, @url, @userId, @workspaceId)
+        VALUES (@id, @originalName, @fileName, @mimeType, @size, @url, @userId, @workspaceId, @contentHash)
       `);
     
     const uploadedFile = insertResult.recordset[0];
     
-    // Extract file content and index it in Azure Search
+    // Queue extraction and indexing of the file as overlapping passages
+    let indexingJob = null;
     try {
-      // Import required services
-      const { FileAnalysisService } = require('../services/fileAnalysisService');
-      const { AzureSearchService } = require('../services/azureSearchService');
-      const { WorkspaceStorageService } = require('../services/workspaceStorage');
-      
-      const fileAnalysisService = FileAnalysisService.getInstance();
-      const azureSearchService = AzureSearchService.getInstance();
-      const workspaceStorageService = WorkspaceStorageService.getInstance();
-      
-      // Get the correct file path for workspace files
-      const sanitizedWorkspaceName = workspaceName.replace(/[^a-zA-Z0-9-]/g, '-').toLowerCase();
-      const shortWorkspaceId = id.substring(0, 7);
-      const folderPath = `workspace/${sanitizedWorkspaceName}-${shortWorkspaceId}/`;
-      const fullBlobName = `${folderPath}${fileId}-${file.originalname}`;
-      const containerName = process.env.AZURE_STORAGE_CONTAINER_NAME || 'aiva-files';
-      
-      // Extract content from the uploaded file using the correct path and container
-      const fileContentResult = await fileAnalysisService.extractFileContent(
-        fullBlobName, 
-        file.originalname,
-        containerName
-      );
-      
-      // Analyze the content to get summary and key points
-      let summary = '';
-      let keyPoints: string[] = [];
-      
-      try {
-        const analysisResult = await fileAnalysisService.analyzeFile(
-          fullBlobName, 
-          file.mimetype,
-          containerName
-        );
-        summary = analysisResult.summary || '';
-        keyPoints = analysisResult.keyPoints || [];
-      } catch (analysisError) {
-        logger.warn(`Failed to analyze file content for ${fileId}, using raw content:`, analysisError);
-        // Use first 500 characters as summary if analysis fails
-        summary = fileContentResult.content.substring(0, 500) + (fileContentResult.content.length > 500 ? '...' : '');
-        keyPoints = [];
-      }
-      
-      // Get workspace folder name and index name
-      const workspaceFolderName = workspaceStorageService.getWorkspaceFolderName(id, workspaceName);
-      const indexName = `${workspaceFolderName}index`;
-      
-      // Check if the index exists, create it if it doesn't
-      const indexExists = await azureSearchService.indexExists(indexName);
-      if (!indexExists) {
-        logger.info(`Azure Search index ${indexName} does not exist, creating it now`);
-        await azureSearchService.createWorkspaceIndex(indexName);
-      }
-      
-      // Create document for indexing with enhanced fields
-      const documentToIndex = {
-        id: fileId,
-        content: fileContentResult.content,
-        fileName: file.originalname,
-        fileType: file.mimetype,
-        workspaceId: id,
-        workspaceName: workspaceName,
-        uploadedBy: userId,
-        uploadedAt: new Date().toISOString(),
-        summary: summary,
-        keyPoints: keyPoints
-      };
-      
-      // Index the document
-      const indexResult = await azureSearchService.indexDocument(indexName, documentToIndex);
-      if (indexResult) {
-        logger.info(`Successfully indexed document ${fileId} in index ${indexName}`);
-        
-        // Wait a short time to ensure indexing is complete before responding
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } else {
-        logger.warn(`Failed to index document ${fileId} in index ${indexName}`);
-      }
-    } catch (indexError) {
-      logger.error(`Failed to index document ${fileId}:`, indexError);
-      // Don't fail the upload if indexing fails, just log the error
+      const job = await IndexingJobService.getInstance().enqueueFileJob(id, fileId, userId);
+      indexingJob = { id: job.id, status: job.status };
+    } catch (queueError) {
+      logger.error(`Failed to queue indexing of document ${fileId}:`, queueError);
+      // Don't fail the upload if queueing fails, the file can be reindexed with POST /:id/index
     }
     
     res.json({
       message: 'File uploaded successfully',
-      file: uploadedFile
+      file: uploadedFile,
+      indexingJob
     });
     
     logger.info(`File uploaded to workspace ${id}: ${file.originalname} by user: ${userId}`);
@@ -1043,45 +987,12 @@ router.post('/:id/upload', validate(schemas.uuidParam), upload.single('file'), a
 });
 
 // Get files for workspace
-router.get('/:id/files', validate(schemas.uuidParam), async (req, res) => {
+router.get('/:id/files', validate(schemas.uuidParam), requireWorkspaceCapability('view'), async (req, res) => {
   try {
     const { id } = req.params;
-    const userId = req.user.userId;
-    const userRole = req.user.role;
     
     const pool = await dbManager.getPool();
     
-    // Check if user has access to this workspace
-    let accessQuery = '';
-    if (userRole === 'admin') {
-      // Admin can access files in workspaces they own
-      accessQuery = `
-        SELECT id FROM Workspaces 
-        WHERE id = @id AND ownerId = @userId
-      `;
-    } else {
-      // Regular users can access files in workspaces they're assigned to
-      accessQuery = `
-        SELECT w.id 
-        FROM Workspaces w
-        INNER JOIN WorkspaceUsers wu ON w.id = wu.workspaceId
-        WHERE w.id = @id AND wu.userId = @userId
-      `;
-    }
-    
-    // Verify workspace exists and user has access
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('userId', sql.NVarChar, userId)
-      .query(accessQuery);
-    
-    if (workspaceCheck.recordset.length === 0) {
-      return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
-      });
-    }
-    
     // Get files for this workspace
     const result = await pool.request()
       .input('workspaceId', sql.NVarChar, id)
@@ -1100,48 +1011,46 @@ router.get('/:id/files', validate(schemas.uuidParam), async (req, res) => {
   }
 });
 
-// Delete file from workspace
-router.delete('/:id/files/:fileId', validate(schemas.uuidParam), async (req: any, res: any) => {
+// Get a single workspace file (target of chat citations)
+router.get('/:id/files/:fileId', validate(schemas.workspaceFileParam), requireWorkspaceCapability('view'), async (req, res) => {
   try {
     const { id, fileId } = req.params;
-    const userId = req.user.userId;
-    const userRole = req.user.role;
     
     const pool = await dbManager.getPool();
     
-    // Check if user has access to this workspace
-    let accessQuery = '';
-    if (userRole === 'admin') {
-      // Admin can delete files in workspaces they own
-      accessQuery = `
-        SELECT id, name FROM Workspaces 
-        WHERE id = @id AND ownerId = @userId
-      `;
-    } else {
-      // Regular users can only delete files in workspaces they're assigned to with member access
-      accessQuery = `
-        SELECT w.id, w.name 
-        FROM Workspaces w
-        INNER JOIN WorkspaceUsers wu ON w.id = wu.workspaceId
-        WHERE w.id = @id AND wu.userId = @userId AND wu.accessLevel = 'member'
-      `;
-    }
-    
-    // Verify workspace exists and user has access
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('userId', sql.NVarChar, userId)
-      .query(accessQuery);
+    const result = await pool.request()
+      .input('fileId', sql.NVarChar, fileId)
+      .input('workspaceId', sql.NVarChar, id)
+      .query('SELECT * FROM WorkspaceFiles WHERE id = @fileId AND workspaceId = @workspaceId');
     
-    if (workspaceCheck.recordset.length === 0) {
+    if (result.recordset.length === 0) {
       return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
+        error: 'File not found',
+        message: 'File not found in this workspace'
       });
     }
     
-    const workspace = workspaceCheck.recordset[0];
-    const workspaceName = workspace.name;
+    res.json({
+      message: 'Workspace file retrieved successfully',
+      file: result.recordset[0]
+    });
+  } catch (error) {
+    logger.error('Get workspace file error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve workspace file',
+      message: 'Please try again later'
+    });
+  }
+});
+
+// Delete file from workspace
+router.delete('/:id/files/:fileId', validate(schemas.workspaceFileParam), requireWorkspaceCapability('deleteFile'), async (req: any, res: any) => {
+  try {
+    const { id, fileId } = req.params;
+    const userId = req.user.userId;
+    
+    const pool = await dbManager.getPool();
+    const workspaceName = req.workspaceAccess.workspaceName;
     
     // Get file to delete
     const fileResult = await pool.request()
@@ -1174,14 +1083,31 @@ router.delete('/:id/files/:fileId', validate(schemas.uuidParam), async (req: any
       await blobClient.deleteIfExists();
     }
     
+    // Remove the file's passages so they stop showing up in search and RAG answers
+    let indexEntriesDeleted = 0;
+    try {
+      indexEntriesDeleted = await DocumentIndexingService.getInstance().deleteFileFromIndex(id, workspaceName, fileId);
+    } catch (indexError) {
+      logger.error(`Failed to delete index entries for file ${fileId}:`, indexError);
+      // Don't fail the delete if the search index is unavailable
+    }
+    
     // Delete file record from database
     await pool.request()
       .input('fileId', sql.NVarChar, fileId)
       .query('DELETE FROM WorkspaceFiles WHERE id = @fileId');
+
+    await auditService.record(getAuditContext(req), {
+      action: 'workspace_file_deleted',
+      resource: 'workspace_file',
+      resourceId: fileId,
+      details: { workspaceId: id, before: { originalName: file.originalName, mimeType: file.mimeType, size: file.size } }
+    });
     
     res.json({
       message: 'File deleted successfully',
-      fileId: fileId
+      fileId: fileId,
+      indexEntriesDeleted
     });
     
     logger.info(`File deleted from workspace ${id}: ${file.originalName} by user: ${userId}`);
@@ -1195,129 +1121,128 @@ router.delete('/:id/files/:fileId', validate(schemas.uuidParam), async (req: any
 });
 
 // Trigger workspace indexing
-router.post('/:id/index', validate(schemas.uuidParam), async (req: any, res: any) => {
+router.post('/:id/index', validate(schemas.workspaceIndex), requireWorkspaceCapability('reindex'), async (req: any, res: any) => {
   try {
     const { id } = req.params;
     const userId = req.user.userId;
-    const userRole = req.user.role;
-    
-    const pool = await dbManager.getPool();
+    // Unchanged files are skipped unless a full rebuild is forced
+    const force = req.body?.force === true || req.query.force === 'true';
+    
+    // Queue the workspace job; it fans out into one job per file
+    const indexingJobService = IndexingJobService.getInstance();
+    const job = await indexingJobService.enqueueWorkspaceJob(id, userId, { force });
+    
+    res.status(202).json({
+      message: 'Workspace indexing queued successfully',
+      workspaceId: id,
+      job: {
+        id: job.id,
+        status: job.status,
+        force: job.force === true,
+        createdAt: job.createdAt
+      }
+    });
     
-    // Check if user has access to this workspace
-    let accessQuery = '';
-    if (userRole === 'admin') {
-      // Admin can trigger indexing for workspaces they own
-      accessQuery = `
-        SELECT id, name FROM Workspaces 
-        WHERE id = @id AND ownerId = @userId
-      `;
-    } else {
-      // Regular users can trigger indexing for workspaces they're assigned to with member access
-      accessQuery = `
-        SELECT w.id, w.name 
-        FROM Workspaces w
-        INNER JOIN WorkspaceUsers wu ON w.id = wu.workspaceId
-        WHERE w.id = @id AND wu.userId = @userId AND wu.accessLevel = 'member'
-      `;
-    }
+    logger.info(`Workspace indexing triggered for workspace ${id} by user: ${userId}`);
+  } catch (error) {
+    logger.error('Workspace indexing trigger error:', error);
+    res.status(500).json({
+      error: 'Failed to trigger workspace indexing',
+      message: 'Please try again later'
+    });
+  }
+});
+
+// Get the progress of a workspace or file indexing job
+router.get('/:id/index/jobs/:jobId', validate(schemas.workspaceJobParam), requireWorkspaceCapability('view'), async (req: any, res: any) => {
+  try {
+    const { id, jobId } = req.params;
     
-    // Verify workspace exists and user has access
-    const workspaceCheck = await pool.request()
-      .input('id', sql.NVarChar, id)
-      .input('userId', sql.NVarChar, userId)
-      .query(accessQuery);
+    const indexingJobService = IndexingJobService.getInstance();
+    const job = await indexingJobService.getJob(id, jobId);
     
-    if (workspaceCheck.recordset.length === 0) {
+    if (!job) {
       return res.status(404).json({
-        error: 'Workspace not found',
-        message: 'Workspace not found or access denied'
+        error: 'Job not found',
+        message: 'Indexing job not found in this workspace'
       });
     }
     
-    const workspace = workspaceCheck.recordset[0];
-    const workspaceName = workspace.name;
-    
-    // Import the indexing function
-    const { ensureWorkspaceIndexing } = require('../scripts/ensure-workspace-indexing');
-    
-    // Trigger indexing in the background
-    setImmediate(async () => {
-      try {
-        logger.info(`Triggering workspace indexing for workspace: ${id}`);
-        const result = await ensureWorkspaceIndexing(id);
-        if (result) {
-          logger.info(`Workspace indexing completed successfully for workspace: ${id}`);
-        } else {
-          logger.warn(`Workspace indexing failed for workspace: ${id}`);
-        }
-      } catch (error) {
-        logger.error(`Error during workspace indexing for workspace ${id}:`, error);
-      }
-    });
+    const files = job.type === 'workspace'
+      ? await indexingJobService.getFileJobs(job.id)
+      : [];
     
     res.json({
-      message: 'Workspace indexing started successfully',
-      workspaceId: id
+      job: {
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        workspaceId: job.workspaceId,
+        fileId: job.fileId,
+        parentJobId: job.parentJobId,
+        force: job.force === true,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        nextAttemptAt: job.status === 'queued' ? job.runAfter : null,
+        chunkCount: job.chunkCount,
+        lastError: job.lastError,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+        progress: indexingJobService.getProgress(job),
+        files
+      }
     });
-    
-    logger.info(`Workspace indexing triggered for workspace ${id} by user: ${userId}`);
   } catch (error) {
-    logger.error('Workspace indexing trigger error:', error);
+    logger.error('Get indexing job error:', error);
     res.status(500).json({
-      error: 'Failed to trigger workspace indexing',
+      error: 'Failed to retrieve indexing job',
       message: 'Please try again later'
     });
   }
 });
 
-// Search documents in workspace using Azure AI Search
-router.get('/:id/search', async (req: any, res: any) => {
+// Search documents in workspace using the configured search provider
+router.get('/:id/search', validate(schemas.uuidParam), requireWorkspaceCapability('view'), async (req: any, res: any) => {
   try {
     const { id } = req.params;
-    const { q: searchText, limit, highlights } = req.query;
-    const userId = req.user?.id;
+    const { q: searchText, limit, highlights, fileId, mode } = req.query;
+    const userId = req.user.userId;
 
     if (!searchText) {
       return res.status(400).json({ error: 'Search query is required' });
     }
 
-    logger.info(`Searching documents in workspace ${id} for query: "${searchText}" by user: ${userId}`);
-
-    // Get workspace details
-    const pool = await dbManager.getPool();
-    const workspaceResult = await pool.request()
-      .input('workspaceId', sql.VarChar, id)
-      .input('userId', sql.VarChar, userId)
-      .query(`
-        SELECT w.name, w.id 
-        FROM workspaces w
-        LEFT JOIN workspace_users wu ON w.id = wu.workspace_id
-        WHERE w.id = @workspaceId 
-        AND (wu.user_id = @userId OR w.created_by = @userId)
-      `);
-
-    if (workspaceResult.recordset.length === 0) {
-      return res.status(404).json({ error: 'Workspace not found or access denied' });
+    if (mode && !['keyword', 'vector', 'hybrid'].includes(mode)) {
+      return res.status(400).json({ error: "Search mode must be 'keyword', 'vector' or 'hybrid'" });
     }
 
-    const workspace = workspaceResult.recordset[0];
-    
-    // Use Azure Search Service for document search
-    const azureSearchService = AzureSearchService.getInstance();
+    logger.info(`Searching documents in workspace ${id} for query: "${searchText}" by user: ${userId}`);
+
+    const searchProvider = getSearchProvider();
     const workspaceStorageService = WorkspaceStorageService.getInstance();
-    const workspaceFolderName = workspaceStorageService.getWorkspaceFolderName(workspace.id, workspace.name);
+    const workspaceFolderName = workspaceStorageService.getWorkspaceFolderName(id, req.workspaceAccess.workspaceName);
     const indexName = `${workspaceFolderName}index`;
+    const top = Math.min(Math.max(parseInt(limit, 10) || 10, 1), 50);
 
     const startTime = Date.now();
-    const searchResults = await azureSearchService.searchDocuments(indexName, searchText);
+    const searchResults = await searchProvider.searchDocuments(indexName, String(searchText), {
+      top,
+      fileId: fileId ? String(fileId) : undefined,
+      mode
+    });
     const searchTime = Date.now() - startTime;
 
     // Format results for mobile app
     const documents = searchResults.map((result: any) => ({
       id: result.id,
+      fileId: result.fileId || result.id,
       fileName: result.fileName,
       content: result.content,
       fileType: result.fileType,
+      chunkIndex: result.chunkIndex ?? null,
+      pageNumber: result.pageNumber ?? null,
+      section: result.section ?? null,
       workspaceId: result.workspaceId,
       workspaceName: result.workspaceName,
       uploadedBy: result.uploadedBy,
@@ -1325,13 +1250,16 @@ router.get('/:id/search', async (req: any, res: any) => {
       summary: result.summary,
       keyPoints: result.keyPoints,
       score: result['@search.score'] || 0,
+      rerankerScore: result['@search.rerankerScore'] ?? null,
+      relevanceScore: result.relevanceScore ?? null,
       highlights: highlights === 'true' ? result['@search.highlights'] : undefined
     }));
 
     res.json({
       documents,
       totalCount: documents.length,
-      searchTime
+      searchTime,
+      provider: searchProvider.name
     });
 
     logger.info(`Document search completed for workspace ${id}: ${documents.length} results in ${searchTime}ms`);
@@ -1345,42 +1273,24 @@ router.get('/:id/search', async (req: any, res: any) => {
 });
 
 // Get workspace Azure integration status
-router.get('/:id/azure-status', async (req: any, res: any) => {
+router.get('/:id/azure-status', validate(schemas.uuidParam), requireWorkspaceCapability('view'), async (req: any, res: any) => {
   try {
     const { id } = req.params;
-    const userId = req.user?.id;
+    const userId = req.user.userId;
+    const workspaceName = req.workspaceAccess.workspaceName;
 
     logger.info(`Getting Azure status for workspace ${id} by user: ${userId}`);
-
-    // Get workspace details
-    const pool = await dbManager.getPool();
-    const workspaceResult = await pool.request()
-      .input('workspaceId', sql.VarChar, id)
-      .input('userId', sql.VarChar, userId)
-      .query(`
-        SELECT w.name, w.id 
-        FROM workspaces w
-        LEFT JOIN workspace_users wu ON w.id = wu.workspace_id
-        WHERE w.id = @workspaceId 
-        AND (wu.user_id = @userId OR w.created_by = @userId)
-      `);
-
-    if (workspaceResult.recordset.length === 0) {
-      return res.status(404).json({ error: 'Workspace not found or access denied' });
-    }
-
-    const workspace = workspaceResult.recordset[0];
     
     // Check Azure Blob Storage folder
     const workspaceStorageService = WorkspaceStorageService.getInstance();
-    const hasAzureFolder = await workspaceStorageService.folderExists(workspace.id, workspace.name);
-    const workspaceFolderName = workspaceStorageService.getWorkspaceFolderName(workspace.id, workspace.name);
+    const hasAzureFolder = await workspaceStorageService.folderExists(id, workspaceName);
+    const workspaceFolderName = workspaceStorageService.getWorkspaceFolderName(id, workspaceName);
     const folderPath = `workspace/${workspaceFolderName}/`;
     
-    // Check Azure AI Search index
-    const azureSearchService = AzureSearchService.getInstance();
+    // Check the search index
+    const searchProvider = getSearchProvider();
     const indexName = `${workspaceFolderName}index`;
-    const hasSearchIndex = await azureSearchService.indexExists(indexName);
+    const hasSearchIndex = await searchProvider.indexExists(indexName);
     const semanticConfigName = `search${indexName}`;
 
     res.json({
@@ -1388,7 +1298,8 @@ router.get('/:id/azure-status', async (req: any, res: any) => {
       hasSearchIndex,
       folderPath,
       indexName,
-      semanticConfigName
+      semanticConfigName,
+      searchProvider: searchProvider.name
     });
 
     logger.info(`Azure status retrieved for workspace ${id}: folder=${hasAzureFolder}, index=${hasSearchIndex}`);
@@ -1402,54 +1313,35 @@ router.get('/:id/azure-status', async (req: any, res: any) => {
 });
 
 // Get workspace statistics
-router.get('/:id/statistics', async (req: any, res: any) => {
+router.get('/:id/statistics', validate(schemas.uuidParam), requireWorkspaceCapability('view'), async (req: any, res: any) => {
   try {
     const { id } = req.params;
-    const userId = req.user?.id;
+    const userId = req.user.userId;
 
     logger.info(`Getting statistics for workspace ${id} by user: ${userId}`);
 
-    // Get workspace details
+    // Get file statistics; a file counts as indexed once its current content has been indexed
     const pool = await dbManager.getPool();
-    const workspaceResult = await pool.request()
-      .input('workspaceId', sql.VarChar, id)
-      .input('userId', sql.VarChar, userId)
-      .query(`
-        SELECT w.name, w.id, w.created_at
-        FROM workspaces w
-        LEFT JOIN workspace_users wu ON w.id = wu.workspace_id
-        WHERE w.id = @workspaceId 
-        AND (wu.user_id = @userId OR w.created_by = @userId)
-      `);
-
-    if (workspaceResult.recordset.length === 0) {
-      return res.status(404).json({ error: 'Workspace not found or access denied' });
-    }
-
-    const workspace = workspaceResult.recordset[0];
-
-    // Get file statistics
     const fileStatsResult = await pool.request()
-      .input('workspaceId', sql.VarChar, id)
+      .input('workspaceId', sql.NVarChar, id)
       .query(`
         SELECT 
-          COUNT(*) as fileCount,
-          SUM(ISNULL(file_size, 0)) as totalSize,
-          MAX(uploaded_at) as lastActivity
-        FROM workspace_files 
-        WHERE workspace_id = @workspaceId
+          COUNT(f.id) as fileCount,
+          SUM(ISNULL(f.size, 0)) as totalSize,
+          SUM(CASE WHEN f.indexedAt IS NOT NULL AND (f.contentHash IS NULL OR f.indexedContentHash = f.contentHash) THEN 1 ELSE 0 END) as indexedDocuments,
+          COALESCE(MAX(f.createdAt), MAX(w.createdAt)) as lastActivity
+        FROM Workspaces w
+        LEFT JOIN WorkspaceFiles f ON f.workspaceId = w.id
+        WHERE w.id = @workspaceId
       `);
 
     const fileStats = fileStatsResult.recordset[0];
-    
-    // Get indexed document count (assume all files are indexed)
-    const indexedDocuments = fileStats.fileCount || 0;
 
     res.json({
       fileCount: fileStats.fileCount || 0,
       totalSize: fileStats.totalSize || 0,
-      lastActivity: fileStats.lastActivity || workspace.created_at,
-      indexedDocuments
+      lastActivity: fileStats.lastActivity,
+      indexedDocuments: fileStats.indexedDocuments || 0
     });
 
     logger.info(`Statistics retrieved for workspace ${id}: ${fileStats.fileCount} files, ${fileStats.totalSize} bytes`);
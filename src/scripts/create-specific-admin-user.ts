@@ -59,8 +59,8 @@ async function createSpecificAdminUser() {
         .input('provider', sql.NVarChar, 'local')
         .input('role', sql.NVarChar, adminUser.role)
         .query(`
-          INSERT INTO Users (id, firstName, lastName, email, password, provider, role, isActive)
-          VALUES (@id, @firstName, @lastName, @email, @password, @provider, @role, 1)
+          INSERT INTO Users (id, firstName, lastName, email, password, provider, role, isActive, emailVerified)
+          VALUES (@id, @firstName, @lastName, @email, @password, @provider, @role, 1, 1)
         `);
       
       console.log(`✅ Created admin user: ${adminUser.email}`);
@@ -34,8 +34,8 @@ async function createTestUserAndWorkspace() {
       .input('provider', sql.NVarChar, testUser.provider)
       .input('role', sql.NVarChar, testUser.role)
       .query(`
-        INSERT INTO Users (id, firstName, lastName, email, password, provider, role)
-        VALUES (@id, @firstName, @lastName, @email, @password, @provider, @role)
+        INSERT INTO Users (id, firstName, lastName, email, password, provider, role, emailVerified)
+        VALUES (@id, @firstName, @lastName, @email, @password, @provider, @role, 1)
       `);
     
     console.log('✅ Test user created successfully');
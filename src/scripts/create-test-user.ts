@@ -45,8 +45,8 @@ async function createTestUser() {
         .input('provider', sql.NVarChar, 'local')
         .input('role', sql.NVarChar, testUser.role)
         .query(`
-          INSERT INTO Users (id, firstName, lastName, email, password, provider, role)
-          VALUES (@id, @firstName, @lastName, @email, @password, @provider, @role)
+          INSERT INTO Users (id, firstName, lastName, email, password, provider, role, emailVerified)
+          VALUES (@id, @firstName, @lastName, @email, @password, @provider, @role, 1)
         `);
       
       console.log(`✅ Created user: ${testUser.email}`);
@@ -82,8 +82,8 @@ async function createTestUser() {
         .input('provider', sql.NVarChar, 'local')
         .input('role', sql.NVarChar, adminUser.role)
         .query(`
-          INSERT INTO Users (id, firstName, lastName, email, password, provider, role)
-          VALUES (@id, @firstName, @lastName, @email, @password, @provider, @role)
+          INSERT INTO Users (id, firstName, lastName, email, password, provider, role, emailVerified)
+          VALUES (@id, @firstName, @lastName, @email, @password, @provider, @role, 1)
         `);
       
       console.log(`✅ Created admin user: ${adminUser.email}`);
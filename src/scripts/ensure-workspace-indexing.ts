@@ -5,25 +5,21 @@ import path from 'path';
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
 import { DatabaseManager } from '../config/database';
-import { FileAnalysisService } from '../services/fileAnalysisService';
-import { AzureSearchService } from '../services/azureSearchService';
-import { WorkspaceStorageService } from '../services/workspaceStorage';
-import sql from 'mssql';
+import { DocumentIndexingService } from '../services/documentIndexingService';
 
 /**
- * Ensures all files in a workspace are properly indexed in Azure Search
+ * Ensures all files in a workspace are properly indexed in the configured search provider
  * This script can be triggered when the upload dialog is closed
  * @param workspaceId - The ID of the workspace to index
+ * @param force - Reindex files whose content hasn't changed since they were last indexed
  */
-export async function ensureWorkspaceIndexing(workspaceId: string): Promise<boolean> {
+export async function ensureWorkspaceIndexing(workspaceId: string, force = false): Promise<boolean> {
   try {
     console.log(`Ensuring workspace indexing for workspace: ${workspaceId}`);
     
     // Initialize services
     const dbManager = DatabaseManager.getInstance();
-    const fileAnalysisService = FileAnalysisService.getInstance();
-    const azureSearchService = AzureSearchService.getInstance();
-    const workspaceStorageService = WorkspaceStorageService.getInstance();
+    const documentIndexingService = DocumentIndexingService.getInstance();
     
     const pool = await dbManager.getPool();
     
@@ -54,120 +50,42 @@ export async function ensureWorkspaceIndexing(workspaceId: string): Promise<bool
       return true;
     }
     
-    // Get workspace folder name and index name
-    const workspaceFolderName = workspaceStorageService.getWorkspaceFolderName(workspaceId, workspaceName);
-    const indexName = `${workspaceFolderName}index`;
-    const containerName = process.env.AZURE_STORAGE_CONTAINER_NAME || 'blob';
+    // Get the index name for the workspace
+    const indexName = documentIndexingService.getIndexName(workspaceId, workspaceName);
     
     console.log(`Using index: ${indexName}`);
-    console.log(`Using container: ${containerName}`);
-    
-    // Check if the index exists, create it if it doesn't
-    const indexExists = await azureSearchService.indexExists(indexName);
-    if (!indexExists) {
-      console.log(`Azure Search index ${indexName} does not exist, creating it now`);
-      const indexCreated = await azureSearchService.createWorkspaceIndex(indexName);
-      if (!indexCreated) {
-        console.log(`❌ Failed to create Azure Search index ${indexName}`);
-        return false;
-      }
-      console.log(`✅ Azure Search index created: ${indexName}`);
+    
+    // Create the index if it doesn't exist, or add chunk fields to an older one
+    const indexReady = await documentIndexingService.ensureIndex(indexName);
+    if (!indexReady) {
+      console.log(`❌ Failed to prepare search index ${indexName}`);
+      return false;
     }
+    console.log(`✅ Search index ready: ${indexName}`);
     
-    // Process files in batches for better performance
-    const batchSize = 5;
-    const documentsToIndex: any[] = [];
+    let indexedFiles = 0;
+    let unchangedFiles = 0;
+    let totalChunks = 0;
     
-    // Process each file
+    // Process each file, splitting it into overlapping passages
     for (const file of fileResult.recordset) {
-      try {
-        console.log(`\nProcessing file: ${file.originalName}`);
-        
-        // Construct the correct blob path
-        const sanitizedWorkspaceName = workspaceName.replace(/[^a-zA-Z0-9-]/g, '-').toLowerCase();
-        const shortWorkspaceId = workspaceId.substring(0, 7);
-        const folderPath = `workspace/${sanitizedWorkspaceName}-${shortWorkspaceId}/`;
-        const fullBlobName = `${folderPath}${file.fileName}`;
-        
-        console.log(`  Blob path: ${fullBlobName}`);
-        
-        // Extract content from the file
-        console.log('  Extracting file content...');
-        const fileContentResult = await fileAnalysisService.extractFileContent(
-          fullBlobName, 
-          file.originalName,
-          containerName
-        );
-        
-        // Check if content extraction was successful
-        if (fileContentResult.content.startsWith('[Content not available')) {
-          console.log(`  ⚠️  Failed to extract content (may be already indexed): ${fileContentResult.content}`);
-          // Continue with existing content in the index if available
-          continue;
-        }
-        
-        console.log(`  ✅ Content extracted (${fileContentResult.content.length} characters)`);
-        
-        // Analyze the content to get summary and key points
-        let summary = '';
-        let keyPoints: string[] = [];
-        
-        try {
-          console.log('  Analyzing content...');
-          const analysisResult = await fileAnalysisService.analyzeFile(
-            fullBlobName, 
-            file.mimeType,
-            containerName
-          );
-          summary = analysisResult.summary || '';
-          keyPoints = analysisResult.keyPoints || [];
-          console.log('  ✅ Content analysis completed');
-        } catch (analysisError: any) {
-          console.log('  ⚠️  Content analysis failed, using raw content for summary');
-          // Use first 500 characters as summary if analysis fails
-          summary = fileContentResult.content.substring(0, 500) + (fileContentResult.content.length > 500 ? '...' : '');
-          keyPoints = [];
-        }
-        
-        // Create document for indexing with enhanced fields
-        const documentToIndex = {
-          id: file.id,
-          content: fileContentResult.content,
-          fileName: file.originalName,
-          fileType: file.mimeType,
-          workspaceId: workspaceId,
-          workspaceName: workspaceName,
-          uploadedBy: file.userId,
-          uploadedAt: file.createdAt.toISOString(),
-          summary: summary,
-          keyPoints: keyPoints
-        };
-        
-        documentsToIndex.push(documentToIndex);
-      } catch (error: any) {
-        console.log(`  ❌ Error processing file ${file.originalName}: ${error.message}`);
-      }
-    }
-    
-    // Index documents in batches
-    if (documentsToIndex.length > 0) {
-      console.log(`\nIndexing ${documentsToIndex.length} documents in batches of ${batchSize}`);
+      console.log(`\nProcessing file: ${file.originalName}`);
       
-      for (let i = 0; i < documentsToIndex.length; i += batchSize) {
-        const batch = documentsToIndex.slice(i, i + batchSize);
-        console.log(`\nIndexing batch ${Math.floor(i/batchSize) + 1} of ${Math.ceil(documentsToIndex.length/batchSize)}`);
-        
-        const indexResult = await azureSearchService.indexDocuments(indexName, batch);
-        if (indexResult) {
-          console.log(`  ✅ Successfully indexed batch of ${batch.length} documents`);
-        } else {
-          console.log(`  ❌ Failed to index batch of ${batch.length} documents`);
-        }
+      const result = await documentIndexingService.indexWorkspaceFile(workspaceId, workspaceName, file, { force });
+      if (result.indexed) {
+        indexedFiles++;
+        totalChunks += result.chunkCount;
+        console.log(`  ✅ Indexed ${result.chunkCount} chunks`);
+      } else if (result.unchanged) {
+        unchangedFiles++;
+        console.log('  ⏭️  Unchanged since last indexing');
+      } else {
+        console.log(`  ⚠️  File not indexed: ${result.error}`);
       }
-    } else {
-      console.log('No new documents to index');
     }
     
+    console.log(`\nIndexed ${indexedFiles} of ${fileResult.recordset.length} files (${totalChunks} chunks), ${unchangedFiles} unchanged`);
+    
     console.log('\n🎉 Workspace indexing completed successfully!');
     return true;
     
@@ -179,14 +97,16 @@ export async function ensureWorkspaceIndexing(workspaceId: string): Promise<bool
 
 // If run directly, accept workspace ID as command line argument
 if (require.main === module) {
-  const workspaceId = process.argv[2];
+  const args = process.argv.slice(2);
+  const force = args.includes('--force');
+  const workspaceId = args.find(arg => !arg.startsWith('--'));
   
   if (!workspaceId) {
-    console.log('Usage: node ensure-workspace-indexing.js <workspaceId>');
+    console.log('Usage: node ensure-workspace-indexing.js <workspaceId> [--force]');
     process.exit(1);
   }
   
-  ensureWorkspaceIndexing(workspaceId)
+  ensureWorkspaceIndexing(workspaceId, force)
     .then(success => {
       if (success) {
         console.log('✅ Workspace indexing completed successfully');
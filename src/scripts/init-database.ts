@@ -68,8 +68,8 @@ async function initializeDatabase() {
           .input('provider', sql.NVarChar, 'local')
           .input('role', sql.NVarChar, userData.role)
           .query(`
-            INSERT INTO Users (id, firstName, lastName, email, password, provider, role)
-            VALUES (@id, @firstName, @lastName, @email, @password, @provider, @role)
+            INSERT INTO Users (id, firstName, lastName, email, password, provider, role, emailVerified)
+            VALUES (@id, @firstName, @lastName, @email, @password, @provider, @role, 1)
           `);
         
         console.log(`✅ Created ${userData.role} user: ${userData.email} with ID: ${userId}`);
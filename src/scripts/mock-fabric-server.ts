@@ -0,0 +1,148 @@
+import express from 'express';
+
+/**
+ * Minimal stand-in for the Fabric REST API, for running data questions locally.
+ * Point the backend at it with FABRIC_API_BASE_URL=http://localhost:4010/v1 and any
+ * FABRIC_ACCESS_TOKEN. Queries are not really evaluated: the rows of the first table the
+ * query reads are returned, limited by its TOP/TOPN count.
+ */
+
+interface MockTable {
+  name: string;
+  columns: { name: string; dataType: string }[];
+  measures: { name: string; expression: string }[];
+  rows: Record<string, any>[];
+}
+
+const DATASET_ID = 'mock-sales-dataset';
+
+const tables: MockTable[] = [
+  {
+    name: 'Sales',
+    columns: [
+      { name: 'OrderId', dataType: 'Int64' },
+      { name: 'OrderDate', dataType: 'DateTime' },
+      { name: 'Region', dataType: 'String' },
+      { name: 'ProductId', dataType: 'Int64' },
+      { name: 'Quantity', dataType: 'Int64' },
+      { name: 'Revenue', dataType: 'Decimal' }
+    ],
+    measures: [{ name: 'Total Revenue', expression: 'SUM(Sales[Revenue])' }],
+    rows: [
+      { OrderId: 1001, OrderDate: '2024-01-15', Region: 'North', ProductId: 1, Quantity: 12, Revenue: 1440 },
+      { OrderId: 1002, OrderDate: '2024-01-18', Region: 'South', ProductId: 2, Quantity: 5, Revenue: 1250 },
+      { OrderId: 1003, OrderDate: '2024-02-02', Region: 'East', ProductId: 3, Quantity: 20, Revenue: 600 },
+      { OrderId: 1004, OrderDate: '2024-02-11', Region: 'West', ProductId: 1, Quantity: 8, Revenue: 960 },
+      { OrderId: 1005, OrderDate: '2024-03-05', Region: 'North', ProductId: 2, Quantity: 3, Revenue: 750 },
+      { OrderId: 1006, OrderDate: '2024-03-21', Region: 'East', ProductId: 3, Quantity: 15, Revenue: 450 }
+    ]
+  },
+  {
+    name: 'Products',
+    columns: [
+      { name: 'ProductId', dataType: 'Int64' },
+      { name: 'Name', dataType: 'String' },
+      { name: 'Category', dataType: 'String' },
+      { name: 'UnitPrice', dataType: 'Decimal' }
+    ],
+    measures: [],
+    rows: [
+      { ProductId: 1, Name: 'Widget', Category: 'Hardware', UnitPrice: 120 },
+      { ProductId: 2, Name: 'Gadget', Category: 'Hardware', UnitPrice: 250 },
+      { ProductId: 3, Name: 'Support Plan', Category: 'Services', UnitPrice: 30 }
+    ]
+  }
+];
+
+function findQueriedTable(query: string): MockTable | undefined {
+  const match = query.match(/\bFROM\s+(?:\[?\w+\]?\.)?\[?(\w+)\]?/i)
+    || query.match(/\bTOPN\s*\(\s*\d+\s*,\s*'?(\w+)'?/i)
+    || query.match(/\bEVALUATE\s+'?(\w+)'?/i);
+  const name = match?.[1]?.toLowerCase();
+  return tables.find(table => table.name.toLowerCase() === name);
+}
+
+function getRowLimit(query: string): number | undefined {
+  const match = query.match(/\bTOP\s*\(?\s*(\d+)/i) || query.match(/\bTOPN\s*\(\s*(\d+)/i);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function runQuery(query: string): { table: MockTable; rows: Record<string, any>[] } | null {
+  const table = findQueriedTable(query);
+  if (!table) {
+    return null;
+  }
+  const limit = getRowLimit(query);
+  return { table, rows: limit !== undefined ? table.rows.slice(0, limit) : table.rows };
+}
+
+const app = express();
+app.use(express.json());
+
+app.use((req, res, next) => {
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    res.status(401).json({ error: { code: 'Unauthorized', message: 'Missing bearer token' } });
+    return;
+  }
+  console.log(`${req.method} ${req.path}`);
+  next();
+});
+
+app.get('/v1/workspaces/:workspaceId/datasets', (req, res) => {
+  res.json({
+    value: [{
+      id: DATASET_ID,
+      name: 'Mock Sales',
+      tables: tables.map(table => table.name),
+      lastRefresh: new Date().toISOString()
+    }]
+  });
+});
+
+app.get('/v1/workspaces/:workspaceId/datasets/:datasetId/schema', (req, res) => {
+  if (req.params.datasetId !== DATASET_ID) {
+    res.status(404).json({ error: { code: 'NotFound', message: 'Dataset not found' } });
+    return;
+  }
+  res.json({
+    tables: tables.map(({ name, columns, measures }) => ({ name, columns, measures }))
+  });
+});
+
+app.post('/v1/workspaces/:workspaceId/datasets/:datasetId/executeQueries', (req, res) => {
+  const query: string = req.body?.queries?.[0]?.query || '';
+  const result = runQuery(query);
+  if (!result) {
+    res.json({ error: { message: `Query does not reference a known table: ${query}` } });
+    return;
+  }
+  res.json({
+    results: [{
+      tables: [{
+        columns: result.table.columns.map(column => ({ name: `${result.table.name}[${column.name}]` })),
+        rows: result.rows.map(row => Object.fromEntries(
+          Object.entries(row).map(([key, value]) => [`${result.table.name}[${key}]`, value])
+        ))
+      }]
+    }]
+  });
+});
+
+app.post('/v1/workspaces/:workspaceId/sqlEndpoints/query', (req, res) => {
+  const query: string = req.body?.query || '';
+  const result = runQuery(query);
+  if (!result) {
+    res.status(400).json({ error: { code: 'InvalidQuery', message: `Query does not reference a known table: ${query}` } });
+    return;
+  }
+  const maxRows = typeof req.body?.maxRows === 'number' ? req.body.maxRows : result.rows.length;
+  res.json({
+    columns: result.table.columns.map(column => ({ name: column.name })),
+    rows: result.rows.slice(0, maxRows)
+  });
+});
+
+const port = parseInt(process.env.FABRIC_MOCK_PORT || '4010', 10);
+app.listen(port, () => {
+  console.log(`Mock Fabric API listening on http://localhost:${port}/v1 (dataset id: ${DATASET_ID})`);
+});
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Minimal OpenID Connect issuer for trying sign-in locally. It signs every user in without
+ * a login page: /authorize immediately redirects back with a code for the login_hint email
+ * (or MOCK_OIDC_EMAIL). Configure it as a provider with
+ *   OIDC_PROVIDERS=mock
+ *   OIDC_MOCK_ISSUER=http://localhost:4020
+ *   OIDC_MOCK_CLIENT_ID=aiva-local
+ *   OIDC_MOCK_REDIRECT_URI=http://localhost:5173/auth/callback
+ */
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  expiresAt: number;
+}
+
+const port = parseInt(process.env.OIDC_MOCK_PORT || '4020', 10);
+const issuer = `http://localhost:${port}`;
+const keyId = 'mock-key-1';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const codes = new Map<string, IssuedCode>();
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.use((req, res, next) => {
+  console.log(`${req.method} ${req.path}`);
+  next();
+});
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic', 'none'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'profile', 'email']
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' }]
+  });
+});
+
+app.get('/authorize', (req, res) => {
+  const { response_type, client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, login_hint } = req.query as Record<string, string>;
+
+  if (response_type !== 'code' || !client_id || !redirect_uri) {
+    res.status(400).send('response_type=code, client_id and redirect_uri are required');
+    return;
+  }
+  if (!code_challenge || code_challenge_method !== 'S256') {
+    res.status(400).send('A PKCE S256 code_challenge is required');
+    return;
+  }
+
+  const code = crypto.randomBytes(24).toString('base64url');
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    codeChallenge: code_challenge,
+    nonce,
+    email: login_hint || process.env.MOCK_OIDC_EMAIL || 'oidc.user@example.com',
+    expiresAt: Date.now() + 60 * 1000
+  });
+
+  const redirect = new URL(redirect_uri);
+  redirect.searchParams.set('code', code);
+  if (state) {
+    redirect.searchParams.set('state', state);
+  }
+  res.redirect(redirect.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+  let clientId: string | undefined = req.body.client_id;
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/);
+  if (basic) {
+    clientId = decodeURIComponent(Buffer.from(basic[1], 'base64').toString().split(':')[0]);
+  }
+
+  const issued = codes.get(code);
+  codes.delete(code);
+  if (grant_type !== 'authorization_code' || !issued || issued.expiresAt < Date.now()) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'Unknown or expired code' });
+    return;
+  }
+  if (issued.clientId !== clientId || issued.redirectUri !== redirect_uri) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'Client or redirect URI mismatch' });
+    return;
+  }
+  const challenge = crypto.createHash('sha256').update(code_verifier || '').digest('base64url');
+  if (challenge !== issued.codeChallenge) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    return;
+  }
+
+  const localPart = issued.email.split('@')[0];
+  const idToken = jwt.sign(
+    {
+      sub: crypto.createHash('sha256').update(issued.email).digest('hex').substring(0, 24),
+      email: issued.email,
+      email_verified: true,
+      name: localPart.split(/[._-]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' '),
+      ...(issued.nonce ? { nonce: issued.nonce } : {})
+    },
+    privateKey,
+    { algorithm: 'RS256', keyid: keyId, issuer, audience: issued.clientId, expiresIn: '5m' }
+  );
+
+  res.json({
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken
+  });
+});
+
+app.listen(port, () => {
+  console.log(`Mock OIDC issuer listening on ${issuer}`);
+});
@@ -50,9 +50,9 @@ async function verifyAdminUser() {
         .input('role', sql.NVarChar, 'admin')
         .input('isActive', sql.Bit, 1)
         .query(`
-          INSERT INTO Users (firstName, lastName, email, password, provider, role, isActive, createdAt, updatedAt)
+          INSERT INTO Users (firstName, lastName, email, password, provider, role, isActive, emailVerified, createdAt, updatedAt)
           OUTPUT INSERTED.id, INSERTED.email, INSERTED.role
-          VALUES (@firstName, @lastName, @email, @password, @provider, @role, @isActive, GETUTCDATE(), GETUTCDATE())
+          VALUES (@firstName, @lastName, @email, @password, @provider, @role, @isActive, 1, GETUTCDATE(), GETUTCDATE())
         `);
       
       console.log('✅ Admin user created successfully:');
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CronSchedule, CronScheduleError } from '../cronSchedule';
+
+// The next `count` runs after `from`, as ISO strings
+function runs(expression: string, timeZone: string, from: string, count: number): string[] {
+  const schedule = CronSchedule.parse(expression, timeZone);
+  const result: string[] = [];
+  let after = new Date(from);
+  for (let i = 0; i < count; i++) {
+    after = schedule.next(after);
+    result.push(after.toISOString());
+  }
+  return result;
+}
+
+describe('CronSchedule', () => {
+  it('evaluates fields, macros and names in the time zone', () => {
+    assert.deepEqual(runs('0 12 * * *', 'UTC', '2026-01-01T12:00:00Z', 2), ['2026-01-02T12:00:00.000Z', '2026-01-03T12:00:00.000Z']);
+    assert.deepEqual(runs('@daily', 'Europe/Amsterdam', '2026-01-01T00:00:00Z', 1), ['2026-01-01T23:00:00.000Z']);
+    assert.deepEqual(runs('15 9 * JAN MON-FRI', 'UTC', '2026-01-02T10:00:00Z', 2), ['2026-01-05T09:15:00.000Z', '2026-01-06T09:15:00.000Z']);
+    // Either day field matches when both are restricted
+    assert.deepEqual(runs('0 0 13 * FRI', 'UTC', '2026-02-01T00:00:00Z', 2), ['2026-02-06T00:00:00.000Z', '2026-02-13T00:00:00.000Z']);
+  });
+
+  it('rejects invalid expressions and time zones', () => {
+    assert.throws(() => CronSchedule.parse('* * * *'), CronScheduleError);
+    assert.throws(() => CronSchedule.parse('60 * * * *'), CronScheduleError);
+    assert.throws(() => CronSchedule.parse('0 0 30 2 *'), /never runs/);
+    assert.throws(() => CronSchedule.parse('0 0 * * *', 'Mars/Olympus_Mons'), /Unknown time zone/);
+  });
+
+  describe('when clocks go forward', () => {
+    it('moves a time in the gap forward by the length of the gap', () => {
+      // Europe/Amsterdam skips 02:00-03:00 on 29 March 2026; 02:30 runs at 03:30 CEST
+      assert.deepEqual(runs('30 2 * * *', 'Europe/Amsterdam', '2026-03-28T12:00:00Z', 2), ['2026-03-29T01:30:00.000Z', '2026-03-30T00:30:00.000Z']);
+      // America/New_York skips 02:00-03:00 on 8 March 2026; 02:30 runs at 03:30 EDT
+      assert.deepEqual(runs('30 2 * * *', 'America/New_York', '2026-03-07T12:00:00Z', 2), ['2026-03-08T07:30:00.000Z', '2026-03-09T06:30:00.000Z']);
+    });
+
+    it('does not repeat runs across the gap', () => {
+      assert.deepEqual(runs('*/30 * * * *', 'Europe/Amsterdam', '2026-03-29T00:15:00Z', 4), [
+        '2026-03-29T00:30:00.000Z',
+        '2026-03-29T01:00:00.000Z',
+        '2026-03-29T01:30:00.000Z',
+        '2026-03-29T02:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('when clocks go back', () => {
+    it('runs a repeated time once, at its second occurrence', () => {
+      // Europe/Amsterdam repeats 02:00-03:00 on 25 October 2026; 02:30 runs at 02:30 CET
+      assert.deepEqual(runs('30 2 * * *', 'Europe/Amsterdam', '2026-10-24T12:00:00Z', 2), ['2026-10-25T01:30:00.000Z', '2026-10-26T01:30:00.000Z']);
+      // America/New_York repeats 01:00-02:00 on 1 November 2026; 01:30 runs at 01:30 EST
+      assert.deepEqual(runs('30 1 * * *', 'America/New_York', '2026-10-31T12:00:00Z', 2), ['2026-11-01T06:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+    });
+
+    it('keeps runs in order through the repeated hour', () => {
+      assert.deepEqual(runs('0 * * * *', 'Europe/Amsterdam', '2026-10-24T23:30:00Z', 3), [
+        '2026-10-25T01:00:00.000Z',
+        '2026-10-25T02:00:00.000Z',
+        '2026-10-25T03:00:00.000Z'
+      ]);
+    });
+  });
+
+  it('measures the shortest interval between runs', () => {
+    assert.equal(CronSchedule.parse('*/15 * * * *').minimumIntervalMinutes(), 15);
+    assert.equal(CronSchedule.parse('0,5 * * * *').minimumIntervalMinutes(), 5);
+  });
+});
@@ -0,0 +1,269 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Module from 'module';
+import {
+  DatabaseDriverError,
+  DriverConnectionConfig,
+  getDatabaseDriver,
+  loadDriverModule,
+  stripTrailingSemicolons
+} from '../databaseDriver';
+import { PostgresDriver } from '../postgresDriver';
+import { MySqlDriver } from '../mySqlDriver';
+import { OracleDriver } from '../oracleDriver';
+import { MongoDriver } from '../mongoDriver';
+
+const CONFIG: DriverConnectionConfig = {
+  host: 'db.example.com',
+  port: 5432,
+  database: 'sales',
+  username: 'reader',
+  password: 'secret',
+  encrypt: true,
+  trustServerCertificate: false,
+  connectTimeoutMs: 5000
+};
+
+// Stand-in client libraries, served to loadDriverModule in place of the real ones
+const moduleLoader = Module as unknown as { _load: (request: string, ...rest: any[]) => any };
+const realLoad = moduleLoader._load;
+const standIns = new Map<string, any>();
+moduleLoader._load = function (request: string, ...rest: any[]) {
+  return standIns.has(request) ? standIns.get(request) : realLoad.call(this, request, ...rest);
+};
+
+afterEach(() => standIns.clear());
+
+// A connection that records its statements and answers them with `respond`
+function recorder(respond: (statement: string, ...args: any[]) => any = () => ({})) {
+  const statements: string[] = [];
+  const calls: Record<string, number> = {};
+  const count = (name: string) => { calls[name] = (calls[name] || 0) + 1; };
+  return { statements, calls, count, respond: async (statement: string, ...args: any[]) => {
+    statements.push(statement);
+    return respond(statement, ...args);
+  } };
+}
+
+describe('databaseDriver', () => {
+  it('gets the driver for each connection type', () => {
+    assert.equal(getDatabaseDriver('postgresql').type, 'postgresql');
+    assert.equal(getDatabaseDriver('mysql').type, 'mysql');
+    assert.equal(getDatabaseDriver('oracle').type, 'oracle');
+    assert.equal(getDatabaseDriver('mongodb').type, 'mongodb');
+    assert.throws(() => getDatabaseDriver('db2' as any), (error: any) => error instanceof DatabaseDriverError && error.statusCode === 400);
+  });
+
+  it('reports a client library that is not installed as 501', () => {
+    assert.throws(
+      () => loadDriverModule('aiva-no-such-driver/promise', 'mysql'),
+      (error: any) => error instanceof DatabaseDriverError && error.statusCode === 501 && error.message.includes('npm install aiva-no-such-driver')
+    );
+  });
+
+  it('strips trailing semicolons', () => {
+    assert.equal(stripTrailingSemicolons('SELECT 1; ;\n'), 'SELECT 1');
+    assert.equal(stripTrailingSemicolons("SELECT ';' FROM t"), "SELECT ';' FROM t");
+  });
+});
+
+describe('PostgresDriver', () => {
+  function standInPg(respond: (statement: string) => any, connectError?: Error) {
+    const log = recorder(respond);
+    standIns.set('pg', {
+      Client: class {
+        constructor(public options: any) {
+          (log as any).options = options;
+        }
+        async connect() {
+          if (connectError) throw connectError;
+        }
+        query(statement: string) {
+          return log.respond(statement);
+        }
+        async end() {
+          log.count('end');
+        }
+      }
+    });
+    return log as typeof log & { options?: any };
+  }
+
+  it('caps rows inside a read-only transaction that is rolled back', async () => {
+    const log = standInPg(statement => statement.startsWith('SELECT *')
+      ? { fields: [{ name: 'id' }], rows: [{ id: 1 }, { id: 2 }, { id: 3 }] }
+      : {});
+
+    const result = await new PostgresDriver().query(CONFIG, 'SELECT id FROM orders;', { maxRows: 2, timeoutMs: 1000 });
+
+    assert.deepEqual(log.statements, ['BEGIN READ ONLY', 'SELECT * FROM (SELECT id FROM orders) AS limited_query LIMIT 3', 'ROLLBACK']);
+    assert.deepEqual(result, { columns: ['id'], rows: [{ id: 1 }, { id: 2 }], truncated: true });
+    assert.equal(log.options.statement_timeout, 1000);
+    assert.deepEqual(log.options.ssl, { rejectUnauthorized: true });
+    assert.equal(log.calls.end, 1);
+  });
+
+  it('commits writable queries', async () => {
+    const log = standInPg(statement => statement.startsWith('UPDATE') ? { rowCount: 4 } : {});
+
+    const result = await new PostgresDriver().query(CONFIG, 'UPDATE orders SET status = 1', { maxRows: 10, timeoutMs: 1000, writable: true });
+
+    assert.deepEqual(log.statements, ['BEGIN', 'UPDATE orders SET status = 1', 'COMMIT']);
+    assert.equal(result.rowsAffected, 4);
+  });
+
+  it('wraps connection and query errors and still closes the client', async () => {
+    standInPg(() => ({}), new Error('connect ECONNREFUSED'));
+    await assert.rejects(
+      new PostgresDriver().probe(CONFIG),
+      (error: any) => error instanceof DatabaseDriverError && error.statusCode === 502 && error.message === 'connect ECONNREFUSED'
+    );
+
+    const log = standInPg(statement => {
+      if (statement.startsWith('SELECT *')) throw new Error('relation "orders" does not exist');
+      return {};
+    });
+    await assert.rejects(new PostgresDriver().query(CONFIG, 'SELECT * FROM orders', { maxRows: 10, timeoutMs: 1000 }), DatabaseDriverError);
+    assert.equal(log.statements[log.statements.length - 1], 'ROLLBACK');
+    assert.equal(log.calls.end, 1);
+  });
+});
+
+describe('MySqlDriver', () => {
+  function standInMysql(respond: (statement: string, params?: any[]) => any) {
+    const log = recorder(respond);
+    standIns.set('mysql2/promise', {
+      createConnection: async () => ({
+        query: (statement: string | { sql: string }, params?: any[]) => {
+          const text = typeof statement === 'string' ? statement : statement.sql;
+          return log.respond(params ? `${text} [${params.join(', ')}]` : text, params);
+        },
+        end: async () => log.count('end')
+      })
+    });
+    return log;
+  }
+
+  it('limits rows on the server inside a read-only transaction', async () => {
+    const log = standInMysql(statement => statement.startsWith('SELECT')
+      ? [[{ id: 1 }, { id: 2 }], [{ name: 'id' }]]
+      : [[], []]);
+
+    const result = await new MySqlDriver().query(CONFIG, 'SELECT id FROM orders', { maxRows: 2, timeoutMs: 1000 });
+
+    assert.deepEqual(log.statements, [
+      'SET SESSION sql_select_limit = ? [3]',
+      'SET SESSION max_execution_time = ? [1000]',
+      'START TRANSACTION READ ONLY',
+      'SELECT id FROM orders',
+      'ROLLBACK'
+    ]);
+    assert.deepEqual(result, { columns: ['id'], rows: [{ id: 1 }, { id: 2 }], truncated: false });
+    assert.equal(log.calls.end, 1);
+  });
+
+  it('commits writable queries', async () => {
+    const log = standInMysql(statement => statement.startsWith('DELETE') ? [{ affectedRows: 2 }] : [[]]);
+
+    const result = await new MySqlDriver().query(CONFIG, 'DELETE FROM orders WHERE id < 3', { maxRows: 10, timeoutMs: 1000, writable: true });
+
+    assert.deepEqual(log.statements, ['START TRANSACTION', 'DELETE FROM orders WHERE id < 3', 'COMMIT']);
+    assert.equal(result.rowsAffected, 2);
+  });
+});
+
+describe('OracleDriver', () => {
+  function standInOracledb(respond: (statement: string, binds?: any, options?: any) => any) {
+    const log = recorder(respond);
+    standIns.set('oracledb', {
+      OUT_FORMAT_OBJECT: 4002,
+      getConnection: async (options: any) => {
+        (log as any).options = options;
+        return {
+          oracleServerVersionString: '23.4.0.0.0',
+          execute: (statement: string, binds?: any, options?: any) => log.respond(statement, binds, options),
+          commit: async () => { log.statements.push('COMMIT'); },
+          rollback: async () => { log.statements.push('ROLLBACK'); },
+          close: async () => log.count('close')
+        };
+      }
+    });
+    return log as typeof log & { options?: any };
+  }
+
+  it('fetches at most maxRows + 1 rows in a read-only transaction', async () => {
+    let executeOptions: any;
+    const log = standInOracledb((statement, _binds, options) => {
+      if (statement.startsWith('SELECT')) {
+        executeOptions = options;
+        return { metaData: [{ name: 'ID' }], rows: [{ ID: 1 }] };
+      }
+      return {};
+    });
+
+    const result = await new OracleDriver().query(CONFIG, 'SELECT id FROM orders;', { maxRows: 5, timeoutMs: 1000 });
+
+    assert.deepEqual(log.statements, ['SET TRANSACTION READ ONLY', 'SELECT id FROM orders', 'ROLLBACK']);
+    assert.deepEqual(executeOptions, { maxRows: 6, outFormat: 4002 });
+    assert.deepEqual(result, { columns: ['ID'], rows: [{ ID: 1 }], truncated: false });
+    assert.equal(log.options.connectString, 'db.example.com:5432/sales');
+    assert.equal(log.calls.close, 1);
+  });
+
+  it('reports the server version', async () => {
+    standInOracledb(() => ({}));
+    assert.deepEqual(await new OracleDriver().probe(CONFIG), { serverVersion: '23.4.0.0.0' });
+  });
+});
+
+describe('MongoDriver', () => {
+  function standInMongodb(documents: any[]) {
+    const log: { calls: any[] } = { calls: [] };
+    const cursor = { toArray: async () => documents };
+    standIns.set('mongodb', {
+      MongoClient: class {
+        constructor(public url: string) {}
+        async connect() {}
+        async close() {}
+        db(name: string) {
+          return {
+            collection: (collection: string) => ({
+              find: (filter: any, options: any) => { log.calls.push({ name, collection, find: filter, options }); return cursor; },
+              aggregate: (pipeline: any[], options: any) => { log.calls.push({ name, collection, aggregate: pipeline, options }); return cursor; }
+            })
+          };
+        }
+      }
+    });
+    return log;
+  }
+
+  it('runs a find with the row limit', async () => {
+    const log = standInMongodb([{ _id: 1, total: 5 }, { _id: 2, status: 'open' }]);
+
+    const result = await new MongoDriver().query(CONFIG, JSON.stringify({ collection: 'orders', filter: { total: { $gt: 1 } } }), { maxRows: 1, timeoutMs: 1000 });
+
+    assert.equal(log.calls[0].name, 'sales');
+    assert.deepEqual(log.calls[0].find, { total: { $gt: 1 } });
+    assert.equal(log.calls[0].options.limit, 2);
+    assert.deepEqual(result, { columns: ['_id', 'total'], rows: [{ _id: 1, total: 5 }], truncated: true });
+  });
+
+  it('appends a $limit stage to pipelines', async () => {
+    const log = standInMongodb([]);
+
+    await new MongoDriver().query(CONFIG, JSON.stringify({ collection: 'orders', pipeline: [{ $match: { status: 'open' } }] }), { maxRows: 10, timeoutMs: 1000 });
+
+    assert.deepEqual(log.calls[0].aggregate, [{ $match: { status: 'open' } }, { $limit: 11 }]);
+  });
+
+  it('rejects writing stages, server-side JavaScript and writable queries', async () => {
+    standInMongodb([]);
+    const driver = new MongoDriver();
+    const options = { maxRows: 10, timeoutMs: 1000 };
+
+    await assert.rejects(driver.query(CONFIG, JSON.stringify({ collection: 'orders', pipeline: [{ $out: 'copy' }] }), options), /\$out/);
+    await assert.rejects(driver.query(CONFIG, JSON.stringify({ collection: 'orders', filter: { $where: 'true' } }), options), /\$where/);
+    await assert.rejects(driver.query(CONFIG, '{"collection":"orders"}', { ...options, writable: true }), /read-only/);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QueryDialect, QueryGuardService, QueryRejectionCode } from '../queryGuardService';
+
+interface GuardCase {
+  name: string;
+  query: string;
+  rejected?: QueryRejectionCode;  // Expected rejection; otherwise the query is allowed
+  token?: string;                 // The token the rejection names
+  limited?: string;               // The query as it runs with a row limit of 100
+}
+
+const ROW_LIMIT = 100;
+
+const CASES: Record<QueryDialect, GuardCase[]> = {
+  tsql: [
+    { name: 'a second statement', query: 'SELECT * FROM Orders; DROP TABLE Orders', rejected: 'multiple_statements' },
+    { name: 'a statement behind a block comment', query: 'SELECT * FROM Orders/**/;DROP TABLE Orders', rejected: 'multiple_statements' },
+    { name: 'a statement in a string', query: "SELECT 'DROP TABLE x; --' AS note FROM Orders", limited: "SELECT TOP (100) 'DROP TABLE x; --' AS note FROM Orders" },
+    { name: 'a statement in a line comment', query: 'SELECT * FROM Orders -- ; DELETE FROM Orders', limited: 'SELECT TOP (100) * FROM Orders -- ; DELETE FROM Orders' },
+    { name: 'a statement in a block comment', query: 'SELECT * FROM Orders /* ; DROP TABLE x */ WHERE id = 1', limited: 'SELECT TOP (100) * FROM Orders /* ; DROP TABLE x */ WHERE id = 1' },
+    { name: 'a keyword as a quoted identifier', query: 'SELECT [drop] FROM [Orders]', limited: 'SELECT TOP (100) [drop] FROM [Orders]' },
+    { name: 'SELECT INTO', query: 'SELECT * INTO Backup FROM Orders', rejected: 'select_into', token: 'INTO' },
+    { name: 'the sys schema', query: 'SELECT name FROM sys.objects', rejected: 'system_object', token: 'sys.objects' },
+    { name: 'a system database', query: 'SELECT * FROM master..sysdatabases', rejected: 'system_object' },
+    { name: 'a compatibility view', query: 'SELECT * FROM sysobjects', rejected: 'system_object', token: 'sysobjects' },
+    { name: 'OPENROWSET', query: "SELECT * FROM OPENROWSET('SQLNCLI', 'x', 'SELECT 1')", rejected: 'keyword_not_allowed', token: 'OPENROWSET' },
+    { name: 'xp_cmdshell', query: "SELECT xp_cmdshell('dir')", rejected: 'function_not_allowed', token: 'xp_cmdshell' },
+    { name: 'a write', query: 'UPDATE Orders SET total = 1', rejected: 'statement_not_allowed', token: 'UPDATE' },
+    { name: 'no row limit', query: 'SELECT * FROM Orders', limited: 'SELECT TOP (100) * FROM Orders' },
+    { name: 'a larger TOP', query: 'SELECT TOP 5000 * FROM Orders', limited: 'SELECT TOP 100 * FROM Orders' },
+    { name: 'a smaller TOP', query: 'SELECT TOP 10 * FROM Orders', limited: 'SELECT TOP 10 * FROM Orders' },
+    {
+      name: 'a larger FETCH',
+      query: 'SELECT * FROM Orders ORDER BY id OFFSET 0 ROWS FETCH NEXT 5000 ROWS ONLY',
+      limited: 'SELECT * FROM Orders ORDER BY id OFFSET 0 ROWS FETCH NEXT 100 ROWS ONLY'
+    },
+    { name: 'a CTE', query: 'WITH recent AS (SELECT * FROM Orders) SELECT * FROM recent', limited: 'WITH recent AS (SELECT * FROM Orders) SELECT TOP (100) * FROM recent' },
+    { name: 'a trailing line comment', query: 'SELECT * FROM Orders -- newest first', limited: 'SELECT TOP (100) * FROM Orders -- newest first' }
+  ],
+  postgresql: [
+    { name: 'a second statement', query: 'SELECT * FROM orders; SELECT 1', rejected: 'multiple_statements' },
+    { name: 'a statement in a dollar-quoted string', query: 'SELECT $$; DROP TABLE x$$ FROM orders', limited: 'SELECT $$; DROP TABLE x$$ FROM orders LIMIT 100' },
+    {
+      name: 'a statement in a nested block comment',
+      query: 'SELECT * FROM orders /* outer /* nested */ ; DROP TABLE x */',
+      limited: 'SELECT * FROM orders LIMIT 100 /* outer /* nested */ ; DROP TABLE x */'
+    },
+    { name: 'SELECT INTO', query: 'SELECT * INTO backup FROM orders', rejected: 'select_into', token: 'INTO' },
+    { name: 'pg_catalog', query: 'SELECT * FROM pg_catalog.pg_user', rejected: 'system_object', token: 'pg_catalog.pg_user' },
+    { name: 'information_schema', query: 'SELECT * FROM information_schema.tables', rejected: 'system_object' },
+    { name: 'FOR UPDATE', query: 'SELECT * FROM orders FOR UPDATE', rejected: 'keyword_not_allowed', token: 'UPDATE' },
+    { name: 'pg_sleep', query: 'SELECT pg_sleep(10)', rejected: 'function_not_allowed', token: 'pg_sleep' },
+    { name: 'no row limit', query: 'SELECT * FROM orders', limited: 'SELECT * FROM orders LIMIT 100' },
+    { name: 'a larger LIMIT', query: 'SELECT * FROM orders LIMIT 5000', limited: 'SELECT * FROM orders LIMIT 100' },
+    { name: 'a smaller LIMIT', query: 'SELECT * FROM orders LIMIT 10', limited: 'SELECT * FROM orders LIMIT 10' },
+    { name: 'a trailing line comment', query: 'SELECT * FROM orders -- trailing', limited: 'SELECT * FROM orders LIMIT 100 -- trailing' }
+  ],
+  mysql: [
+    { name: 'a second statement', query: 'SELECT * FROM orders; SELECT 1', rejected: 'multiple_statements' },
+    { name: 'a statement in a string with an escaped quote', query: "SELECT 'it\\'s; DROP TABLE x' FROM orders", limited: "SELECT 'it\\'s; DROP TABLE x' FROM orders LIMIT 100" },
+    { name: 'a statement in a hash comment', query: 'SELECT * FROM orders # ; DROP TABLE x', limited: 'SELECT * FROM orders LIMIT 100 # ; DROP TABLE x' },
+    { name: 'a keyword as a quoted identifier', query: 'SELECT `drop` FROM `orders`', limited: 'SELECT `drop` FROM `orders` LIMIT 100' },
+    { name: 'SLEEP in an executable comment', query: 'SELECT a, b FROM orders WHERE 1=1 /*! AND SLEEP(10) */ LIMIT 5', rejected: 'executable_comment', token: '/*!' },
+    {
+      name: 'UNION in a versioned executable comment',
+      query: 'SELECT a, b FROM orders WHERE id = 1 /*!UNION SELECT user, authentication_string FROM mysql.user*/ LIMIT 5',
+      rejected: 'executable_comment',
+      token: '/*!'
+    },
+    { name: 'INTO OUTFILE in an executable comment', query: "SELECT * FROM orders /*! INTO OUTFILE '/tmp/x' */", rejected: 'executable_comment', token: '/*!' },
+    { name: 'a MariaDB executable comment', query: 'SELECT * FROM orders /*M!100000 WHERE SLEEP(10) */', rejected: 'executable_comment', token: '/*M!' },
+    { name: 'an ordinary block comment', query: 'SELECT * FROM orders /* ! not executable */', limited: 'SELECT * FROM orders LIMIT 100 /* ! not executable */' },
+    { name: 'INTO OUTFILE', query: "SELECT * FROM orders INTO OUTFILE '/tmp/x'", rejected: 'select_into', token: 'INTO' },
+    { name: 'the mysql schema', query: 'SELECT * FROM mysql.user', rejected: 'system_object', token: 'mysql.user' },
+    { name: 'FOR UPDATE', query: 'SELECT * FROM orders FOR UPDATE', rejected: 'keyword_not_allowed', token: 'UPDATE' },
+    { name: 'LOCK IN SHARE MODE', query: 'SELECT * FROM orders LOCK IN SHARE MODE', rejected: 'keyword_not_allowed', token: 'LOCK' },
+    { name: 'SLEEP', query: 'SELECT SLEEP(5)', rejected: 'function_not_allowed', token: 'SLEEP' },
+    { name: 'BENCHMARK', query: 'SELECT BENCHMARK(1000000, MD5(1))', rejected: 'function_not_allowed', token: 'BENCHMARK' },
+    { name: 'no row limit', query: 'SELECT * FROM orders', limited: 'SELECT * FROM orders LIMIT 100' },
+    { name: 'a larger LIMIT', query: 'SELECT * FROM orders LIMIT 5000', limited: 'SELECT * FROM orders LIMIT 100' },
+    { name: 'a larger LIMIT with an offset', query: 'SELECT * FROM orders LIMIT 10, 5000', limited: 'SELECT * FROM orders LIMIT 10, 100' },
+    { name: 'a trailing line comment', query: 'SELECT * FROM orders -- trailing', limited: 'SELECT * FROM orders LIMIT 100 -- trailing' }
+  ],
+  oracle: [
+    { name: 'a second statement', query: 'SELECT * FROM orders; SELECT * FROM dual', rejected: 'multiple_statements' },
+    { name: 'a statement in a q-quoted string', query: "SELECT q'[; DROP TABLE x]' FROM orders", limited: "SELECT * FROM (SELECT q'[; DROP TABLE x]' FROM orders) WHERE ROWNUM <= 100" },
+    { name: 'a DBA_ view', query: 'SELECT * FROM dba_users', rejected: 'system_object', token: 'dba_users' },
+    { name: 'a V$ view', query: 'SELECT * FROM v$session', rejected: 'system_object', token: 'v$session' },
+    { name: 'the sys schema', query: 'SELECT * FROM sys.user$', rejected: 'system_object', token: 'sys.user$' },
+    { name: 'FOR UPDATE', query: 'SELECT * FROM orders FOR UPDATE', rejected: 'keyword_not_allowed', token: 'UPDATE' },
+    { name: 'no row limit', query: 'SELECT * FROM orders', limited: 'SELECT * FROM (SELECT * FROM orders) WHERE ROWNUM <= 100' },
+    { name: 'a larger FETCH FIRST', query: 'SELECT * FROM orders FETCH FIRST 5000 ROWS ONLY', limited: 'SELECT * FROM orders FETCH FIRST 100 ROWS ONLY' },
+    { name: 'a smaller FETCH FIRST', query: 'SELECT * FROM orders FETCH FIRST 10 ROWS ONLY', limited: 'SELECT * FROM orders FETCH FIRST 10 ROWS ONLY' },
+    { name: 'a trailing line comment', query: 'SELECT * FROM orders -- trailing', limited: 'SELECT * FROM (SELECT * FROM orders) WHERE ROWNUM <= 100 -- trailing' }
+  ],
+  dax: [
+    { name: 'a second EVALUATE', query: "EVALUATE 'Sales' EVALUATE 'Orders'", rejected: 'multiple_statements' },
+    { name: 'a keyword in a string', query: "EVALUATE FILTER('Sales', [Name] = \"DROP\")", limited: "EVALUATE TOPN(100, FILTER('Sales', [Name] = \"DROP\"))" },
+    { name: 'a DEFINE block', query: "DEFINE MEASURE Sales[x] = 1 EVALUATE 'Sales'", limited: "DEFINE MEASURE Sales[x] = 1 EVALUATE TOPN(100, 'Sales')" },
+    { name: 'no row limit', query: "EVALUATE 'Sales'", limited: "EVALUATE TOPN(100, 'Sales')" },
+    { name: 'a larger TOPN', query: "EVALUATE TOPN(5000, 'Sales')", limited: "EVALUATE TOPN(100, TOPN(5000, 'Sales'))" },
+    { name: 'a trailing comment', query: "EVALUATE 'Sales' // comment", limited: "EVALUATE TOPN(100, 'Sales') // comment" }
+  ]
+};
+
+describe('QueryGuardService', () => {
+  const guard = QueryGuardService.getInstance();
+
+  for (const [dialect, cases] of Object.entries(CASES) as [QueryDialect, GuardCase[]][]) {
+    describe(dialect, () => {
+      for (const guardCase of cases) {
+        it(`${guardCase.rejected ? 'rejects' : 'allows'} ${guardCase.name}`, () => {
+          const inspection = guard.inspect(guardCase.query, dialect, { rowLimit: ROW_LIMIT });
+
+          if (guardCase.rejected) {
+            assert.equal(inspection.allowed, false);
+            assert.equal(inspection.rejection?.code, guardCase.rejected);
+            if (guardCase.token) {
+              assert.equal(inspection.rejection?.token, guardCase.token);
+            }
+            assert.equal(inspection.query, guardCase.query);
+          } else {
+            assert.equal(inspection.allowed, true, inspection.rejection?.message);
+            assert.equal(inspection.query, guardCase.limited);
+          }
+        });
+      }
+    });
+  }
+
+  it('accepts writes in write mode without limiting them', () => {
+    const inspection = guard.inspect('UPDATE Orders SET total = 1', 'tsql', { rowLimit: ROW_LIMIT, allowWrites: true });
+    assert.equal(inspection.allowed, true);
+    assert.equal(inspection.statementType, 'update');
+    assert.equal(inspection.query, 'UPDATE Orders SET total = 1');
+  });
+});
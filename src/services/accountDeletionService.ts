@@ -0,0 +1,371 @@
+import sql from 'mssql';
+import { DatabaseManager } from '../config/database';
+import { blobServiceClient } from './azure';
+import { AuditService } from './auditService';
+import { ConfigurationManager } from './configurationManager';
+import { MailService } from './mailService';
+import { SessionService } from './sessionService';
+import { WorkspaceStorageService } from './workspaceStorage';
+import { getSearchProvider } from './searchProvider';
+import { logger } from '../utils/logger';
+
+export type AccountDeletionMode = 'soft' | 'hard';
+
+export interface AccountDeletionStatus {
+  requestedAt: Date | null;
+  scheduledFor: Date | null;
+}
+
+export interface AccountDeletionResult {
+  userId: string;
+  mode: AccountDeletionMode;
+  filesDeleted: number;
+  workspacesTransferred: number;
+  workspacesDeleted: number;
+}
+
+/**
+ * Account deletion with a grace period. A request schedules the deletion; until it is due the
+ * user can sign in and cancel it. Due deletions are carried out by a background sweep:
+ *
+ * - soft (default): the user row stays for referential history but is anonymised and
+ *   deactivated, and chat titles, message content and feedback text are wiped
+ * - hard: the user's rows are removed
+ *
+ * In both modes uploaded files and their blobs, sessions, tokens, reactions, memberships and
+ * data connections are removed. Owned workspaces pass to another member (admins first);
+ * workspaces nobody else belongs to are deleted with their files and search index. Files the
+ * user uploaded to workspaces that remain belong to the workspace and pass to its owner.
+ */
+export class AccountDeletionService {
+  private static instance: AccountDeletionService;
+  private dbManager: DatabaseManager;
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+  private static readonly SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): AccountDeletionService {
+    if (!AccountDeletionService.instance) {
+      AccountDeletionService.instance = new AccountDeletionService();
+    }
+    return AccountDeletionService.instance;
+  }
+
+  /**
+   * Schedules the user's account for deletion after the grace period. Requesting again keeps
+   * the original schedule.
+   */
+  public async requestDeletion(user: { id: string; email: string; firstName?: string }): Promise<AccountDeletionStatus> {
+    const scheduledFor = new Date(Date.now() + this.getGraceDays() * 24 * 60 * 60 * 1000);
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, user.id)
+      .input('scheduledFor', sql.DateTime2, scheduledFor)
+      .query(`
+        UPDATE Users
+        SET deletionRequestedAt = COALESCE(deletionRequestedAt, GETUTCDATE()),
+            deletionScheduledFor = COALESCE(deletionScheduledFor, @scheduledFor),
+            updatedAt = GETUTCDATE()
+        OUTPUT INSERTED.deletionRequestedAt AS requestedAt, INSERTED.deletionScheduledFor AS scheduledFor,
+               DELETED.deletionScheduledFor AS previouslyScheduledFor
+        WHERE id = @id AND deletedAt IS NULL
+      `);
+    const row = result.recordset[0];
+    if (!row) {
+      throw new Error(`User ${user.id} not found`);
+    }
+
+    if (!row.previouslyScheduledFor) {
+      const date = new Date(row.scheduledFor).toUTCString();
+      await MailService.getInstance().send({
+        to: user.email,
+        subject: 'Your AIVA account is scheduled for deletion',
+        text: `Hi ${user.firstName || 'there'},\n\nYour AIVA account and its data will be deleted on ${date}.\n\nIf you didn't ask for this or changed your mind, sign in before then and cancel the deletion from your account settings.`,
+        html: `<p>Hi ${this.escapeHtml(user.firstName || 'there')},</p><p>Your AIVA account and its data will be deleted on ${date}.</p><p>If you didn't ask for this or changed your mind, sign in before then and cancel the deletion from your account settings.</p>`
+      });
+      logger.info(`Deletion of user ${user.id} scheduled for ${new Date(row.scheduledFor).toISOString()}`);
+    }
+
+    return { requestedAt: row.requestedAt, scheduledFor: row.scheduledFor };
+  }
+
+  /**
+   * @returns Whether a pending deletion was cancelled
+   */
+  public async cancelDeletion(userId: string): Promise<boolean> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, userId)
+      .query(`
+        UPDATE Users
+        SET deletionRequestedAt = NULL, deletionScheduledFor = NULL, updatedAt = GETUTCDATE()
+        WHERE id = @id AND deletionScheduledFor IS NOT NULL AND deletedAt IS NULL
+      `);
+    const cancelled = result.rowsAffected[0] > 0;
+    if (cancelled) {
+      logger.info(`Deletion of user ${userId} cancelled`);
+    }
+    return cancelled;
+  }
+
+  public async getStatus(userId: string): Promise<AccountDeletionStatus> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, userId)
+      .query('SELECT deletionRequestedAt, deletionScheduledFor FROM Users WHERE id = @id');
+    const row = result.recordset[0];
+    return {
+      requestedAt: row?.deletionRequestedAt || null,
+      scheduledFor: row?.deletionScheduledFor || null
+    };
+  }
+
+  /**
+   * Starts the hourly sweep for due deletions in this process
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.processDueDeletions().catch(error => logger.error('Account deletion sweep failed:', error));
+    }, AccountDeletionService.SWEEP_INTERVAL_MS);
+    logger.info('Account deletion sweep started');
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Deletes every account whose grace period has ended. Failed deletions are retried on the
+   * next sweep; each step is safe to repeat.
+   */
+  public async processDueDeletions(): Promise<number> {
+    if (this.sweeping) {
+      return 0;
+    }
+    this.sweeping = true;
+    try {
+      const pool = await this.dbManager.getPool();
+      const due = await pool.request().query(`
+        SELECT id FROM Users
+        WHERE deletionScheduledFor IS NOT NULL AND deletionScheduledFor <= GETUTCDATE() AND deletedAt IS NULL
+      `);
+
+      let deleted = 0;
+      for (const { id } of due.recordset) {
+        try {
+          await this.deleteAccount(id);
+          deleted++;
+        } catch (error) {
+          logger.error(`Failed to delete account ${id}:`, error);
+        }
+      }
+      return deleted;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Deletes or anonymises an account right away, in the configured mode
+   */
+  public async deleteAccount(userId: string, mode: AccountDeletionMode = this.getMode()): Promise<AccountDeletionResult> {
+    const pool = await this.dbManager.getPool();
+
+    // Sign the user out first; this also drops the cached session state
+    await SessionService.getInstance().revokeOtherSessions(userId);
+
+    const filesDeleted = await this.deleteUploadedFiles(userId);
+    const { transferred, deleted } = await this.handOverOwnedWorkspaces(userId);
+
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+    try {
+      const run = (query: string) => new sql.Request(transaction).input('userId', sql.NVarChar, userId).query(query);
+
+      // Files the user added to remaining workspaces belong to those workspaces
+      await run(`
+        UPDATE wf SET userId = w.ownerId
+        FROM WorkspaceFiles wf INNER JOIN Workspaces w ON w.id = wf.workspaceId
+        WHERE wf.userId = @userId
+      `);
+
+      await run('DELETE FROM MessageActions WHERE userId = @userId');
+      await run('DELETE FROM Sessions WHERE userId = @userId');
+      await run('DELETE FROM UserTokens WHERE userId = @userId');
+      await run('DELETE FROM UserRecoveryCodes WHERE userId = @userId');
+      await run('DELETE FROM DatabaseConnections WHERE userId = @userId');
+      await run('DELETE FROM SavedQueries WHERE userId = @userId');
+      await run('DELETE FROM WorkspaceUsers WHERE userId = @userId');
+      await run('UPDATE WorkspaceUsers SET assignedBy = NULL WHERE assignedBy = @userId');
+      await run('UPDATE IndexingJobs SET createdBy = NULL WHERE createdBy = @userId');
+      await run(`
+        UPDATE WorkspaceInvitations
+        SET email = NULL, status = CASE WHEN status = 'pending' THEN 'revoked' ELSE status END,
+            revokedAt = CASE WHEN status = 'pending' THEN GETUTCDATE() ELSE revokedAt END
+        WHERE type = 'email' AND email = (SELECT LOWER(email) FROM Users WHERE id = @userId)
+      `);
+      await run('UPDATE WorkspaceInvitations SET respondedBy = NULL WHERE respondedBy = @userId');
+
+      if (mode === 'hard') {
+        await run('DELETE FROM WorkspaceInvitations WHERE createdBy = @userId');
+        await run(`
+          DELETE FROM MessageActions
+          WHERE messageId IN (
+            SELECT m.id FROM Messages m INNER JOIN Chats c ON c.id = m.chatId
+            WHERE c.userId = @userId OR m.userId = @userId
+          )
+        `);
+        await run('DELETE FROM Messages WHERE userId = @userId OR chatId IN (SELECT id FROM Chats WHERE userId = @userId)');
+        await run('DELETE FROM Chats WHERE userId = @userId');
+        await run('DELETE FROM Feedback WHERE userId = @userId');
+        await run('UPDATE Feedback SET adminId = NULL WHERE adminId = @userId');
+        await run('UPDATE AuditLogs SET userId = NULL WHERE userId = @userId');
+        await run('DELETE FROM Users WHERE id = @userId');
+      } else {
+        await run(`
+          UPDATE WorkspaceInvitations
+          SET status = 'revoked', revokedAt = GETUTCDATE()
+          WHERE createdBy = @userId AND status = 'pending'
+        `);
+        await run(`
+          UPDATE Messages SET content = '[deleted]', metadata = NULL
+          WHERE userId = @userId OR chatId IN (SELECT id FROM Chats WHERE userId = @userId)
+        `);
+        await run(`
+          UPDATE Chats
+          SET title = 'Deleted chat', description = NULL, summary = NULL, summaryThroughMessageId = NULL,
+              isArchived = 1, updatedAt = GETUTCDATE()
+          WHERE userId = @userId
+        `);
+        await run(`UPDATE Feedback SET subject = '[deleted]', message = '[deleted]' WHERE userId = @userId`);
+        await run(`
+          UPDATE Users
+          SET firstName = 'Deleted', lastName = 'User', email = CONCAT('deleted-', id, '@deleted.invalid'),
+              password = NULL, providerId = NULL, avatar = NULL, preferences = NULL, role = 'user',
+              isActive = 0, emailVerified = 0, emailVerifiedAt = NULL, lastLoginAt = NULL,
+              failedLoginAttempts = 0, lastFailedLoginAt = NULL, lockedUntil = NULL,
+              twoFactorEnabled = 0, twoFactorSecret = NULL, twoFactorPendingSecret = NULL,
+              twoFactorEnabledAt = NULL, twoFactorLastUsedStep = NULL,
+              deletionScheduledFor = NULL, deletedAt = GETUTCDATE(), updatedAt = GETUTCDATE()
+          WHERE id = @userId
+        `);
+      }
+
+      await AuditService.getInstance().record({ userId: mode === 'hard' ? null : userId }, {
+        action: 'account_deleted',
+        resource: 'user',
+        resourceId: userId,
+        details: { mode, filesDeleted, workspacesTransferred: transferred, workspacesDeleted: deleted }
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info(`Account ${userId} deleted (${mode}): ${filesDeleted} files, ${transferred} workspaces transferred, ${deleted} deleted`);
+    return { userId, mode, filesDeleted, workspacesTransferred: transferred, workspacesDeleted: deleted };
+  }
+
+  // Chat uploads: blobs first, so a failure leaves the rows to retry with
+  private async deleteUploadedFiles(userId: string): Promise<number> {
+    const pool = await this.dbManager.getPool();
+    const files = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .query('SELECT id, fileName FROM Files WHERE userId = @userId');
+
+    const isMockStorage = !process.env.AZURE_STORAGE_ACCOUNT_NAME || process.env.MOCK_STORAGE === 'true';
+    if (!isMockStorage && blobServiceClient) {
+      const containerClient = blobServiceClient.getContainerClient(process.env.AZURE_STORAGE_CONTAINER_NAME || 'aiva-files');
+      for (const file of files.recordset) {
+        await containerClient.getBlobClient(file.fileName).deleteIfExists();
+      }
+    }
+
+    await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .query('DELETE FROM Files WHERE userId = @userId');
+    return files.recordset.length;
+  }
+
+  private async handOverOwnedWorkspaces(userId: string): Promise<{ transferred: number; deleted: number }> {
+    const pool = await this.dbManager.getPool();
+    const owned = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .query(`
+        SELECT w.id, w.name, successor.userId AS successorId
+        FROM Workspaces w
+        OUTER APPLY (
+          SELECT TOP 1 wu.userId
+          FROM WorkspaceUsers wu
+          INNER JOIN Users u ON u.id = wu.userId
+          WHERE wu.workspaceId = w.id AND wu.userId <> @userId AND u.isActive = 1 AND u.deletionScheduledFor IS NULL
+          ORDER BY CASE wu.accessLevel WHEN 'admin' THEN 0 WHEN 'member' THEN 1 ELSE 2 END, wu.assignedAt
+        ) successor
+        WHERE w.ownerId = @userId
+      `);
+
+    let transferred = 0;
+    let deleted = 0;
+    for (const workspace of owned.recordset) {
+      if (workspace.successorId) {
+        await pool.request()
+          .input('id', sql.NVarChar, workspace.id)
+          .input('ownerId', sql.NVarChar, workspace.successorId)
+          .query('UPDATE Workspaces SET ownerId = @ownerId, updatedAt = GETUTCDATE() WHERE id = @id');
+        logger.info(`Workspace ${workspace.id} transferred from user ${userId} to ${workspace.successorId}`);
+        transferred++;
+      } else {
+        await this.deleteWorkspace(workspace.id, workspace.name);
+        deleted++;
+      }
+    }
+    return { transferred, deleted };
+  }
+
+  private async deleteWorkspace(workspaceId: string, workspaceName: string): Promise<void> {
+    const storage = WorkspaceStorageService.getInstance();
+    const indexName = `${storage.getWorkspaceFolderName(workspaceId, workspaceName)}index`;
+    await storage.deleteWorkspaceFolder(workspaceId, workspaceName);
+    try {
+      await getSearchProvider().deleteWorkspaceIndex(indexName);
+    } catch (error) {
+      logger.warn(`Failed to delete search index ${indexName}:`, error);
+    }
+
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('workspaceId', sql.NVarChar, workspaceId)
+      .query(`
+        UPDATE Chats SET isArchived = 1, workspaceId = NULL WHERE workspaceId = @workspaceId;
+        DELETE FROM WorkspaceFiles WHERE workspaceId = @workspaceId;
+        DELETE FROM WorkspaceUsers WHERE workspaceId = @workspaceId;
+        DELETE FROM Workspaces WHERE id = @workspaceId;
+      `);
+    logger.info(`Workspace ${workspaceId} deleted with its owner's account`);
+  }
+
+  private getGraceDays(): number {
+    const days = parseInt(ConfigurationManager.getInstance().getValue('security', 'ACCOUNT_DELETION_GRACE_DAYS') || '', 10);
+    return days >= 0 ? days : 14;
+  }
+
+  private getMode(): AccountDeletionMode {
+    return ConfigurationManager.getInstance().getValue('security', 'ACCOUNT_DELETION_MODE') === 'hard' ? 'hard' : 'soft';
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+  }
+}
@@ -0,0 +1,202 @@
+import JSZip from 'jszip';
+import sql from 'mssql';
+import { DatabaseManager } from '../config/database';
+import { blobServiceClient } from './azure';
+import { WorkspaceStorageService } from './workspaceStorage';
+import { logger } from '../utils/logger';
+
+interface ExportedFile {
+  id: string;
+  originalName: string;
+  path: string | null;          // Location in the archive, null if the content wasn't included
+  reason?: string;
+}
+
+/**
+ * Builds a zip archive of everything stored about a user: JSON files with their account,
+ * chats and messages, reactions, feedback, workspaces, sessions and audit entries, plus the
+ * original files they uploaded. Secrets (password and two-factor hashes, connection
+ * passwords, token hashes) are left out.
+ */
+export class AccountExportService {
+  private static instance: AccountExportService;
+  private dbManager: DatabaseManager;
+  // Uploaded files beyond this total are listed in the manifest but not included
+  private static readonly MAX_FILE_BYTES = 250 * 1024 * 1024;
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): AccountExportService {
+    if (!AccountExportService.instance) {
+      AccountExportService.instance = new AccountExportService();
+    }
+    return AccountExportService.instance;
+  }
+
+  public async buildArchive(userId: string): Promise<NodeJS.ReadableStream> {
+    const pool = await this.dbManager.getPool();
+    const byUser = () => pool.request().input('userId', sql.NVarChar, userId);
+
+    const [account, chats, messages, reactions, feedback, workspaces, files, workspaceFiles, sessions, auditLog, invitations, connections, savedQueries] = await Promise.all([
+      byUser().query(`
+        SELECT id, firstName, lastName, email, provider, providerId, avatar, preferences, role, isActive,
+               emailVerified, emailVerifiedAt, twoFactorEnabled, twoFactorEnabledAt, lastLoginAt,
+               passwordChangedAt, deletionRequestedAt, deletionScheduledFor, createdAt, updatedAt
+        FROM Users WHERE id = @userId
+      `),
+      byUser().query(`
+        SELECT c.id, c.title, c.description, c.workspaceId, w.name AS workspaceName, c.isArchived, c.summary,
+               c.lastMessageAt, c.createdAt, c.updatedAt
+        FROM Chats c LEFT JOIN Workspaces w ON w.id = c.workspaceId
+        WHERE c.userId = @userId
+        ORDER BY c.createdAt
+      `),
+      byUser().query(`
+        SELECT m.id, m.chatId, m.role, m.content, m.metadata, m.tokens, m.parentMessageId, m.isActive,
+               m.isEdited, m.editedAt, m.createdAt
+        FROM Messages m INNER JOIN Chats c ON c.id = m.chatId
+        WHERE c.userId = @userId
+        ORDER BY m.createdAt
+      `),
+      byUser().query('SELECT messageId, actionType, createdAt FROM MessageActions WHERE userId = @userId ORDER BY createdAt'),
+      byUser().query(`
+        SELECT id, subject, message, category, priority, status, adminResponse, respondedAt, createdAt, updatedAt
+        FROM Feedback WHERE userId = @userId ORDER BY createdAt
+      `),
+      byUser().query(`
+        SELECT w.id, w.name, w.description, CASE WHEN w.ownerId = @userId THEN 'owner' ELSE wu.accessLevel END AS accessLevel,
+               wu.assignedAt, w.createdAt
+        FROM Workspaces w LEFT JOIN WorkspaceUsers wu ON wu.workspaceId = w.id AND wu.userId = @userId
+        WHERE w.ownerId = @userId OR wu.id IS NOT NULL
+      `),
+      byUser().query(`
+        SELECT id, originalName, fileName, mimeType, size, chatId, messageId, createdAt
+        FROM Files WHERE userId = @userId ORDER BY createdAt
+      `),
+      byUser().query(`
+        SELECT wf.id, wf.originalName, wf.fileName, wf.mimeType, wf.size, wf.workspaceId, w.name AS workspaceName, wf.createdAt
+        FROM WorkspaceFiles wf INNER JOIN Workspaces w ON w.id = wf.workspaceId
+        WHERE wf.userId = @userId ORDER BY wf.createdAt
+      `),
+      byUser().query(`
+        SELECT id, userAgent, ipAddress, isActive, createdAt, lastUsedAt, expiresAt, revokedAt
+        FROM Sessions WHERE userId = @userId ORDER BY createdAt
+      `),
+      byUser().query(`
+        SELECT action, resource, resourceId, details, ipAddress, userAgent, createdAt
+        FROM AuditLogs WHERE userId = @userId ORDER BY createdAt
+      `),
+      byUser().query(`
+        SELECT i.workspaceId, w.name AS workspaceName, i.accessLevel, i.status, i.createdAt, i.respondedAt
+        FROM WorkspaceInvitations i INNER JOIN Workspaces w ON w.id = i.workspaceId
+        WHERE (i.type = 'email' AND i.email = (SELECT LOWER(email) FROM Users WHERE id = @userId)) OR i.respondedBy = @userId
+      `),
+      byUser().query(`
+        SELECT id, name, type, host, port, [database], username, status, isDefault, lastConnected, createdAt, updatedAt
+        FROM DatabaseConnections WHERE userId = @userId
+      `),
+      byUser().query(`
+        SELECT id, name, description, kind, question, query, queryType, datasetId, connectionId, workspaceId, visualization,
+               keyColumns, schedule, timeZone, isActive, deliverTo, notifyOn, webhookUrl, lastRunAt, lastRunStatus, createdAt, updatedAt
+        FROM SavedQueries WHERE userId = @userId
+      `)
+    ]);
+
+    const zip = new JSZip();
+    const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+    const messagesByChat = new Map<string, any[]>();
+    for (const message of messages.recordset) {
+      const list = messagesByChat.get(message.chatId) || [];
+      list.push({ ...message, chatId: undefined, metadata: this.parseJson(message.metadata) });
+      messagesByChat.set(message.chatId, list);
+    }
+
+    zip.file('account.json', json({ ...account.recordset[0], preferences: this.parseJson(account.recordset[0]?.preferences) }));
+    zip.file('chats.json', json(chats.recordset.map((chat: any) => ({ ...chat, messages: messagesByChat.get(chat.id) || [] }))));
+    zip.file('reactions.json', json(reactions.recordset));
+    zip.file('feedback.json', json(feedback.recordset));
+    zip.file('workspaces.json', json(workspaces.recordset));
+    zip.file('sessions.json', json(sessions.recordset));
+    zip.file('audit-log.json', json(auditLog.recordset.map((entry: any) => ({ ...entry, details: this.parseJson(entry.details) }))));
+    zip.file('invitations.json', json(invitations.recordset));
+    zip.file('data-connections.json', json(connections.recordset));
+    zip.file('saved-queries.json', json(savedQueries.recordset.map((savedQuery: any) => ({
+      ...savedQuery,
+      visualization: this.parseJson(savedQuery.visualization),
+      keyColumns: this.parseJson(savedQuery.keyColumns)
+    }))));
+
+    const budget = { remaining: AccountExportService.MAX_FILE_BYTES };
+    const exportedFiles: ExportedFile[] = [];
+    for (const file of files.recordset) {
+      exportedFiles.push(await this.addBlob(zip, `files/${file.id}-${this.safeName(file.originalName)}`, file, file.fileName, budget));
+    }
+    const storage = WorkspaceStorageService.getInstance();
+    for (const file of workspaceFiles.recordset) {
+      const blobPath = storage.getBlobPath(file.workspaceId, file.workspaceName, file.fileName);
+      exportedFiles.push(await this.addBlob(zip, `workspace-files/${file.id}-${this.safeName(file.originalName)}`, file, blobPath, budget));
+    }
+
+    zip.file('files.json', json(files.recordset.map((file: any) => ({ ...file, fileName: undefined }))));
+    zip.file('workspace-files.json', json(workspaceFiles.recordset.map((file: any) => ({ ...file, fileName: undefined }))));
+    zip.file('manifest.json', json({
+      exportedAt: new Date().toISOString(),
+      userId,
+      counts: {
+        chats: chats.recordset.length,
+        messages: messages.recordset.length,
+        files: files.recordset.length,
+        workspaceFiles: workspaceFiles.recordset.length
+      },
+      files: exportedFiles
+    }));
+
+    logger.info(`Built data export for user ${userId} with ${exportedFiles.filter(file => file.path).length} files`);
+    return zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'DEFLATE' });
+  }
+
+  private async addBlob(
+    zip: JSZip,
+    path: string,
+    file: { id: string; originalName: string; size: number },
+    blobName: string,
+    budget: { remaining: number }
+  ): Promise<ExportedFile> {
+    const isMockStorage = !process.env.AZURE_STORAGE_ACCOUNT_NAME || process.env.MOCK_STORAGE === 'true';
+    if (isMockStorage || !blobServiceClient) {
+      return { id: file.id, originalName: file.originalName, path: null, reason: 'storage not configured' };
+    }
+    if (Number(file.size) > budget.remaining) {
+      return { id: file.id, originalName: file.originalName, path: null, reason: 'export size limit reached' };
+    }
+
+    try {
+      const containerClient = blobServiceClient.getContainerClient(process.env.AZURE_STORAGE_CONTAINER_NAME || 'aiva-files');
+      const content = await containerClient.getBlobClient(blobName).downloadToBuffer();
+      budget.remaining -= content.length;
+      zip.file(path, content);
+      return { id: file.id, originalName: file.originalName, path };
+    } catch (error) {
+      logger.warn(`Could not add ${blobName} to data export:`, error);
+      return { id: file.id, originalName: file.originalName, path: null, reason: 'not found in storage' };
+    }
+  }
+
+  private safeName(name: string): string {
+    return (name || 'file').replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').substring(0, 150);
+  }
+
+  private parseJson(value: string | null | undefined): unknown {
+    if (!value) {
+      return null;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+}
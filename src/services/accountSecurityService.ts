@@ -0,0 +1,325 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import sql from 'mssql';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../config/database';
+import { ConfigurationManager } from './configurationManager';
+import { MailService } from './mailService';
+import { SessionService } from './sessionService';
+import { logger } from '../utils/logger';
+
+export type AccountTokenPurpose = 'verify_email' | 'reset_password';
+
+export interface AccountUser {
+  id: string;
+  email: string;
+  firstName?: string;
+}
+
+export interface FailedLoginResult {
+  lockedUntil: Date | null;
+  remainingAttempts: number;
+}
+
+/**
+ * Email verification, password reset and login lockout. Verification and reset links carry
+ * signed tokens that are recorded in UserTokens, so each can be used once and expires.
+ * Repeated password failures lock the account for a while.
+ */
+export class AccountSecurityService {
+  private static instance: AccountSecurityService;
+  private dbManager: DatabaseManager;
+  private static readonly TOKEN_LIFETIME_MINUTES: Record<AccountTokenPurpose, number> = {
+    verify_email: 24 * 60,
+    reset_password: 60
+  };
+  // At most one email of each kind per user in this interval
+  private static readonly RESEND_INTERVAL_SECONDS = 60;
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): AccountSecurityService {
+    if (!AccountSecurityService.instance) {
+      AccountSecurityService.instance = new AccountSecurityService();
+    }
+    return AccountSecurityService.instance;
+  }
+
+  public isEmailVerificationRequired(): boolean {
+    return ConfigurationManager.getInstance().getValue('security', 'REQUIRE_EMAIL_VERIFICATION') !== 'false';
+  }
+
+  /**
+   * Emails a link to verify the address. Skipped if one was sent very recently.
+   */
+  public async sendVerificationEmail(user: AccountUser): Promise<boolean> {
+    const token = await this.issueToken(user.id, 'verify_email');
+    if (!token) {
+      return false;
+    }
+
+    const link = `${this.getAppBaseUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+    await MailService.getInstance().send({
+      to: user.email,
+      subject: 'Verify your AIVA email address',
+      text: `Hi ${user.firstName || 'there'},\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in 24 hours. If you didn't create an AIVA account, you can ignore this email.`,
+      html: `<p>Hi ${this.escapeHtml(user.firstName || 'there')},</p><p>Confirm your email address by opening this link:</p><p><a href="${link}">Verify email address</a></p><p>The link expires in 24 hours. If you didn't create an AIVA account, you can ignore this email.</p>`
+    });
+    return true;
+  }
+
+  /**
+   * Emails a link to choose a new password. Skipped if one was sent very recently.
+   */
+  public async sendPasswordResetEmail(user: AccountUser): Promise<boolean> {
+    const token = await this.issueToken(user.id, 'reset_password');
+    if (!token) {
+      return false;
+    }
+
+    const link = `${this.getAppBaseUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+    await MailService.getInstance().send({
+      to: user.email,
+      subject: 'Reset your AIVA password',
+      text: `Hi ${user.firstName || 'there'},\n\nChoose a new password by opening this link:\n${link}\n\nThe link expires in 60 minutes and can be used once. If you didn't ask to reset your password, you can ignore this email.`,
+      html: `<p>Hi ${this.escapeHtml(user.firstName || 'there')},</p><p>Choose a new password by opening this link:</p><p><a href="${link}">Reset password</a></p><p>The link expires in 60 minutes and can be used once. If you didn't ask to reset your password, you can ignore this email.</p>`
+    });
+    return true;
+  }
+
+  /**
+   * Marks the email of the token's user as verified
+   * @returns The user id, or null if the token is invalid, expired or used
+   */
+  public async verifyEmail(token: string): Promise<string | null> {
+    const userId = await this.consumeToken(token, 'verify_email');
+    if (!userId) {
+      return null;
+    }
+
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('id', sql.NVarChar, userId)
+      .query(`
+        UPDATE Users
+        SET emailVerified = 1, emailVerifiedAt = GETUTCDATE(), updatedAt = GETUTCDATE()
+        WHERE id = @id
+      `);
+
+    logger.info(`Email verified for user ${userId}`);
+    return userId;
+  }
+
+  /**
+   * Sets a new password for the token's user, clears any lockout and signs out all of
+   * their sessions
+   * @returns The user id, or null if the token is invalid, expired or used
+   */
+  public async resetPassword(token: string, newPassword: string): Promise<string | null> {
+    const userId = await this.consumeToken(token, 'reset_password');
+    if (!userId) {
+      return null;
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+    const pool = await this.dbManager.getPool();
+    // Receiving the reset link also proves the user owns the email address
+    await pool.request()
+      .input('id', sql.NVarChar, userId)
+      .input('password', sql.NVarChar, hashedPassword)
+      .query(`
+        UPDATE Users
+        SET password = @password,
+            passwordChangedAt = GETUTCDATE(),
+            failedLoginAttempts = 0,
+            lockedUntil = NULL,
+            emailVerified = 1,
+            emailVerifiedAt = COALESCE(emailVerifiedAt, GETUTCDATE()),
+            updatedAt = GETUTCDATE()
+        WHERE id = @id
+      `);
+
+    await SessionService.getInstance().revokeOtherSessions(userId);
+    logger.info(`Password reset for user ${userId}`);
+    return userId;
+  }
+
+  /**
+   * When the account is locked, the time the lock ends
+   */
+  public getLockedUntil(user: { lockedUntil?: Date | string | null }): Date | null {
+    if (!user.lockedUntil) {
+      return null;
+    }
+    const lockedUntil = new Date(user.lockedUntil);
+    return lockedUntil > new Date() ? lockedUntil : null;
+  }
+
+  /**
+   * Why an account may not sign in even with valid credentials, or null when it may. Accounts
+   * in their deletion grace period can still sign in, to cancel the deletion.
+   */
+  public getSignInRefusal(user: {
+    isActive?: boolean | null;
+    deletedAt?: Date | string | null;
+    deletionScheduledFor?: Date | string | null;
+  }): string | null {
+    if (user.deletedAt) {
+      return 'This account has been deleted';
+    }
+    if (user.isActive === false) {
+      return 'This account has been deactivated';
+    }
+    if (user.deletionScheduledFor && new Date(user.deletionScheduledFor) <= new Date()) {
+      return 'This account is being deleted';
+    }
+    return null;
+  }
+
+  /**
+   * Counts a failed password attempt and locks the account once LOGIN_MAX_FAILED_ATTEMPTS
+   * failures happen within LOGIN_LOCKOUT_MINUTES of each other
+   */
+  public async recordFailedLogin(userId: string): Promise<FailedLoginResult> {
+    const maxAttempts = this.getPositiveInt('LOGIN_MAX_FAILED_ATTEMPTS', 5);
+    const lockoutMinutes = this.getPositiveInt('LOGIN_LOCKOUT_MINUTES', 15);
+
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, userId)
+      .input('lockoutMinutes', sql.Int, lockoutMinutes)
+      .query(`
+        UPDATE Users
+        SET failedLoginAttempts = CASE
+              WHEN lastFailedLoginAt IS NULL OR lastFailedLoginAt < DATEADD(MINUTE, -@lockoutMinutes, GETUTCDATE()) THEN 1
+              ELSE failedLoginAttempts + 1
+            END,
+            lastFailedLoginAt = GETUTCDATE()
+        OUTPUT INSERTED.failedLoginAttempts
+        WHERE id = @id
+      `);
+    const attempts: number = result.recordset[0]?.failedLoginAttempts ?? 0;
+
+    if (attempts < maxAttempts) {
+      return { lockedUntil: null, remainingAttempts: maxAttempts - attempts };
+    }
+
+    const lockedUntil = new Date(Date.now() + lockoutMinutes * 60 * 1000);
+    await pool.request()
+      .input('id', sql.NVarChar, userId)
+      .input('lockedUntil', sql.DateTime2, lockedUntil)
+      .query('UPDATE Users SET lockedUntil = @lockedUntil, failedLoginAttempts = 0 WHERE id = @id');
+
+    logger.warn(`User ${userId} locked until ${lockedUntil.toISOString()} after ${attempts} failed logins`);
+    return { lockedUntil, remainingAttempts: 0 };
+  }
+
+  public async recordSuccessfulLogin(userId: string): Promise<void> {
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('id', sql.NVarChar, userId)
+      .query(`
+        UPDATE Users
+        SET failedLoginAttempts = 0, lockedUntil = NULL, lastLoginAt = GETUTCDATE()
+        WHERE id = @id
+      `);
+  }
+
+  /**
+   * Creates a one-time token, or returns null if one for the same purpose was issued
+   * within the resend interval
+   */
+  private async issueToken(userId: string, purpose: AccountTokenPurpose): Promise<string | null> {
+    const pool = await this.dbManager.getPool();
+    const recent = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .input('purpose', sql.NVarChar, purpose)
+      .input('interval', sql.Int, AccountSecurityService.RESEND_INTERVAL_SECONDS)
+      .query(`
+        SELECT TOP 1 id FROM UserTokens
+        WHERE userId = @userId AND purpose = @purpose AND createdAt > DATEADD(SECOND, -@interval, GETUTCDATE())
+      `);
+    if (recent.recordset.length > 0) {
+      logger.info(`Skipping ${purpose} email for user ${userId}, one was sent moments ago`);
+      return null;
+    }
+
+    const tokenId = uuidv4();
+    const lifetimeMinutes = AccountSecurityService.TOKEN_LIFETIME_MINUTES[purpose];
+    await pool.request()
+      .input('id', sql.NVarChar, tokenId)
+      .input('userId', sql.NVarChar, userId)
+      .input('purpose', sql.NVarChar, purpose)
+      .input('expiresAt', sql.DateTime2, new Date(Date.now() + lifetimeMinutes * 60 * 1000))
+      .query(`
+        INSERT INTO UserTokens (id, userId, purpose, expiresAt, createdAt)
+        VALUES (@id, @userId, @purpose, @expiresAt, GETUTCDATE())
+      `);
+
+    return jwt.sign({}, this.getSigningKey(), {
+      subject: userId,
+      audience: purpose,
+      jwtid: tokenId,
+      expiresIn: lifetimeMinutes * 60
+    });
+  }
+
+  /**
+   * Checks a token's signature and marks it used. Using a token also invalidates the
+   * user's other outstanding tokens for the same purpose.
+   */
+  private async consumeToken(token: string, purpose: AccountTokenPurpose): Promise<string | null> {
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(token, this.getSigningKey(), { audience: purpose }) as jwt.JwtPayload;
+    } catch (error) {
+      logger.warn(`Rejected ${purpose} token: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+    if (!payload.sub || !payload.jti) {
+      return null;
+    }
+
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, payload.jti)
+      .input('userId', sql.NVarChar, payload.sub)
+      .input('purpose', sql.NVarChar, purpose)
+      .query(`
+        UPDATE UserTokens
+        SET usedAt = GETUTCDATE()
+        WHERE id = @id AND userId = @userId AND purpose = @purpose AND usedAt IS NULL AND expiresAt > GETUTCDATE()
+      `);
+    if (result.rowsAffected[0] === 0) {
+      return null;
+    }
+
+    await pool.request()
+      .input('userId', sql.NVarChar, payload.sub)
+      .input('purpose', sql.NVarChar, purpose)
+      .query('UPDATE UserTokens SET usedAt = GETUTCDATE() WHERE userId = @userId AND purpose = @purpose AND usedAt IS NULL');
+
+    return payload.sub;
+  }
+
+  // Derived from JWT_SECRET so these tokens can never be accepted as access tokens
+  private getSigningKey(): Buffer {
+    return crypto.createHmac('sha256', process.env.JWT_SECRET as string).update('account-tokens').digest();
+  }
+
+  private getAppBaseUrl(): string {
+    return (ConfigurationManager.getInstance().getValue('general', 'APP_BASE_URL') || 'http://localhost:5173').replace(/\/+$/, '');
+  }
+
+  private getPositiveInt(key: string, defaultValue: number): number {
+    const value = parseInt(ConfigurationManager.getInstance().getValue('security', key) || '', 10);
+    return value > 0 ? value : defaultValue;
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+  }
+}
@@ -1,5 +1,8 @@
 import { AIDataService } from './aiDataService';
 import { FabricDataAgentService } from './fabricDataAgent';
+import { ExternalDatabaseService } from './externalDatabaseService';
+import { DatabaseDriverError } from './databaseDriver';
+import { QueryGuardService, QueryRejectedError } from './queryGuardService';
 import { logger } from '../utils/logger';
 
 export interface AdminDataQuery {
@@ -25,6 +28,7 @@ export interface AdminDataResult {
 
 export class AdminDataService {
   private static instance: AdminDataService;
+  public static readonly MAX_ROWS = 5000;
   private aiDataService: AIDataService;
   private fabricService: FabricDataAgentService;
 
@@ -104,7 +108,8 @@ export class AdminDataService {
   }
 
   /**
-   * Execute admin query with elevated privileges
+   * Execute admin query with elevated privileges. Queries pass the query guard like any other;
+   * on a connection in write mode INSERT, UPDATE, DELETE and MERGE are also accepted.
    */
   public async executeAdminQuery(
     query: string,
@@ -130,31 +135,34 @@ export class AdminDataService {
       const sanitizedQuery = query.length > 100 ? `${query.substring(0, 100)}...` : query;
       logger.info(`Admin direct query execution from user ${options.userId}: ${queryType.toUpperCase()} - ${sanitizedQuery}`);
 
-      // Security check for potentially harmful queries
-      const securityLevel = this.assessSecurityLevel(query);
-      if (securityLevel === 'high') {
-        logger.warn(`High security risk query attempted by user ${options.userId}: ${sanitizedQuery}`);
-      }
-
       let result;
       if (queryType === 'dax') {
         if (!options.datasetId) {
           throw new Error('Dataset ID required for DAX queries');
         }
+        // One row over the cap tells whether the result was truncated
+        const inspection = QueryGuardService.getInstance().enforce(query, 'dax', { rowLimit: AdminDataService.MAX_ROWS + 1 });
         result = await this.fabricService.executeDaxQuery(
           options.datasetId, 
-          query, 
+          inspection.query, 
           options.workspaceId
         );
       } else {
         if (!options.connectionId && queryType === 'sql') {
           throw new Error('Connection ID required for SQL queries');
         }
-        result = await this.fabricService.executeSqlQuery(
-          query, 
-          options.workspaceId, 
-          options.connectionId
-        );
+        const externalDatabases = ExternalDatabaseService.getInstance();
+        const connection = await externalDatabases.getConnectionById(options.connectionId!);
+        if (!connection) {
+          throw new Error('Connection not found');
+        }
+        if (connection.type === 'mongodb') {
+          throw new DatabaseDriverError('MongoDB connections take mongo queries through /api/data/query', 400);
+        }
+        result = await externalDatabases.executeQuery(connection, query, {
+          maxRows: AdminDataService.MAX_ROWS,
+          allowWrites: true
+        });
       }
 
       // Validate result
@@ -167,6 +175,11 @@ export class AdminDataService {
 
     } catch (error) {
       logger.error('Admin query execution error:', error);
+
+      // Rejections and database errors carry their own status and message
+      if (error instanceof QueryRejectedError || error instanceof DatabaseDriverError) {
+        throw error;
+      }
       
       // Handle specific error types
       if (error instanceof Error) {
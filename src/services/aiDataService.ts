@@ -1,5 +1,6 @@
 import { OpenAIService, ChatMessage } from './openai';
 import { FabricDataAgentService, DataResult } from './fabricDataAgent';
+import { ChartSpec, ChartSpecService } from './chartSpecService';
 import { logger } from '../utils/logger';
 
 export interface DataInsightRequest {
@@ -17,9 +18,10 @@ export interface DataInsightResponse {
   data?: DataResult;
   query?: string;
   queryType?: 'dax' | 'sql';
+  explanation?: string;
   visualization?: {
     type: 'table' | 'chart' | 'metric';
-    config: any;
+    config: ChartSpec;
   };
   confidence: number;
   executionTime: number;
@@ -84,6 +86,7 @@ export class AIDataService {
         data: queryResult.data,
         query: queryResult.query,
         queryType: queryResult.queryType,
+        explanation: queryResult.explanation,
         visualization,
         confidence: queryResult.analysis.confidence,
         executionTime,
@@ -241,56 +244,17 @@ Please analyze this data and provide insights that answer the user's question. F
   }
 
   /**
-   * Generate visualization configuration
+   * Generate visualization configuration. `type` says how to present the result and `config`
+   * is a declarative chart spec built from a profile of every column.
    */
   private generateVisualizationConfig(dataResult: DataResult, question: string): {
     type: 'table' | 'chart' | 'metric';
-    config: any;
+    config: ChartSpec;
   } {
-    // Simple heuristics for visualization type
-    const numericColumns = dataResult.columns.filter(col => {
-      const firstValue = dataResult.data[0]?.[col];
-      return typeof firstValue === 'number';
-    });
-
-    const stringColumns = dataResult.columns.filter(col => {
-      const firstValue = dataResult.data[0]?.[col];
-      return typeof firstValue === 'string';
-    });
-
-    // Single metric
-    if (dataResult.rowCount === 1 && numericColumns.length === 1) {
-      return {
-        type: 'metric',
-        config: {
-          value: dataResult.data[0][numericColumns[0]],
-          label: numericColumns[0],
-          format: 'number'
-        }
-      };
-    }
-
-    // Chart for time series or categorical data
-    if (numericColumns.length > 0 && stringColumns.length > 0 && dataResult.rowCount <= 50) {
-      return {
-        type: 'chart',
-        config: {
-          chartType: 'bar',
-          xAxis: stringColumns[0],
-          yAxis: numericColumns[0],
-          data: dataResult.data
-        }
-      };
-    }
-
-    // Default to table
+    const spec = ChartSpecService.getInstance().recommend(dataResult, question);
     return {
-      type: 'table',
-      config: {
-        columns: dataResult.columns,
-        data: dataResult.data.slice(0, 100), // Limit for display
-        totalRows: dataResult.rowCount
-      }
+      type: spec.mark === 'kpi' ? 'metric' : spec.mark === 'table' ? 'table' : 'chart',
+      config: spec
     };
   }
 
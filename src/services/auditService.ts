@@ -0,0 +1,185 @@
+import { Request } from 'express';
+import sql from 'mssql';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../config/database';
+import { logger } from '../utils/logger';
+
+export interface AuditContext {
+  userId?: string | null;       // The acting user, null for system actions
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditEvent {
+  action: string;               // e.g. 'user_role_changed'
+  resource: string;             // e.g. 'user', 'workspace', 'config'
+  resourceId?: string | null;
+  details?: Record<string, unknown>;   // Usually { before, after }; never include secret values
+}
+
+export interface AuditLogFilter {
+  actor?: string;               // User id or email of the actor
+  resource?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  userId: string | null;
+  actorEmail: string | null;
+  action: string;
+  resource: string;
+  resourceId: string | null;
+  details: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+/**
+ * The acting user and client of a request, for AuditService.record
+ */
+export function getAuditContext(req: Request): AuditContext {
+  return {
+    userId: req.user?.userId || null,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent')
+  };
+}
+
+/**
+ * Writes security-relevant actions to AuditLogs and reads them back for admins.
+ */
+export class AuditService {
+  private static instance: AuditService;
+  private dbManager: DatabaseManager;
+  private static readonly CSV_COLUMNS: (keyof AuditLogEntry)[] = [
+    'createdAt', 'userId', 'actorEmail', 'action', 'resource', 'resourceId', 'ipAddress', 'userAgent', 'details'
+  ];
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): AuditService {
+    if (!AuditService.instance) {
+      AuditService.instance = new AuditService();
+    }
+    return AuditService.instance;
+  }
+
+  /**
+   * Records an action. Inside a transaction the entry is written with it and a failure
+   * rolls the action back; otherwise failures are logged so the action itself still succeeds.
+   */
+  public async record(context: AuditContext, event: AuditEvent, transaction?: sql.Transaction): Promise<void> {
+    try {
+      const request = transaction ? new sql.Request(transaction) : (await this.dbManager.getPool()).request();
+      await request
+        .input('id', sql.NVarChar, uuidv4())
+        .input('userId', sql.NVarChar, context.userId || null)
+        .input('action', sql.NVarChar, event.action)
+        .input('resource', sql.NVarChar, event.resource)
+        .input('resourceId', sql.NVarChar, event.resourceId || null)
+        .input('details', sql.NVarChar, event.details ? JSON.stringify(event.details) : null)
+        .input('ipAddress', sql.NVarChar, context.ipAddress?.substring(0, 45) || null)
+        .input('userAgent', sql.NVarChar, context.userAgent?.substring(0, 1000) || null)
+        .query(`
+          INSERT INTO AuditLogs (id, userId, action, resource, resourceId, details, ipAddress, userAgent, createdAt)
+          VALUES (@id, @userId, @action, @resource, @resourceId, @details, @ipAddress, @userAgent, GETUTCDATE())
+        `);
+    } catch (error) {
+      if (transaction) {
+        throw error;
+      }
+      logger.error(`Failed to write audit log entry ${event.action} for ${event.resource} ${event.resourceId || ''}:`, error);
+    }
+  }
+
+  /**
+   * Lists audit entries, newest first
+   */
+  public async list(filter: AuditLogFilter = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const page = filter.page || 1;
+    const limit = filter.limit || 50;
+    const pool = await this.dbManager.getPool();
+
+    const where = `
+      WHERE (@actor IS NULL OR a.userId = @actor OR LOWER(u.email) = LOWER(@actor))
+        AND (@resource IS NULL OR a.resource = @resource)
+        AND (@action IS NULL OR a.action = @action)
+        AND (@from IS NULL OR a.createdAt >= @from)
+        AND (@to IS NULL OR a.createdAt <= @to)
+    `;
+    const withFilter = (request: sql.Request) => request
+      .input('actor', sql.NVarChar, filter.actor || null)
+      .input('resource', sql.NVarChar, filter.resource || null)
+      .input('action', sql.NVarChar, filter.action || null)
+      .input('from', sql.DateTime2, filter.from || null)
+      .input('to', sql.DateTime2, filter.to || null);
+
+    const result = await withFilter(pool.request())
+      .input('offset', sql.Int, (page - 1) * limit)
+      .input('limit', sql.Int, limit)
+      .query(`
+        SELECT a.id, a.userId, u.email AS actorEmail, a.action, a.resource, a.resourceId, a.details,
+               a.ipAddress, a.userAgent, a.createdAt
+        FROM AuditLogs a
+        LEFT JOIN Users u ON u.id = a.userId
+        ${where}
+        ORDER BY a.createdAt DESC
+        OFFSET @offset ROWS
+        FETCH NEXT @limit ROWS ONLY
+      `);
+
+    const countResult = await withFilter(pool.request()).query(`
+      SELECT COUNT(*) AS total
+      FROM AuditLogs a
+      LEFT JOIN Users u ON u.id = a.userId
+      ${where}
+    `);
+
+    return {
+      entries: result.recordset.map((row: any) => ({ ...row, details: this.parseDetails(row.details) })),
+      total: countResult.recordset[0].total
+    };
+  }
+
+  public toCsv(entries: AuditLogEntry[]): string {
+    const lines = [AuditService.CSV_COLUMNS.join(',')];
+    for (const entry of entries) {
+      lines.push(AuditService.CSV_COLUMNS.map(column => {
+        const value = entry[column];
+        if (value === null || value === undefined) {
+          return '';
+        }
+        if (value instanceof Date) {
+          return value.toISOString();
+        }
+        return this.escapeCsv(typeof value === 'object' ? JSON.stringify(value) : String(value));
+      }).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  private parseDetails(details: string | null): Record<string, unknown> | null {
+    if (!details) {
+      return null;
+    }
+    try {
+      return JSON.parse(details);
+    } catch {
+      return { raw: details };
+    }
+  }
+
+  // Quotes fields when needed and defuses values a spreadsheet would run as a formula
+  private escapeCsv(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+}
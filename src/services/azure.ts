@@ -574,6 +574,14 @@ export async function getUserByEmail(email: string) {
   }
 }
 
+/**
+ * Removes the password and other credentials from a Users row before it is sent to a client
+ */
+export function sanitizeUser(user: any) {
+  const { password, twoFactorSecret, twoFactorPendingSecret, twoFactorLastUsedStep, ...publicUser } = user;
+  return publicUser;
+}
+
 export async function updateUser(userId: string, updateData: any) {
   try {
     const pool = await dbManager.getPool();
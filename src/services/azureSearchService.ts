@@ -1,12 +1,37 @@
 import { SearchIndexClient, SearchClient, AzureKeyCredential, SearchIndex } from '@azure/search-documents';
 import axios from 'axios';
 import { logger } from '../utils/logger';
+import { SearchProvider, SearchOptions } from './searchProvider';
+import { EmbeddingService } from './embeddingService';
+import { SearchRerankingService } from './searchRerankingService';
 
-export class AzureSearchService {
-  private static instance: AzureSearchService;
+export class AzureSearchService implements SearchProvider {
+  private static instance: AzureSearchService | null = null;
+  // Vector fields and vector queries need the 2023-11-01 API; it keeps the semantic configuration format
+  private static readonly API_VERSION = '2023-11-01';
+  private static readonly VECTOR_FIELD = 'contentVector';
+  private static readonly VECTOR_PROFILE = 'aiva-vector-profile';
+  private static readonly VECTOR_SEARCH = {
+    algorithms: [{ name: 'aiva-hnsw', kind: 'hnsw', hnswParameters: { metric: 'cosine' } }],
+    profiles: [{ name: AzureSearchService.VECTOR_PROFILE, algorithm: 'aiva-hnsw' }]
+  };
+
+  // Fields describing the passage a document holds; every indexed document is one chunk of a file
+  private static readonly CHUNK_FIELDS = [
+    { name: "fileId", type: "Edm.String", searchable: false, filterable: true, sortable: false, facetable: true },
+    { name: "chunkIndex", type: "Edm.Int32", searchable: false, filterable: true, sortable: true, facetable: false },
+    { name: "chunkCount", type: "Edm.Int32", searchable: false, filterable: false, sortable: false, facetable: false },
+    { name: "pageNumber", type: "Edm.Int32", searchable: false, filterable: true, sortable: true, facetable: false },
+    { name: "section", type: "Edm.String", searchable: true, filterable: true, sortable: false, facetable: false },
+    { name: "startOffset", type: "Edm.Int32", searchable: false, filterable: false, sortable: true, facetable: false },
+    { name: "endOffset", type: "Edm.Int32", searchable: false, filterable: false, sortable: false, facetable: false }
+  ];
+  public readonly name = 'azure' as const;
   private searchIndexClient: SearchIndexClient | null = null;
   private endpoint: string;
   private apiKey: string;
+  // Vector field size per index (null when the index has no vector field)
+  private vectorDimensions: Map<string, number | null> = new Map();
 
   private constructor() {
     this.endpoint = process.env.AZURE_AI_SEARCH_ENDPOINT || 'https://aivasearch.search.windows.net';
@@ -38,6 +63,17 @@ export class AzureSearchService {
     return AzureSearchService.instance;
   }
 
+  public static resetInstance(): void {
+    AzureSearchService.instance = null;
+  }
+
+  /**
+   * Whether the search client could be created from the configured endpoint and API key
+   */
+  public isAvailable(): boolean {
+    return this.searchIndexClient !== null;
+  }
+
   /**
    * Creates a search index for a workspace with enhanced semantic search configuration
    * @param indexName - The name of the index (should be workspace folder name + "index")
@@ -139,8 +175,11 @@ export class AzureSearchService {
             filterable: false,
             sortable: false,
             facetable: false
-          }
+          },
+          ...AzureSearchService.CHUNK_FIELDS,
+          this.getVectorField(EmbeddingService.getInstance().getDimensions())
         ],
+        vectorSearch: AzureSearchService.VECTOR_SEARCH,
         semantic: {
           configurations: [
             {
@@ -155,6 +194,7 @@ export class AzureSearchService {
                 ],
                 prioritizedKeywordsFields: [
                   { fieldName: "fileName" },
+                  { fieldName: "section" },
                   { fieldName: "workspaceName" },
                   { fieldName: "fileType" },
                   { fieldName: "keyPoints" }
@@ -166,13 +206,14 @@ export class AzureSearchService {
       };
 
       // Use REST API to create the index with semantic configuration
-      const url = `${this.endpoint}/indexes?api-version=2023-07-01-Preview`;
+      const url = `${this.endpoint}/indexes?api-version=${AzureSearchService.API_VERSION}`;
       const headers = {
         'api-key': this.apiKey,
         'Content-Type': 'application/json'
       };
 
       await axios.post(url, indexDefinition, { headers });
+      this.vectorDimensions.delete(indexName);
       logger.info(`Successfully created Azure Search index with semantic configuration: ${indexName}`);
       
       return true;
@@ -198,6 +239,7 @@ export class AzureSearchService {
       }
 
       await this.searchIndexClient.deleteIndex(indexName);
+      this.vectorDimensions.delete(indexName);
       logger.info(`Successfully deleted Azure Search index: ${indexName}`);
       return true;
     } catch (error) {
@@ -231,6 +273,108 @@ export class AzureSearchService {
     }
   }
 
+  /**
+   * Creates the index if needed, or adds the chunk and vector fields to an existing one
+   * @param indexName - The name of the index
+   * @returns True if the index is ready for chunk documents, false otherwise
+   */
+  public async ensureIndex(indexName: string): Promise<boolean> {
+    const indexExists = await this.indexExists(indexName);
+    if (!indexExists) {
+      logger.info(`Azure Search index ${indexName} does not exist, creating it now`);
+      return await this.createWorkspaceIndex(indexName);
+    }
+    return await this.upgradeIndexSchema(indexName);
+  }
+
+  /**
+   * Adds the chunk fields and the vector field to an index created before chunked indexing
+   * or vector retrieval were introduced
+   * @param indexName - The name of the index to upgrade
+   * @returns True if the index has the chunk and vector fields, false otherwise
+   */
+  public async upgradeIndexSchema(indexName: string): Promise<boolean> {
+    try {
+      if (!this.searchIndexClient) {
+        logger.warn('Azure Search client not initialized');
+        return false;
+      }
+
+      const url = `${this.endpoint}/indexes/${indexName}?api-version=${AzureSearchService.API_VERSION}`;
+      const headers = {
+        'api-key': this.apiKey,
+        'Content-Type': 'application/json'
+      };
+
+      const response = await axios.get(url, { headers });
+      const indexDefinition = response.data;
+      const existingFields = new Set((indexDefinition.fields || []).map((field: any) => field.name));
+      const missingFields: any[] = AzureSearchService.CHUNK_FIELDS.filter(field => !existingFields.has(field.name));
+      if (!existingFields.has(AzureSearchService.VECTOR_FIELD)) {
+        missingFields.push(this.getVectorField(EmbeddingService.getInstance().getDimensions()));
+      }
+
+      if (missingFields.length === 0) {
+        return true;
+      }
+
+      // Adding fields is a non-breaking index update, existing documents are kept
+      indexDefinition.fields = [...indexDefinition.fields, ...missingFields];
+      if (!indexDefinition.vectorSearch?.profiles?.length) {
+        indexDefinition.vectorSearch = AzureSearchService.VECTOR_SEARCH;
+      }
+      delete indexDefinition['@odata.context'];
+      delete indexDefinition['@odata.etag'];
+
+      await axios.put(url, indexDefinition, { headers });
+      this.vectorDimensions.delete(indexName);
+      logger.info(`Added fields to Azure Search index ${indexName}: ${missingFields.map(f => f.name).join(', ')}`);
+      return true;
+    } catch (error: any) {
+      logger.error(`Failed to upgrade Azure Search index ${indexName}:`, {
+        message: error.message,
+        response: error.response?.data
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Removes every indexed document belonging to a file, including the whole-file document
+   * written before chunked indexing (keyed by the file ID)
+   * @param indexName - The name of the index
+   * @param fileId - The WorkspaceFiles ID
+   * @returns Number of documents deleted
+   */
+  public async deleteFileDocuments(indexName: string, fileId: string): Promise<number> {
+    try {
+      if (!this.searchIndexClient) {
+        logger.warn('Azure Search client not initialized');
+        return 0;
+      }
+
+      const searchClient = new SearchClient<any>(this.endpoint, indexName, new AzureKeyCredential(this.apiKey));
+      const keys = new Set<string>([fileId]);
+
+      const results = await searchClient.search('*', {
+        filter: `fileId eq '${fileId.replace(/'/g, "''")}'`,
+        select: ['id'],
+        top: 1000
+      });
+      for await (const result of results.results) {
+        keys.add(result.document.id);
+      }
+
+      const deleteResult = await searchClient.deleteDocuments('id', Array.from(keys));
+      const deleted = deleteResult.results.filter(item => item.succeeded).length;
+      logger.info(`Deleted ${deleted} documents for file ${fileId} from index ${indexName}`);
+      return deleted;
+    } catch (error) {
+      logger.error(`Failed to delete documents for file ${fileId} from index ${indexName}:`, error);
+      return 0;
+    }
+  }
+
   /**
    * Indexes a document (file content) in the search index
    * @param indexName - The name of the index
@@ -261,7 +405,8 @@ export class AzureSearchService {
   }
 
   /**
-   * Indexes multiple documents in the search index
+   * Indexes multiple documents in the search index, embedding their content into the vector
+   * field when the index has one of the matching size
    * @param indexName - The name of the index
    * @param documents - Array of documents to index
    * @returns True if successful, false otherwise
@@ -274,7 +419,7 @@ export class AzureSearchService {
       }
 
       const searchClient = new SearchClient(this.endpoint, indexName, new AzureKeyCredential(this.apiKey));
-      const result = await searchClient.uploadDocuments(documents);
+      const result = await searchClient.uploadDocuments(await this.addVectors(indexName, documents));
       
       let successCount = 0;
       let failureCount = 0;
@@ -300,52 +445,84 @@ export class AzureSearchService {
   }
 
   /**
-   * Searches for documents in a workspace index with semantic search
+   * Searches a workspace index with keyword, vector or hybrid retrieval. Hybrid queries are
+   * fused by the service (reciprocal rank fusion); results are then reranked by the semantic
+   * ranker or the lexical reranker depending on search.SEARCH_RERANKER.
    * @param indexName - The name of the index
    * @param searchText - The text to search for
-   * @param filter - Optional filter expression
+   * @param options - Result count, file filter, retrieval mode and whether to rerank
    * @returns Search results
    */
-  public async searchDocuments(indexName: string, searchText: string, filter?: string): Promise<any[]> {
+  public async searchDocuments(indexName: string, searchText: string, options: SearchOptions = {}): Promise<any[]> {
     try {
       if (!this.searchIndexClient) {
         logger.warn('Azure Search client not initialized');
         return [];
       }
 
-      // Use the format "search" + index_name for semantic configuration name
-      const semanticConfigName = `search${indexName}`;
+      const rerankingService = SearchRerankingService.getInstance();
+      const top = options.top ?? 10;
+      let mode = options.mode ?? rerankingService.getMode();
+      const reranker = options.rerank === false ? 'none' : rerankingService.getReranker(this.name);
 
-      // Use REST API for semantic search
-      const url = `${this.endpoint}/indexes/${indexName}/docs/search?api-version=2023-07-01-Preview`;
+      // Use REST API for hybrid and semantic search
+      const url = `${this.endpoint}/indexes/${indexName}/docs/search?api-version=${AzureSearchService.API_VERSION}`;
       const headers = {
         'api-key': this.apiKey,
         'Content-Type': 'application/json'
       };
 
-      const searchBody: any = {
-        search: searchText,
-        top: 10,
-        queryType: "semantic",
-        semanticConfiguration: semanticConfigName,
-        queryLanguage: "en-US"
-        // Removed querySpeller as it's not supported in this API version
-      };
+      const searchBody: any = { top };
+
+      if (mode !== 'keyword') {
+        const vector = await this.getQueryVector(indexName, searchText);
+        if (vector) {
+          searchBody.vectorQueries = [{ kind: 'vector', vector, fields: AzureSearchService.VECTOR_FIELD, k: top }];
+        } else {
+          // No comparable vectors in this index yet, fall back to keyword retrieval
+          mode = 'keyword';
+        }
+      }
+
+      if (mode !== 'vector') {
+        searchBody.search = searchText;
+      }
+
+      // The semantic ranker needs query text, so vector-only queries use the lexical reranker
+      const useSemanticRanker = reranker === 'semantic' && mode !== 'vector';
+      if (useSemanticRanker) {
+        // Use the format "search" + index_name for semantic configuration name
+        searchBody.queryType = 'semantic';
+        searchBody.semanticConfiguration = `search${indexName}`;
+        searchBody.queryLanguage = 'en-US';
+      }
       
-      if (filter) {
-        searchBody.filter = filter;
+      if (options.fileId) {
+        searchBody.filter = `fileId eq '${options.fileId.replace(/'/g, "''")}'`;
       }
 
       const response = await axios.post(url, searchBody, { headers });
-      const results: any[] = [];
-      
-      if (response.data.value) {
-        for (const result of response.data.value) {
-          results.push(result);
-        }
+      const results: any[] = response.data.value || [];
+      if (results.length === 0) {
+        return [];
       }
-      
-      return results;
+
+      if (useSemanticRanker) {
+        // Semantic reranker scores range from 0 to 4
+        return results.map(result => ({
+          ...result,
+          relevanceScore: Math.min((result['@search.rerankerScore'] ?? 0) / 4, 1)
+        }));
+      }
+
+      // Keyword and fused scores are only comparable within one result set
+      const maxScore = Math.max(...results.map(result => result['@search.score'] || 0));
+      const scored = results.map(result => ({
+        ...result,
+        relevanceScore: maxScore > 0 ? (result['@search.score'] || 0) / maxScore : 0
+      }));
+
+      return reranker === 'none' ? scored : rerankingService.rerank(searchText, scored);
     } catch (error: any) {
       logger.error(`Failed to search documents in index ${indexName}:`, {
         message: error.message,
@@ -354,4 +531,76 @@ export class AzureSearchService {
       return [];
     }
   }
+
+  private getVectorField(dimensions: number) {
+    return {
+      name: AzureSearchService.VECTOR_FIELD,
+      type: "Collection(Edm.Single)",
+      searchable: true,
+      retrievable: false,
+      dimensions,
+      vectorSearchProfile: AzureSearchService.VECTOR_PROFILE
+    };
+  }
+
+  /**
+   * Gets the size of an index's vector field, or null if it has none
+   */
+  private async getVectorDimensions(indexName: string): Promise<number | null> {
+    if (this.vectorDimensions.has(indexName)) {
+      return this.vectorDimensions.get(indexName)!;
+    }
+
+    const url = `${this.endpoint}/indexes/${indexName}?api-version=${AzureSearchService.API_VERSION}`;
+    const response = await axios.get(url, { headers: { 'api-key': this.apiKey } });
+    const vectorField = (response.data.fields || []).find((field: any) => field.name === AzureSearchService.VECTOR_FIELD);
+    const dimensions = vectorField?.dimensions ?? null;
+    this.vectorDimensions.set(indexName, dimensions);
+    return dimensions;
+  }
+
+  /**
+   * Sets the vector field of documents with content. Documents are uploaded without vectors
+   * when the index has no vector field or the embedding size doesn't match it.
+   */
+  private async addVectors(indexName: string, documents: any[]): Promise<any[]> {
+    try {
+      const dimensions = await this.getVectorDimensions(indexName);
+      const embeddable = documents.filter(doc => doc.content);
+      if (!dimensions || embeddable.length === 0) {
+        return documents;
+      }
+
+      const embeddings = await EmbeddingService.getInstance().embed(
+        embeddable.map(doc => [doc.section, doc.content].filter(Boolean).join('\n'))
+      );
+      if (embeddings.vectors[0]?.length !== dimensions) {
+        logger.warn(`Embedding size from ${embeddings.model} doesn't match vector field of index ${indexName} (${dimensions}), indexing without vectors`);
+        return documents;
+      }
+
+      const vectors = new Map(embeddable.map((doc, i) => [doc, embeddings.vectors[i]]));
+      return documents.map(doc => vectors.has(doc)
+        ? { ...doc, [AzureSearchService.VECTOR_FIELD]: vectors.get(doc) }
+        : doc);
+    } catch (error) {
+      logger.warn(`Failed to embed documents for index ${indexName}, indexing without vectors:`, error);
+      return documents;
+    }
+  }
+
+  private async getQueryVector(indexName: string, searchText: string): Promise<number[] | null> {
+    try {
+      const dimensions = await this.getVectorDimensions(indexName);
+      if (!dimensions) {
+        return null;
+      }
+      const embeddings = await EmbeddingService.getInstance().embed([searchText]);
+      const vector = embeddings.vectors[0];
+      return vector && vector.length === dimensions ? vector : null;
+    } catch (error) {
+      logger.warn(`Failed to embed query for index ${indexName}:`, error);
+      return null;
+    }
+  }
 }
@@ -0,0 +1,563 @@
+import { DataResult } from './fabricDataAgent';
+
+export type FieldType = 'temporal' | 'quantitative' | 'nominal' | 'boolean';
+export type TimeGrain = 'year' | 'quarter' | 'month' | 'week' | 'day' | 'hour' | 'minute';
+export type ValueFormat = 'integer' | 'number' | 'percent' | 'currency' | 'date' | 'datetime' | 'text';
+export type ChartMark = 'kpi' | 'line' | 'area' | 'bar' | 'pie' | 'scatter' | 'table';
+
+export interface ColumnProfile {
+  name: string;
+  type: FieldType;
+  role: 'dimension' | 'measure';
+  nonNullCount: number;
+  nullCount: number;
+  distinctCount: number;
+  min?: number | string;          // ISO string for temporal columns
+  max?: number | string;
+  sum?: number;
+  allNonNegative?: boolean;
+  timeGrain?: TimeGrain;
+  format: ValueFormat;
+}
+
+export interface FieldEncoding {
+  field: string;
+  type: FieldType;
+  title: string;
+  format: ValueFormat;
+  timeGrain?: TimeGrain;
+  sort?: 'ascending' | 'descending';
+}
+
+export interface KpiCard {
+  field: string;
+  title: string;
+  value: number | null;
+  format: ValueFormat;
+  delta?: {
+    value: number;
+    percent: number | null;       // Relative to the comparison value; null when that is 0
+    direction: 'up' | 'down' | 'flat';
+    comparedTo: string;           // Column or period the value is compared with
+  };
+}
+
+/**
+ * A chart described by what goes on which channel rather than how to draw it, so clients can
+ * render it with their own charting library. `data` holds only the encoded fields, with dates
+ * as ISO strings and numbers as numbers.
+ */
+export interface ChartSpec {
+  version: 1;
+  mark: ChartMark;
+  title: string;
+  encoding: {
+    x?: FieldEncoding;
+    y?: FieldEncoding[];          // One entry per measure; several draw several series
+    color?: FieldEncoding;        // Splits a single measure into series
+    theta?: FieldEncoding;        // Slice size for pie charts
+    label?: FieldEncoding;        // Slice or point labels
+  };
+  stack: boolean;
+  orientation: 'vertical' | 'horizontal';
+  kpis: KpiCard[];                // Cards for kpi specs; headline cards for time series
+  columns: FieldEncoding[];       // Every column, for table specs and detail views
+  data: Record<string, unknown>[];
+  totalRows: number;
+  truncated: boolean;
+  alternatives: ChartMark[];      // Other marks that suit the data
+  rationale: string;
+}
+
+const TEMPORAL_NAME = /(date|time|day|week|month|quarter|year|period|timestamp|_at$|At$)/i;
+const IDENTIFIER_NAME = /(^id$|_id$|[a-z]Id$|^code$|_code$|^key$|_key$|zip|postal|phone)/;
+const PERCENT_NAME = /(pct|percent|percentage|rate|ratio|share|margin)/i;
+const CURRENCY_NAME = /(revenue|sales|amount|price|cost|profit|spend|budget|income|expense|salary|value)/i;
+const COMPARISON_NAME = /^(?:previous|prev|prior|last)_?(.+)$|^(.+?)_?(?:previous|prev|prior|last)$|^(.+?)_(?:ly|py)$/i;
+const ISO_DATE = /^\d{4}-\d{2}(-\d{2})?([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const QUARTER = /^(\d{4})[- ]?Q([1-4])$|^Q([1-4])[- ]?(\d{4})$/i;
+const NUMERIC_STRING = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+
+const SHARE_WORDS = /\b(share|proportion|percentage|percent|breakdown|distribution|split|mix|composition)\b/i;
+const CUMULATIVE_WORDS = /\b(cumulative|running|to date|ytd|mtd|accumulated)\b/i;
+const CORRELATION_WORDS = /\b(correlat\w*|relationship|versus|vs\.?|against|scatter)\b/i;
+
+const PROFILE_SAMPLE_ROWS = 5000;
+const TYPE_MATCH_THRESHOLD = 0.9;     // Share of non-null values that must parse as a type
+const MAX_SERIES = 8;
+const MAX_PIE_SLICES = 6;
+const MAX_BAR_CATEGORIES = 30;
+const MAX_CHART_POINTS = 500;
+const MAX_TABLE_ROWS = 100;
+const MAX_KPIS = 4;
+const MAX_MEASURES = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Profiles query results and recommends a chart for them. Every column is profiled across the
+ * result rather than from its first row: dates (Date values, ISO strings, quarters and year
+ * columns), measures and identifiers, cardinality, ranges and time grain. The recommendation
+ * follows the shape of the data, with a few hints from the question:
+ * - one row of measures: KPI cards, with deltas from previous/prior columns
+ * - a time dimension: line (area for cumulative measures), one series per low-cardinality
+ *   category, with headline cards comparing the last two periods
+ * - two categories: stacked bars; one category: pie for a few shares, otherwise bars
+ * - two measures over many rows: scatter
+ * - anything else: table
+ */
+export class ChartSpecService {
+  private static instance: ChartSpecService;
+
+  public static getInstance(): ChartSpecService {
+    if (!ChartSpecService.instance) {
+      ChartSpecService.instance = new ChartSpecService();
+    }
+    return ChartSpecService.instance;
+  }
+
+  public profileColumns(rows: any[], columns: string[]): ColumnProfile[] {
+    const sample = rows.slice(0, PROFILE_SAMPLE_ROWS);
+    return columns.map(column => this.profileColumn(column, sample.map(row => row?.[column])));
+  }
+
+  public recommend(dataResult: DataResult, question: string = ''): ChartSpec {
+    const rows = dataResult.data || [];
+    const profiles = this.profileColumns(rows, dataResult.columns);
+
+    if (rows.length === 0) {
+      return this.tableSpec(rows, profiles, dataResult.rowCount, 'The query returned no rows');
+    }
+
+    const temporal = profiles.filter(profile => profile.type === 'temporal');
+    const measures = profiles.filter(profile => profile.role === 'measure');
+    const categories = profiles.filter(profile => profile.role === 'dimension' && profile.type !== 'temporal' && profile.distinctCount > 1);
+
+    if (rows.length === 1 && measures.length > 0) {
+      return this.kpiSpec(rows[0], profiles, measures);
+    }
+    if (temporal.length > 0 && measures.length > 0) {
+      return this.timeSeriesSpec(rows, profiles, temporal[0], measures, categories, question);
+    }
+    if (measures.length >= 2 && (CORRELATION_WORDS.test(question) || rows.length > 12 || categories.length === 0)) {
+      return this.scatterSpec(rows, profiles, measures, categories[0], dataResult.rowCount);
+    }
+    if (categories.length >= 2 && measures.length >= 1) {
+      return this.stackedBarSpec(rows, profiles, categories, measures[0], dataResult.rowCount);
+    }
+    if (categories.length === 1 && measures.length >= 1) {
+      const [category] = categories;
+      const [measure] = measures;
+      const looksLikeShares = measures.length === 1
+        && category.distinctCount <= MAX_PIE_SLICES
+        && category.distinctCount === rows.length
+        && measure.allNonNegative
+        && (SHARE_WORDS.test(question) || this.sumsToWhole(measure));
+      if (looksLikeShares) {
+        return this.pieSpec(rows, profiles, category, measure);
+      }
+      return this.barSpec(rows, profiles, category, measures.slice(0, MAX_MEASURES), dataResult.rowCount);
+    }
+
+    return this.tableSpec(rows, profiles, dataResult.rowCount, 'No dimension and measure pair to chart');
+  }
+
+  private kpiSpec(row: any, profiles: ColumnProfile[], measures: ColumnProfile[]): ChartSpec {
+    // previous_sales is shown as the delta of sales rather than a card of its own
+    const comparisons = new Map<string, ColumnProfile>();
+    for (const measure of measures) {
+      const base = this.comparisonBase(measure.name);
+      const target = base && measures.find(candidate => candidate !== measure && this.normalizeName(candidate.name) === base);
+      if (target) {
+        comparisons.set(target.name, measure);
+      }
+    }
+    const comparisonColumns = new Set(Array.from(comparisons.values()).map(profile => profile.name));
+
+    const kpis = measures
+      .filter(measure => !comparisonColumns.has(measure.name))
+      .slice(0, MAX_KPIS)
+      .map(measure => {
+        const value = this.toNumber(row[measure.name]);
+        const comparison = comparisons.get(measure.name);
+        const card: KpiCard = { field: measure.name, title: this.humanize(measure.name), value, format: measure.format };
+        if (comparison && value !== null) {
+          const previous = this.toNumber(row[comparison.name]);
+          if (previous !== null) {
+            card.delta = this.delta(value, previous, this.humanize(comparison.name));
+          }
+        }
+        return card;
+      });
+
+    const withDelta = kpis.filter(card => card.delta).length;
+    return this.spec('kpi', kpis.length === 1 ? kpis[0].title : 'Key figures', profiles, [row], 1, {
+      kpis,
+      alternatives: ['table'],
+      rationale: `A single row of ${kpis.length} measure${kpis.length === 1 ? '' : 's'}${withDelta > 0 ? `, ${withDelta} with a comparison column` : ''}`
+    });
+  }
+
+  private timeSeriesSpec(
+    rows: any[],
+    profiles: ColumnProfile[],
+    time: ColumnProfile,
+    measures: ColumnProfile[],
+    categories: ColumnProfile[],
+    question: string
+  ): ChartSpec {
+    const series = categories.find(category => category.distinctCount <= MAX_SERIES);
+    const plotted = series ? [measures[0]] : measures.slice(0, MAX_MEASURES);
+    const sorted = rows
+      .map(row => ({ row, time: this.parseTimestamp(time.name, row[time.name]) }))
+      .filter(entry => entry.time !== null)
+      .sort((a, b) => a.time! - b.time!)
+      .map(entry => entry.row);
+
+    const cumulative = CUMULATIVE_WORDS.test(question) || (plotted.length === 1 && !series && this.isNonDecreasing(sorted, plotted[0].name));
+    // Stacked areas show how categories add up, which only makes sense for non-negative values
+    const composition = !!series && SHARE_WORDS.test(question) && !!plotted[0].allNonNegative;
+    const mark: ChartMark = cumulative || composition ? 'area' : 'line';
+
+    const fields = [time, ...(series ? [series] : []), ...plotted];
+    const limited = sorted.slice(-MAX_CHART_POINTS);
+
+    return this.spec(mark, `${this.listTitles(plotted)} over time${series ? ` by ${this.phrase(series.name)}` : ''}`, profiles, limited, rows.length, {
+      encoding: {
+        x: { ...this.encode(time), sort: 'ascending' },
+        y: plotted.map(measure => this.encode(measure)),
+        ...(series ? { color: this.encode(series) } : {})
+      },
+      stack: composition,
+      kpis: series ? [] : this.periodKpis(sorted, time, plotted),
+      fields,
+      alternatives: mark === 'area' ? ['line', 'bar', 'table'] : ['area', 'bar', 'table'],
+      rationale: `${this.humanize(time.name)} is a ${time.timeGrain || 'time'} series` +
+        (series ? ` split into ${series.distinctCount} ${this.phrase(series.name)} series` : '') +
+        (cumulative ? '; the values accumulate' : composition ? '; the series add up to a total' : '')
+    });
+  }
+
+  private scatterSpec(rows: any[], profiles: ColumnProfile[], measures: ColumnProfile[], label: ColumnProfile | undefined, totalRows: number): ChartSpec {
+    const [x, y] = measures;
+    return this.spec('scatter', `${this.humanize(y.name)} vs ${this.phrase(x.name)}`, profiles, rows.slice(0, MAX_CHART_POINTS), totalRows, {
+      encoding: {
+        x: this.encode(x),
+        y: [this.encode(y)],
+        ...(label ? { label: this.encode(label) } : {})
+      },
+      fields: [x, y, ...(label ? [label] : [])],
+      alternatives: ['table'],
+      rationale: `Two measures over ${rows.length} rows`
+    });
+  }
+
+  private stackedBarSpec(rows: any[], profiles: ColumnProfile[], categories: ColumnProfile[], measure: ColumnProfile, totalRows: number): ChartSpec {
+    // The category with fewer values becomes the stacks
+    const [stack, axis] = categories.slice(0, 2).sort((a, b) => a.distinctCount - b.distinctCount);
+    if (stack.distinctCount > MAX_SERIES || axis.distinctCount > MAX_BAR_CATEGORIES) {
+      return this.tableSpec(rows, profiles, totalRows, 'Too many categories to stack');
+    }
+    return this.spec('bar', `${this.humanize(measure.name)} by ${this.phrase(axis.name)} and ${this.phrase(stack.name)}`, profiles, rows, totalRows, {
+      encoding: {
+        x: this.encode(axis),
+        y: [this.encode(measure)],
+        color: this.encode(stack)
+      },
+      stack: !!measure.allNonNegative,
+      orientation: axis.distinctCount > 10 ? 'horizontal' : 'vertical',
+      fields: [axis, stack, measure],
+      alternatives: ['table'],
+      rationale: `${this.humanize(measure.name)} across ${axis.distinctCount} ${this.phrase(axis.name)} values, stacked by ${stack.distinctCount} ${this.phrase(stack.name)} values`
+    });
+  }
+
+  private pieSpec(rows: any[], profiles: ColumnProfile[], category: ColumnProfile, measure: ColumnProfile): ChartSpec {
+    const sorted = [...rows].sort((a, b) => (this.toNumber(b[measure.name]) ?? 0) - (this.toNumber(a[measure.name]) ?? 0));
+    return this.spec('pie', `${this.humanize(measure.name)} by ${this.phrase(category.name)}`, profiles, sorted, rows.length, {
+      encoding: {
+        theta: this.encode(measure),
+        label: this.encode(category)
+      },
+      fields: [category, measure],
+      alternatives: ['bar', 'table'],
+      rationale: `${category.distinctCount} ${this.phrase(category.name)} values sharing a total`
+    });
+  }
+
+  private barSpec(rows: any[], profiles: ColumnProfile[], category: ColumnProfile, measures: ColumnProfile[], totalRows: number): ChartSpec {
+    const [primary] = measures;
+    // Largest first, so cutting at the category limit keeps the top values
+    const sorted = [...rows].sort((a, b) => (this.toNumber(b[primary.name]) ?? 0) - (this.toNumber(a[primary.name]) ?? 0));
+    const shown = sorted.slice(0, MAX_BAR_CATEGORIES);
+    const longLabels = shown.some(row => String(row[category.name] ?? '').length > 12);
+
+    return this.spec('bar', `${this.listTitles(measures)} by ${this.phrase(category.name)}`, profiles, shown, totalRows, {
+      encoding: {
+        x: { ...this.encode(category), sort: 'descending' },
+        y: measures.map(measure => this.encode(measure))
+      },
+      orientation: shown.length > 10 || longLabels ? 'horizontal' : 'vertical',
+      fields: [category, ...measures],
+      alternatives: measures.length === 1 && shown.length <= MAX_PIE_SLICES && primary.allNonNegative ? ['pie', 'table'] : ['table'],
+      rationale: `${measures.length === 1 ? 'One measure' : `${measures.length} measures`} across ${category.distinctCount} ${this.phrase(category.name)} values` +
+        (sorted.length > shown.length ? `, top ${shown.length} shown` : '')
+    });
+  }
+
+  private tableSpec(rows: any[], profiles: ColumnProfile[], totalRows: number, rationale: string): ChartSpec {
+    return this.spec('table', 'Results', profiles, rows.slice(0, MAX_TABLE_ROWS), totalRows, { alternatives: [], rationale });
+  }
+
+  private spec(
+    mark: ChartMark,
+    title: string,
+    profiles: ColumnProfile[],
+    rows: any[],
+    totalRows: number,
+    options: {
+      encoding?: ChartSpec['encoding'];
+      stack?: boolean;
+      orientation?: ChartSpec['orientation'];
+      kpis?: KpiCard[];
+      fields?: ColumnProfile[];
+      alternatives: ChartMark[];
+      rationale: string;
+    }
+  ): ChartSpec {
+    // Charts carry only the fields they encode; tables and KPI cards carry every column
+    const fields = options.fields || profiles;
+    return {
+      version: 1,
+      mark,
+      title,
+      encoding: options.encoding || {},
+      stack: options.stack || false,
+      orientation: options.orientation || 'vertical',
+      kpis: options.kpis || [],
+      columns: profiles.map(profile => this.encode(profile)),
+      data: rows.map(row => Object.fromEntries(fields.map(field => [field.name, this.normalizeValue(row?.[field.name], field)]))),
+      totalRows: Math.max(totalRows, rows.length),
+      truncated: Math.max(totalRows, rows.length) > rows.length,
+      alternatives: options.alternatives,
+      rationale: options.rationale
+    };
+  }
+
+  // Headline cards: each measure in the last period against the period before
+  private periodKpis(sorted: any[], time: ColumnProfile, measures: ColumnProfile[]): KpiCard[] {
+    if (sorted.length < 2) {
+      return [];
+    }
+    const last = sorted[sorted.length - 1];
+    const previous = sorted[sorted.length - 2];
+    const previousLabel = String(this.normalizeValue(previous[time.name], time));
+
+    return measures.slice(0, MAX_KPIS).map(measure => {
+      const value = this.toNumber(last[measure.name]);
+      const before = this.toNumber(previous[measure.name]);
+      return {
+        field: measure.name,
+        title: this.humanize(measure.name),
+        value,
+        format: measure.format,
+        ...(value !== null && before !== null ? { delta: this.delta(value, before, previousLabel) } : {})
+      };
+    });
+  }
+
+  private delta(value: number, previous: number, comparedTo: string): NonNullable<KpiCard['delta']> {
+    const change = value - previous;
+    return {
+      value: change,
+      percent: previous !== 0 ? change / Math.abs(previous) : null,
+      direction: change > 0 ? 'up' : change < 0 ? 'down' : 'flat',
+      comparedTo
+    };
+  }
+
+  private profileColumn(name: string, values: unknown[]): ColumnProfile {
+    const present = values.filter(value => value !== null && value !== undefined && value !== '');
+    const distinct = new Set(present.map(value => value instanceof Date ? value.getTime() : typeof value === 'object' ? JSON.stringify(value) : value));
+    const profile: ColumnProfile = {
+      name,
+      type: 'nominal',
+      role: 'dimension',
+      nonNullCount: present.length,
+      nullCount: values.length - present.length,
+      distinctCount: distinct.size,
+      format: 'text'
+    };
+    if (present.length === 0) {
+      return profile;
+    }
+
+    const share = (test: (value: unknown) => boolean) => present.filter(test).length / present.length;
+
+    if (share(value => typeof value === 'boolean') >= TYPE_MATCH_THRESHOLD) {
+      profile.type = 'boolean';
+      return profile;
+    }
+
+    const timestamps = this.parseTimestamps(name, present);
+    if (timestamps) {
+      profile.type = 'temporal';
+      profile.timeGrain = this.timeGrain(timestamps);
+      profile.min = new Date(Math.min(...timestamps)).toISOString();
+      profile.max = new Date(Math.max(...timestamps)).toISOString();
+      profile.format = profile.timeGrain === 'hour' || profile.timeGrain === 'minute' ? 'datetime' : 'date';
+      return profile;
+    }
+
+    if (share(value => this.toNumber(value) !== null) >= TYPE_MATCH_THRESHOLD) {
+      const numbers = present.map(value => this.toNumber(value)).filter((value): value is number => value !== null);
+      const integers = numbers.every(Number.isInteger);
+      // Identifier-like integers are labels, not quantities
+      if (IDENTIFIER_NAME.test(name) && integers) {
+        return profile;
+      }
+      profile.type = 'quantitative';
+      profile.role = 'measure';
+      profile.min = Math.min(...numbers);
+      profile.max = Math.max(...numbers);
+      profile.sum = numbers.reduce((total, value) => total + value, 0);
+      profile.allNonNegative = profile.min >= 0;
+      profile.format = PERCENT_NAME.test(name) && profile.min >= 0 && profile.max <= 100
+        ? 'percent'
+        : CURRENCY_NAME.test(name) ? 'currency' : integers ? 'integer' : 'number';
+    }
+    return profile;
+  }
+
+  /**
+   * Timestamps for a column whose values are dates: Date objects, ISO strings, quarters like
+   * 2024-Q1, or four-digit years in a column named like a period. Null when they aren't.
+   */
+  private parseTimestamps(name: string, values: unknown[]): number[] | null {
+    const timestamps = values
+      .map(value => this.parseTimestamp(name, value))
+      .filter((timestamp): timestamp is number => timestamp !== null);
+    return timestamps.length / values.length >= TYPE_MATCH_THRESHOLD ? timestamps : null;
+  }
+
+  private parseTimestamp(name: string, value: unknown): number | null {
+    let timestamp: number | null = null;
+    if (value instanceof Date) {
+      timestamp = value.getTime();
+    } else if (typeof value === 'string' && ISO_DATE.test(value.trim())) {
+      // Date.parse reads 2024-03 as a date-time in some engines; pin it to the first of the month
+      timestamp = Date.parse(value.trim().length === 7 ? `${value.trim()}-01` : value.trim());
+    } else if (typeof value === 'string' && QUARTER.test(value.trim())) {
+      const match = value.trim().match(QUARTER)!;
+      const year = parseInt(match[1] || match[4], 10);
+      const quarter = parseInt(match[2] || match[3], 10);
+      timestamp = Date.UTC(year, (quarter - 1) * 3, 1);
+    } else if (TEMPORAL_NAME.test(name) && /year/i.test(name)) {
+      const year = this.toNumber(value);
+      if (year !== null && Number.isInteger(year) && year >= 1900 && year <= 2200) {
+        timestamp = Date.UTC(year, 0, 1);
+      }
+    }
+    return timestamp !== null && !isNaN(timestamp) ? timestamp : null;
+  }
+
+  // The grain is the smallest step between consecutive distinct timestamps
+  private timeGrain(timestamps: number[]): TimeGrain {
+    const sorted = Array.from(new Set(timestamps)).sort((a, b) => a - b);
+    let step = Infinity;
+    for (let i = 1; i < sorted.length; i++) {
+      step = Math.min(step, sorted[i] - sorted[i - 1]);
+    }
+    if (step === Infinity) {
+      const date = new Date(sorted[0]);
+      return date.getUTCHours() || date.getUTCMinutes() ? 'minute' : 'day';
+    }
+    if (step >= 365 * DAY_MS) return 'year';
+    if (step >= 89 * DAY_MS) return 'quarter';
+    if (step >= 28 * DAY_MS) return 'month';
+    if (step >= 7 * DAY_MS) return 'week';
+    if (step >= DAY_MS) return 'day';
+    if (step >= 60 * 60 * 1000) return 'hour';
+    return 'minute';
+  }
+
+  private encode(profile: ColumnProfile): FieldEncoding {
+    return {
+      field: profile.name,
+      type: profile.type,
+      title: this.humanize(profile.name),
+      format: profile.format,
+      ...(profile.timeGrain ? { timeGrain: profile.timeGrain } : {})
+    };
+  }
+
+  private normalizeValue(value: unknown, profile: ColumnProfile): unknown {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (profile.type === 'temporal') {
+      const timestamp = this.parseTimestamp(profile.name, value);
+      return timestamp === null ? value : new Date(timestamp).toISOString();
+    }
+    if (profile.type === 'quantitative') {
+      return this.toNumber(value);
+    }
+    return value instanceof Date ? value.toISOString() : value;
+  }
+
+  // Numbers, and numeric strings as drivers return DECIMAL and BIGINT
+  private toNumber(value: unknown): number | null {
+    if (typeof value === 'number') {
+      return isFinite(value) ? value : null;
+    }
+    if (typeof value === 'string' && NUMERIC_STRING.test(value.trim())) {
+      return parseFloat(value);
+    }
+    return null;
+  }
+
+  private isNonDecreasing(rows: any[], column: string): boolean {
+    const values = rows.map(row => this.toNumber(row[column])).filter((value): value is number => value !== null);
+    return values.length > 2 && values.every((value, i) => i === 0 || value >= values[i - 1]) && values[0] < values[values.length - 1];
+  }
+
+  // Shares that add up to 100% (or 1)
+  private sumsToWhole(measure: ColumnProfile): boolean {
+    if (measure.sum === undefined) {
+      return false;
+    }
+    return Math.abs(measure.sum - 100) < 0.5 || (measure.format === 'percent' && Math.abs(measure.sum - 1) < 0.005);
+  }
+
+  private comparisonBase(name: string): string | null {
+    const match = name.match(COMPARISON_NAME);
+    if (!match) {
+      return null;
+    }
+    return this.normalizeName(match[1] || match[2] || match[3]);
+  }
+
+  private normalizeName(name: string): string {
+    return name.replace(/[_\s-]/g, '').toLowerCase();
+  }
+
+  private listTitles(profiles: ColumnProfile[]): string {
+    const titles = profiles.map((profile, i) => i === 0 ? this.humanize(profile.name) : this.phrase(profile.name));
+    return titles.length <= 1 ? titles.join('') : `${titles.slice(0, -1).join(', ')} and ${titles[titles.length - 1]}`;
+  }
+
+  // A column name inside a sentence: "total sales"
+  private phrase(name: string): string {
+    return this.humanize(name).toLowerCase();
+  }
+
+  // total_sales and TotalSales both become "Total sales"
+  private humanize(name: string): string {
+    const words = name
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/[_-]+/g, ' ')
+      .trim()
+      .toLowerCase();
+    return words ? words.charAt(0).toUpperCase() + words.slice(1) : name;
+  }
+}
@@ -3,6 +3,9 @@ import { logger } from '../utils/logger';
 import { OpenAIService } from './openai';
 import { StorageService } from './storage';
 import { KeyVaultService } from './keyVaultService';
+import { resetSearchProvider } from './searchProvider';
+import { OidcService } from './oidcService';
+import { MailService } from './mailService';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface ConfigurationSection {
@@ -127,22 +130,47 @@ export class ConfigurationManager {
       'SQL_ENCRYPT', 'SQL_TRUST_SERVER_CERTIFICATE', 'SQL_POOL_MAX', 'SQL_POOL_MIN',
       'SQL_REQUEST_TIMEOUT', 'SQL_CONNECTION_TIMEOUT',
       'AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_DEPLOYMENT_NAME',
+      'CHAT_HISTORY_TOKEN_BUDGET', 'CHAT_HISTORY_MIN_RECENT_MESSAGES', 'CHAT_SUMMARY_MAX_TOKENS',
       'AZURE_STORAGE_ACCOUNT_NAME', 'AZURE_STORAGE_CONNECTION_STRING', 'AZURE_STORAGE_CONTAINER_NAME',
       'AZURE_TENANT_ID', 'AZURE_CLIENT_ID', 'AZURE_CLIENT_SECRET',
-      'FABRIC_WORKSPACE_ID', 'FABRIC_CAPACITY_ID', 'FABRIC_DATASET_ID',
-      'JWT_SECRET', 'ADMIN_EMAILS', 'SESSION_TIMEOUT'
+      'FABRIC_WORKSPACE_ID', 'FABRIC_CAPACITY_ID', 'FABRIC_DATASET_ID', 'FABRIC_API_BASE_URL',
+      'SEARCH_PROVIDER', 'AZURE_AI_SEARCH_ENDPOINT', 'AZURE_AI_SEARCH_API_KEY',
+      'LOCAL_SEARCH_DATA_DIR', 'LOCAL_SEARCH_VECTOR_WEIGHT', 'AZURE_OPENAI_EMBEDDING_DEPLOYMENT',
+      'AZURE_OPENAI_EMBEDDING_DIMENSIONS', 'SEARCH_MODE', 'SEARCH_RERANKER', 'RAG_MIN_RELEVANCE',
+      'JWT_SECRET', 'ACCESS_TOKEN_EXPIRES_IN', 'REFRESH_TOKEN_EXPIRES_DAYS', 'ADMIN_EMAILS', 'SESSION_TIMEOUT',
+      'MICROSOFT_REDIRECT_URI', 'REQUIRE_EMAIL_VERIFICATION', 'LOGIN_MAX_FAILED_ATTEMPTS', 'LOGIN_LOCKOUT_MINUTES',
+      'TWO_FACTOR_REQUIRED_ROLES', 'TWO_FACTOR_ENCRYPTION_KEY', 'ACCOUNT_DELETION_GRACE_DAYS', 'ACCOUNT_DELETION_MODE',
+      'CONNECTION_KEY_SOURCE', 'CONNECTION_MASTER_KEY_NAME', 'CONNECTION_KEY_FILE',
+      'MAIL_TRANSPORT', 'MAIL_FROM', 'MAIL_OUTBOX_DIR', 'MAIL_WEBHOOK_URL', 'MAIL_WEBHOOK_API_KEY', 'APP_BASE_URL',
+      // Sign-in providers are named by the deployment, so their settings can't be listed here
+      ...Object.keys(process.env).filter(envVar => envVar.startsWith('OIDC_'))
     ];
 
     const sectionMap: Record<string, string> = {
       'SQL_': 'database',
+      'AZURE_OPENAI_EMBEDDING_': 'search',
       'AZURE_OPENAI_': 'openai',
+      'CHAT_': 'openai',
       'AZURE_STORAGE_': 'storage',
       'AZURE_TENANT_': 'identity',
       'AZURE_CLIENT_': 'identity',
       'FABRIC_': 'fabric',
+      'SEARCH_': 'search',
+      'AZURE_AI_SEARCH_': 'search',
+      'LOCAL_SEARCH_': 'search',
+      'RAG_': 'search',
       'JWT_': 'security',
       'ADMIN_': 'security',
-      'SESSION_': 'security'
+      'SESSION_': 'security',
+      'REFRESH_TOKEN_': 'security',
+      'OIDC_': 'oidc',
+      'MICROSOFT_REDIRECT_': 'oidc',
+      'REQUIRE_EMAIL_': 'security',
+      'LOGIN_': 'security',
+      'TWO_FACTOR_': 'security',
+      'ACCOUNT_DELETION_': 'security',
+      'CONNECTION_': 'security',
+      'MAIL_': 'mail'
     };
 
     for (const envVar of envVars) {
@@ -266,8 +294,16 @@ export class ConfigurationManager {
     return result;
   }
 
+  /**
+   * Gets an unmasked configuration value for use by services, falling back to the
+   * environment when the configuration hasn't been loaded or doesn't define the key
+   */
+  public getValue(section: string, key: string, defaultValue?: string): string | undefined {
+    return this.configurations.get(`${section}.${key}`) ?? process.env[key] ?? defaultValue;
+  }
+
   public getAllConfigurations(): Record<string, Record<string, string>> {
-    const sections = ['database', 'openai', 'storage', 'identity', 'fabric', 'security'];
+    const sections = ['database', 'openai', 'storage', 'identity', 'fabric', 'search', 'security', 'oidc', 'mail'];
     const result: Record<string, Record<string, string>> = {};
     
     for (const section of sections) {
@@ -277,7 +313,7 @@ export class ConfigurationManager {
     return result;
   }
 
-  private isSensitiveKey(key: string): boolean {
+  public isSensitiveKey(key: string): boolean {
     const sensitiveKeys = ['password', 'secret', 'key', 'connection_string'];
     return sensitiveKeys.some(sensitive => key.toLowerCase().includes(sensitive));
   }
@@ -310,6 +346,20 @@ export class ConfigurationManager {
           await dbManager.reinitialize();
           break;
         
+        case 'search':
+          // Pick up a new provider, Azure credentials or local data directory
+          resetSearchProvider();
+          break;
+        
+        case 'oidc':
+          // Re-discover providers whose issuer or keys may have changed
+          OidcService.getInstance().reset();
+          break;
+        
+        case 'mail':
+          MailService.resetInstance();
+          break;
+        
         default:
           logger.info(`No service reinitialization needed for section: ${section}`);
       }
@@ -422,6 +472,14 @@ export class ConfigurationManager {
         if (!config.AZURE_OPENAI_DEPLOYMENT_NAME) {
           warnings.push('Deployment name not set, using default: gpt-4');
         }
+        for (const key of ['CHAT_HISTORY_TOKEN_BUDGET', 'CHAT_HISTORY_MIN_RECENT_MESSAGES', 'CHAT_SUMMARY_MAX_TOKENS']) {
+          if (config[key] && !(parseInt(config[key], 10) > 0)) {
+            errors.push(`${key} must be a positive number`);
+          }
+        }
+        if (parseInt(config.CHAT_SUMMARY_MAX_TOKENS, 10) >= parseInt(config.CHAT_HISTORY_TOKEN_BUDGET, 10)) {
+          errors.push('Chat summary size must be smaller than the chat history token budget');
+        }
         break;
 
       case 'storage':
@@ -439,11 +497,100 @@ export class ConfigurationManager {
         }
         break;
 
+      case 'search': {
+        const provider = (config.SEARCH_PROVIDER || '').toLowerCase();
+        if (provider && provider !== 'azure' && provider !== 'local') {
+          errors.push("Search provider must be 'azure' or 'local'");
+        }
+        if (provider === 'azure') {
+          if (!config.AZURE_AI_SEARCH_ENDPOINT) errors.push('Azure AI Search endpoint is required');
+          if (!config.AZURE_AI_SEARCH_API_KEY) errors.push('Azure AI Search API key is required');
+        }
+        if (!provider) {
+          warnings.push('Search provider not set, using Azure AI Search when an API key is configured and the local store otherwise');
+        }
+        if (provider !== 'azure' && !config.LOCAL_SEARCH_DATA_DIR) {
+          warnings.push('Local search data directory not set, using default: data/search-indexes');
+        }
+        if (config.SEARCH_MODE && !['keyword', 'vector', 'hybrid'].includes(config.SEARCH_MODE.toLowerCase())) {
+          errors.push("Search mode must be 'keyword', 'vector' or 'hybrid'");
+        }
+        if (config.SEARCH_RERANKER && !['semantic', 'lexical', 'none'].includes(config.SEARCH_RERANKER.toLowerCase())) {
+          errors.push("Search reranker must be 'semantic', 'lexical' or 'none'");
+        }
+        if (config.SEARCH_RERANKER?.toLowerCase() === 'semantic' && provider === 'local') {
+          warnings.push('The semantic reranker requires Azure AI Search, the local provider uses the lexical reranker');
+        }
+        if (config.RAG_MIN_RELEVANCE) {
+          const minRelevance = parseFloat(config.RAG_MIN_RELEVANCE);
+          if (isNaN(minRelevance) || minRelevance < 0 || minRelevance > 1) {
+            errors.push('RAG minimum relevance must be between 0 and 1');
+          }
+        }
+        if (config.LOCAL_SEARCH_VECTOR_WEIGHT) {
+          const weight = parseFloat(config.LOCAL_SEARCH_VECTOR_WEIGHT);
+          if (isNaN(weight) || weight < 0 || weight > 1) {
+            errors.push('Local search vector weight must be between 0 and 1');
+          }
+        }
+        break;
+      }
+
       case 'security':
         if (!config.JWT_SECRET || config.JWT_SECRET.includes('••••')) {
           errors.push('JWT secret is required');
         }
+        for (const key of ['LOGIN_MAX_FAILED_ATTEMPTS', 'LOGIN_LOCKOUT_MINUTES', 'REFRESH_TOKEN_EXPIRES_DAYS']) {
+          if (config[key] && !(parseInt(config[key], 10) > 0)) {
+            errors.push(`${key} must be a positive number`);
+          }
+        }
+        if (config.TWO_FACTOR_REQUIRED_ROLES !== undefined &&
+            !config.TWO_FACTOR_REQUIRED_ROLES.split(',').map(role => role.trim().toLowerCase()).includes('admin')) {
+          warnings.push('Two-factor authentication is not required for admins');
+        }
+        break;
+
+      case 'mail': {
+        const transport = (config.MAIL_TRANSPORT || 'console').toLowerCase();
+        if (!['console', 'file', 'webhook'].includes(transport)) {
+          errors.push("Mail transport must be 'console', 'file' or 'webhook'");
+        }
+        if (transport === 'webhook' && !config.MAIL_WEBHOOK_URL) {
+          errors.push('Mail webhook URL is required for the webhook transport');
+        }
+        if (transport === 'console') {
+          warnings.push('Emails are only written to the server log');
+        }
+        if (!config.MAIL_FROM) {
+          warnings.push('Sender not set, using default: no-reply@aiva.local');
+        }
         break;
+      }
+
+      case 'oidc': {
+        const providerIds = (config.OIDC_PROVIDERS || '').split(',').map(id => id.trim()).filter(Boolean);
+        if (providerIds.length === 0) {
+          warnings.push('No OIDC providers listed in OIDC_PROVIDERS, only Microsoft sign-in from the identity settings is available');
+        }
+        for (const id of providerIds) {
+          const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+          const issuer = config[`${prefix}ISSUER`];
+          if (!issuer) {
+            errors.push(`${prefix}ISSUER is required for provider '${id}'`);
+          } else if (!/^https:\/\//.test(issuer) && !/^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?(\/|$)/.test(issuer)) {
+            errors.push(`${prefix}ISSUER must be an https URL`);
+          }
+          if (!config[`${prefix}CLIENT_ID`]) errors.push(`${prefix}CLIENT_ID is required for provider '${id}'`);
+          if (!config[`${prefix}REDIRECT_URI`] && !config.OIDC_REDIRECT_URI) {
+            errors.push(`${prefix}REDIRECT_URI or OIDC_REDIRECT_URI is required for provider '${id}'`);
+          }
+          if (!config[`${prefix}CLIENT_SECRET`]) {
+            warnings.push(`No client secret for provider '${id}', it will be used as a public client with PKCE only`);
+          }
+        }
+        break;
+      }
     }
 
     return {
@@ -0,0 +1,449 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sql from 'mssql';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../config/database';
+import { ConfigurationManager } from './configurationManager';
+import { KeyVaultService } from './keyVaultService';
+import { logger } from '../utils/logger';
+
+export type MasterKeySourceType = 'keyvault' | 'file';
+
+export interface ConnectionKeyStatus {
+  source: MasterKeySourceType;
+  masterKeyId: string;
+  previousMasterKeyId: string | null;
+  activeDataKeyId: string | null;
+  dataKeys: { id: string; status: 'active' | 'retired'; masterKeyId: string; connections: number; createdAt: Date; retiredAt: Date | null }[];
+  plaintextConnections: number;
+}
+
+export class ConnectionSecretError extends Error {
+  constructor(message: string, public statusCode: number = 500) {
+    super(message);
+    this.name = 'ConnectionSecretError';
+  }
+}
+
+interface MasterKeyring {
+  current: Buffer;
+  previous: Buffer | null;
+}
+
+// Where the master key lives. The previous key is kept after a rotation so data keys that
+// haven't been rewrapped yet stay readable.
+interface MasterKeySource {
+  type: MasterKeySourceType;
+  load(): Promise<MasterKeyring>;
+  save(keyring: MasterKeyring): Promise<void>;
+}
+
+class KeyVaultMasterKeySource implements MasterKeySource {
+  public type: MasterKeySourceType = 'keyvault';
+
+  constructor(private secretName: string) {}
+
+  public async load(): Promise<MasterKeyring> {
+    const keyVault = await this.getKeyVault();
+    const [current, previous] = await Promise.all([
+      keyVault.getSecret(this.secretName),
+      keyVault.getSecret(`${this.secretName}-previous`)
+    ]);
+    if (!current) {
+      const keyring = { current: crypto.randomBytes(32), previous: null };
+      await this.save(keyring);
+      logger.info(`Created connection master key in Key Vault secret '${this.secretName}'`);
+      return keyring;
+    }
+    return { current: decodeKey(current), previous: previous ? decodeKey(previous) : null };
+  }
+
+  public async save(keyring: MasterKeyring): Promise<void> {
+    const keyVault = await this.getKeyVault();
+    // The previous key is written first so a failed rotation never loses the key in use
+    if (keyring.previous) {
+      await keyVault.setSecret(`${this.secretName}-previous`, keyring.previous.toString('base64'));
+    }
+    await keyVault.setSecret(this.secretName, keyring.current.toString('base64'));
+  }
+
+  private async getKeyVault(): Promise<KeyVaultService> {
+    const keyVault = KeyVaultService.getInstance();
+    if (!keyVault.isInitialized()) {
+      await keyVault.initialize();
+    }
+    return keyVault;
+  }
+}
+
+class FileMasterKeySource implements MasterKeySource {
+  public type: MasterKeySourceType = 'file';
+
+  constructor(private filePath: string) {}
+
+  public async load(): Promise<MasterKeyring> {
+    const previousPath = `${this.filePath}.previous`;
+    if (!fs.existsSync(this.filePath)) {
+      // A generated key that is lost makes every stored password unreadable, so production
+      // deployments have to provide theirs
+      if (process.env.NODE_ENV === 'production') {
+        throw new ConnectionSecretError(`Connection master key file ${this.filePath} not found`);
+      }
+      const keyring = { current: crypto.randomBytes(32), previous: null };
+      await this.save(keyring);
+      logger.warn(`Generated a development connection master key at ${this.filePath}`);
+      return keyring;
+    }
+    return {
+      current: decodeKey(await fs.promises.readFile(this.filePath, 'utf8')),
+      previous: fs.existsSync(previousPath) ? decodeKey(await fs.promises.readFile(previousPath, 'utf8')) : null
+    };
+  }
+
+  public async save(keyring: MasterKeyring): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    if (keyring.previous) {
+      await fs.promises.writeFile(`${this.filePath}.previous`, keyring.previous.toString('base64'), { mode: 0o600 });
+    }
+    await fs.promises.writeFile(this.filePath, keyring.current.toString('base64'), { mode: 0o600 });
+  }
+}
+
+const decodeKey = (value: string): Buffer => {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new ConnectionSecretError('Connection master key must be 32 bytes, base64-encoded');
+  }
+  return key;
+};
+
+/**
+ * Envelope encryption for the passwords of external database connections. Each password is
+ * encrypted with AES-256-GCM under a data key, and data keys are stored in ConnectionDataKeys
+ * wrapped by a master key kept in Key Vault or, for development, in a local key file.
+ * Passwords are only decrypted when a connection is used; listing connections never does.
+ *
+ * Stored values look like `enc:v1:<dataKeyId>:<iv>:<tag>:<ciphertext>`, and the connection id
+ * is bound in as associated data so a value can't be copied to another connection.
+ */
+export class ConnectionSecretService {
+  private static instance: ConnectionSecretService;
+  private static readonly PREFIX = 'enc:v1:';
+  private static readonly DATA_KEY_CACHE_MS = 5 * 60 * 1000;
+  private dbManager: DatabaseManager;
+  private keyring: MasterKeyring | null = null;
+  private dataKeys = new Map<string, { key: Buffer; loadedAt: number }>();
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): ConnectionSecretService {
+    if (!ConnectionSecretService.instance) {
+      ConnectionSecretService.instance = new ConnectionSecretService();
+    }
+    return ConnectionSecretService.instance;
+  }
+
+  public isEncrypted(value: string | null | undefined): boolean {
+    return !!value && value.startsWith(ConnectionSecretService.PREFIX);
+  }
+
+  public async encrypt(connectionId: string, plaintext: string): Promise<string> {
+    const { id, key } = await this.getActiveDataKey();
+    return this.encryptWithKey(connectionId, plaintext, id, key);
+  }
+
+  public async decrypt(connectionId: string, stored: string): Promise<string> {
+    if (!this.isEncrypted(stored)) {
+      // Rows written before encryption, until the startup migration has run
+      return stored;
+    }
+
+    const [dataKeyId, iv, tag, ciphertext] = stored.slice(ConnectionSecretService.PREFIX.length).split(':');
+    const key = await this.getDataKey(dataKeyId);
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+      decipher.setAAD(Buffer.from(connectionId, 'utf8'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new ConnectionSecretError('Stored connection credentials could not be decrypted');
+    }
+  }
+
+  /**
+   * Encrypts connection passwords that are still stored in plaintext
+   * @returns The number of rows encrypted
+   */
+  public async migratePlaintextSecrets(): Promise<number> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('prefix', sql.NVarChar, `${ConnectionSecretService.PREFIX}%`)
+      .query(`
+        SELECT id, password FROM DatabaseConnections
+        WHERE password IS NOT NULL AND password <> '' AND password NOT LIKE @prefix
+      `);
+
+    for (const row of result.recordset) {
+      await pool.request()
+        .input('id', sql.NVarChar, row.id)
+        .input('password', sql.NVarChar, await this.encrypt(row.id, row.password))
+        .input('plaintext', sql.NVarChar, row.password)
+        .query(`
+          UPDATE DatabaseConnections SET password = @password, updatedAt = GETUTCDATE()
+          WHERE id = @id AND password = @plaintext
+        `);
+    }
+
+    if (result.recordset.length > 0) {
+      logger.info(`Encrypted ${result.recordset.length} plaintext connection passwords`);
+    }
+    return result.recordset.length;
+  }
+
+  /**
+   * Starts a new data key, re-encrypts every connection password with it and retires the
+   * old keys
+   */
+  public async rotateDataKey(): Promise<{ dataKeyId: string; reencrypted: number }> {
+    const pool = await this.dbManager.getPool();
+    const keyring = await this.getKeyring();
+    const newKey = crypto.randomBytes(32);
+    const newKeyId = uuidv4();
+
+    const rows = await pool.request().query(`
+      SELECT id, password FROM DatabaseConnections WHERE password IS NOT NULL AND password <> ''
+    `);
+    const updates: { id: string; password: string }[] = [];
+    for (const row of rows.recordset) {
+      const plaintext = await this.decrypt(row.id, row.password);
+      updates.push({ id: row.id, password: this.encryptWithKey(row.id, plaintext, newKeyId, newKey) });
+    }
+
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+    try {
+      await new sql.Request(transaction)
+        .input('id', sql.NVarChar, newKeyId)
+        .input('wrappedKey', sql.NVarChar, this.wrap(newKey, keyring.current))
+        .input('masterKeyId', sql.NVarChar, this.fingerprint(keyring.current))
+        .query(`
+          INSERT INTO ConnectionDataKeys (id, wrappedKey, masterKeyId, status)
+          VALUES (@id, @wrappedKey, @masterKeyId, 'active')
+        `);
+      for (const update of updates) {
+        await new sql.Request(transaction)
+          .input('id', sql.NVarChar, update.id)
+          .input('password', sql.NVarChar, update.password)
+          .query('UPDATE DatabaseConnections SET password = @password, updatedAt = GETUTCDATE() WHERE id = @id');
+      }
+      await new sql.Request(transaction)
+        .input('id', sql.NVarChar, newKeyId)
+        .query(`
+          UPDATE ConnectionDataKeys SET status = 'retired', retiredAt = GETUTCDATE()
+          WHERE status = 'active' AND id <> @id
+        `);
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    this.dataKeys.clear();
+    this.dataKeys.set(newKeyId, { key: newKey, loadedAt: Date.now() });
+    logger.info(`Rotated connection data key to ${newKeyId}, re-encrypted ${updates.length} passwords`);
+    return { dataKeyId: newKeyId, reencrypted: updates.length };
+  }
+
+  /**
+   * Replaces the master key and rewraps every data key with it. The old master key is kept
+   * as the previous key, so data keys stay readable if the rewrap is interrupted.
+   */
+  public async rotateMasterKey(): Promise<{ masterKeyId: string; rewrapped: number }> {
+    const pool = await this.dbManager.getPool();
+    const source = this.getSource();
+    const oldKeyring = await this.getKeyring();
+    const oldMasterKeyId = this.fingerprint(oldKeyring.current);
+
+    // Finish an interrupted rotation first: keys still under the previous master key would
+    // become unreadable once it is replaced
+    await this.rewrapDataKeys(oldKeyring, oldKeyring.current, row => row.masterKeyId !== oldMasterKeyId);
+
+    const keyring = { current: crypto.randomBytes(32), previous: oldKeyring.current };
+    await source.save(keyring);
+    this.keyring = keyring;
+
+    const masterKeyId = this.fingerprint(keyring.current);
+    const rewrapped = await this.rewrapDataKeys(keyring, keyring.current, () => true);
+
+    logger.info(`Rotated connection master key to ${masterKeyId}, rewrapped ${rewrapped} data keys`);
+    return { masterKeyId, rewrapped };
+  }
+
+  private async rewrapDataKeys(
+    keyring: MasterKeyring,
+    masterKey: Buffer,
+    filter: (row: { id: string; masterKeyId: string }) => boolean
+  ): Promise<number> {
+    const pool = await this.dbManager.getPool();
+    const keys = await pool.request().query('SELECT id, wrappedKey, masterKeyId FROM ConnectionDataKeys');
+    const rows = keys.recordset.filter(filter);
+    for (const row of rows) {
+      const dataKey = this.unwrap(row.wrappedKey, this.masterKeyFor(row.masterKeyId, keyring));
+      await pool.request()
+        .input('id', sql.NVarChar, row.id)
+        .input('wrappedKey', sql.NVarChar, this.wrap(dataKey, masterKey))
+        .input('masterKeyId', sql.NVarChar, this.fingerprint(masterKey))
+        .query('UPDATE ConnectionDataKeys SET wrappedKey = @wrappedKey, masterKeyId = @masterKeyId WHERE id = @id');
+    }
+    return rows.length;
+  }
+
+  public async getStatus(): Promise<ConnectionKeyStatus> {
+    const pool = await this.dbManager.getPool();
+    const keyring = await this.getKeyring();
+    const [keys, plaintext] = await Promise.all([
+      pool.request().query(`
+        SELECT k.id, k.status, k.masterKeyId, k.createdAt, k.retiredAt,
+               (SELECT COUNT(*) FROM DatabaseConnections c WHERE c.password LIKE 'enc:v1:' + k.id + ':%') AS connections
+        FROM ConnectionDataKeys k
+        ORDER BY k.createdAt DESC
+      `),
+      pool.request()
+        .input('prefix', sql.NVarChar, `${ConnectionSecretService.PREFIX}%`)
+        .query(`
+          SELECT COUNT(*) AS count FROM DatabaseConnections
+          WHERE password IS NOT NULL AND password <> '' AND password NOT LIKE @prefix
+        `)
+    ]);
+
+    return {
+      source: this.getSource().type,
+      masterKeyId: this.fingerprint(keyring.current),
+      previousMasterKeyId: keyring.previous ? this.fingerprint(keyring.previous) : null,
+      activeDataKeyId: keys.recordset.find((key: any) => key.status === 'active')?.id || null,
+      dataKeys: keys.recordset,
+      plaintextConnections: plaintext.recordset[0]?.count || 0
+    };
+  }
+
+  private async getActiveDataKey(): Promise<{ id: string; key: Buffer }> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request().query(`
+      SELECT TOP 1 id FROM ConnectionDataKeys WHERE status = 'active' ORDER BY createdAt DESC
+    `);
+    if (result.recordset[0]) {
+      const id = result.recordset[0].id;
+      return { id, key: await this.getDataKey(id) };
+    }
+
+    const keyring = await this.getKeyring();
+    const id = uuidv4();
+    const key = crypto.randomBytes(32);
+    await pool.request()
+      .input('id', sql.NVarChar, id)
+      .input('wrappedKey', sql.NVarChar, this.wrap(key, keyring.current))
+      .input('masterKeyId', sql.NVarChar, this.fingerprint(keyring.current))
+      .query(`
+        INSERT INTO ConnectionDataKeys (id, wrappedKey, masterKeyId, status)
+        VALUES (@id, @wrappedKey, @masterKeyId, 'active')
+      `);
+    this.dataKeys.set(id, { key, loadedAt: Date.now() });
+    logger.info(`Created connection data key ${id}`);
+    return { id, key };
+  }
+
+  private async getDataKey(id: string): Promise<Buffer> {
+    const cached = this.dataKeys.get(id);
+    if (cached && Date.now() - cached.loadedAt < ConnectionSecretService.DATA_KEY_CACHE_MS) {
+      return cached.key;
+    }
+
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, id)
+      .query('SELECT wrappedKey, masterKeyId FROM ConnectionDataKeys WHERE id = @id');
+    const row = result.recordset[0];
+    if (!row) {
+      throw new ConnectionSecretError(`Connection data key ${id} not found`);
+    }
+
+    let keyring = await this.getKeyring();
+    if (!this.hasMasterKey(row.masterKeyId, keyring)) {
+      // The master key may have been rotated by another instance
+      this.keyring = null;
+      keyring = await this.getKeyring();
+    }
+    const key = this.unwrap(row.wrappedKey, this.masterKeyFor(row.masterKeyId, keyring));
+    this.dataKeys.set(id, { key, loadedAt: Date.now() });
+    return key;
+  }
+
+  private async getKeyring(): Promise<MasterKeyring> {
+    if (!this.keyring) {
+      this.keyring = await this.getSource().load();
+    }
+    return this.keyring;
+  }
+
+  // CONNECTION_KEY_SOURCE picks the source; by default Key Vault is used when one is configured
+  private getSource(): MasterKeySource {
+    const config = ConfigurationManager.getInstance();
+    const configured = config.getValue('security', 'CONNECTION_KEY_SOURCE');
+    const useKeyVault = configured
+      ? configured === 'keyvault'
+      : !!(process.env.AZURE_KEY_VAULT_URL || process.env.KEY_VAULT_URL);
+
+    return useKeyVault
+      ? new KeyVaultMasterKeySource(config.getValue('security', 'CONNECTION_MASTER_KEY_NAME') || 'connection-master-key')
+      : new FileMasterKeySource(path.resolve(config.getValue('security', 'CONNECTION_KEY_FILE') || './data/connection-master.key'));
+  }
+
+  private hasMasterKey(masterKeyId: string, keyring: MasterKeyring): boolean {
+    return masterKeyId === this.fingerprint(keyring.current)
+      || (!!keyring.previous && masterKeyId === this.fingerprint(keyring.previous));
+  }
+
+  private masterKeyFor(masterKeyId: string, keyring: MasterKeyring): Buffer {
+    if (masterKeyId === this.fingerprint(keyring.current)) {
+      return keyring.current;
+    }
+    if (keyring.previous && masterKeyId === this.fingerprint(keyring.previous)) {
+      return keyring.previous;
+    }
+    throw new ConnectionSecretError(`Master key ${masterKeyId} is not available`);
+  }
+
+  private encryptWithKey(connectionId: string, plaintext: string, dataKeyId: string, key: Buffer): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(connectionId, 'utf8'));
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return ConnectionSecretService.PREFIX + [dataKeyId, iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+  }
+
+  private wrap(dataKey: Buffer, masterKey: Buffer): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', masterKey, iv);
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return [iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+  }
+
+  private unwrap(wrappedKey: string, masterKey: Buffer): Buffer {
+    const [iv, tag, encrypted] = wrappedKey.split(':');
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', masterKey, Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]);
+    } catch {
+      throw new ConnectionSecretError('Connection data key could not be unwrapped with the master key');
+    }
+  }
+
+  // Identifies a master key without revealing it
+  private fingerprint(masterKey: Buffer): string {
+    return crypto.createHash('sha256').update(masterKey).digest('hex').substring(0, 16);
+  }
+}
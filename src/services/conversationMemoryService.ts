@@ -0,0 +1,164 @@
+import sql from 'mssql';
+import { OpenAIService, ChatMessage } from './openai';
+import { ConfigurationManager } from './configurationManager';
+import { logger } from '../utils/logger';
+
+interface StoredMessage {
+  id: string;
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatSummary {
+  summary: string | null;
+  summaryThroughMessageId: string | null;
+}
+
+/**
+ * Keeps the chat history sent to the model within a token budget. When a chat outgrows
+ * the budget, its older turns are condensed into a rolling summary stored on the chat and
+ * only the most recent turns are sent verbatim.
+ */
+export class ConversationMemoryService {
+  private static instance: ConversationMemoryService;
+  // Rough size of a token in English text, good enough for budgeting without a tokenizer
+  private static readonly CHARS_PER_TOKEN = 4;
+  // Role and formatting overhead the API adds per message
+  private static readonly TOKENS_PER_MESSAGE = 4;
+  private static readonly SUMMARY_PREFIX = 'Summary of the earlier conversation:\n';
+
+  private constructor() {}
+
+  public static getInstance(): ConversationMemoryService {
+    if (!ConversationMemoryService.instance) {
+      ConversationMemoryService.instance = new ConversationMemoryService();
+    }
+    return ConversationMemoryService.instance;
+  }
+
+  /**
+   * Builds the history for the next completion from the chat's active branch: the rolling
+   * summary, if any, followed by the turns since. Older turns are folded into the summary
+   * first when over budget.
+   * @param pool - Database connection
+   * @param chatId - The chat to load
+   * @param excludeMessageId - A message to leave out, e.g. the user message being answered
+   * @returns Messages to place between the system prompt and the new user message
+   */
+  public async getChatHistory(
+    pool: sql.ConnectionPool,
+    chatId: string,
+    excludeMessageId?: string
+  ): Promise<ChatMessage[]> {
+    const chatResult = await pool.request()
+      .input('chatId', sql.NVarChar, chatId)
+      .query('SELECT summary, summaryThroughMessageId FROM Chats WHERE id = @chatId');
+    const chat: ChatSummary = chatResult.recordset[0] || { summary: null, summaryThroughMessageId: null };
+
+    const messageResult = await pool.request()
+      .input('chatId', sql.NVarChar, chatId)
+      .query('SELECT id, role, content FROM Messages WHERE chatId = @chatId AND isActive = 1 ORDER BY createdAt ASC, id ASC');
+    const messages: StoredMessage[] = messageResult.recordset.filter((msg: StoredMessage) => msg.id !== excludeMessageId);
+
+    // A summary only holds while the message it ends at is still on the active branch
+    let summary: string | null = null;
+    let pending = messages;
+    if (chat.summary && chat.summaryThroughMessageId) {
+      const cursor = messages.findIndex(msg => msg.id === chat.summaryThroughMessageId);
+      if (cursor >= 0) {
+        summary = chat.summary;
+        pending = messages.slice(cursor + 1);
+      }
+    }
+
+    const budget = this.getTokenBudget();
+    if (this.estimateTokens(pending) + this.estimateTextTokens(summary) <= budget) {
+      return this.toHistory(summary, pending);
+    }
+
+    // Keep the newest turns that fit next to a full-size summary, and at least a few of them
+    const summaryMaxTokens = this.getSummaryMaxTokens();
+    const minRecent = this.getMinRecentMessages();
+    let recentStart = pending.length;
+    let recentTokens = 0;
+    while (recentStart > 0) {
+      const messageTokens = this.estimateTokens([pending[recentStart - 1]]);
+      const keptCount = pending.length - recentStart;
+      if (keptCount >= minRecent && recentTokens + messageTokens > budget - summaryMaxTokens) {
+        break;
+      }
+      recentTokens += messageTokens;
+      recentStart--;
+    }
+
+    const toCondense = pending.slice(0, recentStart);
+    const recent = pending.slice(recentStart);
+    if (toCondense.length === 0) {
+      return this.toHistory(summary, recent);
+    }
+
+    try {
+      const newSummary = await OpenAIService.getInstance().summarizeConversation(
+        toCondense.map(msg => ({ role: msg.role, content: msg.content })),
+        summary,
+        summaryMaxTokens
+      );
+      const throughMessageId = toCondense[toCondense.length - 1].id;
+
+      await pool.request()
+        .input('chatId', sql.NVarChar, chatId)
+        .input('summary', sql.NVarChar, newSummary)
+        .input('throughMessageId', sql.NVarChar, throughMessageId)
+        .query(`
+          UPDATE Chats
+          SET summary = @summary,
+              summaryThroughMessageId = @throughMessageId,
+              summaryUpdatedAt = GETUTCDATE()
+          WHERE id = @chatId
+        `);
+
+      logger.info(`Condensed ${toCondense.length} messages of chat ${chatId} into its summary`);
+      return this.toHistory(newSummary, recent);
+    } catch (error) {
+      // Dropping the oldest turns is better than overflowing the context window
+      logger.warn(`Failed to summarize chat ${chatId}, sending only the recent turns:`, error);
+      return this.toHistory(summary, recent);
+    }
+  }
+
+  private toHistory(summary: string | null, messages: StoredMessage[]): ChatMessage[] {
+    const history: ChatMessage[] = messages.map(msg => ({ role: msg.role, content: msg.content }));
+    if (summary) {
+      history.unshift({ role: 'system', content: `${ConversationMemoryService.SUMMARY_PREFIX}${summary}` });
+    }
+    return history;
+  }
+
+  private estimateTokens(messages: StoredMessage[]): number {
+    return messages.reduce(
+      (total, msg) => total + this.estimateTextTokens(msg.content) + ConversationMemoryService.TOKENS_PER_MESSAGE,
+      0
+    );
+  }
+
+  private estimateTextTokens(text: string | null): number {
+    return text ? Math.ceil(text.length / ConversationMemoryService.CHARS_PER_TOKEN) : 0;
+  }
+
+  private getTokenBudget(): number {
+    return this.getPositiveInt('CHAT_HISTORY_TOKEN_BUDGET', 6000);
+  }
+
+  private getSummaryMaxTokens(): number {
+    return this.getPositiveInt('CHAT_SUMMARY_MAX_TOKENS', 500);
+  }
+
+  private getMinRecentMessages(): number {
+    return this.getPositiveInt('CHAT_HISTORY_MIN_RECENT_MESSAGES', 4);
+  }
+
+  private getPositiveInt(key: string, defaultValue: number): number {
+    const value = parseInt(ConfigurationManager.getInstance().getValue('openai', key) || '', 10);
+    return value > 0 ? value : defaultValue;
+  }
+}
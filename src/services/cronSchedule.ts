@@ -0,0 +1,229 @@
+export class CronScheduleError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'CronScheduleError';
+  }
+}
+
+interface CronField {
+  values: Set<number>;
+  unrestricted: boolean;     // Written as * or */n, which matters for the day fields
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];          // Names for min, min + 1, ...
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Far enough ahead for any valid expression, e.g. 29 February on a Monday
+const SEARCH_LIMIT_YEARS = 30;
+
+/**
+ * A five-field cron expression (minute, hour, day of month, month, day of week) evaluated in
+ * an IANA time zone. Supports `*`, lists, ranges, steps, month and weekday names and the
+ * `@daily`-style macros. As in Vixie cron, when both day fields are restricted a day matching
+ * either of them matches.
+ */
+export class CronSchedule {
+  private formatter: Intl.DateTimeFormat;
+
+  private constructor(
+    public readonly expression: string,
+    public readonly timeZone: string,
+    private fields: CronField[]
+  ) {
+    this.formatter = CronSchedule.createFormatter(timeZone);
+  }
+
+  /**
+   * Parses an expression; throws CronScheduleError when it is invalid, names an unknown time
+   * zone or never matches a date
+   */
+  public static parse(expression: string, timeZone: string = 'UTC'): CronSchedule {
+    const trimmed = expression.trim();
+    const expanded = MACROS[trimmed.toLowerCase()] || trimmed;
+    const parts = expanded.split(/\s+/);
+    if (parts.length !== 5) {
+      throw new CronScheduleError('A schedule needs five fields: minute, hour, day of month, month and day of week');
+    }
+
+    try {
+      CronSchedule.createFormatter(timeZone);
+    } catch {
+      throw new CronScheduleError(`Unknown time zone: ${timeZone}`);
+    }
+
+    const schedule = new CronSchedule(trimmed, timeZone, parts.map((part, index) => CronSchedule.parseField(part, FIELD_SPECS[index])));
+    schedule.next();
+    return schedule;
+  }
+
+  /**
+   * The first time after `after` (exclusive) that the schedule runs
+   */
+  public next(after: Date = new Date()): Date {
+    const [minutes, hours, , months] = this.fields;
+    // Search on the wall clock of the time zone, held in a Date as if it were UTC
+    let wall = Math.floor(this.toWallClock(after) / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+    const limit = wall + SEARCH_LIMIT_YEARS * 366 * 24 * 60 * MINUTE_MS;
+
+    while (wall < limit) {
+      const date = new Date(wall);
+      const [year, month, day, hour] = [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours()];
+
+      if (!months.values.has(month + 1)) {
+        wall = Date.UTC(year, month + 1, 1);
+      } else if (!this.matchesDay(date)) {
+        wall = Date.UTC(year, month, day + 1);
+      } else if (!hours.values.has(hour)) {
+        wall = Date.UTC(year, month, day, hour + 1);
+      } else if (!minutes.values.has(date.getUTCMinutes())) {
+        wall += MINUTE_MS;
+      } else {
+        const instant = this.fromWallClock(wall);
+        // Times moved past a gap, or to the second pass through a repeated hour, may not
+        // follow `after`
+        if (instant.getTime() > after.getTime()) {
+          return instant;
+        }
+        wall += MINUTE_MS;
+      }
+    }
+
+    throw new CronScheduleError(`The schedule "${this.expression}" never runs`);
+  }
+
+  /**
+   * The shortest gap in minutes between the next `count` runs, for refusing schedules that
+   * run too often
+   */
+  public minimumIntervalMinutes(count: number = 10, from: Date = new Date()): number {
+    let previous = this.next(from);
+    let shortest = Infinity;
+    for (let i = 1; i < count; i++) {
+      const current = this.next(previous);
+      shortest = Math.min(shortest, (current.getTime() - previous.getTime()) / MINUTE_MS);
+      previous = current;
+    }
+    return shortest;
+  }
+
+  private matchesDay(date: Date): boolean {
+    const [, , daysOfMonth, , daysOfWeek] = this.fields;
+    const dayOfMonth = daysOfMonth.values.has(date.getUTCDate());
+    const dayOfWeek = daysOfWeek.values.has(date.getUTCDay());
+    if (daysOfMonth.unrestricted || daysOfWeek.unrestricted) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+
+  // The wall-clock time in the schedule's zone at `instant`, as milliseconds since the epoch
+  private toWallClock(instant: Date): number {
+    const parts: Record<string, number> = {};
+    for (const part of this.formatter.formatToParts(instant)) {
+      if (part.type !== 'literal') {
+        parts[part.type] = parseInt(part.value, 10);
+      }
+    }
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  }
+
+  // The instant at which the zone's clock shows `wall`. Times skipped when clocks go forward
+  // are moved forward by the length of the gap, so 02:30 in a gap from 02:00 to 03:00 runs at
+  // 03:30. Times repeated when clocks go back resolve to their second occurrence.
+  private fromWallClock(wall: number): Date {
+    // The zone's offsets a day either side cover any transition near `wall`
+    const offsets = [wall - DAY_MS, wall, wall + DAY_MS].map(instant => this.toWallClock(new Date(instant)) - instant);
+    const matches = offsets.map(offset => wall - offset).filter(instant => this.toWallClock(new Date(instant)) === wall);
+    if (matches.length > 0) {
+      return new Date(Math.max(...matches));
+    }
+    // In a gap, the offset from before the transition (the smaller one) lands after the gap
+    return new Date(wall - Math.min(...offsets));
+  }
+
+  private static createFormatter(timeZone: string): Intl.DateTimeFormat {
+    return new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+  }
+
+  private static parseField(text: string, spec: FieldSpec): CronField {
+    const values = new Set<number>();
+
+    for (const item of text.split(',')) {
+      const [range, stepText, extra] = item.split('/');
+      if (extra !== undefined || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+        throw new CronScheduleError(`Invalid step in the ${spec.name} field: ${item}`);
+      }
+      const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+      if (step === 0) {
+        throw new CronScheduleError(`The step in the ${spec.name} field must be at least 1`);
+      }
+
+      let start: number;
+      let end: number;
+      if (range === '*') {
+        start = spec.min;
+        end = spec.max;
+      } else if (range.includes('-')) {
+        const [from, to] = range.split('-');
+        start = CronSchedule.parseValue(from, spec);
+        end = CronSchedule.parseValue(to, spec);
+      } else {
+        start = CronSchedule.parseValue(range, spec);
+        // 5/15 means every 15 starting at 5
+        end = stepText === undefined ? start : spec.max;
+      }
+      if (start > end) {
+        throw new CronScheduleError(`Invalid range in the ${spec.name} field: ${item}`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(spec.name === 'day of week' && value === 7 ? 0 : value);
+      }
+    }
+
+    return { values, unrestricted: text.startsWith('*') };
+  }
+
+  private static parseValue(text: string, spec: FieldSpec): number {
+    const nameIndex = spec.names ? spec.names.indexOf(text.toUpperCase()) : -1;
+    const value = nameIndex >= 0 ? spec.min + nameIndex : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+    if (isNaN(value) || value < spec.min || value > spec.max) {
+      throw new CronScheduleError(`Invalid value in the ${spec.name} field: ${text}`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,99 @@
+export type ExternalDatabaseType = 'fabric' | 'sql-server' | 'mysql' | 'postgresql' | 'oracle' | 'mongodb';
+
+export interface DriverConnectionConfig {
+  host: string;
+  port: number;
+  database?: string | null;
+  username?: string | null;
+  password?: string | null;     // Decrypted, only held for the duration of one call
+  encrypt: boolean;
+  trustServerCertificate: boolean;
+  connectTimeoutMs: number;
+}
+
+export interface DriverQueryOptions {
+  maxRows: number;
+  timeoutMs: number;
+  writable?: boolean;           // Commit instead of rolling back; only for connections in write mode
+}
+
+export interface DriverQueryResult {
+  columns: string[];
+  rows: any[];
+  truncated: boolean;           // More than maxRows rows were available
+  rowsAffected?: number;        // Rows a writable statement inserted, updated or deleted
+}
+
+export interface DriverProbeResult {
+  serverVersion: string | null;
+}
+
+export class DatabaseDriverError extends Error {
+  constructor(message: string, public statusCode: number = 502) {
+    super(message);
+    this.name = 'DatabaseDriverError';
+  }
+}
+
+/**
+ * Client for one type of external database. Each call opens its own connection and closes it
+ * before returning, so credentials are never kept in a pool. Queries run in a transaction
+ * that is rolled back (read-only where the database supports it), and stop after
+ * `maxRows + 1` rows or `timeoutMs`. Writable queries run in a transaction that is committed.
+ */
+export interface DatabaseDriver {
+  readonly type: ExternalDatabaseType;
+  probe(config: DriverConnectionConfig): Promise<DriverProbeResult>;
+  query(config: DriverConnectionConfig, query: string, options: DriverQueryOptions): Promise<DriverQueryResult>;
+}
+
+/**
+ * Gets the driver for a connection type. Drivers are required lazily, so the client library
+ * of a database only has to be installed when connections of that type are used.
+ */
+export function getDatabaseDriver(type: ExternalDatabaseType): DatabaseDriver {
+  switch (type) {
+    case 'sql-server':
+    case 'fabric': {
+      const { SqlServerDriver } = require('./sqlServerDriver');
+      return new SqlServerDriver(type);
+    }
+    case 'postgresql': {
+      const { PostgresDriver } = require('./postgresDriver');
+      return new PostgresDriver();
+    }
+    case 'mysql': {
+      const { MySqlDriver } = require('./mySqlDriver');
+      return new MySqlDriver();
+    }
+    case 'oracle': {
+      const { OracleDriver } = require('./oracleDriver');
+      return new OracleDriver();
+    }
+    case 'mongodb': {
+      const { MongoDriver } = require('./mongoDriver');
+      return new MongoDriver();
+    }
+    default:
+      throw new DatabaseDriverError(`Unsupported connection type: ${type}`, 400);
+  }
+}
+
+/**
+ * Requires a database client library, with an actionable error when it isn't installed
+ */
+export function loadDriverModule(moduleName: string, type: ExternalDatabaseType): any {
+  try {
+    return require(moduleName);
+  } catch (error: any) {
+    if (error?.code === 'MODULE_NOT_FOUND') {
+      throw new DatabaseDriverError(`The ${type} driver is not installed. Run npm install ${moduleName.split('/')[0]} to enable ${type} connections.`, 501);
+    }
+    throw error;
+  }
+}
+
+// Trailing semicolons are not accepted when a query is wrapped or sent to Oracle
+export function stripTrailingSemicolons(query: string): string {
+  return query.trim().replace(/(;\s*)+$/, '');
+}
@@ -0,0 +1,186 @@
+import { logger } from '../utils/logger';
+
+// Page breaks are marked with a form feed by FileAnalysisService when extracting PDFs
+export const PAGE_BREAK = '\f';
+
+export interface DocumentChunk {
+  chunkIndex: number;
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  pageNumber: number | null;
+  section: string | null;
+}
+
+export interface ChunkingOptions {
+  chunkSize?: number;     // Target chunk length in characters
+  chunkOverlap?: number;  // Characters shared between consecutive chunks
+}
+
+interface SectionMarker {
+  offset: number;
+  title: string;
+}
+
+export class DocumentChunkingService {
+  private static instance: DocumentChunkingService;
+  private defaultChunkSize: number;
+  private defaultChunkOverlap: number;
+
+  private constructor() {
+    // Roughly 800 tokens per chunk with 100 tokens of overlap (1 token ≈ 4 characters)
+    this.defaultChunkSize = parseInt(process.env.RAG_CHUNK_SIZE || '3200', 10);
+    this.defaultChunkOverlap = parseInt(process.env.RAG_CHUNK_OVERLAP || '400', 10);
+  }
+
+  public static getInstance(): DocumentChunkingService {
+    if (!DocumentChunkingService.instance) {
+      DocumentChunkingService.instance = new DocumentChunkingService();
+    }
+    return DocumentChunkingService.instance;
+  }
+
+  /**
+   * Splits extracted document text into overlapping passages
+   * @param text - Extracted document text (PDF pages separated by PAGE_BREAK)
+   * @param options - Chunk size and overlap in characters
+   * @returns Chunks with character offsets, page number and section heading
+   */
+  public chunkText(text: string, options: ChunkingOptions = {}): DocumentChunk[] {
+    const chunkSize = Math.max(options.chunkSize || this.defaultChunkSize, 200);
+    const chunkOverlap = Math.min(
+      Math.max(options.chunkOverlap ?? this.defaultChunkOverlap, 0),
+      Math.floor(chunkSize / 2)
+    );
+
+    if (!text || text.trim().length === 0) {
+      return [];
+    }
+
+    const pageBreaks = this.findPageBreaks(text);
+    const sections = this.findSections(text);
+    const chunks: DocumentChunk[] = [];
+
+    let start = this.skipWhitespace(text, 0);
+    while (start < text.length) {
+      let end = Math.min(start + chunkSize, text.length);
+      if (end < text.length) {
+        end = this.findBreakPoint(text, start, end);
+      }
+
+      const content = text.slice(start, end).replace(/\f/g, '\n').trim();
+      if (content.length > 0) {
+        chunks.push({
+          chunkIndex: chunks.length,
+          content,
+          startOffset: start,
+          endOffset: end,
+          pageNumber: pageBreaks.length > 0 ? this.pageAt(pageBreaks, start) : null,
+          section: this.sectionAt(sections, start)
+        });
+      }
+
+      if (end >= text.length) {
+        break;
+      }
+
+      // Step back by the overlap, then move forward to the next word so chunks don't start mid-word
+      let next = chunkOverlap > 0 ? Math.max(end - chunkOverlap, start + 1) : end;
+      if (next < end && !/\s/.test(text[next - 1])) {
+        while (next < end && !/\s/.test(text[next])) {
+          next++;
+        }
+      }
+      start = this.skipWhitespace(text, next);
+    }
+
+    logger.info(`Split document of ${text.length} characters into ${chunks.length} chunks`);
+    return chunks;
+  }
+
+  /**
+   * Prefers to end a chunk on a paragraph, then a sentence, then a word boundary
+   */
+  private findBreakPoint(text: string, start: number, end: number): number {
+    const minEnd = start + Math.floor((end - start) * 0.6);
+    const window = text.slice(minEnd, end);
+
+    const paragraph = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf(PAGE_BREAK));
+    if (paragraph !== -1) {
+      return minEnd + paragraph + 1;
+    }
+
+    for (let i = window.length - 2; i >= 0; i--) {
+      if ('.!?'.includes(window[i]) && /\s/.test(window[i + 1])) {
+        return minEnd + i + 1;
+      }
+    }
+
+    for (let i = window.length - 1; i >= 0; i--) {
+      if (/\s/.test(window[i])) {
+        return minEnd + i;
+      }
+    }
+
+    return end;
+  }
+
+  private skipWhitespace(text: string, offset: number): number {
+    while (offset < text.length && /\s/.test(text[offset])) {
+      offset++;
+    }
+    return offset;
+  }
+
+  private findPageBreaks(text: string): number[] {
+    const breaks: number[] = [];
+    let index = text.indexOf(PAGE_BREAK);
+    while (index !== -1) {
+      breaks.push(index);
+      index = text.indexOf(PAGE_BREAK, index + 1);
+    }
+    return breaks;
+  }
+
+  private pageAt(pageBreaks: number[], offset: number): number {
+    let page = 1;
+    for (const pageBreak of pageBreaks) {
+      if (pageBreak < offset) {
+        page++;
+      } else {
+        break;
+      }
+    }
+    return page;
+  }
+
+  /**
+   * Detects section headings: markdown headings, spreadsheet sheet markers and
+   * short numbered headings such as "2.1 Scope"
+   */
+  private findSections(text: string): SectionMarker[] {
+    const sections: SectionMarker[] = [];
+    const headingPattern = /^\f?(?:#{1,6}\s+(.+)|Sheet:\s+(.+)|(\d+(?:\.\d+)*\.?\s+[A-Z][^\n.!?]{1,80}))$/gm;
+
+    let match: RegExpExecArray | null;
+    while ((match = headingPattern.exec(text)) !== null) {
+      const title = (match[1] || match[2] || match[3] || '').trim();
+      if (title) {
+        sections.push({ offset: match.index, title: title.substring(0, 200) });
+      }
+    }
+    return sections;
+  }
+
+  private sectionAt(sections: SectionMarker[], offset: number): string | null {
+    let current: string | null = null;
+    for (const section of sections) {
+      if (section.offset <= offset) {
+        current = section.title;
+      } else {
+        break;
+      }
+    }
+    return current;
+  }
+}
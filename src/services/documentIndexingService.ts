@@ -0,0 +1,260 @@
+import sql from 'mssql';
+import { DatabaseManager } from '../config/database';
+import { getSearchProvider } from './searchProvider';
+import { DocumentChunkingService } from './documentChunkingService';
+import { FileAnalysisService } from './fileAnalysisService';
+import { WorkspaceStorageService } from './workspaceStorage';
+import { logger } from '../utils/logger';
+
+export interface WorkspaceFileRecord {
+  id: string;
+  fileName: string;
+  originalName: string;
+  mimeType: string;
+  userId: string;
+  contentHash?: string | null;
+  indexedContentHash?: string | null;
+  indexVersion?: number | null;
+  indexedChunkCount?: number | null;
+  createdAt?: Date | string;
+}
+
+export interface IndexFileOptions {
+  force?: boolean;     // Reindex even if the file content and index version are unchanged
+}
+
+export interface FileIndexingResult {
+  fileId: string;
+  indexName: string;
+  indexed: boolean;
+  chunkCount: number;
+  skipped?: boolean;   // The file has no indexable text or is unchanged, retrying won't help
+  unchanged?: boolean; // The file was already indexed with the same content and index version
+  error?: string;
+}
+
+export class DocumentIndexingService {
+  private static instance: DocumentIndexingService;
+  // Bump when chunking or document fields change so existing files are reindexed
+  public static readonly INDEX_VERSION = 1;
+  private static readonly UPLOAD_BATCH_SIZE = 100;
+  private chunkingService: DocumentChunkingService;
+  private workspaceStorageService: WorkspaceStorageService;
+
+  private constructor() {
+    this.chunkingService = DocumentChunkingService.getInstance();
+    this.workspaceStorageService = WorkspaceStorageService.getInstance();
+  }
+
+  public static getInstance(): DocumentIndexingService {
+    if (!DocumentIndexingService.instance) {
+      DocumentIndexingService.instance = new DocumentIndexingService();
+    }
+    return DocumentIndexingService.instance;
+  }
+
+  /**
+   * Gets the search index name for a workspace
+   */
+  public getIndexName(workspaceId: string, workspaceName: string): string {
+    return `${this.workspaceStorageService.getWorkspaceFolderName(workspaceId, workspaceName)}index`;
+  }
+
+  /**
+   * Gets the blob path of a workspace file in the main container
+   */
+  public getBlobPath(workspaceId: string, workspaceName: string, fileName: string): string {
+    return `workspace/${this.workspaceStorageService.getWorkspaceFolderName(workspaceId, workspaceName)}/${fileName}`;
+  }
+
+  /**
+   * Creates the workspace index if needed, or adds the chunk fields to an existing one
+   * @returns True if the index is ready for chunk documents, false otherwise
+   */
+  public async ensureIndex(indexName: string): Promise<boolean> {
+    return await getSearchProvider().ensureIndex(indexName);
+  }
+
+  /**
+   * Removes a file's passages from the workspace index
+   * @returns The number of index documents deleted
+   */
+  public async deleteFileFromIndex(workspaceId: string, workspaceName: string, fileId: string): Promise<number> {
+    const indexName = this.getIndexName(workspaceId, workspaceName);
+    const searchProvider = getSearchProvider();
+    if (!(await searchProvider.indexExists(indexName))) {
+      return 0;
+    }
+    return await searchProvider.deleteFileDocuments(indexName, fileId);
+  }
+
+  /**
+   * Extracts the full text of a workspace file, splits it into overlapping passages and
+   * replaces the file's documents in the workspace index with one document per passage.
+   * Files whose content hash and index version match the last successful indexing are
+   * skipped unless forced.
+   * @param workspaceId - The workspace the file belongs to
+   * @param workspaceName - The workspace name (used for the blob path and index name)
+   * @param file - The WorkspaceFiles record
+   * @param options - Indexing options
+   * @returns Indexing outcome with the number of chunks written
+   */
+  public async indexWorkspaceFile(
+    workspaceId: string,
+    workspaceName: string,
+    file: WorkspaceFileRecord,
+    options: IndexFileOptions = {}
+  ): Promise<FileIndexingResult> {
+    const indexName = this.getIndexName(workspaceId, workspaceName);
+    const fileAnalysisService = FileAnalysisService.getInstance();
+    const blobPath = this.getBlobPath(workspaceId, workspaceName, file.fileName);
+    const containerName = process.env.AZURE_STORAGE_CONTAINER_NAME || 'aiva-files';
+    const force = options.force === true;
+
+    try {
+      // The upload hash lets unchanged files be skipped without downloading them
+      if (!force && file.contentHash && this.isIndexCurrent(file, file.contentHash) &&
+          await getSearchProvider().indexExists(indexName)) {
+        return this.unchangedResult(file, indexName);
+      }
+
+      const fileContentResult = await fileAnalysisService.extractFileContent(
+        blobPath,
+        file.originalName,
+        containerName,
+        { truncate: false }
+      );
+
+      if (fileContentResult.content.startsWith('[Content not available')) {
+        logger.warn(`Skipping indexing of file ${file.id}: ${fileContentResult.content}`);
+        return { fileId: file.id, indexName, indexed: false, chunkCount: 0, skipped: true, error: fileContentResult.content };
+      }
+
+      // Files uploaded before hashes were recorded get theirs from the downloaded content
+      const contentHash = fileContentResult.contentHash || file.contentHash || null;
+
+      // Analyze the content to get summary and key points for the whole file
+      let summary = '';
+      let keyPoints: string[] = [];
+
+      try {
+        const analysisResult = await fileAnalysisService.analyzeFile(blobPath, file.mimeType, containerName);
+        summary = analysisResult.summary || '';
+        keyPoints = analysisResult.keyPoints || [];
+      } catch (analysisError) {
+        logger.warn(`Failed to analyze file content for ${file.id}, using raw content:`, analysisError);
+        // Use first 500 characters as summary if analysis fails
+        summary = fileContentResult.content.substring(0, 500) + (fileContentResult.content.length > 500 ? '...' : '');
+      }
+
+      const chunks = this.chunkingService.chunkText(fileContentResult.content);
+      if (chunks.length === 0) {
+        await this.recordIndexState(file.id, contentHash, 0);
+        return { fileId: file.id, indexName, indexed: false, chunkCount: 0, skipped: true, error: 'No text content to index' };
+      }
+
+      const uploadedAt = file.createdAt ? new Date(file.createdAt).toISOString() : new Date().toISOString();
+      const documents = chunks.map(chunk => ({
+        id: `${file.id}_${chunk.chunkIndex}`,
+        content: chunk.content,
+        fileId: file.id,
+        chunkIndex: chunk.chunkIndex,
+        chunkCount: chunks.length,
+        pageNumber: chunk.pageNumber,
+        section: chunk.section,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+        fileName: file.originalName,
+        fileType: file.mimeType,
+        workspaceId,
+        workspaceName,
+        uploadedBy: file.userId,
+        uploadedAt,
+        summary,
+        keyPoints
+      }));
+
+      const indexReady = await this.ensureIndex(indexName);
+      if (!indexReady) {
+        return { fileId: file.id, indexName, indexed: false, chunkCount: 0, error: `Index ${indexName} is not available` };
+      }
+
+      // Drop the previous passages so a shorter re-extraction doesn't leave stale chunks behind
+      const searchProvider = getSearchProvider();
+      await searchProvider.deleteFileDocuments(indexName, file.id);
+
+      let indexedCount = 0;
+      for (let i = 0; i < documents.length; i += DocumentIndexingService.UPLOAD_BATCH_SIZE) {
+        const batch = documents.slice(i, i + DocumentIndexingService.UPLOAD_BATCH_SIZE);
+        if (await searchProvider.indexDocuments(indexName, batch)) {
+          indexedCount += batch.length;
+        }
+      }
+
+      // Only a complete upload counts, otherwise the next run must redo the missing batches
+      if (indexedCount === documents.length) {
+        await this.recordIndexState(file.id, contentHash, chunks.length);
+      }
+
+      logger.info(`Indexed file ${file.id} as ${chunks.length} chunks in index ${indexName}`);
+      return {
+        fileId: file.id,
+        indexName,
+        indexed: indexedCount > 0,
+        chunkCount: chunks.length,
+        error: indexedCount > 0 ? undefined : 'Failed to upload chunks to the search index'
+      };
+    } catch (error) {
+      logger.error(`Failed to index file ${file.id}:`, error);
+      return {
+        fileId: file.id,
+        indexName,
+        indexed: false,
+        chunkCount: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private isIndexCurrent(file: WorkspaceFileRecord, contentHash: string): boolean {
+    return file.indexedContentHash === contentHash && file.indexVersion === DocumentIndexingService.INDEX_VERSION;
+  }
+
+  private unchangedResult(file: WorkspaceFileRecord, indexName: string): FileIndexingResult {
+    logger.info(`Skipping indexing of file ${file.id}: content unchanged since last indexing`);
+    return {
+      fileId: file.id,
+      indexName,
+      indexed: false,
+      chunkCount: file.indexedChunkCount || 0,
+      skipped: true,
+      unchanged: true
+    };
+  }
+
+  /**
+   * Records the content hash and index version a file was indexed with
+   */
+  private async recordIndexState(fileId: string, contentHash: string | null, chunkCount: number): Promise<void> {
+    try {
+      const pool = await DatabaseManager.getInstance().getPool();
+      await pool.request()
+        .input('id', sql.NVarChar, fileId)
+        .input('contentHash', sql.NVarChar, contentHash)
+        .input('indexVersion', sql.Int, DocumentIndexingService.INDEX_VERSION)
+        .input('chunkCount', sql.Int, chunkCount)
+        .query(`
+          UPDATE WorkspaceFiles
+          SET contentHash = COALESCE(@contentHash, contentHash),
+              indexedContentHash = @contentHash,
+              indexVersion = @indexVersion,
+              indexedChunkCount = @chunkCount,
+              indexedAt = GETUTCDATE()
+          WHERE id = @id
+        `);
+    } catch (error) {
+      // The file is indexed either way; it will just be reprocessed next time
+      logger.warn(`Failed to record index state for file ${fileId}:`, error);
+    }
+  }
+}
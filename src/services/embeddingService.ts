@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { OpenAIService } from './openai';
+import { ConfigurationManager } from './configurationManager';
+import { logger } from '../utils/logger';
+
+export interface EmbeddingResult {
+  model: string;        // Identifies the vector space; vectors from different models can't be compared
+  vectors: number[][];
+}
+
+export class EmbeddingService {
+  private static instance: EmbeddingService;
+  private static readonly BATCH_SIZE = 16;
+  private static readonly HASH_DIMENSIONS = 256;
+  private static readonly HASH_MODEL = `local-hash-${EmbeddingService.HASH_DIMENSIONS}`;
+  // text-embedding-3-small and text-embedding-ada-002 both produce 1536 dimensions
+  private static readonly DEFAULT_DEPLOYMENT_DIMENSIONS = 1536;
+
+  private constructor() {}
+
+  public static getInstance(): EmbeddingService {
+    if (!EmbeddingService.instance) {
+      EmbeddingService.instance = new EmbeddingService();
+    }
+    return EmbeddingService.instance;
+  }
+
+  /**
+   * Embeds texts with the configured Azure OpenAI embedding deployment, or with a local
+   * hashing embedding when no deployment is configured (offline, CI, MOCK_OPENAI)
+   * @param texts - Texts to embed
+   * @returns The model used and one L2-normalized vector per text
+   */
+  public async embed(texts: string[]): Promise<EmbeddingResult> {
+    const deployment = this.getDeployment();
+    if (deployment && texts.length > 0) {
+      try {
+        const vectors: number[][] = [];
+        const openAIService = OpenAIService.getInstance();
+        for (let i = 0; i < texts.length; i += EmbeddingService.BATCH_SIZE) {
+          const batch = texts.slice(i, i + EmbeddingService.BATCH_SIZE);
+          const embeddings = await openAIService.getEmbeddings(batch, deployment, this.getConfiguredDimensions());
+          vectors.push(...embeddings.map(vector => this.normalize(vector)));
+        }
+        return { model: `azure-openai:${deployment}`, vectors };
+      } catch (error) {
+        logger.warn(`Embedding deployment ${deployment} failed, using local hashing embeddings:`, error);
+      }
+    }
+
+    return {
+      model: EmbeddingService.HASH_MODEL,
+      vectors: texts.map(text => this.hashEmbedding(text))
+    };
+  }
+
+  /**
+   * Gets the model identifier embed() will use, so callers can tell whether stored vectors
+   * are comparable without embedding anything
+   */
+  public getModel(): string {
+    const deployment = this.getDeployment();
+    return deployment ? `azure-openai:${deployment}` : EmbeddingService.HASH_MODEL;
+  }
+
+  /**
+   * Gets the vector size embed() produces, used when creating vector index fields
+   */
+  public getDimensions(): number {
+    if (!this.getDeployment()) {
+      return EmbeddingService.HASH_DIMENSIONS;
+    }
+    return this.getConfiguredDimensions() || EmbeddingService.DEFAULT_DEPLOYMENT_DIMENSIONS;
+  }
+
+  private getConfiguredDimensions(): number | undefined {
+    const dimensions = parseInt(
+      ConfigurationManager.getInstance().getValue('search', 'AZURE_OPENAI_EMBEDDING_DIMENSIONS') || '', 10
+    );
+    return dimensions > 0 ? dimensions : undefined;
+  }
+
+  private getDeployment(): string | null {
+    if (process.env.MOCK_OPENAI === 'true') {
+      return null;
+    }
+    return ConfigurationManager.getInstance().getValue('search', 'AZURE_OPENAI_EMBEDDING_DEPLOYMENT') || null;
+  }
+
+  /**
+   * Feature-hashes words and character trigrams into a fixed-size vector. Not semantic,
+   * but captures lexical overlap and spelling variants without any external service.
+   */
+  private hashEmbedding(text: string): number[] {
+    const vector = new Array(EmbeddingService.HASH_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = crypto.createHash('md5').update(feature).digest();
+      const bucket = hash.readUInt32LE(0) % EmbeddingService.HASH_DIMENSIONS;
+      // A second hash bit picks the sign so collisions tend to cancel out
+      vector[bucket] += (hash[4] & 1) === 0 ? weight : -weight;
+    };
+
+    for (const word of words) {
+      addFeature(`w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return this.normalize(vector);
+  }
+
+  private normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+}
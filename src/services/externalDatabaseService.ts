@@ -0,0 +1,237 @@
+import sql from 'mssql';
+import { DatabaseManager } from '../config/database';
+import { ConnectionSecretService } from './connectionSecretService';
+import { QueryGuardService } from './queryGuardService';
+import {
+  DatabaseDriverError,
+  DriverConnectionConfig,
+  ExternalDatabaseType,
+  getDatabaseDriver
+} from './databaseDriver';
+import { logger } from '../utils/logger';
+
+export interface ExternalConnection {
+  id: string;
+  userId: string;
+  name: string;
+  type: ExternalDatabaseType;
+  host: string;
+  port: number;
+  database: string | null;
+  username: string | null;
+  password: string | null;      // As stored, i.e. encrypted
+  encrypt: boolean;
+  trustServerCertificate: boolean;
+  allowWrites: boolean;         // Write mode, switched on by an admin
+}
+
+export interface ConnectionTestResult {
+  status: 'connected' | 'error';
+  latencyMs: number;
+  serverVersion: string | null;
+  error: string | null;
+}
+
+export interface ExternalQueryResult {
+  data: any[];
+  columns: string[];
+  rowCount: number;
+  truncated: boolean;
+  executionTime: number;
+  queryType: 'sql' | 'mongo';
+  statementType: string;
+  tables: string[];
+  rowsAffected?: number;
+  cached: false;
+}
+
+export interface ExternalQueryOptions {
+  maxRows?: number;
+  timeoutMs?: number;
+  allowWrites?: boolean;        // The caller is an admin; writes also need the connection in write mode
+}
+
+/**
+ * Tests and queries the external databases users register under /api/data/connections.
+ * Passwords are decrypted just before a connection is opened. Queries must pass the query
+ * guard: read-only, except for admins on connections in write mode.
+ */
+export class ExternalDatabaseService {
+  private static instance: ExternalDatabaseService;
+  public static readonly DEFAULT_MAX_ROWS = 1000;
+  public static readonly MAX_ROWS = 10000;
+  public static readonly DEFAULT_TIMEOUT_MS = 30000;
+  private static readonly CONNECT_TIMEOUT_MS = 15000;
+  private dbManager: DatabaseManager;
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): ExternalDatabaseService {
+    if (!ExternalDatabaseService.instance) {
+      ExternalDatabaseService.instance = new ExternalDatabaseService();
+    }
+    return ExternalDatabaseService.instance;
+  }
+
+  public async getConnection(connectionId: string, userId: string): Promise<ExternalConnection | null> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('connectionId', sql.NVarChar, connectionId)
+      .input('userId', sql.NVarChar, userId)
+      .query(`
+        SELECT id, userId, name, type, host, port, [database], username, password, encrypt, trustServerCertificate, allowWrites
+        FROM DatabaseConnections
+        WHERE id = @connectionId AND userId = @userId
+      `);
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Gets a connection whoever owns it, for admin queries and settings
+   */
+  public async getConnectionById(connectionId: string): Promise<ExternalConnection | null> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('connectionId', sql.NVarChar, connectionId)
+      .query(`
+        SELECT id, userId, name, type, host, port, [database], username, password, encrypt, trustServerCertificate, allowWrites
+        FROM DatabaseConnections
+        WHERE id = @connectionId
+      `);
+    return result.recordset[0] || null;
+  }
+
+  /**
+   * Switches write mode on or off and records which admin changed it. MongoDB connections
+   * can't be switched on since they only take find and aggregate queries.
+   */
+  public async setWriteMode(connection: ExternalConnection, enabled: boolean, adminUserId: string): Promise<void> {
+    if (enabled && connection.type === 'mongodb') {
+      throw new DatabaseDriverError('MongoDB connections are read-only', 400);
+    }
+
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('connectionId', sql.NVarChar, connection.id)
+      .input('allowWrites', sql.Bit, enabled)
+      .input('adminUserId', sql.NVarChar, adminUserId)
+      .query(`
+        UPDATE DatabaseConnections
+        SET allowWrites = @allowWrites,
+            writeModeChangedBy = @adminUserId,
+            writeModeChangedAt = GETUTCDATE(),
+            updatedAt = GETUTCDATE()
+        WHERE id = @connectionId
+      `);
+
+    logger.warn(`Write mode ${enabled ? 'enabled' : 'disabled'} on connection ${connection.id} by admin ${adminUserId}`);
+  }
+
+  /**
+   * Opens the connection, runs the driver's health probe and records the outcome, latency
+   * and server version on the connection
+   */
+  public async testConnection(connection: ExternalConnection): Promise<ConnectionTestResult> {
+    const startedAt = Date.now();
+    let result: ConnectionTestResult;
+    try {
+      const probe = await getDatabaseDriver(connection.type).probe(await this.toDriverConfig(connection));
+      result = { status: 'connected', latencyMs: Date.now() - startedAt, serverVersion: probe.serverVersion, error: null };
+    } catch (error) {
+      result = {
+        status: 'error',
+        latencyMs: Date.now() - startedAt,
+        serverVersion: null,
+        error: error instanceof Error ? error.message : 'Connection failed'
+      };
+    }
+
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('connectionId', sql.NVarChar, connection.id)
+      .input('status', sql.NVarChar, result.status)
+      .input('latencyMs', sql.Int, result.latencyMs)
+      .input('error', sql.NVarChar, result.error ? result.error.substring(0, 1000) : null)
+      .input('serverVersion', sql.NVarChar, result.serverVersion ? result.serverVersion.substring(0, 500) : null)
+      .query(`
+        UPDATE DatabaseConnections
+        SET status = @status,
+            lastTestedAt = GETUTCDATE(),
+            lastLatencyMs = @latencyMs,
+            lastError = @error,
+            serverVersion = COALESCE(@serverVersion, serverVersion),
+            lastConnected = CASE WHEN @status = 'connected' THEN GETUTCDATE() ELSE lastConnected END,
+            updatedAt = GETUTCDATE()
+        WHERE id = @connectionId
+      `);
+
+    logger.info(`Connection test for ${connection.id} (${connection.type}): ${result.status} in ${result.latencyMs}ms`);
+    return result;
+  }
+
+  /**
+   * Runs a query. SQL goes through the query guard, which rejects anything but a single
+   * SELECT (throwing QueryRejectedError) and writes the row limit into it; admins may also run
+   * INSERT, UPDATE, DELETE and MERGE on connections in write mode. MongoDB queries are JSON
+   * find or aggregate requests.
+   */
+  public async executeQuery(connection: ExternalConnection, query: string, options: ExternalQueryOptions = {}): Promise<ExternalQueryResult> {
+    const queryType = connection.type === 'mongodb' ? 'mongo' : 'sql';
+    const maxRows = Math.min(options.maxRows || ExternalDatabaseService.DEFAULT_MAX_ROWS, ExternalDatabaseService.MAX_ROWS);
+    const timeoutMs = options.timeoutMs || ExternalDatabaseService.DEFAULT_TIMEOUT_MS;
+
+    let statement = query;
+    let statementType = 'find';
+    let tables: string[] = [];
+    if (queryType === 'sql') {
+      const inspection = QueryGuardService.getInstance().enforce(query, QueryGuardService.dialectFor(connection.type)!, {
+        // One row over the cap lets the driver tell that the result was truncated
+        rowLimit: maxRows + 1,
+        allowWrites: !!options.allowWrites && !!connection.allowWrites
+      });
+      statement = inspection.query;
+      statementType = inspection.statementType;
+      tables = inspection.tables;
+    }
+    const writable = queryType === 'sql' && statementType !== 'select';
+
+    const startedAt = Date.now();
+    const result = await getDatabaseDriver(connection.type).query(await this.toDriverConfig(connection), statement, { maxRows, timeoutMs, writable });
+    const executionTime = Date.now() - startedAt;
+
+    if (writable) {
+      logger.warn(`${statementType.toUpperCase()} on connection ${connection.id} in write mode affected ${result.rowsAffected ?? 0} rows in ${executionTime}ms`);
+    } else {
+      logger.info(`Query on connection ${connection.id} returned ${result.rows.length} rows in ${executionTime}ms${result.truncated ? ' (truncated)' : ''}`);
+    }
+    return {
+      data: result.rows,
+      columns: result.columns,
+      rowCount: result.rows.length,
+      truncated: result.truncated,
+      executionTime,
+      queryType,
+      statementType,
+      tables,
+      ...(writable ? { rowsAffected: result.rowsAffected ?? 0 } : {}),
+      cached: false
+    };
+  }
+
+  private async toDriverConfig(connection: ExternalConnection): Promise<DriverConnectionConfig> {
+    return {
+      host: connection.host,
+      port: connection.port,
+      database: connection.database,
+      username: connection.username,
+      password: connection.password
+        ? await ConnectionSecretService.getInstance().decrypt(connection.id, connection.password)
+        : null,
+      encrypt: connection.encrypt !== false,
+      trustServerCertificate: !!connection.trustServerCertificate,
+      connectTimeoutMs: ExternalDatabaseService.CONNECT_TIMEOUT_MS
+    };
+  }
+}
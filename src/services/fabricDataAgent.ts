@@ -1,6 +1,8 @@
 import { DefaultAzureCredential } from '@azure/identity';
 import { logger } from '../utils/logger';
 import { CacheService } from './cache';
+import { OpenAIService, ChatMessage } from './openai';
+import { QueryGuardService } from './queryGuardService';
 
 export interface DataQuery {
   query: string;
@@ -18,6 +20,14 @@ export interface DataResult {
   cached: boolean;
 }
 
+export interface GeneratedQuery {
+  query: string;
+  queryType: 'dax' | 'sql';
+  explanation: string;   // Plain-language description of what the query does
+  tables: string[];      // Schema tables the query reads
+  confidence: number;
+}
+
 export interface FabricDatasetInfo {
   id: string;
   name: string;
@@ -28,6 +38,9 @@ export interface FabricDatasetInfo {
 
 export class FabricDataAgentService {
   private static instance: FabricDataAgentService;
+  // Schema text beyond this is cut from the generation prompt to keep it within the context window
+  private static readonly MAX_SCHEMA_PROMPT_CHARS = 12000;
+  public static readonly MAX_ROWS = 10000;
   private credential: DefaultAzureCredential;
   private cacheService: CacheService;
   private baseUrl: string;
@@ -57,6 +70,11 @@ export class FabricDataAgentService {
    * Get access token for Fabric API
    */
   private async getAccessToken(): Promise<string> {
+    // A pre-issued token, e.g. for a local mock Fabric endpoint
+    if (process.env.FABRIC_ACCESS_TOKEN) {
+      return process.env.FABRIC_ACCESS_TOKEN;
+    }
+
     try {
       const tokenResponse = await this.credential.getToken('https://analysis.windows.net/powerbi/api/.default');
       return tokenResponse.token;
@@ -215,7 +233,7 @@ export class FabricDataAgentService {
           },
           body: JSON.stringify({
             query: sqlQuery,
-            maxRows: 10000 // Configurable limit
+            maxRows: FabricDataAgentService.MAX_ROWS
           })
         }
       );
@@ -353,77 +371,207 @@ export class FabricDataAgentService {
   }
 
   /**
-   * Analyze user question and determine appropriate query type and dataset
+   * Analyze user question and determine appropriate query type and dataset.
+   * Semantic models are queried with DAX, so DAX is suggested when a dataset is selected.
    */
-  public async analyzeQuestion(question: string): Promise<{
+  public async analyzeQuestion(question: string, options: { datasetId?: string } = {}): Promise<{
     suggestedQueryType: 'dax' | 'sql';
     suggestedDataset?: string;
     confidence: number;
     reasoning: string;
   }> {
-    try {
-      // Simple heuristics for query type detection
-      const lowerQuestion = question.toLowerCase();
-      
-      // Keywords that suggest DAX queries
-      const daxKeywords = ['measure', 'calculate', 'sum', 'average', 'count', 'filter', 'related', 'earlier'];
-      const sqlKeywords = ['select', 'from', 'where', 'join', 'group by', 'order by', 'having'];
-      
-      const daxScore = daxKeywords.filter(keyword => lowerQuestion.includes(keyword)).length;
-      const sqlScore = sqlKeywords.filter(keyword => lowerQuestion.includes(keyword)).length;
-      
-      let suggestedQueryType: 'dax' | 'sql' = 'sql'; // Default to SQL
-      let confidence = 0.5;
-      let reasoning = 'Default to SQL for general queries';
-      
-      if (daxScore > sqlScore) {
-        suggestedQueryType = 'dax';
-        confidence = Math.min(0.9, 0.5 + (daxScore * 0.1));
-        reasoning = `Detected DAX-specific keywords: ${daxKeywords.filter(k => lowerQuestion.includes(k)).join(', ')}`;
-      } else if (sqlScore > 0) {
-        confidence = Math.min(0.9, 0.5 + (sqlScore * 0.1));
-        reasoning = `Detected SQL-specific keywords: ${sqlKeywords.filter(k => lowerQuestion.includes(k)).join(', ')}`;
-      }
-      
+    const lowerQuestion = question.toLowerCase();
+
+    if (/\bdax\b/.test(lowerQuestion) && options.datasetId) {
       return {
-        suggestedQueryType,
-        confidence,
-        reasoning
+        suggestedQueryType: 'dax',
+        suggestedDataset: options.datasetId,
+        confidence: 0.9,
+        reasoning: 'The question asks for DAX'
       };
+    }
 
-    } catch (error) {
-      logger.error('Failed to analyze question:', error);
+    if (/\bsql\b/.test(lowerQuestion)) {
       return {
         suggestedQueryType: 'sql',
-        confidence: 0.5,
-        reasoning: 'Error in analysis, defaulting to SQL'
+        suggestedDataset: options.datasetId,
+        confidence: 0.9,
+        reasoning: 'The question asks for SQL'
+      };
+    }
+
+    if (options.datasetId) {
+      return {
+        suggestedQueryType: 'dax',
+        suggestedDataset: options.datasetId,
+        confidence: 0.8,
+        reasoning: 'A dataset was selected, and semantic models are queried with DAX'
       };
     }
+
+    return {
+      suggestedQueryType: 'sql',
+      confidence: 0.7,
+      reasoning: 'No dataset was selected, so the question is answered from the SQL endpoint'
+    };
   }
 
   /**
-   * Generate query based on user question and dataset schema
+   * Generate a read-only query for the user question, grounded in the dataset schema
+   * @param question - The user's question in natural language
+   * @param queryType - The query language to generate
+   * @param datasetId - The dataset the query runs against (DAX only)
+   * @param schema - The getDatasetSchema output; without it the model can only guess table names
+   * @returns The validated query with an explanation of what it does
    */
   public async generateQuery(
     question: string,
     queryType: 'dax' | 'sql',
     datasetId?: string,
     schema?: any
-  ): Promise<string> {
-    try {
-      // This would typically use Azure OpenAI to generate the query
-      // For now, return a placeholder that can be enhanced
-      
-      if (queryType === 'dax') {
-        return `// Generated DAX query for: ${question}\n// TODO: Implement DAX query generation based on schema`;
+  ): Promise<GeneratedQuery> {
+    const schemaText = this.formatSchemaForPrompt(schema);
+    const messages: ChatMessage[] = [
+      { role: 'system', content: this.getQueryGenerationPrompt(queryType, schemaText) },
+      { role: 'user', content: question }
+    ];
+
+    // One retry with the rejection reason, since models usually fix a rejected query when told why
+    let lastError = '';
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      const response = await OpenAIService.getInstance().getChatCompletion(messages, {
+        maxTokens: 1000,
+        temperature: 0
+      });
+
+      const generated = this.parseGeneratedQuery(response.content, queryType);
+      if (!generated) {
+        if (process.env.MOCK_OPENAI === 'true') {
+          // The mock client can't write queries, so build a basic one to keep the flow testable offline
+          return this.buildFallbackQuery(question, queryType, schema);
+        }
+        lastError = 'The response was not the requested JSON object';
       } else {
-        return `-- Generated SQL query for: ${question}\n-- TODO: Implement SQL query generation based on schema\nSELECT * FROM [Table] WHERE 1=1;`;
+        const inspection = QueryGuardService.getInstance().inspect(generated.query, QueryGuardService.dialectFor(queryType)!);
+        if (inspection.allowed) {
+          logger.info(`Generated ${queryType.toUpperCase()} query for dataset ${datasetId || 'SQL endpoint'} (attempt ${attempt})`);
+          return generated;
+        }
+        lastError = inspection.rejection!.message;
       }
 
+      logger.warn(`Rejected generated ${queryType.toUpperCase()} query (attempt ${attempt}): ${lastError}`);
+      messages.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: `That response was rejected: ${lastError}. Reply again with a single read-only query in the requested JSON format.` }
+      );
+    }
+
+    throw new Error(`Failed to generate a valid ${queryType.toUpperCase()} query: ${lastError}`);
+  }
+
+  private getQueryGenerationPrompt(queryType: 'dax' | 'sql', schemaText: string): string {
+    const language = queryType === 'dax'
+      ? 'a DAX query (starting with EVALUATE, optionally preceded by DEFINE) for a Power BI semantic model'
+      : 'a single T-SQL SELECT statement for a Microsoft Fabric SQL analytics endpoint';
+
+    return `You translate business questions into ${language}.
+
+Rules:
+- Only read data. Never modify data or schema, never run procedures, never write multiple statements.
+- Only use the tables, columns and measures listed in the schema below, with their exact names.
+- Prefer aggregated results over raw rows, and limit row-level results to 1000 rows.
+- If the schema cannot answer the question, return the closest useful query and say so in the explanation.
+
+Respond with only a JSON object, no code fences:
+{"query": "<the query>", "explanation": "<one or two sentences for a business user on what the query returns>", "tables": ["<tables used>"], "confidence": <0 to 1>}
+
+Schema:
+${schemaText}`;
+  }
+
+  /**
+   * Formats getDatasetSchema output as "table(column type, ...)" lines when it has the usual
+   * tables/columns shape, otherwise as JSON
+   */
+  private formatSchemaForPrompt(schema: any): string {
+    if (!schema) {
+      return 'No schema is available.';
+    }
+
+    const tables: any[] | undefined = Array.isArray(schema) ? schema : schema.tables;
+    let text: string;
+    if (Array.isArray(tables) && tables.every(table => table && typeof table === 'object' && table.name)) {
+      text = tables.map(table => {
+        const columns = (table.columns || [])
+          .map((column: any) => typeof column === 'string'
+            ? column
+            : `${column.name}${column.dataType ? ` ${column.dataType}` : ''}`)
+          .join(', ');
+        const measures = (table.measures || [])
+          .map((measure: any) => typeof measure === 'string' ? measure : measure.name)
+          .join(', ');
+        return `${table.name}(${columns})${measures ? ` measures: ${measures}` : ''}`;
+      }).join('\n');
+    } else {
+      text = JSON.stringify(schema, null, 2);
+    }
+
+    return text.length > FabricDataAgentService.MAX_SCHEMA_PROMPT_CHARS
+      ? `${text.substring(0, FabricDataAgentService.MAX_SCHEMA_PROMPT_CHARS)}\n...`
+      : text;
+  }
+
+  private parseGeneratedQuery(content: string, queryType: 'dax' | 'sql'): GeneratedQuery | null {
+    const json = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+    const start = json.indexOf('{');
+    const end = json.lastIndexOf('}');
+    if (start < 0 || end <= start) {
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(json.substring(start, end + 1));
+      if (typeof parsed.query !== 'string' || !parsed.query.trim()) {
+        return null;
+      }
+      const confidence = Number(parsed.confidence);
+      return {
+        query: parsed.query.trim(),
+        queryType,
+        explanation: typeof parsed.explanation === 'string' ? parsed.explanation : '',
+        tables: Array.isArray(parsed.tables) ? parsed.tables.map(String) : [],
+        confidence: isNaN(confidence) ? 0.5 : Math.min(Math.max(confidence, 0), 1)
+      };
     } catch (error) {
-      logger.error('Failed to generate query:', error);
-      throw new Error(`Failed to generate ${queryType.toUpperCase()} query`);
+      return null;
+    }
+  }
+
+  /**
+   * Reads the first rows of the schema table whose name best matches the question
+   */
+  private buildFallbackQuery(question: string, queryType: 'dax' | 'sql', schema: any): GeneratedQuery {
+    const tables: any[] = (Array.isArray(schema) ? schema : schema?.tables) || [];
+    const names: string[] = tables.map(table => typeof table === 'string' ? table : table?.name).filter(Boolean);
+    const lowerQuestion = question.toLowerCase();
+    const tableName = names.find(name => lowerQuestion.includes(name.toLowerCase().replace(/s$/, ''))) || names[0];
+
+    if (!tableName) {
+      throw new Error('Cannot generate a query without a dataset schema');
     }
+
+    const query = queryType === 'dax'
+      ? `EVALUATE TOPN(100, '${tableName.replace(/'/g, "''")}')`
+      : `SELECT TOP 100 * FROM [${tableName.replace(/]/g, ']]')}]`;
+
+    return {
+      query,
+      queryType,
+      explanation: `Returns the first 100 rows of ${tableName}.`,
+      tables: [tableName],
+      confidence: 0.3
+    };
   }
 
   /**
@@ -441,25 +589,34 @@ export class FabricDataAgentService {
     data: DataResult;
     query: string;
     queryType: 'dax' | 'sql';
+    explanation: string;
     analysis: any;
   }> {
     try {
       // Analyze the question
-      const analysis = await this.analyzeQuestion(question);
+      const analysis = await this.analyzeQuestion(question, { datasetId: options.datasetId });
       const queryType = options.queryType || analysis.suggestedQueryType;
+
+      if (queryType === 'dax' && !options.datasetId) {
+        throw new Error('A dataset is required to answer questions with DAX');
+      }
       
-      // Get dataset schema if dataset is specified
+      // Ground the query in the dataset schema; SQL questions fall back to the default dataset
+      const schemaDatasetId = options.datasetId || process.env.FABRIC_DATASET_ID;
       let schema;
-      if (options.datasetId) {
+      if (schemaDatasetId) {
         try {
-          schema = await this.getDatasetSchema(options.datasetId, options.workspaceId);
+          schema = await this.getDatasetSchema(schemaDatasetId, options.workspaceId);
         } catch (error) {
           logger.warn('Could not fetch dataset schema:', error);
         }
       }
       
-      // Generate query
-      const query = await this.generateQuery(question, queryType, options.datasetId, schema);
+      // Generate a validated read-only query and cap its rows in the query itself
+      const generated = await this.generateQuery(question, queryType, options.datasetId, schema);
+      const query = QueryGuardService.getInstance().enforce(generated.query, QueryGuardService.dialectFor(queryType)!, {
+        rowLimit: options.maxRows || FabricDataAgentService.MAX_ROWS
+      }).query;
       
       // Execute query
       let data: DataResult;
@@ -473,7 +630,8 @@ export class FabricDataAgentService {
         data,
         query,
         queryType,
-        analysis
+        explanation: generated.explanation,
+        analysis: { ...analysis, confidence: generated.confidence, tables: generated.tables }
       };
 
     } catch (error) {
@@ -1,5 +1,7 @@
+import crypto from 'crypto';
 import { StorageService } from './storage';
 import { OpenAIService, ChatMessage } from './openai';
+import { PAGE_BREAK } from './documentChunkingService';
 import { logger } from '../utils/logger';
 // Add imports for document processing libraries
 // Use require to bypass TypeScript type checking issues
@@ -19,11 +21,17 @@ export interface FileAnalysisResult {
   processingTime: number;
 }
 
+export interface ExtractContentOptions {
+  // When false the full text is returned with PDF page breaks preserved, for chunked indexing
+  truncate?: boolean;
+}
+
 export interface FileContentResult {
   fileName: string;
   originalName: string;
   content: string;
   size: number;
+  contentHash?: string;  // SHA-256 of the raw file bytes, absent when the file couldn't be read
 }
 
 export class FileAnalysisService {
@@ -157,11 +165,25 @@ Please extract only the requested information from the document above.`
     }
   }
 
+  /**
+   * Hashes raw file bytes so unchanged uploads can be recognised without re-extracting them
+   */
+  public static hashContent(buffer: Buffer): string {
+    return crypto.createHash('sha256').update(buffer).digest('hex');
+  }
+
   /**
    * Extract raw file content with proper text extraction for different file types
    * Updated to work with folder-based storage approach
    */
-  public async extractFileContent(fileName: string, originalName: string, containerName?: string): Promise<FileContentResult> {
+  public async extractFileContent(
+    fileName: string,
+    originalName: string,
+    containerName?: string,
+    options: ExtractContentOptions = {}
+  ): Promise<FileContentResult> {
+    const { truncate = true } = options;
+
     try {
       logger.info(`Extracting content from file: ${fileName}`);
       
@@ -212,6 +234,7 @@ Please extract only the requested information from the document above.`
         fileStream = await this.storageService.getFileStream(fileName);
       }
       const buffer = await this.streamToBuffer(fileStream);
+      const contentHash = FileAnalysisService.hashContent(buffer);
       
       // Determine file type from extension
       const fileExtension = originalName.split('.').pop()?.toLowerCase() || '';
@@ -275,14 +298,25 @@ Please extract only the requested information from the document above.`
         extractedContent = `[File content is empty or could not be extracted from ${originalName}]`;
       }
       
+      if (!truncate) {
+        return {
+          fileName,
+          originalName,
+          content: extractedContent,
+          size: buffer.length,
+          contentHash
+        };
+      }
+      
       // Truncate if necessary (roughly 10000 tokens to allow for more content)
-      const truncatedContent = this.truncateContentForTokens(extractedContent, 10000);
+      const truncatedContent = this.truncateContentForTokens(extractedContent.split(PAGE_BREAK).join('\n\n'), 10000);
       
       return {
         fileName,
         originalName,
         content: truncatedContent,
-        size: buffer.length
+        size: buffer.length,
+        contentHash
       };
       
     } catch (error) {
@@ -437,11 +471,31 @@ Please compare these documents and provide your analysis.`
   }
 
   /**
-   * Extract text content from PDF files
+   * Extract text content from PDF files, starting each page after the first with a page break
    */
   private async extractPdfContent(buffer: Buffer): Promise<string> {
     try {
-      const data = await pdfParse(buffer);
+      let pageCount = 0;
+      const data = await pdfParse(buffer, {
+        // Same text layout as pdf-parse's default renderer, plus a page break marker
+        pagerender: async (pageData: any) => {
+          const textContent = await pageData.getTextContent({
+            normalizeWhitespace: false,
+            disableCombineTextItems: false
+          });
+          let lastY;
+          let text = pageCount++ > 0 ? PAGE_BREAK : '';
+          for (const item of textContent.items) {
+            if (lastY === item.transform[5] || !lastY) {
+              text += item.str;
+            } else {
+              text += '\n' + item.str;
+            }
+            lastY = item.transform[5];
+          }
+          return text;
+        }
+      });
       return data.text;
     } catch (error) {
       logger.error('PDF extraction error:', error);
@@ -0,0 +1,501 @@
+import os from 'os';
+import sql from 'mssql';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../config/database';
+import { DocumentIndexingService } from './documentIndexingService';
+import { logger } from '../utils/logger';
+
+export type IndexingJobType = 'workspace' | 'file';
+export type IndexingJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface IndexingJob {
+  id: string;
+  workspaceId: string;
+  fileId: string | null;
+  parentJobId: string | null;
+  type: IndexingJobType;
+  status: IndexingJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  lockedBy: string | null;
+  lockedAt: Date | null;
+  filesTotal: number;
+  filesProcessed: number;
+  filesFailed: number;
+  filesSkipped: number;
+  chunkCount: number;
+  force: boolean;
+  lastError: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface EnqueueIndexingOptions {
+  force?: boolean;     // Reindex files even if their content hash and index version are unchanged
+}
+
+export interface IndexingJobProgress {
+  total: number;
+  processed: number;
+  failed: number;
+  skipped: number;
+  pending: number;
+}
+
+/**
+ * Persisted queue for workspace indexing. Jobs live in the IndexingJobs table and are
+ * claimed by a polling worker, so queued work survives restarts and failures are retried
+ * with exponential backoff until maxAttempts.
+ */
+export class IndexingJobService {
+  private static instance: IndexingJobService;
+  private dbManager: DatabaseManager;
+  private workerId: string;
+  private pollIntervalMs: number;
+  private maxAttempts: number;
+  private retryBaseSeconds: number;
+  private lockTimeoutSeconds: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private processing = false;
+  private lastRecoveryAt = 0;
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+    this.workerId = `${os.hostname()}:${process.pid}`;
+    this.pollIntervalMs = parseInt(process.env.INDEXING_POLL_INTERVAL_MS || '2000', 10);
+    this.maxAttempts = parseInt(process.env.INDEXING_JOB_MAX_ATTEMPTS || '5', 10);
+    this.retryBaseSeconds = parseInt(process.env.INDEXING_RETRY_BASE_SECONDS || '30', 10);
+    // Running jobs whose worker hasn't finished within this time are assumed lost and requeued
+    this.lockTimeoutSeconds = parseInt(process.env.INDEXING_JOB_LOCK_TIMEOUT_SECONDS || '900', 10);
+  }
+
+  public static getInstance(): IndexingJobService {
+    if (!IndexingJobService.instance) {
+      IndexingJobService.instance = new IndexingJobService();
+    }
+    return IndexingJobService.instance;
+  }
+
+  /**
+   * Queues indexing of a single workspace file
+   */
+  public async enqueueFileJob(
+    workspaceId: string,
+    fileId: string,
+    createdBy: string,
+    options: EnqueueIndexingOptions = {}
+  ): Promise<IndexingJob> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, uuidv4())
+      .input('workspaceId', sql.NVarChar, workspaceId)
+      .input('fileId', sql.NVarChar, fileId)
+      .input('maxAttempts', sql.Int, this.maxAttempts)
+      .input('force', sql.Bit, options.force === true)
+      .input('createdBy', sql.NVarChar, createdBy)
+      .query(`
+        INSERT INTO IndexingJobs (id, workspaceId, fileId, type, status, maxAttempts, filesTotal, force, createdBy)
+        OUTPUT INSERTED.*
+        VALUES (@id, @workspaceId, @fileId, 'file', 'queued', @maxAttempts, 1, @force, @createdBy)
+      `);
+
+    const job = result.recordset[0] as IndexingJob;
+    logger.info(`Queued indexing job ${job?.id} for file ${fileId} in workspace ${workspaceId}`);
+    this.wake();
+    return job;
+  }
+
+  /**
+   * Queues (re)indexing of every file in a workspace. Returns the workspace's active job
+   * instead when one is already queued or running, unless a forced rebuild is requested
+   * and the active job isn't forced.
+   */
+  public async enqueueWorkspaceJob(
+    workspaceId: string,
+    createdBy: string,
+    options: EnqueueIndexingOptions = {}
+  ): Promise<IndexingJob> {
+    const pool = await this.dbManager.getPool();
+    const force = options.force === true;
+
+    const activeResult = await pool.request()
+      .input('workspaceId', sql.NVarChar, workspaceId)
+      .query(`
+        SELECT TOP 1 * FROM IndexingJobs
+        WHERE workspaceId = @workspaceId AND type = 'workspace' AND status IN ('queued', 'running')
+        ORDER BY createdAt DESC
+      `);
+    const activeJob = activeResult.recordset[0] as IndexingJob | undefined;
+    if (activeJob && (activeJob.force || !force)) {
+      return activeJob;
+    }
+
+    const result = await pool.request()
+      .input('id', sql.NVarChar, uuidv4())
+      .input('workspaceId', sql.NVarChar, workspaceId)
+      .input('maxAttempts', sql.Int, this.maxAttempts)
+      .input('force', sql.Bit, force)
+      .input('createdBy', sql.NVarChar, createdBy)
+      .query(`
+        INSERT INTO IndexingJobs (id, workspaceId, type, status, maxAttempts, force, createdBy)
+        OUTPUT INSERTED.*
+        VALUES (@id, @workspaceId, 'workspace', 'queued', @maxAttempts, @force, @createdBy)
+      `);
+
+    const job = result.recordset[0] as IndexingJob;
+    logger.info(`Queued ${force ? 'forced ' : ''}indexing job ${job?.id} for workspace ${workspaceId}`);
+    this.wake();
+    return job;
+  }
+
+  public async getJob(workspaceId: string, jobId: string): Promise<IndexingJob | null> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, jobId)
+      .input('workspaceId', sql.NVarChar, workspaceId)
+      .query('SELECT * FROM IndexingJobs WHERE id = @id AND workspaceId = @workspaceId');
+
+    return result.recordset.length > 0 ? result.recordset[0] as IndexingJob : null;
+  }
+
+  /**
+   * Gets the per-file jobs a workspace job fanned out into
+   */
+  public async getFileJobs(parentJobId: string): Promise<any[]> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('parentJobId', sql.NVarChar, parentJobId)
+      .query(`
+        SELECT j.id, j.fileId, f.originalName AS fileName, j.status, j.attempts, j.chunkCount,
+               j.lastError, j.runAfter, j.completedAt
+        FROM IndexingJobs j
+        LEFT JOIN WorkspaceFiles f ON f.id = j.fileId
+        WHERE j.parentJobId = @parentJobId
+        ORDER BY j.createdAt
+      `);
+
+    return result.recordset;
+  }
+
+  public getProgress(job: IndexingJob): IndexingJobProgress {
+    const total = job.filesTotal || 0;
+    const processed = job.filesProcessed || 0;
+    const failed = job.filesFailed || 0;
+    const skipped = job.filesSkipped || 0;
+    return { total, processed, failed, skipped, pending: Math.max(total - processed - failed - skipped, 0) };
+  }
+
+  /**
+   * Starts the worker loop in this process
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    logger.info(`Indexing worker ${this.workerId} started (polling every ${this.pollIntervalMs}ms)`);
+    this.schedulePoll(0);
+  }
+
+  public stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    logger.info(`Indexing worker ${this.workerId} stopped`);
+  }
+
+  /**
+   * Polls right away instead of waiting for the next interval, e.g. after enqueueing
+   */
+  private wake(): void {
+    if (this.running && !this.processing) {
+      this.schedulePoll(0);
+    }
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => this.poll(), delayMs);
+    // Don't keep the process alive just for the worker
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+    this.processing = true;
+    let claimedJob = false;
+
+    try {
+      if (Date.now() - this.lastRecoveryAt > this.lockTimeoutSeconds * 1000 / 2) {
+        this.lastRecoveryAt = Date.now();
+        await this.recoverStaleJobs();
+      }
+
+      const job = await this.claimNextJob();
+      if (job) {
+        claimedJob = true;
+        await this.processJob(job);
+      }
+    } catch (error) {
+      logger.error('Indexing worker poll failed:', error);
+    } finally {
+      this.processing = false;
+    }
+
+    // Keep draining the queue while there is work, otherwise wait for the next interval
+    this.schedulePoll(claimedJob ? 0 : this.pollIntervalMs);
+  }
+
+  /**
+   * Atomically claims the oldest due job. READPAST lets several workers poll the same table
+   * without claiming the same row.
+   */
+  private async claimNextJob(): Promise<IndexingJob | null> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('workerId', sql.NVarChar, this.workerId)
+      .query(`
+        WITH nextJob AS (
+          SELECT TOP 1 * FROM IndexingJobs WITH (ROWLOCK, UPDLOCK, READPAST)
+          WHERE status = 'queued' AND runAfter <= GETUTCDATE()
+          ORDER BY runAfter, createdAt
+        )
+        UPDATE nextJob
+        SET status = 'running',
+            lockedBy = @workerId,
+            lockedAt = GETUTCDATE(),
+            attempts = attempts + 1,
+            startedAt = COALESCE(startedAt, GETUTCDATE()),
+            updatedAt = GETUTCDATE()
+        OUTPUT INSERTED.*
+      `);
+
+    return result.recordset.length > 0 ? result.recordset[0] as IndexingJob : null;
+  }
+
+  /**
+   * Requeues jobs left running by a worker that stopped, failing those out of attempts
+   */
+  private async recoverStaleJobs(): Promise<void> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('lockTimeoutSeconds', sql.Int, this.lockTimeoutSeconds)
+      .query(`
+        UPDATE IndexingJobs
+        SET status = CASE WHEN attempts >= maxAttempts THEN 'failed' ELSE 'queued' END,
+            filesFailed = CASE WHEN attempts >= maxAttempts AND type = 'file' THEN 1 ELSE filesFailed END,
+            completedAt = CASE WHEN attempts >= maxAttempts THEN GETUTCDATE() ELSE NULL END,
+            lastError = 'The worker processing this job stopped before it finished',
+            lockedBy = NULL,
+            lockedAt = NULL,
+            runAfter = GETUTCDATE(),
+            updatedAt = GETUTCDATE()
+        OUTPUT INSERTED.id, INSERTED.parentJobId
+        WHERE status = 'running' AND lockedBy IS NOT NULL
+          AND lockedAt < DATEADD(SECOND, -@lockTimeoutSeconds, GETUTCDATE())
+      `);
+
+    for (const job of result.recordset) {
+      logger.warn(`Recovered stale indexing job ${job.id}`);
+      if (job.parentJobId) {
+        await this.refreshWorkspaceJob(job.parentJobId);
+      }
+    }
+  }
+
+  private async processJob(job: IndexingJob): Promise<void> {
+    logger.info(`Processing ${job.type} indexing job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    try {
+      if (job.type === 'file') {
+        await this.processFileJob(job);
+      } else {
+        await this.processWorkspaceJob(job);
+      }
+    } catch (error) {
+      await this.retryOrFail(job, error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    if (job.parentJobId) {
+      await this.refreshWorkspaceJob(job.parentJobId);
+    }
+  }
+
+  private async processFileJob(job: IndexingJob): Promise<void> {
+    const pool = await this.dbManager.getPool();
+    const fileResult = await pool.request()
+      .input('fileId', sql.NVarChar, job.fileId)
+      .input('workspaceId', sql.NVarChar, job.workspaceId)
+      .query(`
+        SELECT f.*, w.name AS workspaceName
+        FROM WorkspaceFiles f
+        INNER JOIN Workspaces w ON w.id = f.workspaceId
+        WHERE f.id = @fileId AND f.workspaceId = @workspaceId
+      `);
+
+    if (fileResult.recordset.length === 0) {
+      await this.finishJob(job, 'skipped', { lastError: 'File no longer exists' });
+      return;
+    }
+
+    const file = fileResult.recordset[0];
+    const result = await DocumentIndexingService.getInstance().indexWorkspaceFile(
+      job.workspaceId,
+      file.workspaceName,
+      file,
+      { force: job.force === true }
+    );
+
+    if (result.indexed) {
+      await this.finishJob(job, 'completed', { chunkCount: result.chunkCount });
+    } else if (result.unchanged) {
+      await this.finishJob(job, 'skipped', { chunkCount: result.chunkCount });
+    } else if (result.skipped) {
+      await this.finishJob(job, 'skipped', { lastError: result.error || null });
+    } else {
+      throw new Error(result.error || 'Indexing failed');
+    }
+  }
+
+  /**
+   * Fans a workspace job out into one file job per file. Files that already have a file job
+   * under this workspace job are left alone, so a retried fan-out doesn't duplicate them.
+   * File jobs inherit the workspace job's force flag.
+   */
+  private async processWorkspaceJob(job: IndexingJob): Promise<void> {
+    const pool = await this.dbManager.getPool();
+
+    const fanOut = await pool.request()
+      .input('jobId', sql.NVarChar, job.id)
+      .input('workspaceId', sql.NVarChar, job.workspaceId)
+      .input('maxAttempts', sql.Int, job.maxAttempts)
+      .input('force', sql.Bit, job.force === true)
+      .input('createdBy', sql.NVarChar, job.createdBy)
+      .query(`
+        INSERT INTO IndexingJobs (id, workspaceId, fileId, parentJobId, type, status, maxAttempts, filesTotal, force, createdBy)
+        SELECT LOWER(CONVERT(NVARCHAR(36), NEWID())), @workspaceId, f.id, @jobId, 'file', 'queued', @maxAttempts, 1, @force, @createdBy
+        FROM WorkspaceFiles f
+        WHERE f.workspaceId = @workspaceId
+          AND NOT EXISTS (SELECT 1 FROM IndexingJobs j WHERE j.parentJobId = @jobId AND j.fileId = f.id)
+      `);
+
+    // Release the lock; the file jobs drive the workspace job to completion from here
+    await pool.request()
+      .input('id', sql.NVarChar, job.id)
+      .query('UPDATE IndexingJobs SET lockedBy = NULL, lockedAt = NULL, updatedAt = GETUTCDATE() WHERE id = @id');
+
+    logger.info(`Workspace indexing job ${job.id} queued ${fanOut.rowsAffected?.[0] ?? 0} file jobs`);
+    await this.refreshWorkspaceJob(job.id);
+  }
+
+  /**
+   * Rolls file job outcomes up into their workspace job, completing it once none are pending
+   */
+  private async refreshWorkspaceJob(jobId: string): Promise<void> {
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('id', sql.NVarChar, jobId)
+      .query(`
+        UPDATE p
+        SET filesTotal = c.total,
+            filesProcessed = c.completed,
+            filesFailed = c.failed,
+            filesSkipped = c.skipped,
+            chunkCount = c.chunks,
+            status = CASE
+              WHEN c.pending > 0 THEN p.status
+              WHEN c.total > 0 AND c.failed = c.total THEN 'failed'
+              ELSE 'completed'
+            END,
+            lastError = CASE WHEN c.pending = 0 AND c.total > 0 AND c.failed = c.total
+              THEN 'All files failed to index' ELSE p.lastError END,
+            completedAt = CASE WHEN c.pending = 0 THEN GETUTCDATE() ELSE NULL END,
+            updatedAt = GETUTCDATE()
+        FROM IndexingJobs p
+        CROSS APPLY (
+          SELECT COUNT(*) AS total,
+                 ISNULL(SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END), 0) AS completed,
+                 ISNULL(SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END), 0) AS failed,
+                 ISNULL(SUM(CASE WHEN status = 'skipped' THEN 1 ELSE 0 END), 0) AS skipped,
+                 ISNULL(SUM(CASE WHEN status IN ('queued', 'running') THEN 1 ELSE 0 END), 0) AS pending,
+                 ISNULL(SUM(chunkCount), 0) AS chunks
+          FROM IndexingJobs
+          WHERE parentJobId = p.id
+        ) c
+        WHERE p.id = @id AND p.status = 'running' AND p.lockedBy IS NULL
+      `);
+  }
+
+  private async finishJob(
+    job: IndexingJob,
+    status: 'completed' | 'skipped',
+    fields: { chunkCount?: number; lastError?: string | null }
+  ): Promise<void> {
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('id', sql.NVarChar, job.id)
+      .input('status', sql.NVarChar, status)
+      .input('chunkCount', sql.Int, fields.chunkCount || 0)
+      .input('lastError', sql.NVarChar, fields.lastError || null)
+      .query(`
+        UPDATE IndexingJobs
+        SET status = @status,
+            chunkCount = @chunkCount,
+            filesProcessed = CASE WHEN @status = 'completed' THEN 1 ELSE 0 END,
+            filesSkipped = CASE WHEN @status = 'skipped' THEN 1 ELSE 0 END,
+            lastError = @lastError,
+            lockedBy = NULL,
+            lockedAt = NULL,
+            completedAt = GETUTCDATE(),
+            updatedAt = GETUTCDATE()
+        WHERE id = @id
+      `);
+
+    logger.info(`Indexing job ${job.id} ${status}${fields.lastError ? `: ${fields.lastError}` : ''}`);
+  }
+
+  /**
+   * Requeues a failed attempt with exponential backoff, or marks the job failed once it is out of attempts
+   */
+  private async retryOrFail(job: IndexingJob, errorMessage: string): Promise<void> {
+    const pool = await this.dbManager.getPool();
+    const exhausted = job.attempts >= job.maxAttempts;
+    const delaySeconds = Math.min(this.retryBaseSeconds * Math.pow(2, Math.max(job.attempts - 1, 0)), 3600);
+
+    await pool.request()
+      .input('id', sql.NVarChar, job.id)
+      .input('status', sql.NVarChar, exhausted ? 'failed' : 'queued')
+      .input('delaySeconds', sql.Int, exhausted ? 0 : delaySeconds)
+      .input('lastError', sql.NVarChar, errorMessage)
+      .query(`
+        UPDATE IndexingJobs
+        SET status = @status,
+            runAfter = DATEADD(SECOND, @delaySeconds, GETUTCDATE()),
+            filesFailed = CASE WHEN @status = 'failed' AND type = 'file' THEN 1 ELSE filesFailed END,
+            completedAt = CASE WHEN @status = 'failed' THEN GETUTCDATE() ELSE NULL END,
+            lastError = @lastError,
+            lockedBy = NULL,
+            lockedAt = NULL,
+            updatedAt = GETUTCDATE()
+        WHERE id = @id
+      `);
+
+    if (exhausted) {
+      logger.error(`Indexing job ${job.id} failed after ${job.attempts} attempts: ${errorMessage}`);
+    } else {
+      logger.warn(`Indexing job ${job.id} attempt ${job.attempts} failed, retrying in ${delaySeconds}s: ${errorMessage}`);
+    }
+  }
+}
@@ -0,0 +1,351 @@
+import fs from 'fs';
+import path from 'path';
+import { SearchProvider, SearchOptions } from './searchProvider';
+import { EmbeddingService } from './embeddingService';
+import { SearchRerankingService } from './searchRerankingService';
+import { ConfigurationManager } from './configurationManager';
+import { logger } from '../utils/logger';
+
+// On-disk format of an index, one JSON file per index in the data directory
+interface LocalIndexFile {
+  name: string;
+  createdAt: string;
+  documents: Array<{
+    document: any;
+    vector: number[] | null;
+    embeddingModel: string | null;
+  }>;
+}
+
+interface LocalDocument {
+  document: any;
+  vector: number[] | null;
+  embeddingModel: string | null;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+interface LocalIndex {
+  name: string;
+  createdAt: string;
+  documents: Map<string, LocalDocument>;
+}
+
+/**
+ * Embedded search provider for development and CI. Scores passages with BM25 over the
+ * content, section and file name, blended with cosine similarity of embeddings from
+ * EmbeddingService, and persists each index as a JSON file.
+ */
+export class LocalSearchProvider implements SearchProvider {
+  private static instance: LocalSearchProvider | null = null;
+  private static readonly BM25_K1 = 1.2;
+  private static readonly BM25_B = 0.75;
+  // Passages without keyword matches are only returned when this similar to the query
+  private static readonly MIN_VECTOR_SIMILARITY = 0.25;
+
+  public readonly name = 'local' as const;
+  private dataDir: string;
+  private vectorWeight: number;
+  private indexes: Map<string, LocalIndex> = new Map();
+  private writeQueues: Map<string, Promise<void>> = new Map();
+  private embeddingService: EmbeddingService;
+  private rerankingService: SearchRerankingService;
+
+  private constructor() {
+    const configManager = ConfigurationManager.getInstance();
+    this.dataDir = path.resolve(
+      configManager.getValue('search', 'LOCAL_SEARCH_DATA_DIR') || path.join(process.cwd(), 'data', 'search-indexes')
+    );
+    const vectorWeight = parseFloat(configManager.getValue('search', 'LOCAL_SEARCH_VECTOR_WEIGHT', '0.5')!);
+    this.vectorWeight = isNaN(vectorWeight) ? 0.5 : Math.min(Math.max(vectorWeight, 0), 1);
+    this.embeddingService = EmbeddingService.getInstance();
+    this.rerankingService = SearchRerankingService.getInstance();
+
+    logger.info('Local search provider configuration:', {
+      dataDir: this.dataDir,
+      vectorWeight: this.vectorWeight,
+      embeddingModel: this.embeddingService.getModel()
+    });
+  }
+
+  public static getInstance(): LocalSearchProvider {
+    if (!LocalSearchProvider.instance) {
+      LocalSearchProvider.instance = new LocalSearchProvider();
+    }
+    return LocalSearchProvider.instance;
+  }
+
+  public static resetInstance(): void {
+    LocalSearchProvider.instance = null;
+  }
+
+  public isAvailable(): boolean {
+    return true;
+  }
+
+  public async indexExists(indexName: string): Promise<boolean> {
+    return (await this.loadIndex(indexName)) !== null;
+  }
+
+  public async createWorkspaceIndex(indexName: string): Promise<boolean> {
+    try {
+      const index: LocalIndex = { name: indexName, createdAt: new Date().toISOString(), documents: new Map() };
+      this.indexes.set(indexName, index);
+      await this.saveIndex(index);
+      logger.info(`Created local search index: ${indexName}`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to create local search index ${indexName}:`, error);
+      return false;
+    }
+  }
+
+  public async ensureIndex(indexName: string): Promise<boolean> {
+    if (await this.indexExists(indexName)) {
+      return true;
+    }
+    logger.info(`Local search index ${indexName} does not exist, creating it now`);
+    return await this.createWorkspaceIndex(indexName);
+  }
+
+  public async deleteWorkspaceIndex(indexName: string): Promise<boolean> {
+    try {
+      this.indexes.delete(indexName);
+      await this.enqueueWrite(indexName, () => fs.promises.rm(this.getIndexPath(indexName), { force: true }));
+      logger.info(`Deleted local search index: ${indexName}`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to delete local search index ${indexName}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Adds or replaces documents (by id) and embeds their content
+   */
+  public async indexDocuments(indexName: string, documents: any[]): Promise<boolean> {
+    try {
+      const index = await this.loadIndex(indexName);
+      if (!index) {
+        logger.warn(`Local search index ${indexName} does not exist`);
+        return false;
+      }
+
+      const embeddings = await this.embeddingService.embed(documents.map(doc => this.getEmbeddingText(doc)));
+      documents.forEach((document, i) => {
+        index.documents.set(String(document.id), this.toLocalDocument(
+          document,
+          embeddings.vectors[i] || null,
+          embeddings.model
+        ));
+      });
+
+      await this.saveIndex(index);
+      logger.info(`Indexed ${documents.length} documents in local index ${indexName}`);
+      return documents.length > 0;
+    } catch (error) {
+      logger.error(`Failed to index documents in local index ${indexName}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Removes every document belonging to a file, including a whole-file document keyed by the file ID
+   */
+  public async deleteFileDocuments(indexName: string, fileId: string): Promise<number> {
+    try {
+      const index = await this.loadIndex(indexName);
+      if (!index) {
+        return 0;
+      }
+
+      let deleted = 0;
+      for (const [id, entry] of index.documents) {
+        if (id === fileId || entry.document.fileId === fileId) {
+          index.documents.delete(id);
+          deleted++;
+        }
+      }
+
+      if (deleted > 0) {
+        await this.saveIndex(index);
+      }
+      logger.info(`Deleted ${deleted} documents for file ${fileId} from local index ${indexName}`);
+      return deleted;
+    } catch (error) {
+      logger.error(`Failed to delete documents for file ${fileId} from local index ${indexName}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Ranks documents by BM25, embedding similarity or (in hybrid mode) a blend of both,
+   * then applies the configured reranker
+   * @returns Matching documents with the first-stage score in '@search.score'
+   */
+  public async searchDocuments(indexName: string, searchText: string, options: SearchOptions = {}): Promise<any[]> {
+    try {
+      const index = await this.loadIndex(indexName);
+      if (!index || index.documents.size === 0) {
+        return [];
+      }
+
+      const top = options.top ?? 10;
+      const mode = options.mode ?? this.rerankingService.getMode();
+      const vectorWeight = mode === 'keyword' ? 0 : (mode === 'vector' ? 1 : this.vectorWeight);
+      const queryTerms = Array.from(new Set(this.rerankingService.tokenize(searchText)));
+      const allDocuments = Array.from(index.documents.values());
+      const candidates = options.fileId
+        ? allDocuments.filter(entry => entry.document.fileId === options.fileId || entry.document.id === options.fileId)
+        : allDocuments;
+
+      // Corpus statistics come from the whole index so filtering doesn't change scores
+      const averageLength = allDocuments.reduce((sum, entry) => sum + entry.length, 0) / allDocuments.length || 1;
+      const documentFrequencies = new Map<string, number>();
+      for (const term of queryTerms) {
+        documentFrequencies.set(term, allDocuments.filter(entry => entry.termFrequencies.has(term)).length);
+      }
+
+      const queryEmbedding = vectorWeight > 0 ? await this.embeddingService.embed([searchText]) : null;
+      const queryVector = queryEmbedding?.vectors[0] || null;
+
+      const scored = candidates.map(entry => ({
+        entry,
+        keywordScore: this.bm25(entry, queryTerms, documentFrequencies, allDocuments.length, averageLength),
+        vectorScore: queryVector && entry.vector && entry.embeddingModel === queryEmbedding!.model
+          ? Math.max(this.dot(queryVector, entry.vector), 0)
+          : 0
+      }));
+
+      const maxKeywordScore = Math.max(...scored.map(item => item.keywordScore), 0);
+      const results = scored
+        .filter(item => (vectorWeight < 1 && item.keywordScore > 0)
+          || (vectorWeight > 0 && item.vectorScore >= LocalSearchProvider.MIN_VECTOR_SIMILARITY))
+        .map(item => {
+          const keywordScore = maxKeywordScore > 0 ? item.keywordScore / maxKeywordScore : 0;
+          const score = (1 - vectorWeight) * keywordScore + vectorWeight * item.vectorScore;
+          return { ...item.entry.document, '@search.score': score, relevanceScore: score };
+        })
+        .sort((a, b) => b['@search.score'] - a['@search.score'])
+        .slice(0, top);
+
+      const reranker = this.rerankingService.getReranker(this.name);
+      return options.rerank !== false && reranker !== 'none'
+        ? this.rerankingService.rerank(searchText, results)
+        : results;
+    } catch (error) {
+      logger.error(`Failed to search documents in local index ${indexName}:`, error);
+      return [];
+    }
+  }
+
+  private bm25(
+    entry: LocalDocument,
+    queryTerms: string[],
+    documentFrequencies: Map<string, number>,
+    documentCount: number,
+    averageLength: number
+  ): number {
+    const { BM25_K1: k1, BM25_B: b } = LocalSearchProvider;
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const frequency = entry.termFrequencies.get(term);
+      if (!frequency) {
+        continue;
+      }
+      const documentFrequency = documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * entry.length / averageLength));
+    }
+
+    return score;
+  }
+
+  private dot(a: number[], b: number[]): number {
+    const length = Math.min(a.length, b.length);
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += a[i] * b[i];
+    }
+    return sum;
+  }
+
+  private getSearchableText(document: any): string {
+    return [document.fileName, document.section, document.content].filter(Boolean).join('\n');
+  }
+
+  private getEmbeddingText(document: any): string {
+    return [document.section, document.content].filter(Boolean).join('\n');
+  }
+
+  private toLocalDocument(document: any, vector: number[] | null, embeddingModel: string | null): LocalDocument {
+    const terms = this.rerankingService.tokenize(this.getSearchableText(document));
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+    }
+    return { document, vector, embeddingModel, termFrequencies, length: terms.length };
+  }
+
+  private getIndexPath(indexName: string): string {
+    return path.join(this.dataDir, `${indexName.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  private async loadIndex(indexName: string): Promise<LocalIndex | null> {
+    const cached = this.indexes.get(indexName);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const raw = await fs.promises.readFile(this.getIndexPath(indexName), 'utf-8');
+      const file: LocalIndexFile = JSON.parse(raw);
+      const index: LocalIndex = { name: file.name, createdAt: file.createdAt, documents: new Map() };
+      for (const stored of file.documents) {
+        index.documents.set(
+          String(stored.document.id),
+          this.toLocalDocument(stored.document, stored.vector, stored.embeddingModel)
+        );
+      }
+      this.indexes.set(indexName, index);
+      return index;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error(`Failed to load local search index ${indexName}:`, error);
+      }
+      return null;
+    }
+  }
+
+  private async saveIndex(index: LocalIndex): Promise<void> {
+    const file: LocalIndexFile = {
+      name: index.name,
+      createdAt: index.createdAt,
+      documents: Array.from(index.documents.values()).map(entry => ({
+        document: entry.document,
+        vector: entry.vector,
+        embeddingModel: entry.embeddingModel
+      }))
+    };
+    const indexPath = this.getIndexPath(index.name);
+
+    await this.enqueueWrite(index.name, async () => {
+      await fs.promises.mkdir(this.dataDir, { recursive: true });
+      // Write to a temporary file first so a crash never leaves a truncated index behind
+      const tempPath = `${indexPath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(file));
+      await fs.promises.rename(tempPath, indexPath);
+    });
+  }
+
+  /**
+   * Serializes file writes per index so concurrent uploads can't interleave them
+   */
+  private enqueueWrite(indexName: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(indexName) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(write);
+    this.writeQueues.set(indexName, next);
+    return next;
+  }
+}
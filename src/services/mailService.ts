@@ -0,0 +1,155 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ConfigurationManager } from './configurationManager';
+import { logger } from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Writes messages to the log. The default in development, where links in verification and
+ * reset emails can be copied from the server output. Never used in production, where those
+ * links would leak into the logs.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  public readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Drops every message with an error in the log, leaving out the body. Used in production when
+ * no real transport is configured.
+ */
+export class DisabledMailTransport implements MailTransport {
+  public readonly name = 'disabled';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.error(`Mail to ${message.to} ("${message.subject}") was not sent: configure MAIL_TRANSPORT as 'file' or 'webhook'`);
+  }
+}
+
+/**
+ * Writes each message as a JSON file to a directory, for tests and local inspection
+ */
+export class FileMailTransport implements MailTransport {
+  public readonly name = 'file';
+
+  constructor(private outboxDir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+      'utf-8'
+    );
+  }
+}
+
+/**
+ * Posts each message as JSON to an HTTP endpoint, e.g. a Logic App or a mail relay
+ */
+export class WebhookMailTransport implements MailTransport {
+  public readonly name = 'webhook';
+
+  constructor(private url: string, private apiKey?: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify(message)
+    });
+    if (!response.ok) {
+      throw new Error(`Mail webhook returned ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+/**
+ * Sends transactional email through a pluggable transport chosen by MAIL_TRANSPORT
+ * ('console', 'file' or 'webhook'). Other transports can be installed with setTransport.
+ * In production the console transport is replaced by DisabledMailTransport.
+ */
+export class MailService {
+  private static instance: MailService | null = null;
+  private transport: MailTransport;
+  private from: string;
+
+  private constructor() {
+    const config = ConfigurationManager.getInstance();
+    this.from = config.getValue('mail', 'MAIL_FROM', 'AIVA <no-reply@aiva.local>')!;
+    this.transport = this.createTransport((config.getValue('mail', 'MAIL_TRANSPORT') || 'console').toLowerCase());
+    logger.info(`✅ Mail service using the ${this.transport.name} transport`);
+  }
+
+  public static getInstance(): MailService {
+    if (!MailService.instance) {
+      MailService.instance = new MailService();
+    }
+    return MailService.instance;
+  }
+
+  public static resetInstance(): void {
+    MailService.instance = null;
+  }
+
+  public setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  public async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: this.from });
+    if (!(this.transport instanceof DisabledMailTransport)) {
+      logger.info(`Sent "${message.subject}" to ${message.to} via ${this.transport.name}`);
+    }
+  }
+
+  private createTransport(name: string): MailTransport {
+    const config = ConfigurationManager.getInstance();
+    switch (name) {
+      case 'file':
+        return new FileMailTransport(
+          path.resolve(config.getValue('mail', 'MAIL_OUTBOX_DIR', path.join('data', 'mail-outbox'))!)
+        );
+      case 'webhook': {
+        const url = config.getValue('mail', 'MAIL_WEBHOOK_URL');
+        if (url) {
+          return new WebhookMailTransport(url, config.getValue('mail', 'MAIL_WEBHOOK_API_KEY'));
+        }
+        logger.warn('MAIL_WEBHOOK_URL is not set, falling back to the console mail transport');
+        return this.createConsoleTransport();
+      }
+      case 'console':
+        return this.createConsoleTransport();
+      default:
+        logger.warn(`Unknown mail transport '${name}', falling back to console`);
+        return this.createConsoleTransport();
+    }
+  }
+
+  private createConsoleTransport(): MailTransport {
+    if (process.env.NODE_ENV === 'production') {
+      logger.error('The console mail transport is not available in production; emails will not be sent until MAIL_TRANSPORT is configured');
+      return new DisabledMailTransport();
+    }
+    return new ConsoleMailTransport();
+  }
+}
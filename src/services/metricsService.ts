@@ -0,0 +1,508 @@
+import os from 'os';
+import { monitorEventLoopDelay, IntervalHistogram } from 'perf_hooks';
+import { DatabaseManager } from '../config/database';
+
+export type OpenAIOperation = 'chat' | 'chat_stream' | 'embeddings';
+
+export interface LatencySummary {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface RouteMetrics {
+  method: string;
+  route: string;
+  requests: number;
+  errors: number;               // 5xx responses
+  errorRate: number;
+  latencyMs: LatencySummary;
+}
+
+export interface OpenAIMetrics {
+  operation: OpenAIOperation;
+  calls: number;
+  errors: number;
+  errorRate: number;
+  latencyMs: LatencySummary;
+}
+
+export interface MetricsPoint {
+  timestamp: string;            // Start of the minute
+  requests: number;
+  errors: number;
+  p95LatencyMs: number;
+  openaiCalls: number;
+  openaiErrors: number;
+  cpuPercent: number | null;
+  rssBytes: number | null;
+  heapUsedBytes: number | null;
+  eventLoopLagMs: number | null;
+  dbPoolBorrowed: number | null;
+  dbPoolPending: number | null;
+}
+
+export interface MetricsSnapshot {
+  generatedAt: string;
+  windowMinutes: number;
+  uptimeSeconds: number;
+  process: {
+    cpuPercent: number;
+    memory: { rssBytes: number; heapUsedBytes: number; heapTotalBytes: number; systemTotalBytes: number; systemFreeBytes: number };
+    eventLoopLagMs: { mean: number; p99: number; max: number };
+  };
+  requests: {
+    total: number;
+    perMinute: number;
+    errors: number;
+    errorRate: number;
+    latencyMs: LatencySummary;
+    activeUsers: number;
+  };
+  routes: RouteMetrics[];
+  openai: OpenAIMetrics[];
+  database: { size: number; available: number; borrowed: number; pending: number } | null;
+  series: MetricsPoint[];
+}
+
+interface SampleSet {
+  count: number;
+  errors: number;
+  durations: number[];          // Reservoir sample, in milliseconds
+}
+
+interface MinuteBucket {
+  start: number;
+  requests: SampleSet;
+  routes: Map<string, SampleSet>;
+  openai: Map<OpenAIOperation, SampleSet>;
+  cpuPercent: number | null;
+  rssBytes: number | null;
+  heapUsedBytes: number | null;
+  eventLoopLagMs: number | null;
+  dbPoolBorrowed: number | null;
+  dbPoolPending: number | null;
+}
+
+interface Histogram {
+  buckets: number[];            // Cumulative counts per upper bound in HISTOGRAM_BUCKETS
+  sum: number;
+  count: number;
+}
+
+/**
+ * Process, request, OpenAI and database pool metrics of this instance. Requests and OpenAI
+ * calls are recorded into per-minute buckets covering the last hour, which feed the admin
+ * monitoring view, and into cumulative counters and histograms exposed in the Prometheus
+ * text format.
+ */
+export class MetricsService {
+  private static instance: MetricsService;
+  private static readonly WINDOW_MINUTES = 60;
+  private static readonly MINUTE_MS = 60 * 1000;
+  private static readonly SAMPLE_INTERVAL_MS = 15 * 1000;
+  private static readonly MAX_SAMPLES = 500;
+  private static readonly ACTIVE_USER_MS = 5 * 60 * 1000;
+  private static readonly HISTOGRAM_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+  private buckets: MinuteBucket[] = [];
+  private requestCounts = new Map<string, number>();
+  private requestDurations = new Map<string, Histogram>();
+  private openaiCounts = new Map<string, number>();
+  private openaiDurations = new Map<string, Histogram>();
+  private activeUsers = new Map<string, number>();
+  private eventLoop: IntervalHistogram;
+  private lastCpuUsage = process.cpuUsage();
+  private lastCpuSampleAt = Date.now();
+  private cpuPercent = 0;
+  private eventLoopLag = { mean: 0, p99: 0, max: 0 };
+  private timer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.eventLoop = monitorEventLoopDelay({ resolution: 20 });
+  }
+
+  public static getInstance(): MetricsService {
+    if (!MetricsService.instance) {
+      MetricsService.instance = new MetricsService();
+    }
+    return MetricsService.instance;
+  }
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.eventLoop.enable();
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastCpuSampleAt = Date.now();
+    this.timer = setInterval(() => this.sampleProcess(), MetricsService.SAMPLE_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.eventLoop.disable();
+  }
+
+  /**
+   * @param route Route pattern such as `/api/chat/:chatId`, never the raw URL, so the number
+   * of series stays bounded
+   */
+  public recordRequest(method: string, route: string, statusCode: number, durationMs: number, userId?: string): void {
+    const bucket = this.currentBucket();
+    const isError = statusCode >= 500;
+    const routeKey = `${method} ${route}`;
+
+    this.addSample(bucket.requests, durationMs, isError);
+    this.addSample(this.getOrCreate(bucket.routes, routeKey), durationMs, isError);
+
+    const counterKey = `${routeKey} ${statusCode}`;
+    this.requestCounts.set(counterKey, (this.requestCounts.get(counterKey) || 0) + 1);
+    this.observe(this.requestDurations, routeKey, durationMs / 1000);
+
+    if (userId) {
+      this.activeUsers.set(userId, Date.now());
+    }
+  }
+
+  public recordOpenAICall(operation: OpenAIOperation, durationMs: number, success: boolean): void {
+    this.addSample(this.getOrCreate(this.currentBucket().openai, operation), durationMs, !success);
+
+    const counterKey = `${operation} ${success ? 'success' : 'error'}`;
+    this.openaiCounts.set(counterKey, (this.openaiCounts.get(counterKey) || 0) + 1);
+    this.observe(this.openaiDurations, operation, durationMs / 1000);
+  }
+
+  /**
+   * Times an OpenAI call and records its outcome; errors are rethrown unchanged
+   */
+  public async trackOpenAICall<T>(operation: OpenAIOperation, call: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await call();
+      this.recordOpenAICall(operation, Date.now() - startedAt, true);
+      return result;
+    } catch (error) {
+      this.recordOpenAICall(operation, Date.now() - startedAt, false);
+      throw error;
+    }
+  }
+
+  public getSnapshot(windowMinutes: number = 15): MetricsSnapshot {
+    this.sampleProcess();
+    const now = Date.now();
+    const since = this.minuteStart(now) - (windowMinutes - 1) * MetricsService.MINUTE_MS;
+    const window = this.buckets.filter(bucket => bucket.start >= since);
+
+    const requests = this.merge(window.map(bucket => bucket.requests));
+    const routes = new Map<string, SampleSet[]>();
+    const openai = new Map<OpenAIOperation, SampleSet[]>();
+    for (const bucket of window) {
+      bucket.routes.forEach((set, key) => routes.set(key, [...(routes.get(key) || []), set]));
+      bucket.openai.forEach((set, key) => openai.set(key, [...(openai.get(key) || []), set]));
+    }
+
+    const memory = process.memoryUsage();
+    return {
+      generatedAt: new Date(now).toISOString(),
+      windowMinutes,
+      uptimeSeconds: Math.round(process.uptime()),
+      process: {
+        cpuPercent: this.cpuPercent,
+        memory: {
+          rssBytes: memory.rss,
+          heapUsedBytes: memory.heapUsed,
+          heapTotalBytes: memory.heapTotal,
+          systemTotalBytes: os.totalmem(),
+          systemFreeBytes: os.freemem()
+        },
+        eventLoopLagMs: this.eventLoopLag
+      },
+      requests: {
+        total: requests.count,
+        perMinute: Math.round((requests.count / windowMinutes) * 10) / 10,
+        errors: requests.errors,
+        errorRate: this.rate(requests.errors, requests.count),
+        latencyMs: this.summarize(requests.durations),
+        activeUsers: this.countActiveUsers(now)
+      },
+      routes: Array.from(routes.entries())
+        .map(([key, sets]) => {
+          const merged = this.merge(sets);
+          const [method, route] = key.split(' ');
+          return {
+            method,
+            route,
+            requests: merged.count,
+            errors: merged.errors,
+            errorRate: this.rate(merged.errors, merged.count),
+            latencyMs: this.summarize(merged.durations)
+          };
+        })
+        .sort((a, b) => b.requests - a.requests),
+      openai: Array.from(openai.entries()).map(([operation, sets]) => {
+        const merged = this.merge(sets);
+        return {
+          operation,
+          calls: merged.count,
+          errors: merged.errors,
+          errorRate: this.rate(merged.errors, merged.count),
+          latencyMs: this.summarize(merged.durations)
+        };
+      }),
+      database: DatabaseManager.getInstance().getPoolStats(),
+      series: this.buildSeries(since, windowMinutes)
+    };
+  }
+
+  public toPrometheus(): string {
+    this.sampleProcess();
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    };
+
+    const cpu = process.cpuUsage();
+    const memory = process.memoryUsage();
+    metric('process_cpu_user_seconds_total', 'counter', 'User CPU time spent in seconds.');
+    lines.push(`process_cpu_user_seconds_total ${cpu.user / 1e6}`);
+    metric('process_cpu_system_seconds_total', 'counter', 'System CPU time spent in seconds.');
+    lines.push(`process_cpu_system_seconds_total ${cpu.system / 1e6}`);
+    metric('process_resident_memory_bytes', 'gauge', 'Resident memory size in bytes.');
+    lines.push(`process_resident_memory_bytes ${memory.rss}`);
+    metric('process_start_time_seconds', 'gauge', 'Start time of the process since unix epoch in seconds.');
+    lines.push(`process_start_time_seconds ${Math.round(Date.now() / 1000 - process.uptime())}`);
+    metric('nodejs_heap_used_bytes', 'gauge', 'V8 heap used in bytes.');
+    lines.push(`nodejs_heap_used_bytes ${memory.heapUsed}`);
+    metric('nodejs_heap_total_bytes', 'gauge', 'V8 heap size in bytes.');
+    lines.push(`nodejs_heap_total_bytes ${memory.heapTotal}`);
+    metric('nodejs_eventloop_lag_seconds', 'gauge', 'Event loop delay over the last sample interval in seconds.');
+    lines.push(`nodejs_eventloop_lag_seconds{quantile="mean"} ${this.eventLoopLag.mean / 1000}`);
+    lines.push(`nodejs_eventloop_lag_seconds{quantile="0.99"} ${this.eventLoopLag.p99 / 1000}`);
+    lines.push(`nodejs_eventloop_lag_seconds{quantile="max"} ${this.eventLoopLag.max / 1000}`);
+
+    metric('http_requests_total', 'counter', 'HTTP requests by method, route and status code.');
+    this.requestCounts.forEach((count, key) => {
+      const [method, route, status] = key.split(' ');
+      lines.push(`http_requests_total{${this.labels({ method, route, status })}} ${count}`);
+    });
+    metric('http_request_duration_seconds', 'histogram', 'HTTP request duration by method and route.');
+    this.requestDurations.forEach((histogram, key) => {
+      const [method, route] = key.split(' ');
+      this.writeHistogram(lines, 'http_request_duration_seconds', { method, route }, histogram);
+    });
+    metric('app_active_users', 'gauge', 'Users with an authenticated request in the last five minutes.');
+    lines.push(`app_active_users ${this.countActiveUsers(Date.now())}`);
+
+    metric('openai_requests_total', 'counter', 'Azure OpenAI calls by operation and outcome.');
+    this.openaiCounts.forEach((count, key) => {
+      const [operation, outcome] = key.split(' ');
+      lines.push(`openai_requests_total{${this.labels({ operation, outcome })}} ${count}`);
+    });
+    metric('openai_request_duration_seconds', 'histogram', 'Azure OpenAI call duration by operation.');
+    this.openaiDurations.forEach((histogram, operation) => {
+      this.writeHistogram(lines, 'openai_request_duration_seconds', { operation }, histogram);
+    });
+
+    const pool = DatabaseManager.getInstance().getPoolStats();
+    if (pool) {
+      metric('db_pool_connections', 'gauge', 'Database pool connections by state.');
+      lines.push(`db_pool_connections{state="total"} ${pool.size}`);
+      lines.push(`db_pool_connections{state="available"} ${pool.available}`);
+      lines.push(`db_pool_connections{state="borrowed"} ${pool.borrowed}`);
+      metric('db_pool_pending_requests', 'gauge', 'Requests waiting for a database connection.');
+      lines.push(`db_pool_pending_requests ${pool.pending}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  // CPU and event loop figures cover the time since the previous sample
+  private sampleProcess(): void {
+    const now = Date.now();
+    const elapsedMs = now - this.lastCpuSampleAt;
+    if (elapsedMs >= 1000) {
+      const usage = process.cpuUsage(this.lastCpuUsage);
+      this.cpuPercent = Math.round(((usage.user + usage.system) / 1000 / elapsedMs) * 1000) / 10;
+      this.lastCpuUsage = process.cpuUsage();
+      this.lastCpuSampleAt = now;
+    }
+
+    if (this.timer && this.eventLoop.count > 0) {
+      const toMs = (nanoseconds: number) => Math.round(nanoseconds / 1e4) / 100;
+      this.eventLoopLag = {
+        mean: toMs(this.eventLoop.mean),
+        p99: toMs(this.eventLoop.percentile(99)),
+        max: toMs(this.eventLoop.max)
+      };
+      this.eventLoop.reset();
+    }
+
+    const memory = process.memoryUsage();
+    const pool = DatabaseManager.getInstance().getPoolStats();
+    const bucket = this.currentBucket();
+    bucket.cpuPercent = this.cpuPercent;
+    bucket.rssBytes = memory.rss;
+    bucket.heapUsedBytes = memory.heapUsed;
+    bucket.eventLoopLagMs = this.eventLoopLag.p99;
+    bucket.dbPoolBorrowed = pool ? pool.borrowed : null;
+    bucket.dbPoolPending = pool ? pool.pending : null;
+  }
+
+  private currentBucket(): MinuteBucket {
+    const start = this.minuteStart(Date.now());
+    const last = this.buckets[this.buckets.length - 1];
+    if (last && last.start === start) {
+      return last;
+    }
+
+    const bucket: MinuteBucket = {
+      start,
+      requests: this.emptySet(),
+      routes: new Map(),
+      openai: new Map(),
+      cpuPercent: null,
+      rssBytes: null,
+      heapUsedBytes: null,
+      eventLoopLagMs: null,
+      dbPoolBorrowed: null,
+      dbPoolPending: null
+    };
+    this.buckets.push(bucket);
+
+    const oldest = start - (MetricsService.WINDOW_MINUTES - 1) * MetricsService.MINUTE_MS;
+    this.buckets = this.buckets.filter(existing => existing.start >= oldest);
+    return bucket;
+  }
+
+  // One point per minute, including minutes without traffic
+  private buildSeries(since: number, windowMinutes: number): MetricsPoint[] {
+    const byStart = new Map(this.buckets.map(bucket => [bucket.start, bucket]));
+    const series: MetricsPoint[] = [];
+    for (let i = 0; i < windowMinutes; i++) {
+      const start = since + i * MetricsService.MINUTE_MS;
+      const bucket = byStart.get(start);
+      const openai = bucket ? this.merge(Array.from(bucket.openai.values())) : this.emptySet();
+      series.push({
+        timestamp: new Date(start).toISOString(),
+        requests: bucket ? bucket.requests.count : 0,
+        errors: bucket ? bucket.requests.errors : 0,
+        p95LatencyMs: bucket ? this.percentile(bucket.requests.durations, 95) : 0,
+        openaiCalls: openai.count,
+        openaiErrors: openai.errors,
+        cpuPercent: bucket?.cpuPercent ?? null,
+        rssBytes: bucket?.rssBytes ?? null,
+        heapUsedBytes: bucket?.heapUsedBytes ?? null,
+        eventLoopLagMs: bucket?.eventLoopLagMs ?? null,
+        dbPoolBorrowed: bucket?.dbPoolBorrowed ?? null,
+        dbPoolPending: bucket?.dbPoolPending ?? null
+      });
+    }
+    return series;
+  }
+
+  // Keeps a uniform sample of at most MAX_SAMPLES durations per set
+  private addSample(set: SampleSet, durationMs: number, isError: boolean): void {
+    set.count++;
+    if (isError) {
+      set.errors++;
+    }
+    if (set.durations.length < MetricsService.MAX_SAMPLES) {
+      set.durations.push(durationMs);
+    } else {
+      const index = Math.floor(Math.random() * set.count);
+      if (index < MetricsService.MAX_SAMPLES) {
+        set.durations[index] = durationMs;
+      }
+    }
+  }
+
+  private merge(sets: SampleSet[]): SampleSet {
+    return sets.reduce((merged, set) => ({
+      count: merged.count + set.count,
+      errors: merged.errors + set.errors,
+      durations: merged.durations.concat(set.durations)
+    }), this.emptySet());
+  }
+
+  private summarize(durations: number[]): LatencySummary {
+    return {
+      p50: this.percentile(durations, 50),
+      p95: this.percentile(durations, 95),
+      p99: this.percentile(durations, 99)
+    };
+  }
+
+  private percentile(durations: number[], percentile: number): number {
+    if (durations.length === 0) {
+      return 0;
+    }
+    const sorted = [...durations].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((percentile / 100) * sorted.length) - 1);
+    return Math.round(sorted[Math.max(0, index)] * 10) / 10;
+  }
+
+  private observe(histograms: Map<string, Histogram>, key: string, seconds: number): void {
+    let histogram = histograms.get(key);
+    if (!histogram) {
+      histogram = { buckets: MetricsService.HISTOGRAM_BUCKETS.map(() => 0), sum: 0, count: 0 };
+      histograms.set(key, histogram);
+    }
+    MetricsService.HISTOGRAM_BUCKETS.forEach((bound, index) => {
+      if (seconds <= bound) {
+        histogram!.buckets[index]++;
+      }
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  private writeHistogram(lines: string[], name: string, labels: Record<string, string>, histogram: Histogram): void {
+    MetricsService.HISTOGRAM_BUCKETS.forEach((bound, index) => {
+      lines.push(`${name}_bucket{${this.labels({ ...labels, le: String(bound) })}} ${histogram.buckets[index]}`);
+    });
+    lines.push(`${name}_bucket{${this.labels({ ...labels, le: '+Inf' })}} ${histogram.count}`);
+    lines.push(`${name}_sum{${this.labels(labels)}} ${histogram.sum}`);
+    lines.push(`${name}_count{${this.labels(labels)}} ${histogram.count}`);
+  }
+
+  private labels(values: Record<string, string>): string {
+    return Object.entries(values)
+      .map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+      .join(',');
+  }
+
+  private countActiveUsers(now: number): number {
+    this.activeUsers.forEach((lastSeen, userId) => {
+      if (now - lastSeen > MetricsService.ACTIVE_USER_MS) {
+        this.activeUsers.delete(userId);
+      }
+    });
+    return this.activeUsers.size;
+  }
+
+  private getOrCreate<K>(map: Map<K, SampleSet>, key: K): SampleSet {
+    let set = map.get(key);
+    if (!set) {
+      set = this.emptySet();
+      map.set(key, set);
+    }
+    return set;
+  }
+
+  private emptySet(): SampleSet {
+    return { count: 0, errors: 0, durations: [] };
+  }
+
+  private rate(errors: number, count: number): number {
+    return count ? Math.round((errors / count) * 10000) / 10000 : 0;
+  }
+
+  private minuteStart(timestamp: number): number {
+    return timestamp - (timestamp % MetricsService.MINUTE_MS);
+  }
+}
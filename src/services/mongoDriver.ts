@@ -0,0 +1,139 @@
+import {
+  DatabaseDriver,
+  DatabaseDriverError,
+  DriverConnectionConfig,
+  DriverProbeResult,
+  DriverQueryOptions,
+  DriverQueryResult,
+  loadDriverModule
+} from './databaseDriver';
+
+/**
+ * A MongoDB query, sent as JSON: either a find with `filter`, `projection` and `sort`, or an
+ * aggregation `pipeline`, on one collection
+ */
+export interface MongoQuery {
+  collection: string;
+  filter?: Record<string, unknown>;
+  projection?: Record<string, unknown>;
+  sort?: Record<string, unknown>;
+  pipeline?: Record<string, unknown>[];
+}
+
+// Stages that write, and operators that run server-side JavaScript
+const FORBIDDEN_MONGO_OPERATORS = ['$out', '$merge', '$where', '$function', '$accumulator'];
+
+/**
+ * MongoDB through the official driver. MongoDB has no read-only sessions, so queries are
+ * limited to find and aggregate without writing stages.
+ */
+export class MongoDriver implements DatabaseDriver {
+  public readonly type = 'mongodb' as const;
+
+  /**
+   * Parses and checks a query; throws a 400 DatabaseDriverError when it isn't a read-only
+   * find or aggregation
+   */
+  public static parseQuery(query: string): MongoQuery {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(query);
+    } catch {
+      throw new DatabaseDriverError('MongoDB queries must be JSON: { "collection", "filter" } or { "collection", "pipeline" }', 400);
+    }
+
+    if (!parsed || typeof parsed !== 'object' || typeof parsed.collection !== 'string' || !parsed.collection) {
+      throw new DatabaseDriverError('The query must name a collection', 400);
+    }
+    if (parsed.pipeline !== undefined && !Array.isArray(parsed.pipeline)) {
+      throw new DatabaseDriverError('pipeline must be an array of stages', 400);
+    }
+    if (parsed.pipeline && parsed.filter) {
+      throw new DatabaseDriverError('Use either filter or pipeline, not both', 400);
+    }
+
+    const forbidden = MongoDriver.findOperator(parsed, FORBIDDEN_MONGO_OPERATORS);
+    if (forbidden) {
+      throw new DatabaseDriverError(`The operator ${forbidden} is not allowed in a read-only query`, 400);
+    }
+    return parsed;
+  }
+
+  private static findOperator(value: unknown, operators: string[]): string | null {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        const found = MongoDriver.findOperator(item, operators);
+        if (found) return found;
+      }
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        if (operators.includes(key)) return key;
+        const found = MongoDriver.findOperator(child, operators);
+        if (found) return found;
+      }
+    }
+    return null;
+  }
+
+  public async probe(config: DriverConnectionConfig): Promise<DriverProbeResult> {
+    return this.withClient(config, async client => {
+      const admin = client.db(config.database || 'admin').admin();
+      await admin.ping();
+      const info = await admin.command({ buildInfo: 1 }).catch(() => null);
+      return { serverVersion: info?.version ? `MongoDB ${info.version}` : null };
+    });
+  }
+
+  public async query(config: DriverConnectionConfig, query: string, options: DriverQueryOptions): Promise<DriverQueryResult> {
+    if (options.writable) {
+      throw new DatabaseDriverError('MongoDB connections are read-only', 400);
+    }
+    const spec = MongoDriver.parseQuery(query);
+    if (!config.database) {
+      throw new DatabaseDriverError('The connection has no database', 400);
+    }
+
+    return this.withClient(config, async client => {
+      const collection = client.db(config.database).collection(spec.collection);
+      const cursor = spec.pipeline
+        ? collection.aggregate([...spec.pipeline, { $limit: options.maxRows + 1 }], { maxTimeMS: options.timeoutMs })
+        : collection.find(spec.filter || {}, {
+          projection: spec.projection,
+          sort: spec.sort,
+          limit: options.maxRows + 1,
+          maxTimeMS: options.timeoutMs
+        });
+      const documents: any[] = await cursor.toArray();
+
+      const rows = documents.slice(0, options.maxRows);
+      const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+      return { columns, rows, truncated: documents.length > options.maxRows };
+    });
+  }
+
+  private async withClient<T>(config: DriverConnectionConfig, run: (client: any) => Promise<T>): Promise<T> {
+    const { MongoClient } = loadDriverModule('mongodb', this.type);
+    const client = new MongoClient(`mongodb://${config.host}:${config.port}`, {
+      auth: config.username ? { username: config.username, password: config.password || undefined } : undefined,
+      authSource: config.username ? 'admin' : undefined,
+      tls: config.encrypt,
+      tlsAllowInvalidCertificates: config.trustServerCertificate,
+      connectTimeoutMS: config.connectTimeoutMs,
+      serverSelectionTimeoutMS: config.connectTimeoutMs,
+      directConnection: true
+    });
+
+    try {
+      await client.connect();
+    } catch (error) {
+      throw new DatabaseDriverError(error instanceof Error ? error.message : 'Connection failed');
+    }
+    try {
+      return await run(client);
+    } catch (error) {
+      throw error instanceof DatabaseDriverError ? error : new DatabaseDriverError(error instanceof Error ? error.message : 'Query failed');
+    } finally {
+      await client.close().catch(() => undefined);
+    }
+  }
+}
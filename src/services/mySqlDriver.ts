@@ -0,0 +1,84 @@
+import {
+  DatabaseDriver,
+  DatabaseDriverError,
+  DriverConnectionConfig,
+  DriverProbeResult,
+  DriverQueryOptions,
+  DriverQueryResult,
+  loadDriverModule
+} from './databaseDriver';
+
+/**
+ * MySQL and MariaDB through mysql2. Multiple statements stay disabled, which is the client's
+ * default.
+ */
+export class MySqlDriver implements DatabaseDriver {
+  public readonly type = 'mysql' as const;
+
+  public async probe(config: DriverConnectionConfig): Promise<DriverProbeResult> {
+    return this.withConnection(config, async connection => {
+      const [rows] = await connection.query('SELECT VERSION() AS version');
+      return { serverVersion: rows[0]?.version || null };
+    });
+  }
+
+  public async query(config: DriverConnectionConfig, query: string, options: DriverQueryOptions): Promise<DriverQueryResult> {
+    return this.withConnection(config, async connection => {
+      if (options.writable) {
+        return this.write(connection, query, options.timeoutMs);
+      }
+      // The server stops SELECTs after sql_select_limit rows and max_execution_time ms
+      await connection.query('SET SESSION sql_select_limit = ?', [options.maxRows + 1]);
+      await connection.query('SET SESSION max_execution_time = ?', [options.timeoutMs]);
+      await connection.query('START TRANSACTION READ ONLY');
+      try {
+        const [rows, fields] = await connection.query({ sql: query, timeout: options.timeoutMs + 1000 });
+        const resultRows = Array.isArray(rows) ? rows : [];
+        return {
+          columns: (fields || []).map((field: { name: string }) => field.name),
+          rows: resultRows.slice(0, options.maxRows),
+          truncated: resultRows.length > options.maxRows
+        };
+      } finally {
+        await connection.query('ROLLBACK').catch(() => undefined);
+      }
+    });
+  }
+
+  private async write(connection: any, query: string, timeoutMs: number): Promise<DriverQueryResult> {
+    await connection.query('START TRANSACTION');
+    try {
+      const [result] = await connection.query({ sql: query, timeout: timeoutMs });
+      await connection.query('COMMIT');
+      return { columns: [], rows: [], truncated: false, rowsAffected: result?.affectedRows ?? 0 };
+    } catch (error) {
+      await connection.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async withConnection<T>(config: DriverConnectionConfig, run: (connection: any) => Promise<T>): Promise<T> {
+    const mysql = loadDriverModule('mysql2/promise', this.type);
+    let connection: any;
+    try {
+      connection = await mysql.createConnection({
+        host: config.host,
+        port: config.port,
+        database: config.database || undefined,
+        user: config.username || undefined,
+        password: config.password || undefined,
+        ssl: config.encrypt ? { rejectUnauthorized: !config.trustServerCertificate } : undefined,
+        connectTimeout: config.connectTimeoutMs
+      });
+    } catch (error) {
+      throw new DatabaseDriverError(error instanceof Error ? error.message : 'Connection failed');
+    }
+    try {
+      return await run(connection);
+    } catch (error) {
+      throw error instanceof DatabaseDriverError ? error : new DatabaseDriverError(error instanceof Error ? error.message : 'Query failed');
+    } finally {
+      await connection.end().catch(() => undefined);
+    }
+  }
+}
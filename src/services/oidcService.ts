@@ -0,0 +1,471 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import sql from 'mssql';
+import { DatabaseManager } from '../config/database';
+import { ConfigurationManager } from './configurationManager';
+import { CacheService } from './cache';
+import { createUser } from './azure';
+import { logger } from '../utils/logger';
+
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string[];
+  trustEmail: boolean;          // Link existing accounts by email even without an email_verified claim
+}
+
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+  id_token_signing_alg_values_supported?: string[];
+}
+
+interface PendingLogin {
+  providerId: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  preferred_username?: string;
+  picture?: string;
+  nonce?: string;
+  tid?: string;
+  oid?: string;                 // Microsoft's object ID for the user in the tenant
+}
+
+export class OidcError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+/**
+ * Provider-agnostic OpenID Connect sign-in: discovery, authorization code flow with PKCE,
+ * ID token validation against the issuer's JWKS, and linking the identity to a user through
+ * Users.provider/providerId. Providers are configuration entries in the 'oidc' section:
+ * OIDC_PROVIDERS lists their ids, and each has OIDC_<ID>_ISSUER, _CLIENT_ID, _CLIENT_SECRET,
+ * _REDIRECT_URI, _SCOPES, _NAME and _TRUST_EMAIL.
+ */
+export class OidcService {
+  private static instance: OidcService;
+  private cache: CacheService;
+  private static readonly DISCOVERY_TTL_SECONDS = 3600;
+  private static readonly LOGIN_STATE_TTL_SECONDS = 600;
+  private static readonly SUPPORTED_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+  private constructor() {
+    this.cache = CacheService.getInstance();
+  }
+
+  public static getInstance(): OidcService {
+    if (!OidcService.instance) {
+      OidcService.instance = new OidcService();
+    }
+    return OidcService.instance;
+  }
+
+  /**
+   * Forgets cached discovery documents and signing keys, e.g. after the configuration changes
+   */
+  public reset(): void {
+    for (const provider of this.getProviders()) {
+      this.cache.delete(this.getDiscoveryCacheKey(provider.issuer));
+      this.cache.delete(this.getJwksCacheKey(provider.issuer));
+    }
+  }
+
+  /**
+   * Providers that are fully configured. Microsoft is derived from the AZURE_* identity
+   * settings when it has no OIDC entry of its own.
+   */
+  public getProviders(): OidcProviderConfig[] {
+    const config = ConfigurationManager.getInstance();
+    const ids = (config.getValue('oidc', 'OIDC_PROVIDERS') || '')
+      .split(',')
+      .map(id => id.trim().toLowerCase())
+      .filter(Boolean);
+
+    const providers: OidcProviderConfig[] = [];
+    for (const id of ids) {
+      const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+      const issuer = config.getValue('oidc', `${prefix}ISSUER`);
+      const clientId = config.getValue('oidc', `${prefix}CLIENT_ID`);
+      const redirectUri = config.getValue('oidc', `${prefix}REDIRECT_URI`) || config.getValue('oidc', 'OIDC_REDIRECT_URI');
+      if (!issuer || !clientId || !redirectUri) {
+        logger.debug(`OIDC provider '${id}' is missing its issuer, client ID or redirect URI and is disabled`);
+        continue;
+      }
+      providers.push({
+        id,
+        name: config.getValue('oidc', `${prefix}NAME`) || id.charAt(0).toUpperCase() + id.slice(1),
+        issuer: issuer.replace(/\/+$/, ''),
+        clientId,
+        clientSecret: config.getValue('oidc', `${prefix}CLIENT_SECRET`),
+        redirectUri,
+        scopes: (config.getValue('oidc', `${prefix}SCOPES`) || 'openid profile email').split(/[\s,]+/).filter(Boolean),
+        trustEmail: config.getValue('oidc', `${prefix}TRUST_EMAIL`) === 'true'
+      });
+    }
+
+    if (!providers.some(provider => provider.id === 'microsoft')) {
+      const tenantId = config.getValue('identity', 'AZURE_TENANT_ID');
+      const clientId = config.getValue('identity', 'AZURE_CLIENT_ID');
+      const redirectUri = config.getValue('oidc', 'MICROSOFT_REDIRECT_URI') || config.getValue('oidc', 'OIDC_REDIRECT_URI');
+      if (tenantId && clientId && redirectUri) {
+        providers.push({
+          id: 'microsoft',
+          name: 'Microsoft',
+          issuer: `https://login.microsoftonline.com/${tenantId}/v2.0`,
+          clientId,
+          clientSecret: config.getValue('identity', 'AZURE_CLIENT_SECRET'),
+          redirectUri,
+          scopes: ['openid', 'profile', 'email'],
+          trustEmail: false
+        });
+      }
+    }
+
+    return providers;
+  }
+
+  public getProvider(providerId: string): OidcProviderConfig {
+    const provider = this.getProviders().find(p => p.id === providerId.toLowerCase());
+    if (!provider) {
+      throw new OidcError(`Sign-in provider '${providerId}' is not configured`, 404);
+    }
+    return provider;
+  }
+
+  /**
+   * Starts a sign-in: builds the authorization URL and remembers the PKCE verifier and
+   * nonce under the returned state until the callback
+   */
+  public async createAuthorizationRequest(providerId: string): Promise<{ authorizationUrl: string; state: string }> {
+    const provider = this.getProvider(providerId);
+    const discovery = await this.getDiscoveryDocument(provider);
+
+    const state = this.randomToken();
+    const nonce = this.randomToken();
+    const codeVerifier = this.randomToken(48);
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    const pending: PendingLogin = { providerId: provider.id, codeVerifier, nonce, redirectUri: provider.redirectUri };
+    this.cache.set(this.getStateCacheKey(state), pending, { ttl: OidcService.LOGIN_STATE_TTL_SECONDS });
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', provider.redirectUri);
+    url.searchParams.set('scope', provider.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { authorizationUrl: url.toString(), state };
+  }
+
+  /**
+   * Completes a sign-in: exchanges the authorization code and validates the ID token
+   * @returns The validated ID token claims
+   */
+  public async handleCallback(providerId: string, code: string, state: string): Promise<OidcClaims> {
+    const pending = this.cache.get<PendingLogin>(this.getStateCacheKey(state));
+    // A state can only be used once
+    this.cache.delete(this.getStateCacheKey(state));
+    if (!pending || pending.providerId !== providerId.toLowerCase()) {
+      throw new OidcError('Sign-in request expired or is invalid, please try again', 400);
+    }
+
+    const provider = this.getProvider(providerId);
+    const discovery = await this.getDiscoveryDocument(provider);
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: pending.redirectUri,
+      client_id: provider.clientId,
+      code_verifier: pending.codeVerifier
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+    if (provider.clientSecret) {
+      const authMethods = discovery.token_endpoint_auth_methods_supported || ['client_secret_basic'];
+      if (authMethods.includes('client_secret_post')) {
+        body.set('client_secret', provider.clientSecret);
+      } else {
+        const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+        headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+      }
+    }
+
+    const response = await fetch(discovery.token_endpoint, { method: 'POST', headers, body: body.toString() });
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error(`OIDC token exchange with ${provider.id} failed: ${response.status} - ${errorText}`);
+      throw new OidcError('The sign-in provider rejected the authorization code', 401);
+    }
+
+    const tokens = await response.json() as { id_token?: string };
+    if (!tokens.id_token) {
+      throw new OidcError('The sign-in provider did not return an ID token', 401);
+    }
+
+    const claims = await this.verifyIdToken(provider, discovery, tokens.id_token);
+    if (claims.nonce !== pending.nonce) {
+      throw new OidcError('ID token nonce does not match the sign-in request', 401);
+    }
+    return claims;
+  }
+
+  /**
+   * Finds the user for an external identity, linking it to an existing account with the
+   * same verified email or creating a new account
+   */
+  public async findOrLinkUser(providerId: string, claims: OidcClaims): Promise<any> {
+    const provider = this.getProvider(providerId);
+    const pool = await DatabaseManager.getInstance().getPool();
+
+    const linked = await pool.request()
+      .input('provider', sql.NVarChar, provider.id)
+      .input('providerId', sql.NVarChar, claims.sub)
+      .query('SELECT * FROM Users WHERE provider = @provider AND providerId = @providerId');
+    if (linked.recordset[0]) {
+      return linked.recordset[0];
+    }
+
+    const tenantScoped = this.isTenantScopedMicrosoft(provider, claims);
+    if (tenantScoped) {
+      const legacy = await this.findLegacyMicrosoftUser(claims);
+      if (legacy) {
+        return legacy;
+      }
+    }
+
+    // preferred_username is often a UPN rather than a mailbox, so only the email claim counts
+    const email = (claims.email || '').toLowerCase();
+    if (!email || !email.includes('@')) {
+      throw new OidcError('The sign-in provider did not share an email address', 400);
+    }
+
+    const existing = await pool.request()
+      .input('email', sql.NVarChar, email)
+      .query('SELECT * FROM Users WHERE email = @email');
+    const user = existing.recordset[0];
+
+    if (user) {
+      const emailVerified = claims.email_verified === true || claims.email_verified === 'true';
+      // A single-tenant Microsoft directory owns the addresses it issues
+      if (!emailVerified && !provider.trustEmail && !tenantScoped) {
+        throw new OidcError('An account with this email already exists. Sign in with your password to use it.', 409);
+      }
+      if (user.providerId && (user.provider !== provider.id || user.providerId !== claims.sub)) {
+        throw new OidcError('This account is already linked to another sign-in provider', 409);
+      }
+
+      const result = await pool.request()
+        .input('id', sql.NVarChar, user.id)
+        .input('provider', sql.NVarChar, provider.id)
+        .input('providerId', sql.NVarChar, claims.sub)
+        .query(`
+          UPDATE Users
+          SET provider = @provider, providerId = @providerId, updatedAt = GETUTCDATE()
+          OUTPUT INSERTED.*
+          WHERE id = @id
+        `);
+      logger.info(`Linked ${provider.id} identity to existing user ${user.id}`);
+      return result.recordset[0];
+    }
+
+    const [nameFirst, ...nameRest] = (claims.name || '').split(' ').filter(Boolean);
+    return createUser({
+      id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      firstName: claims.given_name || nameFirst || email.split('@')[0],
+      lastName: claims.family_name || nameRest.join(' ') || '',
+      email,
+      provider: provider.id,
+      providerId: claims.sub,
+      avatar: claims.picture,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Whether the identity comes from the Microsoft provider's own tenant, as opposed to a
+   * multi-tenant or consumer endpoint
+   */
+  private isTenantScopedMicrosoft(provider: OidcProviderConfig, claims: OidcClaims): boolean {
+    return provider.id === 'microsoft' && !!claims.tid && provider.issuer.toLowerCase().includes(`/${claims.tid.toLowerCase()}/`);
+  }
+
+  /**
+   * Accounts created by the old Microsoft sign-in stored the object ID (localAccountId) as
+   * providerId, or nothing, with the account's username as email. Matches them on those and
+   * records the subject so later sign-ins find them directly.
+   */
+  private async findLegacyMicrosoftUser(claims: OidcClaims): Promise<any | null> {
+    if (!claims.oid && !claims.preferred_username) {
+      return null;
+    }
+
+    const pool = await DatabaseManager.getInstance().getPool();
+    const result = await pool.request()
+      .input('oid', sql.NVarChar, claims.oid || null)
+      .input('username', sql.NVarChar, (claims.preferred_username || '').toLowerCase() || null)
+      .query(`
+        SELECT TOP 1 * FROM Users
+        WHERE provider = 'microsoft'
+          AND ((@oid IS NOT NULL AND providerId = @oid)
+            OR (providerId IS NULL AND @username IS NOT NULL AND LOWER(email) = @username))
+        ORDER BY CASE WHEN providerId = @oid THEN 0 ELSE 1 END
+      `);
+    const user = result.recordset[0];
+    if (!user) {
+      return null;
+    }
+
+    const updated = await pool.request()
+      .input('id', sql.NVarChar, user.id)
+      .input('providerId', sql.NVarChar, claims.sub)
+      .query(`
+        UPDATE Users
+        SET providerId = @providerId, updatedAt = GETUTCDATE()
+        OUTPUT INSERTED.*
+        WHERE id = @id
+      `);
+    logger.info(`Matched legacy Microsoft account ${user.id} and recorded its subject`);
+    return updated.recordset[0];
+  }
+
+  private async verifyIdToken(
+    provider: OidcProviderConfig,
+    discovery: OidcDiscoveryDocument,
+    idToken: string
+  ): Promise<OidcClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new OidcError('ID token is malformed', 401);
+    }
+
+    const algorithm = decoded.header.alg as jwt.Algorithm;
+    if (!OidcService.SUPPORTED_ALGORITHMS.includes(algorithm)) {
+      throw new OidcError(`ID token algorithm ${decoded.header.alg} is not supported`, 401);
+    }
+
+    const key = await this.getSigningKey(provider, discovery, decoded.header.kid);
+
+    // Multi-tenant Microsoft issuers contain a {tenantid} placeholder filled from the token
+    const payload = decoded.payload as OidcClaims;
+    const issuer = discovery.issuer.replace('{tenantid}', payload.tid || '{tenantid}');
+
+    try {
+      return jwt.verify(idToken, key, {
+        algorithms: [algorithm],
+        issuer,
+        audience: provider.clientId,
+        clockTolerance: 60
+      }) as OidcClaims;
+    } catch (error) {
+      logger.warn(`ID token from ${provider.id} failed validation:`, error);
+      throw new OidcError('ID token is invalid', 401);
+    }
+  }
+
+  private async getSigningKey(
+    provider: OidcProviderConfig,
+    discovery: OidcDiscoveryDocument,
+    kid: string | undefined
+  ): Promise<crypto.KeyObject> {
+    const findKey = (keys: any[]) => keys.find(key => (!kid || key.kid === kid) && (!key.use || key.use === 'sig'));
+
+    let keys = await this.getJwks(provider, discovery, false);
+    let jwk = findKey(keys);
+    if (!jwk) {
+      // The issuer may have rotated its keys since they were cached
+      keys = await this.getJwks(provider, discovery, true);
+      jwk = findKey(keys);
+    }
+    if (!jwk) {
+      throw new OidcError('ID token was signed with an unknown key', 401);
+    }
+    return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  }
+
+  private async getJwks(provider: OidcProviderConfig, discovery: OidcDiscoveryDocument, refresh: boolean): Promise<any[]> {
+    const cacheKey = this.getJwksCacheKey(provider.issuer);
+    if (!refresh) {
+      const cached = this.cache.get<any[]>(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const response = await fetch(discovery.jwks_uri, { headers: { 'Accept': 'application/json' } });
+    if (!response.ok) {
+      throw new OidcError(`Failed to fetch signing keys of ${provider.id}: ${response.status}`, 502);
+    }
+    const jwks = await response.json() as { keys?: any[] };
+    const keys = jwks.keys || [];
+    this.cache.set(cacheKey, keys, { ttl: OidcService.DISCOVERY_TTL_SECONDS });
+    return keys;
+  }
+
+  private async getDiscoveryDocument(provider: OidcProviderConfig): Promise<OidcDiscoveryDocument> {
+    const cacheKey = this.getDiscoveryCacheKey(provider.issuer);
+    const cached = this.cache.get<OidcDiscoveryDocument>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await fetch(`${provider.issuer}/.well-known/openid-configuration`, {
+      headers: { 'Accept': 'application/json' }
+    });
+    if (!response.ok) {
+      throw new OidcError(`Failed to discover sign-in provider ${provider.id}: ${response.status}`, 502);
+    }
+
+    const discovery = await response.json() as OidcDiscoveryDocument;
+    if (!discovery.authorization_endpoint || !discovery.token_endpoint || !discovery.jwks_uri || !discovery.issuer) {
+      throw new OidcError(`Discovery document of ${provider.id} is incomplete`, 502);
+    }
+
+    this.cache.set(cacheKey, discovery, { ttl: OidcService.DISCOVERY_TTL_SECONDS });
+    return discovery;
+  }
+
+  private randomToken(bytes: number = 32): string {
+    return crypto.randomBytes(bytes).toString('base64url');
+  }
+
+  private getStateCacheKey(state: string): string {
+    return `oidc_state:${state}`;
+  }
+
+  private getDiscoveryCacheKey(issuer: string): string {
+    return `oidc_discovery:${issuer}`;
+  }
+
+  private getJwksCacheKey(issuer: string): string {
+    return `oidc_jwks:${issuer}`;
+  }
+}
@@ -1,5 +1,6 @@
 import { OpenAIClient, AzureKeyCredential } from '@azure/openai';
 import { logger } from '../utils/logger';
+import { MetricsService } from './metricsService';
 
 // Explicitly load environment variables
 import dotenv from 'dotenv';
@@ -198,7 +199,7 @@ export class OpenAIService {
       );
       
       // Race the request against the timeout
-      const response = await Promise.race([requestPromise, timeoutPromise]);
+      const response = await MetricsService.getInstance().trackOpenAICall('chat', () => Promise.race([requestPromise, timeoutPromise]));
 
       const choice = response.choices[0];
       if (!choice?.message?.content) {
@@ -293,8 +294,8 @@ export class OpenAIService {
         }
       );
       
-      // Race the request against the timeout
-      const response = await Promise.race([requestPromise, timeoutPromise]);
+      // Race the request against the timeout; the recorded latency is the time until the stream opens
+      const response = await MetricsService.getInstance().trackOpenAICall('chat_stream', () => Promise.race([requestPromise, timeoutPromise]));
 
       logger.info('Started streaming response from Azure OpenAI');
       return this.processStreamingResponse(response);
@@ -349,6 +350,60 @@ export class OpenAIService {
     }
   }
 
+  /**
+   * Gets embedding vectors for a batch of texts from an Azure OpenAI embedding deployment
+   * @param input - Texts to embed
+   * @param deploymentName - The embedding model deployment (e.g. text-embedding-3-small)
+   * @param dimensions - Optional output size (text-embedding-3 models only)
+   * @returns One vector per input text, in input order
+   */
+  public async getEmbeddings(input: string[], deploymentName: string, dimensions?: number): Promise<number[][]> {
+    if (!this.client.getEmbeddings || typeof this.client.getEmbeddings !== 'function') {
+      throw new Error('Embeddings are not available with the mock OpenAI client');
+    }
+
+    const response = await MetricsService.getInstance().trackOpenAICall('embeddings', () =>
+      this.client.getEmbeddings(deploymentName, input, dimensions ? { dimensions } : {})
+    );
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  /**
+   * Condenses earlier conversation turns into a short summary that can stand in for them
+   * @param messages - The turns to condense, oldest first
+   * @param previousSummary - The summary of turns before these, folded into the new one
+   * @param maxTokens - Maximum length of the summary
+   * @returns The summary text
+   */
+  public async summarizeConversation(
+    messages: ChatMessage[],
+    previousSummary: string | null,
+    maxTokens: number
+  ): Promise<string> {
+    const transcript = messages
+      .map(message => `${message.role === 'assistant' ? 'Assistant' : 'User'}: ${message.content}`)
+      .join('\n\n');
+
+    const prompt: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You maintain the memory of a conversation between a user and AIVA, a business analytics assistant.
+Write a concise summary of the conversation so far that lets the assistant continue it without the original messages.
+Keep facts, figures, names, decisions, open questions and the user's stated preferences. Leave out greetings and filler.
+Write in the third person and stay under ${maxTokens} tokens.`
+      },
+      {
+        role: 'user',
+        content: `${previousSummary ? `Summary of the earlier conversation:\n${previousSummary}\n\n` : ''}Conversation to add to the summary:\n${transcript}`
+      }
+    ];
+
+    const result = await this.getChatCompletion(prompt, { maxTokens, temperature: 0.2 });
+    return result.content.trim();
+  }
+
   public async moderateContent(content: string): Promise<boolean> {
     try {
       // Note: Azure OpenAI might not have moderation endpoint
@@ -383,6 +438,13 @@ Current date: ${new Date().toISOString().split('T')[0]}`;
 You have access to documents from a specific workspace. When answering questions, prioritize information from these documents. 
 If a question cannot be answered using the provided documents, clearly state that the information is not available in the workspace documents 
 and provide a general response based on your knowledge.`;
+
+      if (ragContext.documents && ragContext.documents.length > 0) {
+        prompt += `
+
+Each workspace passage is labelled with a numbered marker such as [1]. When a statement is based on a passage, cite it inline
+with its marker, e.g. "Revenue grew 12% [2]." Cite several passages as [1][3]. Only use markers of passages you were given.`;
+      }
     } else {
       prompt += `
 
@@ -0,0 +1,79 @@
+import {
+  DatabaseDriver,
+  DatabaseDriverError,
+  DriverConnectionConfig,
+  DriverProbeResult,
+  DriverQueryOptions,
+  DriverQueryResult,
+  loadDriverModule,
+  stripTrailingSemicolons
+} from './databaseDriver';
+
+/**
+ * Oracle through node-oracledb in thin mode. The connection's database is the service name.
+ */
+export class OracleDriver implements DatabaseDriver {
+  public readonly type = 'oracle' as const;
+
+  public async probe(config: DriverConnectionConfig): Promise<DriverProbeResult> {
+    return this.withConnection(config, config.connectTimeoutMs, async connection => {
+      await connection.execute('SELECT 1 FROM DUAL');
+      return { serverVersion: connection.oracleServerVersionString || null };
+    });
+  }
+
+  public async query(config: DriverConnectionConfig, query: string, options: DriverQueryOptions): Promise<DriverQueryResult> {
+    const oracledb = loadDriverModule('oracledb', this.type);
+    return this.withConnection(config, options.timeoutMs, async connection => {
+      if (options.writable) {
+        // Oracle starts the transaction with the statement; autoCommit is off by default
+        try {
+          const result = await connection.execute(stripTrailingSemicolons(query));
+          await connection.commit();
+          return { columns: [], rows: [], truncated: false, rowsAffected: result.rowsAffected ?? 0 };
+        } catch (error) {
+          await connection.rollback().catch(() => undefined);
+          throw error;
+        }
+      }
+      await connection.execute('SET TRANSACTION READ ONLY');
+      try {
+        const result = await connection.execute(stripTrailingSemicolons(query), [], {
+          maxRows: options.maxRows + 1,
+          outFormat: oracledb.OUT_FORMAT_OBJECT
+        });
+        const rows = result.rows || [];
+        return {
+          columns: (result.metaData || []).map((column: { name: string }) => column.name),
+          rows: rows.slice(0, options.maxRows),
+          truncated: rows.length > options.maxRows
+        };
+      } finally {
+        await connection.rollback().catch(() => undefined);
+      }
+    });
+  }
+
+  private async withConnection<T>(config: DriverConnectionConfig, timeoutMs: number, run: (connection: any) => Promise<T>): Promise<T> {
+    const oracledb = loadDriverModule('oracledb', this.type);
+    let connection: any;
+    try {
+      connection = await oracledb.getConnection({
+        user: config.username || undefined,
+        password: config.password || undefined,
+        connectString: `${config.host}:${config.port}/${config.database || ''}`,
+        connectTimeout: Math.ceil(config.connectTimeoutMs / 1000)
+      });
+    } catch (error) {
+      throw new DatabaseDriverError(error instanceof Error ? error.message : 'Connection failed');
+    }
+    try {
+      connection.callTimeout = timeoutMs;
+      return await run(connection);
+    } catch (error) {
+      throw error instanceof DatabaseDriverError ? error : new DatabaseDriverError(error instanceof Error ? error.message : 'Query failed');
+    } finally {
+      await connection.close().catch(() => undefined);
+    }
+  }
+}
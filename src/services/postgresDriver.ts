@@ -0,0 +1,93 @@
+import {
+  DatabaseDriver,
+  DatabaseDriverError,
+  DriverConnectionConfig,
+  DriverProbeResult,
+  DriverQueryOptions,
+  DriverQueryResult,
+  loadDriverModule,
+  stripTrailingSemicolons
+} from './databaseDriver';
+
+/**
+ * PostgreSQL through the pg client
+ */
+export class PostgresDriver implements DatabaseDriver {
+  public readonly type = 'postgresql' as const;
+
+  public async probe(config: DriverConnectionConfig): Promise<DriverProbeResult> {
+    return this.withClient(config, config.connectTimeoutMs, async client => {
+      const result = await client.query('SELECT version() AS version');
+      return { serverVersion: result.rows[0]?.version || null };
+    });
+  }
+
+  public async query(config: DriverConnectionConfig, query: string, options: DriverQueryOptions): Promise<DriverQueryResult> {
+    return this.withClient(config, options.timeoutMs, async client => {
+      if (options.writable) {
+        return this.write(client, query, options.maxRows);
+      }
+      await client.query('BEGIN READ ONLY');
+      try {
+        // Wrapping the query caps the rows without fetching the whole result
+        const result = await client.query(
+          `SELECT * FROM (${stripTrailingSemicolons(query)}) AS limited_query LIMIT ${options.maxRows + 1}`
+        );
+        return {
+          columns: result.fields.map((field: { name: string }) => field.name),
+          rows: result.rows.slice(0, options.maxRows),
+          truncated: result.rows.length > options.maxRows
+        };
+      } finally {
+        await client.query('ROLLBACK').catch(() => undefined);
+      }
+    });
+  }
+
+  private async write(client: any, query: string, maxRows: number): Promise<DriverQueryResult> {
+    await client.query('BEGIN');
+    try {
+      const result = await client.query(stripTrailingSemicolons(query));
+      await client.query('COMMIT');
+      // RETURNING clauses return rows
+      const rows = result.rows || [];
+      return {
+        columns: (result.fields || []).map((field: { name: string }) => field.name),
+        rows: rows.slice(0, maxRows),
+        truncated: rows.length > maxRows,
+        rowsAffected: result.rowCount ?? 0
+      };
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async withClient<T>(config: DriverConnectionConfig, timeoutMs: number, run: (client: any) => Promise<T>): Promise<T> {
+    const { Client } = loadDriverModule('pg', this.type);
+    const client = new Client({
+      host: config.host,
+      port: config.port,
+      database: config.database || undefined,
+      user: config.username || undefined,
+      password: config.password || undefined,
+      ssl: config.encrypt ? { rejectUnauthorized: !config.trustServerCertificate } : false,
+      connectionTimeoutMillis: config.connectTimeoutMs,
+      statement_timeout: timeoutMs,
+      query_timeout: timeoutMs + 1000
+    });
+
+    try {
+      await client.connect();
+    } catch (error) {
+      throw new DatabaseDriverError(error instanceof Error ? error.message : 'Connection failed');
+    }
+    try {
+      return await run(client);
+    } catch (error) {
+      throw error instanceof DatabaseDriverError ? error : new DatabaseDriverError(error instanceof Error ? error.message : 'Query failed');
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,730 @@
+import { ExternalDatabaseType } from './databaseDriver';
+
+export type QueryDialect = 'tsql' | 'postgresql' | 'mysql' | 'oracle' | 'dax';
+
+export type QueryRejectionCode =
+  | 'empty_query'
+  | 'syntax_error'
+  | 'multiple_statements'
+  | 'statement_not_allowed'
+  | 'keyword_not_allowed'
+  | 'function_not_allowed'
+  | 'system_object'
+  | 'select_into'
+  | 'executable_comment';
+
+export interface QueryRejection {
+  code: QueryRejectionCode;
+  message: string;
+  token?: string;       // The keyword, function or object the query was rejected for
+  position?: number;    // Character offset of that token in the submitted query
+}
+
+export interface QueryInspection {
+  allowed: boolean;
+  dialect: QueryDialect;
+  statementType: string;        // 'select', 'evaluate', 'insert', ... or 'unknown'
+  tables: string[];             // Tables and views the query reads or writes
+  query: string;                // The query to run: the submitted one with the row limit applied
+  rowLimitApplied: boolean;
+  rejection?: QueryRejection;
+}
+
+export interface QueryGuardOptions {
+  rowLimit?: number;            // Caps the rows a SELECT or EVALUATE returns by rewriting the query
+  allowWrites?: boolean;        // Also accepts INSERT, UPDATE, DELETE and MERGE (connections in write mode)
+}
+
+export class QueryRejectedError extends Error {
+  constructor(public rejection: QueryRejection, public statusCode: number = 400) {
+    super(rejection.message);
+    this.name = 'QueryRejectedError';
+  }
+}
+
+interface Token {
+  kind: 'word' | 'quoted' | 'string' | 'number' | 'variable' | 'symbol';
+  text: string;
+  upper: string;        // Upper-cased word, or the upper-cased name inside a quoted identifier
+  start: number;
+  end: number;
+  depth: number;        // Parenthesis depth the token is at
+}
+
+interface TableChain {
+  name: string;
+  parts: string[];
+  start: number;
+  next: number;         // Index of the first token after the chain
+}
+
+/**
+ * Parses SQL and DAX queries and decides whether they may run. A query is allowed when it is a
+ * single SELECT (optionally with CTEs) or DAX EVALUATE that doesn't write, change the schema,
+ * run code or read system catalogs. Allowed queries get a row limit written into them (TOP,
+ * LIMIT, ROWNUM or TOPN) so the database stops early instead of the client.
+ *
+ * The tokenizer understands each dialect's comments, string literals and quoted identifiers, so
+ * a keyword hidden in a string or comment is ignored and one hidden behind a comment is not.
+ */
+export class QueryGuardService {
+  private static instance: QueryGuardService;
+
+  private static readonly FORBIDDEN_KEYWORDS = new Set([
+    'DROP', 'ALTER', 'CREATE', 'TRUNCATE', 'RENAME', 'GRANT', 'REVOKE', 'DENY', 'EXEC', 'EXECUTE', 'CALL',
+    'OPENROWSET', 'OPENQUERY', 'OPENDATASOURCE', 'OPENXML', 'BULK', 'BACKUP', 'RESTORE', 'DBCC', 'SHUTDOWN',
+    'KILL', 'RECONFIGURE', 'USE', 'DECLARE', 'WAITFOR', 'BEGIN', 'COMMIT', 'ROLLBACK', 'SAVEPOINT', 'COPY',
+    'VACUUM', 'LOCK', 'UNLOCK', 'HANDLER', 'LOAD', 'OUTFILE', 'DUMPFILE'
+  ]);
+  // Keywords that only belong in statements that write; accepted in write mode
+  private static readonly WRITE_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'INTO', 'SET']);
+  private static readonly WRITE_STATEMENTS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+  private static readonly SET_OPERATORS = new Set(['UNION', 'INTERSECT', 'EXCEPT', 'MINUS']);
+  // Functions that sleep, take locks, touch the file system or reach other servers
+  private static readonly FORBIDDEN_FUNCTIONS = new Set([
+    'XP_CMDSHELL', 'PG_SLEEP', 'PG_SLEEP_FOR', 'PG_SLEEP_UNTIL', 'PG_READ_FILE', 'PG_READ_BINARY_FILE', 'PG_LS_DIR',
+    'PG_STAT_FILE', 'PG_TERMINATE_BACKEND', 'PG_CANCEL_BACKEND', 'PG_RELOAD_CONF', 'PG_ROTATE_LOGFILE',
+    'PG_ADVISORY_LOCK', 'SET_CONFIG', 'LO_IMPORT', 'LO_EXPORT', 'DBLINK', 'DBLINK_EXEC', 'SLEEP', 'BENCHMARK',
+    'LOAD_FILE', 'GET_LOCK', 'SYS_EXEC', 'SYS_EVAL'
+  ]);
+  private static readonly SYSTEM_SCHEMAS = new Set([
+    'SYS', 'INFORMATION_SCHEMA', 'PG_CATALOG', 'PG_TOAST', 'MYSQL', 'PERFORMANCE_SCHEMA'
+  ]);
+  private static readonly SQL_SERVER_SYSTEM_DATABASES = new Set(['MASTER', 'MSDB', 'TEMPDB', 'MODEL', 'MSSQLSYSTEMRESOURCE']);
+  // SQL Server compatibility views that can be queried without the sys schema
+  private static readonly SQL_SERVER_SYSTEM_TABLES = new Set([
+    'SYSOBJECTS', 'SYSCOLUMNS', 'SYSINDEXES', 'SYSUSERS', 'SYSLOGINS', 'SYSXLOGINS', 'SYSPROCESSES', 'SYSDATABASES',
+    'SYSSERVERS', 'SYSFILES', 'SYSALTFILES', 'SYSCOMMENTS', 'SYSMEMBERS', 'SYSPERMISSIONS', 'SYSPROTECTS',
+    'SYSCONFIGURES', 'SYSCACHEOBJECTS', 'SYSLOCKINFO', 'SYSREMOTELOGINS', 'SYSOLEDBUSERS'
+  ]);
+  private static readonly ORACLE_DICTIONARY_PREFIX = /^(DBA_|CDB_|V\$|GV\$)/;
+  private static readonly ORACLE_DICTIONARY_VIEWS = new Set([
+    'ALL_TABLES', 'ALL_TAB_COLUMNS', 'ALL_VIEWS', 'ALL_OBJECTS', 'ALL_SOURCE', 'ALL_USERS', 'ALL_DB_LINKS',
+    'USER_TABLES', 'USER_TAB_COLUMNS', 'USER_VIEWS', 'USER_OBJECTS', 'USER_SOURCE', 'USER_USERS', 'USER_DB_LINKS',
+    'USER_ROLE_PRIVS', 'USER_SYS_PRIVS', 'USER_TAB_PRIVS'
+  ]);
+  private static readonly FORBIDDEN_DAX_KEYWORDS = new Set(['CREATE', 'ALTER', 'DELETE', 'DROP', 'INSERT', 'UPDATE', 'REFRESH']);
+  // Keywords that end a FROM list, for finding comma-separated tables
+  private static readonly FROM_LIST_END = new Set([
+    'WHERE', 'GROUP', 'ORDER', 'HAVING', 'UNION', 'INTERSECT', 'EXCEPT', 'MINUS', 'LIMIT', 'OFFSET', 'FETCH', 'WINDOW',
+    'QUALIFY', 'FOR', 'OPTION', 'ON', 'USING', 'JOIN', 'CROSS', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'NATURAL',
+    'SET', 'VALUES', 'SELECT', 'RETURNING', 'OUTPUT', 'WHEN'
+  ]);
+  // Words that can follow FROM, INTO, UPDATE or MERGE without being a table
+  private static readonly TABLE_PREFIX_KEYWORDS = new Set(['INTO', 'SELECT', 'LATERAL', 'ONLY', 'TOP', 'UNNEST']);
+
+  public static getInstance(): QueryGuardService {
+    if (!QueryGuardService.instance) {
+      QueryGuardService.instance = new QueryGuardService();
+    }
+    return QueryGuardService.instance;
+  }
+
+  /**
+   * The dialect queries are parsed in for a connection type or query type. MongoDB queries
+   * aren't SQL and have no dialect.
+   */
+  public static dialectFor(type: ExternalDatabaseType | 'sql' | 'dax'): QueryDialect | null {
+    switch (type) {
+      case 'dax':
+        return 'dax';
+      case 'sql':
+      case 'fabric':
+      case 'sql-server':
+        return 'tsql';
+      case 'postgresql':
+      case 'mysql':
+      case 'oracle':
+        return type;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Parses a query and decides whether it may run. Never throws for a bad query; the
+   * rejection says why it was refused.
+   */
+  public inspect(query: string, dialect: QueryDialect, options: QueryGuardOptions = {}): QueryInspection {
+    const inspection: QueryInspection = {
+      allowed: false,
+      dialect,
+      statementType: 'unknown',
+      tables: [],
+      query,
+      rowLimitApplied: false
+    };
+
+    try {
+      const tokens = this.tokenize(query, dialect);
+      if (dialect === 'dax') {
+        this.inspectDax(query, tokens, inspection, options);
+      } else {
+        this.inspectSql(query, tokens, dialect, inspection, options);
+      }
+      inspection.allowed = true;
+    } catch (error) {
+      if (!(error instanceof QueryRejectedError)) {
+        throw error;
+      }
+      inspection.rejection = error.rejection;
+      inspection.query = query;
+      inspection.rowLimitApplied = false;
+    }
+    return inspection;
+  }
+
+  /**
+   * Like inspect, but throws a QueryRejectedError when the query may not run
+   */
+  public enforce(query: string, dialect: QueryDialect, options: QueryGuardOptions = {}): QueryInspection {
+    const inspection = this.inspect(query, dialect, options);
+    if (!inspection.allowed) {
+      throw new QueryRejectedError(inspection.rejection!);
+    }
+    return inspection;
+  }
+
+  private inspectSql(query: string, allTokens: Token[], dialect: QueryDialect, inspection: QueryInspection, options: QueryGuardOptions): void {
+    // A trailing semicolon ends the statement; any other one starts a second statement
+    let end = allTokens.length;
+    while (end > 0 && allTokens[end - 1].text === ';') {
+      end--;
+    }
+    const tokens = allTokens.slice(0, end);
+    if (tokens.length === 0) {
+      this.reject('empty_query', 'The query is empty');
+    }
+
+    const { mainIndex, cteNames } = this.findMainStatement(tokens);
+    const main = tokens[mainIndex];
+    inspection.statementType = main.kind === 'word' ? main.upper.toLowerCase() : 'unknown';
+
+    const separator = tokens.find(token => token.text === ';' && token.kind === 'symbol')
+      || (dialect === 'tsql' ? tokens.find(token => token.kind === 'word' && token.upper === 'GO') : undefined);
+    if (separator) {
+      this.reject('multiple_statements', 'Only a single statement is allowed', separator);
+    }
+
+    const isWrite = QueryGuardService.WRITE_STATEMENTS.has(main.upper);
+    if (main.kind !== 'word' || !(main.upper === 'SELECT' || (options.allowWrites && isWrite))) {
+      this.reject(
+        'statement_not_allowed',
+        options.allowWrites ? 'Only SELECT, INSERT, UPDATE, DELETE and MERGE statements are allowed' : 'Only SELECT queries are allowed',
+        main
+      );
+    }
+
+    this.checkStatementBoundaries(tokens, mainIndex, isWrite);
+
+    tokens.forEach((token, index) => {
+      if (token.kind !== 'word' || tokens[index - 1]?.text === '.') {
+        return;
+      }
+      if (QueryGuardService.FORBIDDEN_KEYWORDS.has(token.upper)) {
+        this.reject('keyword_not_allowed', `The keyword ${token.upper} is not allowed`, token);
+      }
+      if (QueryGuardService.WRITE_KEYWORDS.has(token.upper) && !isWrite) {
+        if (token.upper === 'INTO') {
+          this.reject('select_into', 'SELECT ... INTO writes the result to a table or file and is not allowed', token);
+        }
+        this.reject('keyword_not_allowed', `The keyword ${token.upper} is not allowed in a read-only query`, token);
+      }
+      if (tokens[index + 1]?.text === '(' && QueryGuardService.FORBIDDEN_FUNCTIONS.has(token.upper)) {
+        this.reject('function_not_allowed', `The function ${token.upper} is not allowed`, token);
+      }
+    });
+
+    for (let index = 0; index < tokens.length;) {
+      const chain = this.readChain(tokens, index);
+      if (!chain) {
+        index++;
+        continue;
+      }
+      this.checkSystemObject(chain, tokens, dialect);
+      index = chain.next;
+    }
+
+    inspection.tables = this.collectTables(tokens, cteNames);
+
+    if (!isWrite && options.rowLimit) {
+      const limited = this.applySqlRowLimit(query, tokens, mainIndex, dialect, options.rowLimit);
+      inspection.query = limited.query;
+      inspection.rowLimitApplied = limited.applied;
+    }
+  }
+
+  /**
+   * The statement's own keyword: the first word, or for a WITH query the first SELECT, INSERT,
+   * UPDATE, DELETE or MERGE after the CTEs
+   */
+  private findMainStatement(tokens: Token[]): { mainIndex: number; cteNames: Set<string> } {
+    const cteNames = new Set<string>();
+    let first = 0;
+    while (first < tokens.length - 1 && tokens[first].text === '(') {
+      first++;
+    }
+    const start = tokens[first];
+    if (start.kind !== 'word' || start.upper !== 'WITH') {
+      return { mainIndex: first, cteNames };
+    }
+
+    for (let index = first + 1; index < tokens.length; index++) {
+      const token = tokens[index];
+      if (token.depth !== start.depth) {
+        continue;
+      }
+      if (token.kind === 'word' && (token.upper === 'SELECT' || QueryGuardService.WRITE_STATEMENTS.has(token.upper))) {
+        return { mainIndex: index, cteNames };
+      }
+      const previous = tokens[index - 1];
+      if ((token.kind === 'word' || token.kind === 'quoted') && ['WITH', 'RECURSIVE', ','].includes(previous.upper)) {
+        cteNames.add(token.upper);
+      }
+    }
+    this.reject('statement_not_allowed', 'A WITH clause must be followed by a SELECT', start);
+  }
+
+  /**
+   * SQL Server runs statements that follow each other without a semicolon, so a second
+   * SELECT (or a second write) at the top level is a second statement unless a set operator,
+   * MERGE clause or upsert clause joins it to the first
+   */
+  private checkStatementBoundaries(tokens: Token[], mainIndex: number, isWrite: boolean): void {
+    const topDepth = tokens[mainIndex].depth;
+    for (let index = mainIndex + 1; index < tokens.length; index++) {
+      const token = tokens[index];
+      if (token.kind !== 'word' || token.depth > topDepth) {
+        continue;
+      }
+      const previous = tokens[index - 1];
+      if (token.upper === 'SELECT' && !isWrite) {
+        const joined = previous.text === '(' || QueryGuardService.SET_OPERATORS.has(previous.upper)
+          || ((previous.upper === 'ALL' || previous.upper === 'DISTINCT') && QueryGuardService.SET_OPERATORS.has(tokens[index - 2]?.upper));
+        if (!joined) {
+          this.reject('multiple_statements', 'Only a single statement is allowed', token);
+        }
+      } else if (isWrite && QueryGuardService.WRITE_STATEMENTS.has(token.upper)) {
+        // MERGE ... THEN UPDATE, ON CONFLICT DO UPDATE and ON DUPLICATE KEY UPDATE are one statement
+        if (!['THEN', 'DO', 'KEY'].includes(previous.upper)) {
+          this.reject('multiple_statements', 'Only a single statement is allowed', token);
+        }
+      }
+    }
+  }
+
+  private checkSystemObject(chain: TableChain, tokens: Token[], dialect: QueryDialect): void {
+    const { parts } = chain;
+    const last = parts[parts.length - 1];
+    const isCall = tokens[chain.next]?.text === '(';
+    const position = { text: chain.name, start: chain.start };
+
+    if (/^(DBMS|UTL)_/.test(parts[0]) && parts.length > 1) {
+      this.reject('function_not_allowed', `The package ${parts[0]} is not allowed`, position);
+    }
+    if (parts.slice(0, -1).some(part => QueryGuardService.SYSTEM_SCHEMAS.has(part))
+      || (dialect === 'oracle' && parts.length > 1 && ['SYS', 'SYSTEM'].includes(parts[0]))
+      || (dialect === 'tsql' && parts.length > 2 && QueryGuardService.SQL_SERVER_SYSTEM_DATABASES.has(parts[0]))) {
+      this.reject('system_object', `${chain.name} is a system object`, position);
+    }
+    if (isCall) {
+      return;
+    }
+    if ((dialect === 'tsql' && QueryGuardService.SQL_SERVER_SYSTEM_TABLES.has(last))
+      || (dialect === 'postgresql' && last.startsWith('PG_'))
+      || (dialect === 'oracle' && (QueryGuardService.ORACLE_DICTIONARY_PREFIX.test(last) || QueryGuardService.ORACLE_DICTIONARY_VIEWS.has(last)))) {
+      this.reject('system_object', `${chain.name} is a system object`, position);
+    }
+  }
+
+  /**
+   * Names read or written by the statement: what follows FROM, JOIN, INTO, UPDATE and MERGE,
+   * plus the rest of a comma-separated FROM list. CTEs and subqueries aren't tables.
+   */
+  private collectTables(tokens: Token[], cteNames: Set<string>): string[] {
+    const tables = new Set<string>();
+    const add = (index: number) => {
+      const chain = this.readChain(tokens, index);
+      if (chain && !QueryGuardService.TABLE_PREFIX_KEYWORDS.has(chain.parts[0])
+        && !(chain.parts.length === 1 && cteNames.has(chain.parts[0]))) {
+        tables.add(chain.name);
+      }
+    };
+
+    tokens.forEach((token, index) => {
+      if (token.kind !== 'word' || !['FROM', 'JOIN', 'INTO', 'UPDATE', 'MERGE'].includes(token.upper)) {
+        return;
+      }
+      // ON DUPLICATE KEY UPDATE and friends name columns, not tables
+      if (token.upper === 'UPDATE' && ['KEY', 'DO', 'THEN', 'FOR'].includes(tokens[index - 1]?.upper)) {
+        return;
+      }
+      // FROM inside EXTRACT(YEAR FROM ...), SUBSTRING(... FROM ...) and the like isn't a table list
+      if (token.upper === 'FROM' && token.depth > 0) {
+        const open = tokens.slice(0, index).reverse().find(candidate => candidate.text === '(' && candidate.depth === token.depth - 1);
+        const opened = open ? tokens[tokens.indexOf(open) + 1] : undefined;
+        if (opened && opened.upper !== 'SELECT' && opened.upper !== 'WITH') {
+          return;
+        }
+      }
+
+      add(index + 1);
+      if (token.upper !== 'FROM') {
+        return;
+      }
+      for (let next = index + 1; next < tokens.length && tokens[next].depth >= token.depth; next++) {
+        const candidate = tokens[next];
+        if (candidate.depth !== token.depth) {
+          continue;
+        }
+        if (candidate.kind === 'word' && QueryGuardService.FROM_LIST_END.has(candidate.upper)) {
+          break;
+        }
+        if (candidate.text === ',') {
+          add(next + 1);
+        }
+      }
+    });
+    return Array.from(tables);
+  }
+
+  // Reads a dotted name such as dbo.Sales or [db].[dbo].[Sales] starting at index
+  private readChain(tokens: Token[], index: number): TableChain | null {
+    const first = tokens[index];
+    if (!first || (first.kind !== 'word' && first.kind !== 'quoted')) {
+      return null;
+    }
+    const parts = [first.upper];
+    const names = [this.identifierName(first)];
+    let next = index + 1;
+    while (tokens[next]?.text === '.' && (tokens[next + 1]?.kind === 'word' || tokens[next + 1]?.kind === 'quoted')) {
+      parts.push(tokens[next + 1].upper);
+      names.push(this.identifierName(tokens[next + 1]));
+      next += 2;
+    }
+    return { name: names.join('.'), parts, start: first.start, next };
+  }
+
+  private identifierName(token: Token): string {
+    return token.kind === 'quoted' ? token.text.slice(1, -1) : token.text;
+  }
+
+  /**
+   * Writes the row limit into a SELECT: TOP on SQL Server, LIMIT on PostgreSQL and MySQL and
+   * ROWNUM on Oracle. An existing, larger limit is lowered. Queries whose shape doesn't allow
+   * it (a set operation on SQL Server, locking clauses) are left alone and rely on the
+   * driver's row cap.
+   */
+  private applySqlRowLimit(query: string, tokens: Token[], mainIndex: number, dialect: QueryDialect, rowLimit: number): { query: string; applied: boolean } {
+    const main = tokens[mainIndex];
+    const unchanged = { query, applied: false };
+    const topLevel = (...words: string[]) => tokens.findIndex((token, index) =>
+      index > mainIndex && token.kind === 'word' && token.depth <= main.depth && words.includes(token.upper));
+    const clamp = (token: Token | undefined) => {
+      if (!token || token.kind !== 'number') {
+        return null;
+      }
+      return Number(token.text) > rowLimit ? this.splice(query, token.start, token.end, String(rowLimit)) : query;
+    };
+    const last = tokens[tokens.length - 1];
+
+    if (dialect === 'tsql') {
+      if (main.depth > 0 || topLevel(...QueryGuardService.SET_OPERATORS) >= 0) {
+        return unchanged;
+      }
+      if (topLevel('OFFSET') >= 0) {
+        const fetch = topLevel('FETCH');
+        const clamped = fetch >= 0 ? clamp(tokens[fetch + 2]) : null;
+        return clamped === null ? unchanged : { query: clamped, applied: true };
+      }
+
+      let index = mainIndex + 1;
+      if (tokens[index]?.kind === 'word' && ['DISTINCT', 'ALL'].includes(tokens[index].upper)) {
+        index++;
+      }
+      if (tokens[index]?.upper === 'TOP') {
+        const parenthesised = tokens[index + 1]?.text === '(';
+        const count = tokens[index + (parenthesised ? 2 : 1)];
+        const after = tokens[index + (parenthesised ? 4 : 2)];
+        const clamped = after?.upper === 'PERCENT' ? null : clamp(count);
+        return clamped === null ? unchanged : { query: clamped, applied: true };
+      }
+      return { query: this.splice(query, tokens[index - 1].end, tokens[index - 1].end, ` TOP (${rowLimit})`), applied: true };
+    }
+
+    if (dialect === 'oracle') {
+      const fetch = topLevel('FETCH');
+      if (fetch >= 0) {
+        const clamped = clamp(tokens[fetch + 2]);
+        return clamped === null ? unchanged : { query: clamped, applied: true };
+      }
+      if (topLevel('FOR') >= 0 || tokens.some(token => token.upper === 'ROWNUM')) {
+        return unchanged;
+      }
+      const statement = query.slice(tokens[0].start, last.end);
+      return {
+        query: `${query.slice(0, tokens[0].start)}SELECT * FROM (${statement}) WHERE ROWNUM <= ${rowLimit}${query.slice(last.end)}`,
+        applied: true
+      };
+    }
+
+    // PostgreSQL and MySQL
+    const limit = topLevel('LIMIT');
+    if (limit >= 0) {
+      const count = tokens[limit + 2]?.text === ',' ? tokens[limit + 3] : tokens[limit + 1];
+      if (count?.upper === 'ALL') {
+        return { query: this.splice(query, count.start, count.end, String(rowLimit)), applied: true };
+      }
+      const clamped = clamp(count);
+      return clamped === null ? unchanged : { query: clamped, applied: true };
+    }
+    const fetch = topLevel('FETCH');
+    if (fetch >= 0) {
+      const clamped = clamp(tokens[fetch + 2]);
+      return clamped === null ? unchanged : { query: clamped, applied: true };
+    }
+    if (topLevel('FOR') >= 0) {
+      return unchanged;
+    }
+    return { query: this.splice(query, last.end, last.end, ` LIMIT ${rowLimit}`), applied: true };
+  }
+
+  private inspectDax(query: string, tokens: Token[], inspection: QueryInspection, options: QueryGuardOptions): void {
+    if (tokens.length === 0) {
+      this.reject('empty_query', 'The query is empty');
+    }
+
+    const first = tokens[0];
+    inspection.statementType = first.kind === 'word' ? first.upper.toLowerCase() : 'unknown';
+    if (first.kind !== 'word' || (first.upper !== 'EVALUATE' && first.upper !== 'DEFINE')) {
+      this.reject('statement_not_allowed', 'Only EVALUATE queries are allowed', first);
+    }
+
+    const evaluates = tokens.filter(token => token.kind === 'word' && token.depth === 0 && token.upper === 'EVALUATE');
+    if (evaluates.length === 0) {
+      this.reject('statement_not_allowed', 'The query has no EVALUATE statement', first);
+    }
+    if (evaluates.length > 1) {
+      this.reject('multiple_statements', 'Only a single EVALUATE statement is allowed', evaluates[1]);
+    }
+    inspection.statementType = 'evaluate';
+
+    tokens.forEach((token, index) => {
+      if (token.kind !== 'word') {
+        return;
+      }
+      if (QueryGuardService.FORBIDDEN_DAX_KEYWORDS.has(token.upper)) {
+        this.reject('keyword_not_allowed', `The keyword ${token.upper} is not allowed in a read-only query`, token);
+      }
+      // INFO.TABLES(), INFO.ROLES() and the rest read the model's metadata
+      if (token.upper === 'INFO' && tokens[index + 1]?.text === '.') {
+        this.reject('system_object', 'INFO functions read model metadata and are not allowed', token);
+      }
+    });
+
+    // Tables are 'Quoted' or written directly before a [Column]
+    const tables = new Set<string>();
+    tokens.forEach((token, index) => {
+      const next = tokens[index + 1];
+      if (token.kind === 'quoted' && token.text.startsWith("'")) {
+        tables.add(this.identifierName(token));
+      } else if (token.kind === 'word' && next?.kind === 'quoted' && next.text.startsWith('[') && next.start === token.end) {
+        tables.add(token.text);
+      }
+    });
+    inspection.tables = Array.from(tables);
+
+    if (options.rowLimit) {
+      const evaluate = tokens.indexOf(evaluates[0]);
+      const expression = tokens.slice(evaluate + 1);
+      if (expression.length === 0) {
+        this.reject('syntax_error', 'EVALUATE has no table expression', evaluates[0]);
+      }
+      // TOPN before ORDER BY would pick arbitrary rows, so ordered queries keep the driver's cap
+      if (expression.some(token => token.depth === 0 && (token.upper === 'ORDER' || token.upper === 'START'))) {
+        return;
+      }
+      const last = expression[expression.length - 1];
+      inspection.query = `${query.slice(0, expression[0].start)}TOPN(${options.rowLimit}, ${query.slice(expression[0].start, last.end)})${query.slice(last.end)}`;
+      inspection.rowLimitApplied = true;
+    }
+  }
+
+  /**
+   * Splits a query into tokens, skipping whitespace and comments. Throws a syntax_error
+   * rejection for unterminated strings, comments and identifiers and unbalanced parentheses.
+   */
+  private tokenize(query: string, dialect: QueryDialect): Token[] {
+    const tokens: Token[] = [];
+    let depth = 0;
+    let index = 0;
+
+    const push = (kind: Token['kind'], start: number, end: number) => {
+      const text = query.slice(start, end);
+      const upper = kind === 'quoted' ? text.slice(1, -1).toUpperCase() : text.toUpperCase();
+      tokens.push({ kind, text, upper, start, end, depth });
+      index = end;
+    };
+    const quoted = (kind: Token['kind'], start: number, open: number, close: string, backslashEscapes: boolean) => {
+      const end = this.scanQuoted(query, open, close, backslashEscapes);
+      if (end < 0) {
+        this.reject('syntax_error', kind === 'string' ? 'The query has an unterminated string' : 'The query has an unterminated quoted identifier', { text: query[start], start });
+      }
+      push(kind, start, end);
+    };
+
+    while (index < query.length) {
+      const char = query[index];
+      const next = query[index + 1] || '';
+      const rest = query.slice(index);
+
+      if (/\s/.test(char)) {
+        index++;
+      } else if ((char === '-' && next === '-') || (dialect === 'mysql' && char === '#') || (dialect === 'dax' && char === '/' && next === '/')) {
+        const lineEnd = query.indexOf('\n', index);
+        index = lineEnd < 0 ? query.length : lineEnd + 1;
+      } else if (char === '/' && next === '*') {
+        // MySQL runs the contents of /*! ... */ and MariaDB of /*M! ... */, so they aren't comments
+        if (dialect === 'mysql' && /^\/\*M?!/.test(rest)) {
+          this.reject('executable_comment', 'Executable comments (/*! ... */) are not allowed', { text: rest.match(/^\/\*M?!/)![0], start: index });
+        }
+        index = this.skipBlockComment(query, index, dialect === 'postgresql');
+      } else if (dialect === 'dax') {
+        if (char === '"') {
+          quoted('string', index, index, '"', false);
+        } else if (char === "'") {
+          quoted('quoted', index, index, "'", false);
+        } else if (char === '[') {
+          quoted('quoted', index, index, ']', false);
+        } else {
+          this.pushPlain(query, index, dialect, push, () => depth, value => { depth = value; });
+        }
+      } else if (char === "'") {
+        quoted('string', index, index, "'", dialect === 'mysql');
+      } else if (dialect === 'oracle' && /[qQ]/.test(char) && next === "'" && query[index + 2]) {
+        // Oracle q'[...]' quoting, with the closing delimiter matching the opening one
+        const open = query[index + 2];
+        const close = ({ '[': ']', '{': '}', '(': ')', '<': '>' } as Record<string, string>)[open] || open;
+        const closeAt = query.indexOf(`${close}'`, index + 3);
+        if (closeAt < 0) {
+          this.reject('syntax_error', 'The query has an unterminated string', { text: char, start: index });
+        }
+        push('string', index, closeAt + 2);
+      } else if (/[nNeEbBxX]/.test(char) && next === "'") {
+        quoted('string', index, index + 1, "'", dialect === 'mysql' || /[eE]/.test(char));
+      } else if (char === '"') {
+        quoted(dialect === 'mysql' ? 'string' : 'quoted', index, index, '"', dialect === 'mysql');
+      } else if (char === '`' && dialect === 'mysql') {
+        quoted('quoted', index, index, '`', false);
+      } else if (char === '[' && dialect === 'tsql') {
+        quoted('quoted', index, index, ']', false);
+      } else if (char === '$' && dialect === 'postgresql' && /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.test(rest)) {
+        const tag = rest.match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/)![0];
+        const closeAt = query.indexOf(tag, index + tag.length);
+        if (closeAt < 0) {
+          this.reject('syntax_error', 'The query has an unterminated string', { text: tag, start: index });
+        }
+        push('string', index, closeAt + tag.length);
+      } else {
+        this.pushPlain(query, index, dialect, push, () => depth, value => { depth = value; });
+      }
+    }
+
+    if (depth !== 0) {
+      this.reject('syntax_error', 'The query has unbalanced parentheses');
+    }
+    return tokens;
+  }
+
+  // Words, numbers, variables and single-character symbols
+  private pushPlain(
+    query: string,
+    index: number,
+    dialect: QueryDialect,
+    push: (kind: Token['kind'], start: number, end: number) => void,
+    getDepth: () => number,
+    setDepth: (depth: number) => void
+  ): void {
+    const rest = query.slice(index);
+    const char = query[index];
+    const wordStart = dialect === 'tsql' ? /^[\p{L}_#]/u : /^[\p{L}_]/u;
+    let match: RegExpMatchArray | null;
+
+    if (wordStart.test(rest)) {
+      match = rest.match(/^[\p{L}_#][\p{L}\p{N}_$#]*/u);
+      push('word', index, index + match![0].length);
+    } else if ((match = rest.match(/^(0x[0-9a-f]+|(\d+\.?\d*|\.\d+)(e[+-]?\d+)?)/i))) {
+      push('number', index, index + match[0].length);
+    } else if ((dialect === 'tsql' || dialect === 'mysql') && (match = rest.match(/^@@?[\p{L}\p{N}_$#]+/u))) {
+      push('variable', index, index + match[0].length);
+    } else if (dialect === 'oracle' && (match = rest.match(/^:[\p{L}\p{N}_]+/u))) {
+      push('variable', index, index + match[0].length);
+    } else if (dialect === 'postgresql' && (match = rest.match(/^\$\d+/))) {
+      push('variable', index, index + match[0].length);
+    } else if (char === ')') {
+      if (getDepth() === 0) {
+        this.reject('syntax_error', 'The query has unbalanced parentheses', { text: char, start: index });
+      }
+      setDepth(getDepth() - 1);
+      push('symbol', index, index + 1);
+    } else {
+      push('symbol', index, index + 1);
+      if (char === '(') {
+        setDepth(getDepth() + 1);
+      }
+    }
+  }
+
+  // Returns the index after the closing character, or -1 when the literal never closes
+  private scanQuoted(query: string, open: number, close: string, backslashEscapes: boolean): number {
+    let index = open + 1;
+    while (index < query.length) {
+      if (backslashEscapes && query[index] === '\\') {
+        index += 2;
+      } else if (query[index] === close) {
+        // A doubled closing character is an escaped one
+        if (query[index + 1] === close) {
+          index += 2;
+        } else {
+          return index + 1;
+        }
+      } else {
+        index++;
+      }
+    }
+    return -1;
+  }
+
+  // PostgreSQL block comments nest; the other dialects end at the first */
+  private skipBlockComment(query: string, start: number, nested: boolean): number {
+    let depth = 0;
+    let index = start;
+    while (index < query.length) {
+      if (query[index] === '/' && query[index + 1] === '*') {
+        depth = nested ? depth + 1 : 1;
+        index += 2;
+      } else if (query[index] === '*' && query[index + 1] === '/') {
+        depth--;
+        index += 2;
+        if (depth === 0) {
+          return index;
+        }
+      } else {
+        index++;
+      }
+    }
+    this.reject('syntax_error', 'The query has an unterminated comment', { text: '/*', start });
+  }
+
+  private splice(query: string, start: number, end: number, text: string): string {
+    return `${query.slice(0, start)}${text}${query.slice(end)}`;
+  }
+
+  private reject(code: QueryRejectionCode, message: string, at?: { text: string; start: number }): never {
+    throw new QueryRejectedError({
+      code,
+      message,
+      ...(at ? { token: at.text, position: at.start } : {})
+    });
+  }
+}
@@ -1,13 +1,30 @@
-import { AzureSearchService } from './azureSearchService';
+import { getSearchProvider } from './searchProvider';
 import { logger } from '../utils/logger';
 import { WorkspaceStorageService } from './workspaceStorage';
+import { ConfigurationManager } from './configurationManager';
+
+export interface Citation {
+  marker: number;             // The [n] marker the model uses to reference this source
+  fileId: string;             // WorkspaceFiles.id
+  fileName: string;
+  workspaceId: string | null;
+  chunkIndex: number | null;
+  pageNumber: number | null;
+  section: string | null;
+  score: number | null;
+  cited: boolean;             // Whether the reply actually references the marker
+}
 
 export class RAGService {
   private static instance: RAGService;
-  private azureSearchService: AzureSearchService;
+  private candidatePassages: number;
+  private maxPassages: number;
+  private maxPassagesPerFile: number;
 
   private constructor() {
-    this.azureSearchService = AzureSearchService.getInstance();
+    this.candidatePassages = parseInt(process.env.RAG_CANDIDATE_PASSAGES || '20', 10);
+    this.maxPassages = parseInt(process.env.RAG_MAX_PASSAGES || '6', 10);
+    this.maxPassagesPerFile = parseInt(process.env.RAG_MAX_PASSAGES_PER_FILE || '3', 10);
   }
 
   public static getInstance(): RAGService {
@@ -18,11 +35,11 @@ export class RAGService {
   }
 
   /**
-   * Retrieves relevant documents from Azure Search based on user query and workspace
+   * Retrieves the most relevant passages from the workspace search index based on user query and workspace
    * @param query - User's question
    * @param workspaceId - Workspace ID (can be null for general queries)
    * @param workspaceName - Workspace name (required if workspaceId is provided)
-   * @returns Relevant documents or empty array
+   * @returns Relevant passages (chunks of workspace files) ordered by relevance, or empty array
    */
   public async getRelevantDocuments(query: string, workspaceId: string | null, workspaceName?: string): Promise<any[]> {
     try {
@@ -38,17 +55,21 @@ export class RAGService {
       const indexName = `${workspaceFolderName}index`;
 
       // Check if the index exists
-      const indexExists = await this.azureSearchService.indexExists(indexName);
+      const searchProvider = getSearchProvider();
+      const indexExists = await searchProvider.indexExists(indexName);
       if (!indexExists) {
-        logger.warn(`Azure Search index ${indexName} does not exist`);
+        logger.warn(`Search index ${indexName} does not exist (${searchProvider.name} provider)`);
         return [];
       }
 
-      // Search for relevant documents using semantic search
-      const results = await this.azureSearchService.searchDocuments(indexName, query);
-      logger.info(`Found ${results.length} relevant documents for query: ${query}`);
+      // Search for candidate passages and drop the ones below the relevance threshold
+      const results = await searchProvider.searchDocuments(indexName, query, { top: this.candidatePassages });
+      const minRelevance = this.getMinRelevance();
+      const relevant = results.filter(doc => this.relevanceOf(doc) >= minRelevance);
+      const passages = this.selectBestPassages(relevant);
+      logger.info(`Found ${results.length} candidate passages (${results.length - relevant.length} below relevance ${minRelevance}), using ${passages.length} for query: ${query}`);
       
-      return results;
+      return passages;
     } catch (error) {
       logger.error('Error retrieving relevant documents:', error);
       return [];
@@ -56,8 +77,50 @@ export class RAGService {
   }
 
   /**
-   * Formats retrieved documents into a context string for the AI
-   * @param documents - Documents retrieved from search
+   * Keeps the highest scoring passages, limiting how many come from a single file so one
+   * long document doesn't crowd out the others
+   */
+  private selectBestPassages(results: any[]): any[] {
+    const sorted = [...results].sort((a, b) => this.relevanceOf(b) - this.relevanceOf(a));
+    const perFile = new Map<string, number>();
+    const passages: any[] = [];
+
+    for (const doc of sorted) {
+      const fileKey = doc.fileId || doc.id;
+      const count = perFile.get(fileKey) || 0;
+      if (count >= this.maxPassagesPerFile) {
+        continue;
+      }
+      perFile.set(fileKey, count + 1);
+      passages.push(doc);
+      if (passages.length >= this.maxPassages) {
+        break;
+      }
+    }
+
+    return passages;
+  }
+
+  /**
+   * Gets a passage's relevance between 0 and 1. Results from providers that don't
+   * normalize their scores are treated as relevant.
+   */
+  private relevanceOf(doc: any): number {
+    return doc.relevanceScore ?? 1;
+  }
+
+  /**
+   * Gets the minimum relevance a passage needs to be included in the prompt
+   * (search.RAG_MIN_RELEVANCE, 0 disables the threshold)
+   */
+  private getMinRelevance(): number {
+    const minRelevance = parseFloat(ConfigurationManager.getInstance().getValue('search', 'RAG_MIN_RELEVANCE', '0.25')!);
+    return isNaN(minRelevance) ? 0.25 : Math.min(Math.max(minRelevance, 0), 1);
+  }
+
+  /**
+   * Formats retrieved passages into a context string for the AI
+   * @param documents - Passages retrieved from search
    * @returns Formatted context string
    */
   public formatDocumentsContext(documents: any[]): string {
@@ -65,18 +128,70 @@ export class RAGService {
       return '';
     }
 
-    let context = 'Relevant documents from the workspace:\n\n';
+    let context = 'Relevant passages from the workspace documents. Cite them by their [n] marker:\n\n';
+    const summarizedFiles = new Set<string>();
     
     documents.forEach((doc, index) => {
-      context += `Document ${index + 1}:\n`;
+      context += `[${index + 1}]\n`;
       context += `File Name: ${doc.fileName || 'Unknown'}\n`;
       context += `File Type: ${doc.fileType || 'Unknown'}\n`;
-      if (doc.summary) {
-        context += `Summary: ${doc.summary}\n`;
+      if (doc.pageNumber) {
+        context += `Page: ${doc.pageNumber}\n`;
+      }
+      if (doc.section) {
+        context += `Section: ${doc.section}\n`;
+      }
+      // The file summary is shared by all of a file's passages, include it once
+      const fileKey = doc.fileId || doc.id;
+      if (doc.summary && !summarizedFiles.has(fileKey)) {
+        summarizedFiles.add(fileKey);
+        context += `File Summary: ${doc.summary}\n`;
       }
       context += `Content:\n${doc.content || 'No content available'}\n\n`;
     });
 
     return context;
   }
-}
\ No newline at end of file
+
+  /**
+   * Maps the passages given to the model to citations, flagging the ones the reply
+   * references with inline [n] markers
+   * @param documents - Passages passed to formatDocumentsContext, in the same order
+   * @param responseContent - The assistant reply
+   * @returns One citation per passage, numbered like the context markers
+   */
+  public buildCitations(documents: any[], responseContent: string): Citation[] {
+    if (!documents || documents.length === 0) {
+      return [];
+    }
+
+    const citedMarkers = this.extractCitationMarkers(responseContent);
+
+    return documents.map((doc, index) => ({
+      marker: index + 1,
+      // Documents indexed before chunking used the file ID as the document key
+      fileId: doc.fileId || doc.id,
+      fileName: doc.fileName || 'Unknown',
+      workspaceId: doc.workspaceId || null,
+      chunkIndex: doc.chunkIndex ?? null,
+      pageNumber: doc.pageNumber ?? null,
+      section: doc.section ?? null,
+      score: doc.relevanceScore ?? doc['@search.rerankerScore'] ?? doc['@search.score'] ?? null,
+      cited: citedMarkers.has(index + 1)
+    }));
+  }
+
+  /**
+   * Finds inline citation markers such as [1], [2, 3] or [1][4] in a reply
+   */
+  public extractCitationMarkers(content: string): Set<number> {
+    const markers = new Set<number>();
+    const markerPattern = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = markerPattern.exec(content || '')) !== null) {
+      match[1].split(',').forEach(marker => markers.add(parseInt(marker.trim(), 10)));
+    }
+    return markers;
+  }
+}
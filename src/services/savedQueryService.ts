@@ -0,0 +1,1225 @@
+import os from 'os';
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import sql from 'mssql';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../config/database';
+import { AIDataService } from './aiDataService';
+import { FabricDataAgentService } from './fabricDataAgent';
+import { ExternalDatabaseService } from './externalDatabaseService';
+import { QueryDialect, QueryGuardService, QueryRejectedError } from './queryGuardService';
+import { MongoDriver } from './mongoDriver';
+import { CronSchedule, CronScheduleError } from './cronSchedule';
+import { logger } from '../utils/logger';
+
+export class SavedQueryError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'SavedQueryError';
+  }
+}
+
+// Webhooks may not reach the server's own network: loopback, private, link-local (including
+// cloud metadata endpoints), shared and reserved ranges
+const BLOCKED_WEBHOOK_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export type SavedQueryKind = 'question' | 'query';
+export type SavedQueryQueryType = 'dax' | 'sql' | 'mongo';
+export type SavedQueryChannel = 'history' | 'webhook';
+export type SavedQueryRunTrigger = 'schedule' | 'manual';
+export type SavedQueryRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface SavedQuery {
+  id: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  kind: SavedQueryKind;
+  question: string | null;
+  query: string | null;
+  queryType: SavedQueryQueryType | null;
+  datasetId: string | null;
+  connectionId: string | null;
+  workspaceId: string | null;
+  visualization: Record<string, unknown> | null;
+  keyColumns: string[];
+  schedule: string | null;
+  timeZone: string;
+  isActive: boolean;
+  deliverTo: SavedQueryChannel[];
+  notifyOn: 'always' | 'changes';
+  webhookUrl: string | null;
+  hasWebhookSecret: boolean;
+  historyChatId: string | null;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastRunStatus: SavedQueryRunStatus | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SavedQueryInput {
+  name?: string;
+  description?: string | null;
+  kind?: SavedQueryKind;
+  question?: string | null;
+  query?: string | null;
+  queryType?: SavedQueryQueryType | null;
+  datasetId?: string | null;
+  connectionId?: string | null;
+  workspaceId?: string | null;
+  visualization?: Record<string, unknown> | null;
+  keyColumns?: string[];
+  schedule?: string | null;
+  timeZone?: string;
+  isActive?: boolean;
+  deliverTo?: SavedQueryChannel[];
+  notifyOn?: 'always' | 'changes';
+  webhookUrl?: string | null;
+  rotateWebhookSecret?: boolean;
+}
+
+export interface SavedQueryRun {
+  id: string;
+  savedQueryId: string;
+  trigger: SavedQueryRunTrigger;
+  status: SavedQueryRunStatus;
+  startedAt: Date;
+  completedAt: Date | null;
+  rowCount: number | null;
+  truncated: boolean;
+  columns: string[];
+  executedQuery: string | null;
+  answer: string | null;
+  diff: SnapshotDiff | null;
+  error: string | null;
+  deliveryStatus: Record<string, DeliveryResult> | null;
+  snapshot?: any[];
+}
+
+export interface SnapshotDiff {
+  previousRunId: string | null;
+  firstRun: boolean;
+  changed: boolean;
+  partial: boolean;                     // A snapshot was truncated, so rows past the cap weren't compared
+  matchedOn: string[] | null;           // Key columns rows were matched on; null compares whole rows
+  rowCount: { before: number | null; after: number };
+  columns: { added: string[]; removed: string[] };
+  rows: { added: number; removed: number; changed: number };
+  samples: {
+    added: any[];
+    removed: any[];
+    changed: Array<{ key: Record<string, unknown>; changes: Record<string, { before: unknown; after: unknown }> }>;
+  };
+}
+
+export interface DeliveryResult {
+  status: 'delivered' | 'failed' | 'skipped';
+  error?: string;
+  chatId?: string;
+  messageId?: string;
+  httpStatus?: number;
+}
+
+// Columns of SavedQueries as stored; JSON columns are strings and the webhook secret is included
+interface SavedQueryRow {
+  id: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  kind: SavedQueryKind;
+  question: string | null;
+  query: string | null;
+  queryType: SavedQueryQueryType | null;
+  datasetId: string | null;
+  connectionId: string | null;
+  workspaceId: string | null;
+  visualization: string | null;
+  keyColumns: string | null;
+  schedule: string | null;
+  timeZone: string;
+  isActive: boolean;
+  deliverTo: string;
+  notifyOn: 'always' | 'changes';
+  webhookUrl: string | null;
+  webhookSecret: string | null;
+  historyChatId: string | null;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastRunStatus: SavedQueryRunStatus | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A definition with defaults applied, as validated and stored
+interface SavedQueryDefinition {
+  name: string;
+  description: string | null;
+  kind: SavedQueryKind;
+  question: string | null;
+  query: string | null;
+  queryType: SavedQueryQueryType | null;
+  datasetId: string | null;
+  connectionId: string | null;
+  workspaceId: string | null;
+  visualization: Record<string, unknown> | null;
+  keyColumns: string[];
+  schedule: string | null;
+  timeZone: string;
+  isActive: boolean;
+  deliverTo: SavedQueryChannel[];
+  notifyOn: 'always' | 'changes';
+  webhookUrl: string | null;
+}
+
+interface Snapshot {
+  columns: string[];
+  rows: any[];
+  rowCount: number;
+  truncated: boolean;
+}
+
+interface ExecutionResult extends Snapshot {
+  executedQuery: string | null;
+  answer: string | null;
+}
+
+/**
+ * Saved questions and queries, and the scheduler that runs them. A saved query is either a
+ * natural-language question answered through AIDataService or a raw SQL, DAX or MongoDB query
+ * run through the query guard on Fabric or one of the user's connections. Every run stores a
+ * snapshot of the result and its diff against the previous successful run; scheduled runs are
+ * claimed by a polling worker and the outcome is delivered to the user's chat history and/or
+ * a signed webhook.
+ */
+export class SavedQueryService {
+  private static instance: SavedQueryService;
+  public static readonly SNAPSHOT_MAX_ROWS = 1000;
+  private static readonly DIFF_SAMPLE_SIZE = 10;
+  private static readonly WEBHOOK_MAX_ROWS = 100;
+  private static readonly WEBHOOK_TIMEOUT_MS = 10000;
+  private static readonly REPORT_TABLE_ROWS = 10;
+  private dbManager: DatabaseManager;
+  private workerId: string;
+  private pollIntervalMs: number;
+  private lockTimeoutSeconds: number;
+  private minIntervalMinutes: number;
+  private runRetention: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private processing = false;
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+    this.workerId = `${os.hostname()}:${process.pid}`;
+    this.pollIntervalMs = parseInt(process.env.SAVED_QUERY_POLL_INTERVAL_MS || '60000', 10);
+    // Runs whose worker hasn't finished within this time are assumed lost and rescheduled
+    this.lockTimeoutSeconds = parseInt(process.env.SAVED_QUERY_LOCK_TIMEOUT_SECONDS || '600', 10);
+    this.minIntervalMinutes = parseInt(process.env.SAVED_QUERY_MIN_INTERVAL_MINUTES || '15', 10);
+    this.runRetention = parseInt(process.env.SAVED_QUERY_RUN_RETENTION || '30', 10);
+  }
+
+  public static getInstance(): SavedQueryService {
+    if (!SavedQueryService.instance) {
+      SavedQueryService.instance = new SavedQueryService();
+    }
+    return SavedQueryService.instance;
+  }
+
+  public async list(userId: string): Promise<SavedQuery[]> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .query('SELECT * FROM SavedQueries WHERE userId = @userId ORDER BY name, createdAt');
+    return result.recordset.map(row => this.toSavedQuery(row));
+  }
+
+  public async get(id: string, userId: string): Promise<SavedQuery | null> {
+    const row = await this.getRow(id, userId);
+    return row ? this.toSavedQuery(row) : null;
+  }
+
+  /**
+   * Creates a saved query. When it delivers to a webhook, a signing secret is generated and
+   * returned; it isn't shown again.
+   */
+  public async create(userId: string, input: SavedQueryInput): Promise<{ savedQuery: SavedQuery; webhookSecret?: string }> {
+    const definition = this.applyInput(null, input);
+    await this.validateDefinition(userId, definition);
+
+    const webhookSecret = definition.deliverTo.includes('webhook') ? this.generateWebhookSecret() : null;
+    const pool = await this.dbManager.getPool();
+    const result = await this.bindDefinition(pool.request(), definition)
+      .input('id', sql.NVarChar, uuidv4())
+      .input('userId', sql.NVarChar, userId)
+      .input('webhookSecret', sql.NVarChar, webhookSecret)
+      .input('nextRunAt', sql.DateTime2, this.computeNextRun(definition))
+      .query(`
+        INSERT INTO SavedQueries (
+          id, userId, name, description, kind, question, query, queryType, datasetId, connectionId, workspaceId,
+          visualization, keyColumns, schedule, timeZone, isActive, deliverTo, notifyOn, webhookUrl, webhookSecret, nextRunAt
+        )
+        OUTPUT INSERTED.*
+        VALUES (
+          @id, @userId, @name, @description, @kind, @question, @query, @queryType, @datasetId, @connectionId, @workspaceId,
+          @visualization, @keyColumns, @schedule, @timeZone, @isActive, @deliverTo, @notifyOn, @webhookUrl, @webhookSecret, @nextRunAt
+        )
+      `);
+
+    const savedQuery = this.toSavedQuery(result.recordset[0]);
+    logger.info(`Saved query ${savedQuery.id} created by user ${userId}${savedQuery.schedule ? ` (schedule "${savedQuery.schedule}" ${savedQuery.timeZone})` : ''}`);
+    return { savedQuery, ...(webhookSecret ? { webhookSecret } : {}) };
+  }
+
+  /**
+   * Updates a saved query; fields left out keep their values. The next run is recomputed from
+   * the schedule. Returns the new webhook secret when one was generated or rotated.
+   */
+  public async update(id: string, userId: string, input: SavedQueryInput): Promise<{ savedQuery: SavedQuery; webhookSecret?: string } | null> {
+    const existing = await this.getRow(id, userId);
+    if (!existing) {
+      return null;
+    }
+
+    const definition = this.applyInput(existing, input);
+    await this.validateDefinition(userId, definition);
+
+    let webhookSecret: string | null = null;
+    if (definition.deliverTo.includes('webhook') && (!existing.webhookSecret || input.rotateWebhookSecret)) {
+      webhookSecret = this.generateWebhookSecret();
+    }
+
+    const pool = await this.dbManager.getPool();
+    const result = await this.bindDefinition(pool.request(), definition)
+      .input('id', sql.NVarChar, id)
+      .input('userId', sql.NVarChar, userId)
+      .input('webhookSecret', sql.NVarChar, webhookSecret)
+      .input('nextRunAt', sql.DateTime2, this.computeNextRun(definition))
+      .query(`
+        UPDATE SavedQueries
+        SET name = @name,
+            description = @description,
+            kind = @kind,
+            question = @question,
+            query = @query,
+            queryType = @queryType,
+            datasetId = @datasetId,
+            connectionId = @connectionId,
+            workspaceId = @workspaceId,
+            visualization = @visualization,
+            keyColumns = @keyColumns,
+            schedule = @schedule,
+            timeZone = @timeZone,
+            isActive = @isActive,
+            deliverTo = @deliverTo,
+            notifyOn = @notifyOn,
+            webhookUrl = @webhookUrl,
+            webhookSecret = COALESCE(@webhookSecret, webhookSecret),
+            nextRunAt = @nextRunAt,
+            updatedAt = GETUTCDATE()
+        OUTPUT INSERTED.*
+        WHERE id = @id AND userId = @userId
+      `);
+
+    if (result.recordset.length === 0) {
+      return null;
+    }
+    logger.info(`Saved query ${id} updated by user ${userId}`);
+    return { savedQuery: this.toSavedQuery(result.recordset[0]), ...(webhookSecret ? { webhookSecret } : {}) };
+  }
+
+  /**
+   * Deletes a saved query and its runs. The report chat, if any, stays in the user's history.
+   */
+  public async delete(id: string, userId: string): Promise<boolean> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, id)
+      .input('userId', sql.NVarChar, userId)
+      .query('DELETE FROM SavedQueries WHERE id = @id AND userId = @userId');
+    return result.rowsAffected[0] > 0;
+  }
+
+  /**
+   * Runs a saved query now, outside its schedule
+   */
+  public async runNow(id: string, userId: string): Promise<SavedQueryRun | null> {
+    const row = await this.getRow(id, userId);
+    if (!row) {
+      return null;
+    }
+    return this.run(row, 'manual');
+  }
+
+  public async listRuns(savedQueryId: string, limit: number = 20): Promise<SavedQueryRun[]> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('savedQueryId', sql.NVarChar, savedQueryId)
+      .input('limit', sql.Int, limit)
+      .query(`
+        SELECT TOP (@limit) id, savedQueryId, [trigger], status, startedAt, completedAt, [rowCount], truncated,
+               columns, executedQuery, answer, diff, error, deliveryStatus
+        FROM SavedQueryRuns
+        WHERE savedQueryId = @savedQueryId
+        ORDER BY startedAt DESC
+      `);
+    return result.recordset.map(row => this.toRun(row));
+  }
+
+  public async getRun(savedQueryId: string, runId: string): Promise<SavedQueryRun | null> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('savedQueryId', sql.NVarChar, savedQueryId)
+      .input('runId', sql.NVarChar, runId)
+      .query('SELECT * FROM SavedQueryRuns WHERE id = @runId AND savedQueryId = @savedQueryId');
+    if (result.recordset.length === 0) {
+      return null;
+    }
+    const row = result.recordset[0];
+    return { ...this.toRun(row), snapshot: this.parseJson(row.snapshot, []) };
+  }
+
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    logger.info(`Saved query scheduler ${this.workerId} started (polling every ${this.pollIntervalMs}ms)`);
+    this.schedulePoll(0);
+  }
+
+  public stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    logger.info(`Saved query scheduler ${this.workerId} stopped`);
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => this.poll(), delayMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    let claimed = false;
+
+    try {
+      const row = await this.claimNextDue();
+      if (row) {
+        claimed = true;
+        try {
+          await this.run(row, 'schedule');
+        } finally {
+          await this.release(row);
+        }
+      }
+    } catch (error) {
+      logger.error('Saved query scheduler poll failed:', error);
+    } finally {
+      this.processing = false;
+    }
+
+    // Keep going while runs are due, otherwise wait for the next interval
+    this.schedulePoll(claimed ? 0 : this.pollIntervalMs);
+  }
+
+  /**
+   * Atomically claims the saved query that has been due longest. A lock older than the lock
+   * timeout belongs to a worker that stopped mid-run and is taken over.
+   */
+  private async claimNextDue(): Promise<SavedQueryRow | null> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('workerId', sql.NVarChar, this.workerId)
+      .input('lockTimeoutSeconds', sql.Int, this.lockTimeoutSeconds)
+      .query(`
+        WITH nextQuery AS (
+          SELECT TOP 1 * FROM SavedQueries WITH (ROWLOCK, UPDLOCK, READPAST)
+          WHERE isActive = 1 AND schedule IS NOT NULL AND nextRunAt <= GETUTCDATE()
+            AND (lockedBy IS NULL OR lockedAt < DATEADD(SECOND, -@lockTimeoutSeconds, GETUTCDATE()))
+          ORDER BY nextRunAt
+        )
+        UPDATE nextQuery
+        SET lockedBy = @workerId,
+            lockedAt = GETUTCDATE()
+        OUTPUT INSERTED.*
+      `);
+
+    return result.recordset.length > 0 ? result.recordset[0] as SavedQueryRow : null;
+  }
+
+  // Schedules the next run from now, so runs missed while the service was down aren't backfilled
+  private async release(row: SavedQueryRow): Promise<void> {
+    let nextRunAt: Date | null = null;
+    try {
+      nextRunAt = row.schedule ? CronSchedule.parse(row.schedule, row.timeZone).next() : null;
+    } catch (error) {
+      logger.error(`Saved query ${row.id} has an invalid schedule; it won't run again until it's fixed:`, error);
+    }
+
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('id', sql.NVarChar, row.id)
+      .input('workerId', sql.NVarChar, this.workerId)
+      .input('nextRunAt', sql.DateTime2, nextRunAt)
+      .query(`
+        UPDATE SavedQueries
+        SET nextRunAt = @nextRunAt, lockedBy = NULL, lockedAt = NULL
+        WHERE id = @id AND lockedBy = @workerId
+      `);
+  }
+
+  /**
+   * Runs a saved query: executes it, stores the snapshot and its diff against the previous
+   * successful run, delivers the outcome and trims old runs. Failures are recorded on the run
+   * rather than thrown.
+   */
+  private async run(row: SavedQueryRow, trigger: SavedQueryRunTrigger): Promise<SavedQueryRun> {
+    const pool = await this.dbManager.getPool();
+    const runId = uuidv4();
+    const startedAt = new Date();
+    await pool.request()
+      .input('id', sql.NVarChar, runId)
+      .input('savedQueryId', sql.NVarChar, row.id)
+      .input('trigger', sql.NVarChar, trigger)
+      .input('startedAt', sql.DateTime2, startedAt)
+      .query(`
+        INSERT INTO SavedQueryRuns (id, savedQueryId, [trigger], status, startedAt)
+        VALUES (@id, @savedQueryId, @trigger, 'running', @startedAt)
+      `);
+
+    logger.info(`Running saved query ${row.id} (${trigger}, run ${runId})`);
+
+    let execution: ExecutionResult | null = null;
+    let errorMessage: string | null = null;
+    try {
+      execution = await this.execute(row);
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Saved query ${row.id} run ${runId} failed: ${errorMessage}`);
+    }
+
+    let diff: SnapshotDiff | null = null;
+    if (execution) {
+      const previous = await this.getPreviousSnapshot(row.id, runId);
+      diff = this.diffSnapshots(previous, execution, this.parseJson<string[]>(row.keyColumns, []));
+    }
+
+    const status: SavedQueryRunStatus = execution ? 'succeeded' : 'failed';
+    const run: SavedQueryRun = {
+      id: runId,
+      savedQueryId: row.id,
+      trigger,
+      status,
+      startedAt,
+      completedAt: new Date(),
+      rowCount: execution ? execution.rowCount : null,
+      truncated: execution ? execution.truncated : false,
+      columns: execution ? execution.columns : [],
+      executedQuery: execution ? execution.executedQuery : null,
+      answer: execution ? execution.answer : null,
+      diff,
+      error: errorMessage,
+      deliveryStatus: null
+    };
+
+    await pool.request()
+      .input('id', sql.NVarChar, runId)
+      .input('status', sql.NVarChar, status)
+      .input('completedAt', sql.DateTime2, run.completedAt)
+      .input('rowCount', sql.Int, run.rowCount)
+      .input('truncated', sql.Bit, run.truncated)
+      .input('columns', sql.NVarChar, JSON.stringify(run.columns))
+      .input('snapshot', sql.NVarChar, execution ? JSON.stringify(execution.rows) : null)
+      .input('snapshotHash', sql.NVarChar, execution ? this.hashSnapshot(execution) : null)
+      .input('executedQuery', sql.NVarChar, run.executedQuery)
+      .input('answer', sql.NVarChar, run.answer)
+      .input('diff', sql.NVarChar, diff ? JSON.stringify(diff) : null)
+      .input('error', sql.NVarChar, errorMessage)
+      .query(`
+        UPDATE SavedQueryRuns
+        SET status = @status, completedAt = @completedAt, [rowCount] = @rowCount, truncated = @truncated,
+            columns = @columns, snapshot = @snapshot, snapshotHash = @snapshotHash, executedQuery = @executedQuery,
+            answer = @answer, diff = @diff, error = @error
+        WHERE id = @id
+      `);
+
+    run.deliveryStatus = await this.deliver(row, run, execution);
+
+    await pool.request()
+      .input('id', sql.NVarChar, runId)
+      .input('deliveryStatus', sql.NVarChar, JSON.stringify(run.deliveryStatus))
+      .query('UPDATE SavedQueryRuns SET deliveryStatus = @deliveryStatus WHERE id = @id');
+
+    await pool.request()
+      .input('savedQueryId', sql.NVarChar, row.id)
+      .input('startedAt', sql.DateTime2, startedAt)
+      .input('status', sql.NVarChar, status)
+      .input('error', sql.NVarChar, errorMessage ? errorMessage.substring(0, 1000) : null)
+      .input('retention', sql.Int, this.runRetention)
+      .query(`
+        UPDATE SavedQueries
+        SET lastRunAt = @startedAt, lastRunStatus = @status, lastError = @error
+        WHERE id = @savedQueryId;
+
+        DELETE FROM SavedQueryRuns
+        WHERE savedQueryId = @savedQueryId AND id NOT IN (
+          SELECT TOP (@retention) id FROM SavedQueryRuns
+          WHERE savedQueryId = @savedQueryId
+          ORDER BY startedAt DESC
+        );
+      `);
+
+    logger.info(`Saved query ${row.id} run ${runId} ${status}${diff?.changed ? ' with changes' : ''}`);
+    return run;
+  }
+
+  private async execute(row: SavedQueryRow): Promise<ExecutionResult> {
+    const maxRows = SavedQueryService.SNAPSHOT_MAX_ROWS;
+
+    if (row.kind === 'question') {
+      const result = await AIDataService.getInstance().processDataQuestion({
+        question: row.question!,
+        userId: row.userId,
+        datasetId: row.datasetId || undefined,
+        connectionId: row.connectionId || undefined,
+        workspaceId: row.workspaceId || undefined,
+        queryType: row.queryType === 'dax' || row.queryType === 'sql' ? row.queryType : undefined,
+        includeVisualization: false
+      });
+      // Without data the answer is a general one and there is nothing to compare
+      if (!result.data) {
+        throw new SavedQueryError('The question could not be answered from the data source');
+      }
+      return {
+        columns: result.data.columns,
+        rows: this.normalizeRows(result.data.data.slice(0, maxRows)),
+        rowCount: Math.min(result.data.data.length, maxRows),
+        truncated: result.data.data.length > maxRows,
+        executedQuery: result.query || null,
+        answer: result.answer
+      };
+    }
+
+    if (row.connectionId) {
+      const externalDatabases = ExternalDatabaseService.getInstance();
+      const connection = await externalDatabases.getConnection(row.connectionId, row.userId);
+      if (!connection) {
+        throw new SavedQueryError('The connection this query runs on no longer exists', 404);
+      }
+      const result = await externalDatabases.executeQuery(connection, row.query!, { maxRows });
+      return {
+        columns: result.columns,
+        rows: this.normalizeRows(result.data),
+        rowCount: result.rowCount,
+        truncated: result.truncated,
+        executedQuery: row.query,
+        answer: null
+      };
+    }
+
+    // One row over the cap tells whether the result was truncated
+    const inspection = QueryGuardService.getInstance().enforce(row.query!, QueryGuardService.dialectFor(row.queryType as 'dax' | 'sql')!, {
+      rowLimit: maxRows + 1
+    });
+    const fabricService = FabricDataAgentService.getInstance();
+    const result = row.queryType === 'dax'
+      ? await fabricService.executeDaxQuery(row.datasetId!, inspection.query, row.workspaceId || undefined)
+      : await fabricService.executeSqlQuery(inspection.query, row.workspaceId || undefined);
+    return {
+      columns: result.columns,
+      rows: this.normalizeRows(result.data.slice(0, maxRows)),
+      rowCount: Math.min(result.data.length, maxRows),
+      truncated: result.data.length > maxRows,
+      executedQuery: inspection.query,
+      answer: null
+    };
+  }
+
+  private async getPreviousSnapshot(savedQueryId: string, currentRunId: string): Promise<(Snapshot & { runId: string }) | null> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('savedQueryId', sql.NVarChar, savedQueryId)
+      .input('currentRunId', sql.NVarChar, currentRunId)
+      .query(`
+        SELECT TOP 1 id, columns, snapshot, [rowCount], truncated
+        FROM SavedQueryRuns
+        WHERE savedQueryId = @savedQueryId AND status = 'succeeded' AND id <> @currentRunId
+        ORDER BY startedAt DESC
+      `);
+    if (result.recordset.length === 0) {
+      return null;
+    }
+    const row = result.recordset[0];
+    return {
+      runId: row.id,
+      columns: this.parseJson(row.columns, []),
+      rows: this.parseJson(row.snapshot, []),
+      rowCount: row.rowCount || 0,
+      truncated: !!row.truncated
+    };
+  }
+
+  /**
+   * Compares a result with the previous one. With key columns present in both, rows are
+   * matched on them and changed values reported; otherwise rows are compared whole, so a
+   * changed row shows up as one removed and one added.
+   */
+  private diffSnapshots(previous: (Snapshot & { runId: string }) | null, current: Snapshot, keyColumns: string[]): SnapshotDiff {
+    const sampleSize = SavedQueryService.DIFF_SAMPLE_SIZE;
+    const diff: SnapshotDiff = {
+      previousRunId: previous ? previous.runId : null,
+      firstRun: !previous,
+      changed: false,
+      partial: current.truncated || !!previous?.truncated,
+      matchedOn: null,
+      rowCount: { before: previous ? previous.rowCount : null, after: current.rowCount },
+      columns: { added: [], removed: [] },
+      rows: { added: 0, removed: 0, changed: 0 },
+      samples: { added: [], removed: [], changed: [] }
+    };
+    if (!previous) {
+      return diff;
+    }
+
+    diff.columns.added = current.columns.filter(column => !previous.columns.includes(column));
+    diff.columns.removed = previous.columns.filter(column => !current.columns.includes(column));
+    const shared = current.columns.filter(column => previous.columns.includes(column));
+    const signature = (row: any, columns: string[]) => JSON.stringify(columns.map(column => row[column] ?? null));
+
+    const keyed = keyColumns.length > 0 && keyColumns.every(column => shared.includes(column));
+    // Keys that repeat within a snapshot can't identify rows
+    const previousByKey = keyed ? this.indexRows(previous.rows, row => signature(row, keyColumns)) : null;
+    const currentByKey = keyed ? this.indexRows(current.rows, row => signature(row, keyColumns)) : null;
+
+    if (previousByKey && currentByKey) {
+      diff.matchedOn = keyColumns;
+      const valueColumns = shared.filter(column => !keyColumns.includes(column));
+      for (const row of current.rows) {
+        const key = signature(row, keyColumns);
+        const before = previousByKey.get(key);
+        if (!before) {
+          diff.rows.added++;
+          if (diff.samples.added.length < sampleSize) diff.samples.added.push(row);
+          continue;
+        }
+        previousByKey.delete(key);
+
+        const changes: Record<string, { before: unknown; after: unknown }> = {};
+        for (const column of valueColumns) {
+          if (JSON.stringify(before[column] ?? null) !== JSON.stringify(row[column] ?? null)) {
+            changes[column] = { before: before[column] ?? null, after: row[column] ?? null };
+          }
+        }
+        if (Object.keys(changes).length > 0) {
+          diff.rows.changed++;
+          if (diff.samples.changed.length < sampleSize) {
+            diff.samples.changed.push({ key: Object.fromEntries(keyColumns.map(column => [column, row[column] ?? null])), changes });
+          }
+        }
+      }
+      diff.rows.removed = previousByKey.size;
+      diff.samples.removed = Array.from(previousByKey.values()).slice(0, sampleSize);
+    } else {
+      // Compare as multisets so duplicate rows are counted
+      const remaining = new Map<string, any[]>();
+      for (const row of previous.rows) {
+        const key = signature(row, shared);
+        remaining.set(key, [...(remaining.get(key) || []), row]);
+      }
+      for (const row of current.rows) {
+        const matches = remaining.get(signature(row, shared));
+        if (matches && matches.length > 0) {
+          matches.pop();
+        } else {
+          diff.rows.added++;
+          if (diff.samples.added.length < sampleSize) diff.samples.added.push(row);
+        }
+      }
+      for (const rows of remaining.values()) {
+        for (const row of rows) {
+          diff.rows.removed++;
+          if (diff.samples.removed.length < sampleSize) diff.samples.removed.push(row);
+        }
+      }
+    }
+
+    diff.changed = diff.rows.added + diff.rows.removed + diff.rows.changed > 0
+      || diff.columns.added.length + diff.columns.removed.length > 0
+      || diff.rowCount.before !== diff.rowCount.after;
+    return diff;
+  }
+
+  private indexRows(rows: any[], keyOf: (row: any) => string): Map<string, any> | null {
+    const index = new Map<string, any>();
+    for (const row of rows) {
+      const key = keyOf(row);
+      if (index.has(key)) {
+        return null;
+      }
+      index.set(key, row);
+    }
+    return index;
+  }
+
+  /**
+   * Delivers a run to the saved query's channels. Failed runs, first runs and runs with
+   * changes are always delivered; unchanged results only when notifyOn is 'always'.
+   * Delivery errors are recorded, not thrown.
+   */
+  private async deliver(row: SavedQueryRow, run: SavedQueryRun, execution: ExecutionResult | null): Promise<Record<string, DeliveryResult>> {
+    const channels = this.parseChannels(row.deliverTo);
+    const results: Record<string, DeliveryResult> = {};
+    const notify = run.status === 'failed' || row.notifyOn === 'always' || !run.diff || run.diff.firstRun || run.diff.changed;
+
+    for (const channel of channels) {
+      if (!notify) {
+        results[channel] = { status: 'skipped' };
+        continue;
+      }
+      try {
+        results[channel] = channel === 'history'
+          ? await this.deliverToHistory(row, run, execution)
+          : await this.deliverToWebhook(row, run, execution);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`Failed to deliver saved query ${row.id} run ${run.id} to ${channel}: ${message}`);
+        results[channel] = { status: 'failed', error: message };
+      }
+    }
+    return results;
+  }
+
+  // Appends the report to the saved query's report chat, creating the chat the first time
+  private async deliverToHistory(row: SavedQueryRow, run: SavedQueryRun, execution: ExecutionResult | null): Promise<DeliveryResult> {
+    const pool = await this.dbManager.getPool();
+
+    let chatId = row.historyChatId;
+    if (chatId) {
+      const chatResult = await pool.request()
+        .input('chatId', sql.NVarChar, chatId)
+        .input('userId', sql.NVarChar, row.userId)
+        .query('SELECT id FROM Chats WHERE id = @chatId AND userId = @userId');
+      if (chatResult.recordset.length === 0) {
+        chatId = null;
+      }
+    }
+    if (!chatId) {
+      chatId = uuidv4();
+      await pool.request()
+        .input('id', sql.NVarChar, chatId)
+        .input('userId', sql.NVarChar, row.userId)
+        .input('title', sql.NVarChar, `Report: ${row.name}`.substring(0, 500))
+        .input('description', sql.NVarChar, 'Results of a saved query')
+        .query(`
+          INSERT INTO Chats (id, userId, workspaceId, title, description, messageCount, createdAt, updatedAt)
+          VALUES (@id, @userId, NULL, @title, @description, 0, GETUTCDATE(), GETUTCDATE())
+        `);
+      await pool.request()
+        .input('id', sql.NVarChar, row.id)
+        .input('chatId', sql.NVarChar, chatId)
+        .query('UPDATE SavedQueries SET historyChatId = @chatId WHERE id = @id');
+      row.historyChatId = chatId;
+    }
+
+    const parentResult = await pool.request()
+      .input('chatId', sql.NVarChar, chatId)
+      .query('SELECT TOP 1 id FROM Messages WHERE chatId = @chatId AND isActive = 1 ORDER BY createdAt DESC, id DESC');
+
+    const messageId = uuidv4();
+    await pool.request()
+      .input('id', sql.NVarChar, messageId)
+      .input('chatId', sql.NVarChar, chatId)
+      .input('userId', sql.NVarChar, row.userId)
+      .input('content', sql.NVarChar, this.formatReport(row, run, execution))
+      .input('metadata', sql.NVarChar, JSON.stringify({
+        type: 'saved_query_report',
+        savedQueryId: row.id,
+        runId: run.id,
+        status: run.status,
+        rows: run.diff ? run.diff.rows : null,
+        visualization: this.parseJson(row.visualization, null)
+      }))
+      .input('parentMessageId', sql.NVarChar, parentResult.recordset[0]?.id || null)
+      .query(`
+        INSERT INTO Messages (id, chatId, userId, content, role, tokens, metadata, parentMessageId, createdAt)
+        VALUES (@id, @chatId, @userId, @content, 'assistant', 0, @metadata, @parentMessageId, GETUTCDATE())
+      `);
+    await pool.request()
+      .input('chatId', sql.NVarChar, chatId)
+      .query('UPDATE Chats SET messageCount = messageCount + 1, lastMessageAt = GETUTCDATE(), updatedAt = GETUTCDATE() WHERE id = @chatId');
+
+    return { status: 'delivered', chatId, messageId };
+  }
+
+  // Posts the run as JSON, signed with HMAC-SHA256 of the body in X-Aiva-Signature
+  private async deliverToWebhook(row: SavedQueryRow, run: SavedQueryRun, execution: ExecutionResult | null): Promise<DeliveryResult> {
+    if (!row.webhookUrl || !row.webhookSecret) {
+      throw new SavedQueryError('No webhook is configured');
+    }
+
+    const deliveryId = uuidv4();
+    const body = JSON.stringify({
+      event: 'saved_query.run',
+      deliveryId,
+      savedQuery: {
+        id: row.id,
+        name: row.name,
+        kind: row.kind,
+        queryType: row.queryType,
+        schedule: row.schedule,
+        timeZone: row.timeZone
+      },
+      run: {
+        id: run.id,
+        trigger: run.trigger,
+        status: run.status,
+        startedAt: run.startedAt,
+        completedAt: run.completedAt,
+        rowCount: run.rowCount,
+        truncated: run.truncated,
+        columns: run.columns,
+        answer: run.answer,
+        error: run.error
+      },
+      diff: run.diff,
+      rows: execution ? execution.rows.slice(0, SavedQueryService.WEBHOOK_MAX_ROWS) : []
+    });
+    const signature = crypto.createHmac('sha256', row.webhookSecret).update(body).digest('hex');
+
+    // Checked again on every delivery, since the host's DNS records may have changed
+    await this.checkWebhookUrl(row.webhookUrl);
+    const response = await fetch(row.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Aiva-Event': 'saved_query.run',
+        'X-Aiva-Delivery': deliveryId,
+        'X-Aiva-Signature': `sha256=${signature}`
+      },
+      body,
+      // A redirect could point anywhere, including addresses checkWebhookUrl rejects
+      redirect: 'manual',
+      signal: AbortSignal.timeout(SavedQueryService.WEBHOOK_TIMEOUT_MS)
+    });
+    if (response.status >= 300 && response.status < 400) {
+      throw new Error(`Webhook returned a redirect (${response.status}), which is not followed`);
+    }
+    if (!response.ok) {
+      throw new Error(`Webhook returned ${response.status}`);
+    }
+    return { status: 'delivered', httpStatus: response.status };
+  }
+
+  private formatReport(row: SavedQueryRow, run: SavedQueryRun, execution: ExecutionResult | null): string {
+    const lines = [`**${row.name}** (${run.trigger === 'schedule' ? 'scheduled run' : 'manual run'}, ${run.startedAt.toISOString()})`, ''];
+
+    if (run.status === 'failed' || !execution || !run.diff) {
+      lines.push(`The query failed: ${run.error || 'Unknown error'}`);
+      return lines.join('\n');
+    }
+
+    if (run.answer) {
+      lines.push(run.answer, '');
+    }
+
+    const diff = run.diff;
+    const rowCount = `${execution.rowCount}${execution.truncated ? '+' : ''} rows`;
+    if (diff.firstRun) {
+      lines.push(`First run: ${rowCount}.`);
+      lines.push('', ...this.formatTable(execution.columns, execution.rows));
+    } else if (!diff.changed) {
+      lines.push(`No changes since the previous run (${rowCount}).`);
+    } else {
+      lines.push(`${rowCount} (previously ${diff.rowCount.before}): ${diff.rows.added} added, ${diff.rows.removed} removed` +
+        `${diff.matchedOn ? `, ${diff.rows.changed} changed` : ''}.`);
+      if (diff.columns.added.length > 0) lines.push(`New columns: ${diff.columns.added.join(', ')}`);
+      if (diff.columns.removed.length > 0) lines.push(`Removed columns: ${diff.columns.removed.join(', ')}`);
+      if (diff.samples.added.length > 0) lines.push('', 'Added:', '', ...this.formatTable(execution.columns, diff.samples.added));
+      if (diff.samples.removed.length > 0) {
+        const previousColumns = execution.columns.filter(column => !diff.columns.added.includes(column)).concat(diff.columns.removed);
+        lines.push('', 'Removed:', '', ...this.formatTable(previousColumns, diff.samples.removed));
+      }
+      if (diff.samples.changed.length > 0) lines.push('', 'Changed:', '');
+      for (const change of diff.samples.changed) {
+        const key = Object.entries(change.key).map(([column, value]) => `${column} ${this.formatCell(value)}`).join(', ');
+        const values = Object.entries(change.changes)
+          .map(([column, { before, after }]) => `${column} ${this.formatCell(before)} → ${this.formatCell(after)}`)
+          .join('; ');
+        lines.push(`- ${key}: ${values}`);
+      }
+    }
+    if (diff.partial) {
+      lines.push('', `Only the first ${SavedQueryService.SNAPSHOT_MAX_ROWS} rows are compared.`);
+    }
+    return lines.join('\n');
+  }
+
+  private formatTable(columns: string[], rows: any[]): string[] {
+    if (columns.length === 0 || rows.length === 0) {
+      return [];
+    }
+    const shown = rows.slice(0, SavedQueryService.REPORT_TABLE_ROWS);
+    const lines = [
+      `| ${columns.map(column => this.formatCell(column)).join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`,
+      ...shown.map(row => `| ${columns.map(column => this.formatCell(row[column])).join(' | ')} |`)
+    ];
+    if (rows.length > shown.length) {
+      lines.push('', `…and ${rows.length - shown.length} more`);
+    }
+    return lines;
+  }
+
+  private formatCell(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.replace(/\|/g, '\\|').replace(/\s+/g, ' ').substring(0, 100);
+  }
+
+  // Merges an update into a stored definition, or fills in defaults for a new one
+  private applyInput(existing: SavedQueryRow | null, input: SavedQueryInput): SavedQueryDefinition {
+    const pick = <K extends keyof SavedQueryInput>(key: K, fallback: any) => input[key] !== undefined ? input[key] : fallback;
+    return {
+      name: pick('name', existing?.name),
+      description: pick('description', existing?.description ?? null),
+      kind: pick('kind', existing?.kind),
+      question: pick('question', existing?.question ?? null),
+      query: pick('query', existing?.query ?? null),
+      queryType: pick('queryType', existing?.queryType ?? null),
+      datasetId: pick('datasetId', existing?.datasetId ?? null),
+      connectionId: pick('connectionId', existing?.connectionId ?? null),
+      workspaceId: pick('workspaceId', existing?.workspaceId ?? null),
+      visualization: pick('visualization', existing ? this.parseJson(existing.visualization, null) : null),
+      keyColumns: pick('keyColumns', existing ? this.parseJson(existing.keyColumns, []) : []),
+      schedule: pick('schedule', existing?.schedule ?? null),
+      timeZone: pick('timeZone', existing?.timeZone ?? 'UTC'),
+      isActive: pick('isActive', existing ? !!existing.isActive : true),
+      deliverTo: pick('deliverTo', existing ? this.parseChannels(existing.deliverTo) : ['history']),
+      notifyOn: pick('notifyOn', existing?.notifyOn ?? 'changes'),
+      webhookUrl: pick('webhookUrl', existing?.webhookUrl ?? null)
+    };
+  }
+
+  /**
+   * Checks that a definition can run: the fields its kind needs, the user's connection, the
+   * query guard (or MongoDB query rules), the schedule and the webhook
+   */
+  private async validateDefinition(userId: string, definition: SavedQueryDefinition): Promise<void> {
+    if (!definition.name || !definition.kind) {
+      throw new SavedQueryError('A name and kind are required');
+    }
+
+    if (definition.kind === 'question') {
+      if (!definition.question) {
+        throw new SavedQueryError('A question is required');
+      }
+      if (definition.queryType === 'mongo') {
+        throw new SavedQueryError('Questions are answered with DAX or SQL');
+      }
+    } else {
+      if (!definition.query || !definition.queryType) {
+        throw new SavedQueryError('A query and queryType are required');
+      }
+
+      if (definition.connectionId) {
+        const connection = await ExternalDatabaseService.getInstance().getConnection(definition.connectionId, userId);
+        if (!connection) {
+          throw new SavedQueryError('Connection not found', 404);
+        }
+        const expectedType = connection.type === 'mongodb' ? 'mongo' : 'sql';
+        if (definition.queryType !== expectedType) {
+          throw new SavedQueryError(`${connection.type} connections take ${expectedType} queries`);
+        }
+        if (expectedType === 'mongo') {
+          MongoDriver.parseQuery(definition.query);
+        } else {
+          this.inspectQuery(definition.query, QueryGuardService.dialectFor(connection.type)!);
+        }
+      } else {
+        if (definition.queryType === 'mongo') {
+          throw new SavedQueryError('Connection ID required for MongoDB queries');
+        }
+        if (definition.queryType === 'dax' && !definition.datasetId) {
+          throw new SavedQueryError('Dataset ID required for DAX queries');
+        }
+        this.inspectQuery(definition.query, QueryGuardService.dialectFor(definition.queryType)!);
+      }
+    }
+
+    if (definition.schedule) {
+      const schedule = CronSchedule.parse(definition.schedule, definition.timeZone);
+      if (schedule.minimumIntervalMinutes() < this.minIntervalMinutes) {
+        throw new CronScheduleError(`Scheduled queries can run at most every ${this.minIntervalMinutes} minutes`);
+      }
+    }
+
+    if (definition.deliverTo.includes('webhook')) {
+      if (!definition.webhookUrl) {
+        throw new SavedQueryError('A webhookUrl is required to deliver to a webhook');
+      }
+      await this.checkWebhookUrl(definition.webhookUrl);
+    }
+  }
+
+  /**
+   * Rejects webhook URLs that aren't http(s) (https only in production) or whose host
+   * resolves to an address in BLOCKED_WEBHOOK_ADDRESSES
+   */
+  private async checkWebhookUrl(webhookUrl: string): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(webhookUrl);
+    } catch {
+      throw new SavedQueryError('Invalid webhookUrl');
+    }
+    if (url.protocol !== 'https:' && (process.env.NODE_ENV === 'production' || url.protocol !== 'http:')) {
+      throw new SavedQueryError(process.env.NODE_ENV === 'production' ? 'Webhook URLs must use https' : 'Webhook URLs must use http or https');
+    }
+
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses: dns.LookupAddress[];
+    try {
+      addresses = net.isIP(host) ? [{ address: host, family: net.isIP(host) }] : await dns.promises.lookup(host, { all: true, verbatim: true });
+    } catch {
+      throw new SavedQueryError(`The webhook host ${url.hostname} could not be resolved`);
+    }
+    for (const { address, family } of addresses) {
+      if (BLOCKED_WEBHOOK_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')) {
+        const target = address === host ? address : `${url.hostname} resolves to ${address}`;
+        throw new SavedQueryError(`Webhooks cannot be delivered to private or local addresses (${target})`);
+      }
+    }
+  }
+
+  private inspectQuery(query: string, dialect: QueryDialect): void {
+    const inspection = QueryGuardService.getInstance().inspect(query, dialect);
+    if (!inspection.allowed) {
+      throw new QueryRejectedError(inspection.rejection!);
+    }
+  }
+
+  private computeNextRun(definition: SavedQueryDefinition): Date | null {
+    if (!definition.schedule || !definition.isActive) {
+      return null;
+    }
+    return CronSchedule.parse(definition.schedule, definition.timeZone).next();
+  }
+
+  private bindDefinition(request: sql.Request, definition: SavedQueryDefinition): sql.Request {
+    return request
+      .input('name', sql.NVarChar, definition.name)
+      .input('description', sql.NVarChar, definition.description)
+      .input('kind', sql.NVarChar, definition.kind)
+      .input('question', sql.NVarChar, definition.kind === 'question' ? definition.question : null)
+      .input('query', sql.NVarChar, definition.kind === 'query' ? definition.query : null)
+      .input('queryType', sql.NVarChar, definition.queryType)
+      .input('datasetId', sql.NVarChar, definition.datasetId)
+      .input('connectionId', sql.NVarChar, definition.connectionId)
+      .input('workspaceId', sql.NVarChar, definition.workspaceId)
+      .input('visualization', sql.NVarChar, definition.visualization ? JSON.stringify(definition.visualization) : null)
+      .input('keyColumns', sql.NVarChar, definition.keyColumns.length > 0 ? JSON.stringify(definition.keyColumns) : null)
+      .input('schedule', sql.NVarChar, definition.schedule)
+      .input('timeZone', sql.NVarChar, definition.timeZone)
+      .input('isActive', sql.Bit, definition.isActive)
+      .input('deliverTo', sql.NVarChar, definition.deliverTo.join(','))
+      .input('notifyOn', sql.NVarChar, definition.notifyOn)
+      .input('webhookUrl', sql.NVarChar, definition.webhookUrl);
+  }
+
+  private async getRow(id: string, userId: string): Promise<SavedQueryRow | null> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, id)
+      .input('userId', sql.NVarChar, userId)
+      .query('SELECT * FROM SavedQueries WHERE id = @id AND userId = @userId');
+    return result.recordset[0] || null;
+  }
+
+  private toSavedQuery(row: SavedQueryRow): SavedQuery {
+    const { webhookSecret, lockedBy, lockedAt, ...fields } = row as SavedQueryRow & { lockedBy?: string; lockedAt?: Date };
+    return {
+      ...fields,
+      isActive: !!row.isActive,
+      visualization: this.parseJson(row.visualization, null),
+      keyColumns: this.parseJson(row.keyColumns, []),
+      deliverTo: this.parseChannels(row.deliverTo),
+      hasWebhookSecret: !!webhookSecret
+    };
+  }
+
+  private toRun(row: any): SavedQueryRun {
+    return {
+      id: row.id,
+      savedQueryId: row.savedQueryId,
+      trigger: row.trigger,
+      status: row.status,
+      startedAt: row.startedAt,
+      completedAt: row.completedAt,
+      rowCount: row.rowCount,
+      truncated: !!row.truncated,
+      columns: this.parseJson(row.columns, []),
+      executedQuery: row.executedQuery,
+      answer: row.answer,
+      diff: this.parseJson(row.diff, null),
+      error: row.error,
+      deliveryStatus: this.parseJson(row.deliveryStatus, null)
+    };
+  }
+
+  private parseChannels(value: string | null): SavedQueryChannel[] {
+    return (value || '').split(',').filter((channel): channel is SavedQueryChannel => channel === 'history' || channel === 'webhook');
+  }
+
+  private parseJson<T>(value: string | null, fallback: T): T {
+    if (!value) {
+      return fallback;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return fallback;
+    }
+  }
+
+  // Rows as they come back after being stored, so fresh and stored snapshots compare equal
+  private normalizeRows(rows: any[]): any[] {
+    return JSON.parse(JSON.stringify(rows));
+  }
+
+  private hashSnapshot(snapshot: Snapshot): string {
+    return crypto.createHash('sha256').update(JSON.stringify([snapshot.columns, snapshot.rows])).digest('hex');
+  }
+
+  private generateWebhookSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+}
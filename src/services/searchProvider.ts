@@ -0,0 +1,87 @@
+import { ConfigurationManager } from './configurationManager';
+import { logger } from '../utils/logger';
+import { SearchMode } from './searchRerankingService';
+
+export type SearchProviderName = 'azure' | 'local';
+
+export interface SearchOptions {
+  top?: number;        // Maximum number of results (default 10)
+  fileId?: string;     // Only return passages of this workspace file
+  mode?: SearchMode;   // Keyword, vector or hybrid retrieval (default search.SEARCH_MODE)
+  rerank?: boolean;    // Set to false to skip the configured reranker
+}
+
+/**
+ * Document search backend used for workspace RAG. Documents and results follow the
+ * Azure AI Search shape: one document per file chunk (see DocumentIndexingService) and
+ * results carrying the provider's score in '@search.score' (plus '@search.rerankerScore'
+ * when reranked) and a normalized 'relevanceScore' between 0 and 1.
+ */
+export interface SearchProvider {
+  readonly name: SearchProviderName;
+  isAvailable(): boolean;
+  indexExists(indexName: string): Promise<boolean>;
+  createWorkspaceIndex(indexName: string): Promise<boolean>;
+  // Creates the index, or upgrades an existing one to the current schema
+  ensureIndex(indexName: string): Promise<boolean>;
+  deleteWorkspaceIndex(indexName: string): Promise<boolean>;
+  indexDocuments(indexName: string, documents: any[]): Promise<boolean>;
+  deleteFileDocuments(indexName: string, fileId: string): Promise<number>;
+  searchDocuments(indexName: string, searchText: string, options?: SearchOptions): Promise<any[]>;
+}
+
+interface SearchProviderClass {
+  getInstance(): SearchProvider;
+  resetInstance(): void;
+}
+
+let activeProvider: SearchProvider | null = null;
+// Provider classes loaded so far, so a reset reaches them without loading the others
+const loadedProviders = new Map<SearchProviderName, SearchProviderClass>();
+
+function loadProvider(name: SearchProviderName): SearchProviderClass {
+  let provider = loadedProviders.get(name);
+  if (!provider) {
+    // Required lazily so the providers don't load unless selected
+    provider = name === 'azure'
+      ? require('./azureSearchService').AzureSearchService as SearchProviderClass
+      : require('./localSearchProvider').LocalSearchProvider as SearchProviderClass;
+    loadedProviders.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Gets the configured search provider. `search.SEARCH_PROVIDER` selects 'azure' or 'local';
+ * when unset, Azure AI Search is used if an API key is configured, otherwise the local store.
+ */
+export function getSearchProvider(): SearchProvider {
+  if (activeProvider) {
+    return activeProvider;
+  }
+
+  const configManager = ConfigurationManager.getInstance();
+  const configured = configManager.getValue('search', 'SEARCH_PROVIDER')?.toLowerCase();
+  const hasAzureKey = !!configManager.getValue('search', 'AZURE_AI_SEARCH_API_KEY');
+  const providerName: SearchProviderName = configured === 'local' || configured === 'azure'
+    ? configured
+    : (hasAzureKey ? 'azure' : 'local');
+
+  if (configured && configured !== providerName) {
+    logger.warn(`Unknown search provider '${configured}', falling back to '${providerName}'`);
+  }
+
+  activeProvider = loadProvider(providerName).getInstance();
+
+  logger.info(`Using '${activeProvider.name}' search provider`);
+  return activeProvider;
+}
+
+/**
+ * Drops the cached provider and the instances of any loaded providers, so the next call
+ * re-reads the configuration
+ */
+export function resetSearchProvider(): void {
+  loadedProviders.forEach(provider => provider.resetInstance());
+  activeProvider = null;
+}
@@ -0,0 +1,130 @@
+import { ConfigurationManager } from './configurationManager';
+
+export type SearchMode = 'keyword' | 'vector' | 'hybrid';
+export type SearchReranker = 'semantic' | 'lexical' | 'none';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'how', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'there', 'these', 'this', 'to',
+  'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with'
+]);
+
+/**
+ * Shared retrieval settings and the in-process reranking step used by the search providers.
+ * Every result leaves a provider with a 'relevanceScore' between 0 and 1 that RAGService
+ * compares against its relevance threshold.
+ */
+export class SearchRerankingService {
+  private static instance: SearchRerankingService;
+  private static readonly COVERAGE_WEIGHT = 0.5;
+  private static readonly PROXIMITY_WEIGHT = 0.2;
+  private static readonly FIRST_STAGE_WEIGHT = 0.3;
+
+  private constructor() {}
+
+  public static getInstance(): SearchRerankingService {
+    if (!SearchRerankingService.instance) {
+      SearchRerankingService.instance = new SearchRerankingService();
+    }
+    return SearchRerankingService.instance;
+  }
+
+  /**
+   * Gets the configured retrieval mode (search.SEARCH_MODE, default hybrid)
+   */
+  public getMode(): SearchMode {
+    const mode = ConfigurationManager.getInstance().getValue('search', 'SEARCH_MODE', 'hybrid')!.toLowerCase();
+    return mode === 'keyword' || mode === 'vector' ? mode : 'hybrid';
+  }
+
+  /**
+   * Gets the configured reranker (search.SEARCH_RERANKER). Defaults to Azure's semantic
+   * ranker for the Azure provider and the lexical reranker for the local provider.
+   */
+  public getReranker(providerName: string): SearchReranker {
+    const configured = ConfigurationManager.getInstance().getValue('search', 'SEARCH_RERANKER')?.toLowerCase();
+    if (configured === 'none' || configured === 'lexical') {
+      return configured;
+    }
+    if (configured === 'semantic' || !configured) {
+      // Semantic ranking is an Azure AI Search feature
+      return providerName === 'azure' ? 'semantic' : 'lexical';
+    }
+    return 'lexical';
+  }
+
+  /**
+   * Splits text into lowercase terms, dropping stop words
+   */
+  public tokenize(text: string): string[] {
+    const words = (text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    return words.filter(word => (word.length > 1 || /\d/.test(word)) && !STOP_WORDS.has(word));
+  }
+
+  /**
+   * Re-scores first-stage results by how many query terms a passage contains and how close
+   * together they appear, blended with the first-stage relevance
+   * @param query - The search text
+   * @param results - First-stage results, each with a relevanceScore between 0 and 1
+   * @returns The results re-sorted, with '@search.rerankerScore' and relevanceScore set to the new score
+   */
+  public rerank(query: string, results: any[]): any[] {
+    const queryTerms = Array.from(new Set(this.tokenize(query)));
+    if (queryTerms.length === 0 || results.length === 0) {
+      return results;
+    }
+
+    const { COVERAGE_WEIGHT, PROXIMITY_WEIGHT, FIRST_STAGE_WEIGHT } = SearchRerankingService;
+
+    return results
+      .map(result => {
+        const terms = this.tokenize([result.fileName, result.section, result.content].filter(Boolean).join('\n'));
+        const termSet = new Set(terms);
+        const matched = queryTerms.filter(term => termSet.has(term));
+        const coverage = matched.length / queryTerms.length;
+        const proximity = matched.length > 1 ? this.proximity(terms, matched) : (matched.length === 1 ? 1 : 0);
+        const score = COVERAGE_WEIGHT * coverage
+          + PROXIMITY_WEIGHT * proximity
+          + FIRST_STAGE_WEIGHT * Math.min(Math.max(result.relevanceScore ?? 0, 0), 1);
+
+        return { ...result, '@search.rerankerScore': score, relevanceScore: score };
+      })
+      .sort((a, b) => b.relevanceScore - a.relevanceScore);
+  }
+
+  /**
+   * Scores how tightly the matched terms cluster: 1 when they are adjacent, approaching 0
+   * as the smallest window containing all of them grows
+   */
+  private proximity(terms: string[], matched: string[]): number {
+    const wanted = new Set(matched);
+    const counts = new Map<string, number>();
+    let covered = 0;
+    let left = 0;
+    let smallestWindow = Infinity;
+
+    for (let right = 0; right < terms.length; right++) {
+      const term = terms[right];
+      if (!wanted.has(term)) {
+        continue;
+      }
+      counts.set(term, (counts.get(term) || 0) + 1);
+      if (counts.get(term) === 1) {
+        covered++;
+      }
+      while (covered === wanted.size) {
+        smallestWindow = Math.min(smallestWindow, right - left + 1);
+        const leftTerm = terms[left];
+        if (wanted.has(leftTerm)) {
+          counts.set(leftTerm, counts.get(leftTerm)! - 1);
+          if (counts.get(leftTerm) === 0) {
+            covered--;
+          }
+        }
+        left++;
+      }
+    }
+
+    return smallestWindow === Infinity ? 0 : matched.length / smallestWindow;
+  }
+}
@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import sql from 'mssql';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../config/database';
+import { CacheService } from './cache';
+import { logger } from '../utils/logger';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role?: string;
+}
+
+export interface SessionClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionState {
+  active: boolean;
+  twoFactorVerified: boolean;   // The session was started or confirmed with a second factor
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;            // Access token lifetime in seconds
+  refreshExpiresAt: Date;
+}
+
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date;
+}
+
+/**
+ * Server-side sessions backing short-lived access tokens. Each login creates a row in the
+ * Sessions table holding a hashed refresh token; refreshing rotates it, and logging out or
+ * revoking a session makes authenticateToken reject the access tokens issued for it.
+ */
+export class SessionService {
+  private static instance: SessionService;
+  private dbManager: DatabaseManager;
+  private cache: CacheService;
+  // How long a session lookup is trusted before authenticateToken checks the database again
+  private static readonly ACTIVE_CACHE_TTL_SECONDS = 30;
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+    this.cache = CacheService.getInstance();
+  }
+
+  public static getInstance(): SessionService {
+    if (!SessionService.instance) {
+      SessionService.instance = new SessionService();
+    }
+    return SessionService.instance;
+  }
+
+  /**
+   * Starts a session for a user who has just authenticated
+   */
+  public async createSession(
+    user: SessionUser,
+    client: SessionClientInfo = {},
+    options: { twoFactorVerified?: boolean } = {}
+  ): Promise<SessionTokens> {
+    const sessionId = uuidv4();
+    const refreshSecret = this.generateSecret();
+    const refreshExpiresAt = this.getRefreshExpiry();
+    const { accessToken, tokenId, expiresIn } = this.signAccessToken(user, sessionId);
+
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('id', sql.NVarChar, sessionId)
+      .input('userId', sql.NVarChar, user.id)
+      .input('token', sql.NVarChar, tokenId)
+      .input('refreshToken', sql.NVarChar, this.hashSecret(refreshSecret))
+      .input('expiresAt', sql.DateTime2, refreshExpiresAt)
+      .input('userAgent', sql.NVarChar, client.userAgent?.substring(0, 1000) || null)
+      .input('ipAddress', sql.NVarChar, client.ipAddress?.substring(0, 45) || null)
+      .input('twoFactorVerified', sql.Bit, options.twoFactorVerified === true)
+      .query(`
+        INSERT INTO Sessions (id, userId, token, refreshToken, expiresAt, isActive, userAgent, ipAddress, twoFactorVerified, createdAt, lastUsedAt)
+        VALUES (@id, @userId, @token, @refreshToken, @expiresAt, 1, @userAgent, @ipAddress, @twoFactorVerified, GETUTCDATE(), GETUTCDATE())
+      `);
+
+    logger.info(`Session ${sessionId} created for user ${user.id}`);
+    return {
+      sessionId,
+      accessToken,
+      refreshToken: `${sessionId}.${refreshSecret}`,
+      expiresIn,
+      refreshExpiresAt
+    };
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and a new refresh token.
+   * Presenting an already rotated refresh token revokes the session, since it means the
+   * token was copied.
+   * @returns The new tokens, or null if the refresh token is invalid, expired or revoked
+   */
+  public async refreshSession(refreshToken: string, client: SessionClientInfo = {}): Promise<SessionTokens | null> {
+    const [sessionId, refreshSecret] = refreshToken.split('.');
+    if (!sessionId || !refreshSecret) {
+      return null;
+    }
+
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, sessionId)
+      .query(`
+        SELECT s.id, s.userId, s.refreshToken, s.previousRefreshToken, s.expiresAt,
+               u.email, u.role, u.isActive AS userIsActive, u.lockedUntil, u.deletedAt, u.deletionScheduledFor
+        FROM Sessions s
+        INNER JOIN Users u ON s.userId = u.id
+        WHERE s.id = @id AND s.isActive = 1
+      `);
+    const session = result.recordset[0];
+    if (!session) {
+      return null;
+    }
+
+    const presentedHash = this.hashSecret(refreshSecret);
+    if (session.refreshToken !== presentedHash) {
+      if (session.previousRefreshToken === presentedHash) {
+        logger.warn(`Rotated refresh token reused for session ${sessionId}, revoking it`);
+        await this.revokeSession(sessionId);
+      }
+      return null;
+    }
+
+    // Accounts that are deactivated, deleted or past their scheduled deletion lose their
+    // sessions; locked accounts keep them but can't refresh until the lock ends, as at login
+    const now = new Date();
+    if (new Date(session.expiresAt) <= now || session.userIsActive === false || session.deletedAt ||
+        (session.deletionScheduledFor && new Date(session.deletionScheduledFor) <= now)) {
+      await this.revokeSession(sessionId);
+      return null;
+    }
+    if (session.lockedUntil && new Date(session.lockedUntil) > now) {
+      return null;
+    }
+
+    const newSecret = this.generateSecret();
+    const refreshExpiresAt = this.getRefreshExpiry();
+    const { accessToken, tokenId, expiresIn } = this.signAccessToken(
+      { id: session.userId, email: session.email, role: session.role || 'user' },
+      sessionId
+    );
+
+    // Only one of two concurrent refreshes with the same token can win the rotation
+    const update = await pool.request()
+      .input('id', sql.NVarChar, sessionId)
+      .input('token', sql.NVarChar, tokenId)
+      .input('refreshToken', sql.NVarChar, this.hashSecret(newSecret))
+      .input('previousRefreshToken', sql.NVarChar, presentedHash)
+      .input('expiresAt', sql.DateTime2, refreshExpiresAt)
+      .input('userAgent', sql.NVarChar, client.userAgent?.substring(0, 1000) || null)
+      .input('ipAddress', sql.NVarChar, client.ipAddress?.substring(0, 45) || null)
+      .query(`
+        UPDATE Sessions
+        SET token = @token,
+            refreshToken = @refreshToken,
+            previousRefreshToken = @previousRefreshToken,
+            expiresAt = @expiresAt,
+            userAgent = COALESCE(@userAgent, userAgent),
+            ipAddress = COALESCE(@ipAddress, ipAddress),
+            lastUsedAt = GETUTCDATE()
+        WHERE id = @id AND refreshToken = @previousRefreshToken AND isActive = 1
+      `);
+    if (update.rowsAffected[0] === 0) {
+      return null;
+    }
+
+    return {
+      sessionId,
+      accessToken,
+      refreshToken: `${sessionId}.${newSecret}`,
+      expiresIn,
+      refreshExpiresAt
+    };
+  }
+
+  /**
+   * Whether access tokens issued for a session are still accepted, and whether the session
+   * has passed two-factor authentication
+   */
+  public async getSessionState(sessionId: string): Promise<SessionState> {
+    const cacheKey = this.getActiveCacheKey(sessionId);
+    const cached = this.cache.get<SessionState>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, sessionId)
+      .query('SELECT isActive, expiresAt, twoFactorVerified FROM Sessions WHERE id = @id');
+    const session = result.recordset[0];
+    const state: SessionState = {
+      active: !!session && session.isActive === true && new Date(session.expiresAt) > new Date(),
+      twoFactorVerified: session?.twoFactorVerified === true
+    };
+
+    this.cache.set(cacheKey, state, { ttl: SessionService.ACTIVE_CACHE_TTL_SECONDS });
+    return state;
+  }
+
+  /**
+   * Records that a session has passed two-factor authentication, e.g. right after enrolment
+   */
+  public async markTwoFactorVerified(sessionId: string): Promise<void> {
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('id', sql.NVarChar, sessionId)
+      .query('UPDATE Sessions SET twoFactorVerified = 1 WHERE id = @id');
+    this.cache.delete(this.getActiveCacheKey(sessionId));
+  }
+
+  /**
+   * Lists a user's sessions that can still be refreshed, most recently used first
+   */
+  public async listSessions(userId: string): Promise<UserSession[]> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .query(`
+        SELECT id, userAgent, ipAddress, createdAt, lastUsedAt, expiresAt
+        FROM Sessions
+        WHERE userId = @userId AND isActive = 1 AND expiresAt > GETUTCDATE()
+        ORDER BY COALESCE(lastUsedAt, createdAt) DESC
+      `);
+    return result.recordset;
+  }
+
+  /**
+   * Revokes a session. When userId is given, only a session of that user is revoked.
+   * @returns Whether an active session was revoked
+   */
+  public async revokeSession(sessionId: string, userId?: string): Promise<boolean> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, sessionId)
+      .input('userId', sql.NVarChar, userId || null)
+      .query(`
+        UPDATE Sessions
+        SET isActive = 0, revokedAt = GETUTCDATE()
+        WHERE id = @id AND isActive = 1 AND (@userId IS NULL OR userId = @userId)
+      `);
+
+    this.cache.delete(this.getActiveCacheKey(sessionId));
+    const revoked = result.rowsAffected[0] > 0;
+    if (revoked) {
+      logger.info(`Session ${sessionId} revoked`);
+    }
+    return revoked;
+  }
+
+  /**
+   * Revokes all of a user's sessions except one, e.g. to sign out other devices
+   * @returns The number of sessions revoked
+   */
+  public async revokeOtherSessions(userId: string, keepSessionId?: string): Promise<number> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .input('keepSessionId', sql.NVarChar, keepSessionId || null)
+      .query(`
+        UPDATE Sessions
+        SET isActive = 0, revokedAt = GETUTCDATE()
+        OUTPUT inserted.id
+        WHERE userId = @userId AND isActive = 1 AND (@keepSessionId IS NULL OR id <> @keepSessionId)
+      `);
+
+    for (const row of result.recordset) {
+      this.cache.delete(this.getActiveCacheKey(row.id));
+    }
+    logger.info(`Revoked ${result.recordset.length} sessions of user ${userId}`);
+    return result.recordset.length;
+  }
+
+  /**
+   * Signs an access token for a user. Tokens without a session id are only issued in mock
+   * database mode, where there is no Sessions table to check them against.
+   */
+  public signAccessToken(user: SessionUser, sessionId?: string): { accessToken: string; tokenId: string; expiresIn: number } {
+    const tokenId = uuidv4();
+    const accessToken = jwt.sign(
+      { userId: user.id, email: user.email, role: user.role || 'user', ...(sessionId ? { sid: sessionId } : {}) },
+      process.env.JWT_SECRET as string,
+      // Not JWT_EXPIRES_IN: deployments set that to 24h for the long-lived tokens used before sessions
+      { expiresIn: process.env.ACCESS_TOKEN_EXPIRES_IN || '15m', jwtid: tokenId } as jwt.SignOptions
+    );
+    const decoded = jwt.decode(accessToken) as { iat: number; exp: number };
+    return { accessToken, tokenId, expiresIn: decoded.exp - decoded.iat };
+  }
+
+  private getRefreshExpiry(): Date {
+    const days = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '', 10);
+    return new Date(Date.now() + (days > 0 ? days : 30) * 24 * 60 * 60 * 1000);
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  private getActiveCacheKey(sessionId: string): string {
+    return `session_active:${sessionId}`;
+  }
+}
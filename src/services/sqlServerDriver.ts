@@ -0,0 +1,130 @@
+import sql from 'mssql';
+import {
+  DatabaseDriver,
+  DatabaseDriverError,
+  DriverConnectionConfig,
+  DriverProbeResult,
+  DriverQueryOptions,
+  DriverQueryResult
+} from './databaseDriver';
+
+/**
+ * SQL Server and Azure SQL through mssql. Fabric SQL endpoints speak the same protocol and
+ * sign in with the service's Azure identity instead of a password.
+ */
+export class SqlServerDriver implements DatabaseDriver {
+  constructor(public readonly type: 'sql-server' | 'fabric' = 'sql-server') {}
+
+  public async probe(config: DriverConnectionConfig): Promise<DriverProbeResult> {
+    return this.withPool(config, config.connectTimeoutMs, async pool => {
+      const result = await pool.request().query('SELECT @@VERSION AS version');
+      return { serverVersion: result.recordset[0]?.version?.split('\n')[0].trim() || null };
+    });
+  }
+
+  public async query(config: DriverConnectionConfig, query: string, options: DriverQueryOptions): Promise<DriverQueryResult> {
+    return this.withPool(config, options.timeoutMs, async pool => {
+      const transaction = new sql.Transaction(pool);
+      await transaction.begin();
+      if (options.writable) {
+        return this.write(transaction, query, options.maxRows);
+      }
+      // SQL Server has no read-only transactions; rolling back undoes anything that got through
+      try {
+        return await this.streamRows(new sql.Request(transaction), query, options.maxRows);
+      } finally {
+        await transaction.rollback().catch(() => undefined);
+      }
+    });
+  }
+
+  private async write(transaction: sql.Transaction, query: string, maxRows: number): Promise<DriverQueryResult> {
+    let result: sql.IResult<any>;
+    try {
+      result = await new sql.Request(transaction).query(query);
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback().catch(() => undefined);
+      throw error;
+    }
+    // OUTPUT clauses return rows
+    const rows = result.recordset || [];
+    return {
+      columns: rows.length > 0 ? Object.keys(rows[0]) : [],
+      rows: rows.slice(0, maxRows),
+      truncated: rows.length > maxRows,
+      rowsAffected: result.rowsAffected.reduce((total, count) => total + count, 0)
+    };
+  }
+
+  // Streams the first result set and cancels the query once it has more than maxRows rows
+  private async streamRows(request: sql.Request, query: string, maxRows: number): Promise<DriverQueryResult> {
+    const rows: any[] = [];
+    let columns: string[] = [];
+    let recordsets = 0;
+    let truncated = false;
+    let failure: Error | null = null;
+
+    request.stream = true;
+    request.on('recordset', (recordsetColumns: Record<string, unknown>) => {
+      recordsets++;
+      if (recordsets === 1) {
+        columns = Object.keys(recordsetColumns);
+      }
+    });
+    request.on('row', (row: any) => {
+      if (recordsets !== 1 || truncated) {
+        return;
+      }
+      if (rows.length === maxRows) {
+        truncated = true;
+        request.cancel();
+        return;
+      }
+      rows.push(row);
+    });
+    request.on('error', (error: any) => {
+      if (!(truncated && error?.code === 'ECANCEL')) {
+        failure = error;
+      }
+    });
+
+    await request.query(query);
+    if (failure) {
+      throw new DatabaseDriverError((failure as Error).message);
+    }
+    return { columns, rows, truncated };
+  }
+
+  private async withPool<T>(config: DriverConnectionConfig, requestTimeoutMs: number, run: (pool: sql.ConnectionPool) => Promise<T>): Promise<T> {
+    const pool = new sql.ConnectionPool({
+      server: config.host,
+      port: config.port,
+      database: config.database || undefined,
+      ...(this.type === 'fabric'
+        ? { authentication: { type: 'azure-active-directory-default', options: {} } }
+        : { user: config.username || undefined, password: config.password || undefined }),
+      options: {
+        encrypt: config.encrypt,
+        trustServerCertificate: config.trustServerCertificate,
+        enableArithAbort: true
+      },
+      connectionTimeout: config.connectTimeoutMs,
+      requestTimeout: requestTimeoutMs,
+      pool: { max: 1, min: 0 }
+    });
+
+    try {
+      await pool.connect();
+    } catch (error) {
+      throw new DatabaseDriverError(error instanceof Error ? error.message : 'Connection failed');
+    }
+    try {
+      return await run(pool);
+    } catch (error) {
+      throw error instanceof DatabaseDriverError ? error : new DatabaseDriverError(error instanceof Error ? error.message : 'Query failed');
+    } finally {
+      await pool.close().catch(() => undefined);
+    }
+  }
+}
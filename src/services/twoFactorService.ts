@@ -0,0 +1,351 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import sql from 'mssql';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../config/database';
+import { ConfigurationManager } from './configurationManager';
+import { logger } from '../utils/logger';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * TOTP two-factor authentication (RFC 6238: HMAC-SHA1, 6 digits, 30 second steps) with
+ * single-use recovery codes. Secrets are stored encrypted on Users, recovery codes hashed in
+ * UserRecoveryCodes. Login with an enrolled account is a two-step exchange: the password
+ * yields a short-lived challenge token, which is redeemed together with a code.
+ */
+export class TwoFactorService {
+  private static instance: TwoFactorService;
+  private dbManager: DatabaseManager;
+  private static readonly ISSUER = 'AIVA';
+  private static readonly DIGITS = 6;
+  private static readonly STEP_SECONDS = 30;
+  // Accept the previous and next code too, to allow for clock drift
+  private static readonly WINDOW_STEPS = 1;
+  private static readonly RECOVERY_CODE_COUNT = 10;
+  private static readonly CHALLENGE_TTL_SECONDS = 300;
+  private static readonly BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): TwoFactorService {
+    if (!TwoFactorService.instance) {
+      TwoFactorService.instance = new TwoFactorService();
+    }
+    return TwoFactorService.instance;
+  }
+
+  /**
+   * Whether the TWO_FACTOR_REQUIRED_ROLES policy makes 2FA mandatory for a role
+   */
+  public isRequiredForRole(role: string | undefined): boolean {
+    const roles = ConfigurationManager.getInstance().getValue('security', 'TWO_FACTOR_REQUIRED_ROLES', 'admin')!;
+    return roles.split(',').map(r => r.trim().toLowerCase()).filter(Boolean).includes((role || 'user').toLowerCase());
+  }
+
+  public async getStatus(userId: string, role?: string): Promise<TwoFactorStatus> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .query(`
+        SELECT u.twoFactorEnabled, u.twoFactorEnabledAt,
+               (SELECT COUNT(*) FROM UserRecoveryCodes c WHERE c.userId = u.id AND c.usedAt IS NULL) AS recoveryCodesRemaining
+        FROM Users u
+        WHERE u.id = @userId
+      `);
+    const row = result.recordset[0] || {};
+    return {
+      enabled: row.twoFactorEnabled === true,
+      enabledAt: row.twoFactorEnabledAt || null,
+      recoveryCodesRemaining: row.recoveryCodesRemaining || 0,
+      required: this.isRequiredForRole(role)
+    };
+  }
+
+  /**
+   * Generates a new secret for enrolment. It only takes effect once confirmed with a code.
+   */
+  public async beginEnrollment(userId: string, email: string): Promise<TwoFactorSetup> {
+    const secret = this.encodeBase32(crypto.randomBytes(20));
+
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .input('secret', sql.NVarChar, this.encryptSecret(secret))
+      .query('UPDATE Users SET twoFactorPendingSecret = @secret, updatedAt = GETUTCDATE() WHERE id = @userId');
+
+    const label = encodeURIComponent(`${TwoFactorService.ISSUER}:${email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TwoFactorService.ISSUER,
+      algorithm: 'SHA1',
+      digits: String(TwoFactorService.DIGITS),
+      period: String(TwoFactorService.STEP_SECONDS)
+    });
+    return { secret, otpauthUrl: `otpauth://totp/${label}?${params.toString()}` };
+  }
+
+  /**
+   * Enables 2FA if the code matches the pending secret
+   * @returns New recovery codes, or null if the code is wrong or no enrolment is pending
+   */
+  public async confirmEnrollment(userId: string, code: string): Promise<string[] | null> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .query('SELECT twoFactorPendingSecret FROM Users WHERE id = @userId');
+    const pendingSecret = result.recordset[0]?.twoFactorPendingSecret;
+    if (!pendingSecret) {
+      return null;
+    }
+
+    const step = this.matchTotp(this.decryptSecret(pendingSecret), code.replace(/[\s-]/g, ''));
+    if (step === null) {
+      return null;
+    }
+
+    await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .input('step', sql.BigInt, step)
+      .query(`
+        UPDATE Users
+        SET twoFactorEnabled = 1,
+            twoFactorSecret = twoFactorPendingSecret,
+            twoFactorPendingSecret = NULL,
+            twoFactorEnabledAt = GETUTCDATE(),
+            twoFactorLastUsedStep = @step,
+            updatedAt = GETUTCDATE()
+        WHERE id = @userId
+      `);
+
+    logger.info(`Two-factor authentication enabled for user ${userId}`);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Checks a TOTP or recovery code for an enrolled user. TOTP codes are rejected if they
+   * were already used, and recovery codes are used up.
+   */
+  public async verifyCode(userId: string, code: string): Promise<boolean> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .query('SELECT twoFactorEnabled, twoFactorSecret, twoFactorLastUsedStep FROM Users WHERE id = @userId');
+    const user = result.recordset[0];
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const normalized = code.replace(/[\s-]/g, '');
+    if (normalized.length === TwoFactorService.DIGITS && /^\d+$/.test(normalized)) {
+      const step = this.matchTotp(this.decryptSecret(user.twoFactorSecret), normalized);
+      if (step === null) {
+        return false;
+      }
+      // Only a newer step than the last accepted one can be used, so a code works once
+      const update = await pool.request()
+        .input('userId', sql.NVarChar, userId)
+        .input('step', sql.BigInt, step)
+        .query(`
+          UPDATE Users SET twoFactorLastUsedStep = @step
+          WHERE id = @userId AND (twoFactorLastUsedStep IS NULL OR twoFactorLastUsedStep < @step)
+        `);
+      return update.rowsAffected[0] > 0;
+    }
+
+    const recovery = await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .input('codeHash', sql.NVarChar, this.hashRecoveryCode(normalized))
+      .query(`
+        UPDATE UserRecoveryCodes SET usedAt = GETUTCDATE()
+        WHERE userId = @userId AND codeHash = @codeHash AND usedAt IS NULL
+      `);
+    if (recovery.rowsAffected[0] > 0) {
+      logger.info(`Recovery code used by user ${userId}`);
+      return true;
+    }
+    return false;
+  }
+
+  public async disable(userId: string): Promise<void> {
+    const pool = await this.dbManager.getPool();
+    await pool.request()
+      .input('userId', sql.NVarChar, userId)
+      .query(`
+        UPDATE Users
+        SET twoFactorEnabled = 0, twoFactorSecret = NULL, twoFactorPendingSecret = NULL,
+            twoFactorEnabledAt = NULL, twoFactorLastUsedStep = NULL, updatedAt = GETUTCDATE()
+        WHERE id = @userId;
+        DELETE FROM UserRecoveryCodes WHERE userId = @userId;
+      `);
+    logger.info(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  /**
+   * Replaces all recovery codes of a user
+   * @returns The new codes in plain text; only their hashes are stored
+   */
+  public async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: TwoFactorService.RECOVERY_CODE_COUNT }, () => {
+      const hex = crypto.randomBytes(5).toString('hex');
+      return `${hex.substring(0, 5)}-${hex.substring(5)}`;
+    });
+
+    const pool = await this.dbManager.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+    try {
+      await new sql.Request(transaction)
+        .input('userId', sql.NVarChar, userId)
+        .query('DELETE FROM UserRecoveryCodes WHERE userId = @userId');
+      for (const code of codes) {
+        await new sql.Request(transaction)
+          .input('id', sql.NVarChar, uuidv4())
+          .input('userId', sql.NVarChar, userId)
+          .input('codeHash', sql.NVarChar, this.hashRecoveryCode(code.replace('-', '')))
+          .query('INSERT INTO UserRecoveryCodes (id, userId, codeHash, createdAt) VALUES (@id, @userId, @codeHash, GETUTCDATE())');
+      }
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    return codes;
+  }
+
+  /**
+   * Issues the token that stands in for a correct password until the second factor is given
+   */
+  public createChallenge(userId: string): string {
+    return jwt.sign({}, this.deriveKey('two-factor-challenge'), {
+      subject: userId,
+      audience: 'two_factor_challenge',
+      expiresIn: TwoFactorService.CHALLENGE_TTL_SECONDS
+    });
+  }
+
+  /**
+   * @returns The user id of a valid challenge token, or null
+   */
+  public verifyChallenge(challengeToken: string): string | null {
+    try {
+      const payload = jwt.verify(challengeToken, this.deriveKey('two-factor-challenge'), {
+        audience: 'two_factor_challenge'
+      }) as jwt.JwtPayload;
+      return payload.sub || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * @returns The time step the code belongs to, or null if it matches none in the window
+   */
+  private matchTotp(secret: string, code: string): number | null {
+    if (!new RegExp(`^\\d{${TwoFactorService.DIGITS}}$`).test(code)) {
+      return null;
+    }
+    const key = this.decodeBase32(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / TwoFactorService.STEP_SECONDS);
+    for (let offset = -TwoFactorService.WINDOW_STEPS; offset <= TwoFactorService.WINDOW_STEPS; offset++) {
+      const step = currentStep + offset;
+      const expected = this.generateTotp(key, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  private generateTotp(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** TwoFactorService.DIGITS).padStart(TwoFactorService.DIGITS, '0');
+  }
+
+  private encodeBase32(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += TwoFactorService.BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += TwoFactorService.BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+  }
+
+  private decodeBase32(text: string): Buffer {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of text.replace(/=+$/, '').toUpperCase()) {
+      const index = TwoFactorService.BASE32_ALPHABET.indexOf(char);
+      if (index < 0) {
+        throw new Error('Invalid base32 secret');
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return ['v1', iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+  }
+
+  private decryptSecret(stored: string): string {
+    const [version, iv, tag, encrypted] = stored.split(':');
+    if (version !== 'v1') {
+      throw new Error('Unsupported two-factor secret format');
+    }
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+  }
+
+  // TWO_FACTOR_ENCRYPTION_KEY keeps secrets readable if JWT_SECRET is rotated
+  private getEncryptionKey(): Buffer {
+    const configuredKey = ConfigurationManager.getInstance().getValue('security', 'TWO_FACTOR_ENCRYPTION_KEY');
+    return configuredKey
+      ? crypto.createHash('sha256').update(configuredKey).digest()
+      : this.deriveKey('two-factor-secrets');
+  }
+
+  private deriveKey(purpose: string): Buffer {
+    return crypto.createHmac('sha256', process.env.JWT_SECRET as string).update(purpose).digest();
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.toLowerCase()).digest('hex');
+  }
+}
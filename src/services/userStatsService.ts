@@ -0,0 +1,203 @@
+import sql from 'mssql';
+import { DatabaseManager } from '../config/database';
+import { CacheService } from './cache';
+
+export interface DailyActivity {
+  date: string;                 // YYYY-MM-DD, UTC
+  messages: number;             // Messages the user sent
+  chats: number;                // Chats the user started
+}
+
+export interface UserStats {
+  totalChats: number;
+  archivedChats: number;
+  totalMessages: number;        // Sent and received, excluding edited-away branches
+  userMessages: number;
+  assistantMessages: number;
+  averageMessagesPerChat: number;
+  mostActiveDay: string | null;
+  mostActiveDayMessages: number;
+  tokensConsumed: number;      // Replies on every branch, including ones edited or regenerated away
+  workspacesUsed: number;
+  workspaces: { workspaceId: string; name: string; chatCount: number; messageCount: number }[];
+  mostCitedFiles: { fileId: string; fileName: string; workspaceId: string | null; fileExists: boolean; citationCount: number }[];
+  reactions: { likes: number; dislikes: number; bookmarks: number; stars: number };
+  dailyActivity: DailyActivity[];
+  joinedDate: Date | null;
+  lastActivity: Date | null;
+}
+
+/**
+ * Usage statistics of one user, computed from their chats and messages. Results are cached
+ * briefly since they aggregate over the user's whole history.
+ */
+export class UserStatsService {
+  private static instance: UserStatsService;
+  private dbManager: DatabaseManager;
+  private cache: CacheService;
+  private static readonly CACHE_TTL_SECONDS = 300;
+  private static readonly TOP_LIMIT = 5;
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+    this.cache = CacheService.getInstance();
+  }
+
+  public static getInstance(): UserStatsService {
+    if (!UserStatsService.instance) {
+      UserStatsService.instance = new UserStatsService();
+    }
+    return UserStatsService.instance;
+  }
+
+  /**
+   * @param days Length of the daily activity series, ending today
+   */
+  public async getStats(userId: string, days: number = 30): Promise<UserStats> {
+    return this.cache.getOrSet(
+      `user_stats:${userId}:${days}`,
+      () => this.computeStats(userId, days),
+      { ttl: UserStatsService.CACHE_TTL_SECONDS }
+    );
+  }
+
+  private async computeStats(userId: string, days: number): Promise<UserStats> {
+    const pool = await this.dbManager.getPool();
+    const since = new Date();
+    since.setUTCHours(0, 0, 0, 0);
+    since.setUTCDate(since.getUTCDate() - (days - 1));
+
+    const byUser = () => pool.request().input('userId', sql.NVarChar, userId);
+
+    const [totals, mostActive, workspaces, citedFiles, reactions, dailyMessages, dailyChats] = await Promise.all([
+      byUser().query(`
+        SELECT
+          (SELECT COUNT(*) FROM Chats WHERE userId = @userId) AS totalChats,
+          (SELECT COUNT(*) FROM Chats WHERE userId = @userId AND isArchived = 1) AS archivedChats,
+          COALESCE(SUM(CASE WHEN m.isActive = 1 THEN 1 ELSE 0 END), 0) AS totalMessages,
+          COALESCE(SUM(CASE WHEN m.isActive = 1 AND m.role = 'user' THEN 1 ELSE 0 END), 0) AS userMessages,
+          COALESCE(SUM(CASE WHEN m.isActive = 1 AND m.role = 'assistant' THEN 1 ELSE 0 END), 0) AS assistantMessages,
+          COALESCE(SUM(CASE WHEN m.role = 'assistant' THEN CAST(m.tokens AS BIGINT) ELSE 0 END), 0) AS tokensConsumed,
+          MAX(CASE WHEN m.isActive = 1 THEN m.createdAt END) AS lastMessageAt,
+          (SELECT createdAt FROM Users WHERE id = @userId) AS joinedDate,
+          (SELECT lastLoginAt FROM Users WHERE id = @userId) AS lastLoginAt
+        FROM Messages m
+        INNER JOIN Chats c ON c.id = m.chatId
+        WHERE c.userId = @userId
+      `),
+      byUser().query(`
+        SELECT TOP 1 CAST(m.createdAt AS DATE) AS day, COUNT(*) AS messageCount
+        FROM Messages m
+        INNER JOIN Chats c ON c.id = m.chatId
+        WHERE c.userId = @userId AND m.role = 'user' AND m.isActive = 1
+        GROUP BY CAST(m.createdAt AS DATE)
+        ORDER BY COUNT(*) DESC, CAST(m.createdAt AS DATE) DESC
+      `),
+      byUser().query(`
+        SELECT w.id AS workspaceId, w.name, COUNT(DISTINCT c.id) AS chatCount, COUNT(m.id) AS messageCount
+        FROM Chats c
+        INNER JOIN Workspaces w ON w.id = c.workspaceId
+        LEFT JOIN Messages m ON m.chatId = c.id AND m.isActive = 1
+        WHERE c.userId = @userId
+        GROUP BY w.id, w.name
+        ORDER BY COUNT(m.id) DESC
+      `),
+      // Citations are stored in the metadata of assistant messages; only sources the reply
+      // actually referenced count. Names come from WorkspaceFiles while the file still exists.
+      byUser().input('top', sql.Int, UserStatsService.TOP_LIMIT).query(`
+        SELECT TOP (@top) cited.fileId, COALESCE(MAX(wf.originalName), MAX(cited.fileName)) AS fileName,
+               COALESCE(MAX(wf.workspaceId), MAX(cited.workspaceId)) AS workspaceId,
+               CAST(CASE WHEN MAX(wf.id) IS NULL THEN 0 ELSE 1 END AS BIT) AS fileExists,
+               COUNT(*) AS citationCount
+        FROM Messages m
+        INNER JOIN Chats c ON c.id = m.chatId
+        CROSS APPLY OPENJSON(m.metadata, '$.citations') WITH (
+          fileId NVARCHAR(255) '$.fileId',
+          fileName NVARCHAR(500) '$.fileName',
+          workspaceId NVARCHAR(255) '$.workspaceId',
+          cited BIT '$.cited'
+        ) cited
+        LEFT JOIN WorkspaceFiles wf ON wf.id = cited.fileId
+        WHERE c.userId = @userId AND m.role = 'assistant' AND m.isActive = 1
+          AND ISJSON(m.metadata) = 1 AND cited.cited = 1 AND cited.fileId IS NOT NULL
+        GROUP BY cited.fileId
+        ORDER BY COUNT(*) DESC
+      `),
+      byUser().query(`
+        SELECT actionType, COUNT(*) AS count
+        FROM MessageActions
+        WHERE userId = @userId
+        GROUP BY actionType
+      `),
+      byUser().input('since', sql.DateTime2, since).query(`
+        SELECT CAST(m.createdAt AS DATE) AS day, COUNT(*) AS count
+        FROM Messages m
+        INNER JOIN Chats c ON c.id = m.chatId
+        WHERE c.userId = @userId AND m.role = 'user' AND m.isActive = 1 AND m.createdAt >= @since
+        GROUP BY CAST(m.createdAt AS DATE)
+      `),
+      byUser().input('since', sql.DateTime2, since).query(`
+        SELECT CAST(createdAt AS DATE) AS day, COUNT(*) AS count
+        FROM Chats
+        WHERE userId = @userId AND createdAt >= @since
+        GROUP BY CAST(createdAt AS DATE)
+      `)
+    ]);
+
+    const total = totals.recordset[0] || {};
+    const reactionCounts: Record<string, number> = {};
+    for (const row of reactions.recordset) {
+      reactionCounts[row.actionType] = row.count;
+    }
+    const lastActivity = [total.lastMessageAt, total.lastLoginAt]
+      .filter(Boolean)
+      .map((value: Date | string) => new Date(value))
+      .sort((a, b) => b.getTime() - a.getTime())[0] || null;
+
+    return {
+      totalChats: total.totalChats || 0,
+      archivedChats: total.archivedChats || 0,
+      totalMessages: total.totalMessages || 0,
+      userMessages: total.userMessages || 0,
+      assistantMessages: total.assistantMessages || 0,
+      averageMessagesPerChat: total.totalChats ? Math.round((total.totalMessages / total.totalChats) * 10) / 10 : 0,
+      mostActiveDay: mostActive.recordset[0] ? this.toDateString(mostActive.recordset[0].day) : null,
+      mostActiveDayMessages: mostActive.recordset[0]?.messageCount || 0,
+      tokensConsumed: Number(total.tokensConsumed || 0),
+      workspacesUsed: workspaces.recordset.length,
+      workspaces: workspaces.recordset,
+      mostCitedFiles: citedFiles.recordset,
+      reactions: {
+        likes: reactionCounts.like || 0,
+        dislikes: reactionCounts.dislike || 0,
+        bookmarks: reactionCounts.bookmark || 0,
+        stars: reactionCounts.star || 0
+      },
+      dailyActivity: this.buildDailySeries(since, days, dailyMessages.recordset, dailyChats.recordset),
+      joinedDate: total.joinedDate || null,
+      lastActivity
+    };
+  }
+
+  // One entry per day, including days without activity
+  private buildDailySeries(
+    since: Date,
+    days: number,
+    messages: { day: Date; count: number }[],
+    chats: { day: Date; count: number }[]
+  ): DailyActivity[] {
+    const messagesByDay = new Map(messages.map(row => [this.toDateString(row.day), row.count]));
+    const chatsByDay = new Map(chats.map(row => [this.toDateString(row.day), row.count]));
+
+    const series: DailyActivity[] = [];
+    for (let i = 0; i < days; i++) {
+      const date = this.toDateString(new Date(since.getTime() + i * 24 * 60 * 60 * 1000));
+      series.push({ date, messages: messagesByDay.get(date) || 0, chats: chatsByDay.get(date) || 0 });
+    }
+    return series;
+  }
+
+  private toDateString(value: Date | string): string {
+    return new Date(value).toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,450 @@
+import crypto from 'crypto';
+import sql from 'mssql';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseManager } from '../config/database';
+import { AuditService } from './auditService';
+import { ConfigurationManager } from './configurationManager';
+import { MailService } from './mailService';
+import { logger } from '../utils/logger';
+
+export type InvitationType = 'email' | 'link';
+export type InvitationAccessLevel = 'admin' | 'member' | 'readonly';
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspaceId: string;
+  type: InvitationType;
+  email: string | null;
+  accessLevel: InvitationAccessLevel;
+  maxUses: number | null;
+  useCount: number;
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  expiresAt: Date;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface InvitationPreview {
+  invitationId: string;
+  workspaceId: string;
+  workspaceName: string;
+  type: InvitationType;
+  accessLevel: InvitationAccessLevel;
+  expiresAt: Date;
+  invitedBy: string | null;
+}
+
+export interface InvitationUser {
+  userId: string;
+  email: string;
+}
+
+export interface InvitationClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// An invitation is referred to by its token (from an email or join link) or, by the invitee, by id
+export type InvitationReference = { token: string } | { invitationId: string };
+
+export class WorkspaceInvitationError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'WorkspaceInvitationError';
+  }
+}
+
+/**
+ * Workspace invitations. Email invitations are addressed to one person and can be accepted or
+ * declined once; join links can be used by anyone signed in, up to an optional usage cap.
+ * Both grant a preset access level and expire. Acceptances are recorded in AuditLogs.
+ */
+export class WorkspaceInvitationService {
+  private static instance: WorkspaceInvitationService;
+  private dbManager: DatabaseManager;
+  private static readonly INVITATION_COLUMNS =
+    'id, workspaceId, type, email, accessLevel, maxUses, useCount, status, expiresAt, createdBy, createdAt';
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): WorkspaceInvitationService {
+    if (!WorkspaceInvitationService.instance) {
+      WorkspaceInvitationService.instance = new WorkspaceInvitationService();
+    }
+    return WorkspaceInvitationService.instance;
+  }
+
+  /**
+   * Invites someone by email. A pending invitation for the same address is replaced.
+   */
+  public async createEmailInvitation(
+    workspace: { id: string; name: string },
+    email: string,
+    accessLevel: InvitationAccessLevel,
+    invitedBy: InvitationUser,
+    expiresInDays: number = 7
+  ): Promise<WorkspaceInvitation> {
+    const normalizedEmail = email.trim().toLowerCase();
+    const pool = await this.dbManager.getPool();
+
+    const memberCheck = await pool.request()
+      .input('workspaceId', sql.NVarChar, workspace.id)
+      .input('email', sql.NVarChar, normalizedEmail)
+      .query(`
+        SELECT TOP 1 u.id
+        FROM Users u
+        INNER JOIN Workspaces w ON w.id = @workspaceId
+        LEFT JOIN WorkspaceUsers wu ON wu.workspaceId = w.id AND wu.userId = u.id
+        WHERE LOWER(u.email) = @email AND (wu.id IS NOT NULL OR w.ownerId = u.id)
+      `);
+    if (memberCheck.recordset.length > 0) {
+      throw new WorkspaceInvitationError('This person is already a member of the workspace', 409);
+    }
+
+    await pool.request()
+      .input('workspaceId', sql.NVarChar, workspace.id)
+      .input('email', sql.NVarChar, normalizedEmail)
+      .query(`
+        UPDATE WorkspaceInvitations
+        SET status = 'revoked', revokedAt = GETUTCDATE()
+        WHERE workspaceId = @workspaceId AND type = 'email' AND email = @email AND status = 'pending'
+      `);
+
+    const token = this.generateToken();
+    const invitation = await this.insertInvitation({
+      workspaceId: workspace.id,
+      type: 'email',
+      email: normalizedEmail,
+      tokenHash: this.hashToken(token),
+      accessLevel,
+      maxUses: 1,
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      createdBy: invitedBy.userId
+    });
+
+    const link = `${this.getAppBaseUrl()}/invitations/accept?token=${encodeURIComponent(token)}`;
+    await MailService.getInstance().send({
+      to: normalizedEmail,
+      subject: `You're invited to ${workspace.name} on AIVA`,
+      text: `Hi,\n\n${invitedBy.email} invited you to the workspace "${workspace.name}" on AIVA.\n\nOpen this link to accept or decline:\n${link}\n\nThe invitation expires in ${expiresInDays} days.`,
+      html: `<p>Hi,</p><p>${this.escapeHtml(invitedBy.email)} invited you to the workspace <strong>${this.escapeHtml(workspace.name)}</strong> on AIVA.</p><p><a href="${link}">Accept or decline the invitation</a></p><p>The invitation expires in ${expiresInDays} days.</p>`
+    });
+
+    logger.info(`Invitation ${invitation.id} to workspace ${workspace.id} sent to ${normalizedEmail}`);
+    return invitation;
+  }
+
+  /**
+   * Creates a join link. The token is only returned here; it can't be read back later.
+   */
+  public async createJoinLink(
+    workspaceId: string,
+    accessLevel: InvitationAccessLevel,
+    createdBy: string,
+    options: { maxUses?: number; expiresInHours?: number } = {}
+  ): Promise<{ invitation: WorkspaceInvitation; token: string; url: string }> {
+    const token = this.generateToken();
+    const invitation = await this.insertInvitation({
+      workspaceId,
+      type: 'link',
+      email: null,
+      tokenHash: this.hashToken(token),
+      accessLevel,
+      maxUses: options.maxUses ?? null,
+      expiresAt: new Date(Date.now() + (options.expiresInHours ?? 72) * 60 * 60 * 1000),
+      createdBy
+    });
+
+    logger.info(`Join link ${invitation.id} created for workspace ${workspaceId}`);
+    return {
+      invitation,
+      token,
+      url: `${this.getAppBaseUrl()}/join?token=${encodeURIComponent(token)}`
+    };
+  }
+
+  /**
+   * Lists a workspace's invitations and join links that can still be used
+   */
+  public async listPending(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('workspaceId', sql.NVarChar, workspaceId)
+      .query(`
+        SELECT ${WorkspaceInvitationService.INVITATION_COLUMNS}
+        FROM WorkspaceInvitations
+        WHERE workspaceId = @workspaceId AND status = 'pending' AND expiresAt > GETUTCDATE()
+          AND (maxUses IS NULL OR useCount < maxUses)
+        ORDER BY createdAt DESC
+      `);
+    return result.recordset;
+  }
+
+  /**
+   * @returns Whether a pending invitation or join link was revoked
+   */
+  public async revoke(workspaceId: string, invitationId: string): Promise<boolean> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, invitationId)
+      .input('workspaceId', sql.NVarChar, workspaceId)
+      .query(`
+        UPDATE WorkspaceInvitations
+        SET status = 'revoked', revokedAt = GETUTCDATE()
+        WHERE id = @id AND workspaceId = @workspaceId AND status = 'pending'
+      `);
+    return result.rowsAffected[0] > 0;
+  }
+
+  /**
+   * Lists the pending email invitations addressed to a user
+   */
+  public async listForUser(email: string): Promise<InvitationPreview[]> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('email', sql.NVarChar, email.trim().toLowerCase())
+      .query(`
+        SELECT i.id AS invitationId, i.workspaceId, w.name AS workspaceName, i.type, i.accessLevel,
+               i.expiresAt, u.email AS invitedBy
+        FROM WorkspaceInvitations i
+        INNER JOIN Workspaces w ON w.id = i.workspaceId
+        LEFT JOIN Users u ON u.id = i.createdBy
+        WHERE i.type = 'email' AND i.email = @email AND i.status = 'pending' AND i.expiresAt > GETUTCDATE()
+        ORDER BY i.createdAt DESC
+      `);
+    return result.recordset;
+  }
+
+  /**
+   * Describes the invitation behind a token, for the page where it is accepted
+   */
+  public async preview(token: string, user: InvitationUser): Promise<InvitationPreview> {
+    const invitation = await this.findUsableInvitation({ token }, user);
+    return {
+      invitationId: invitation.id,
+      workspaceId: invitation.workspaceId,
+      workspaceName: invitation.workspaceName,
+      type: invitation.type,
+      accessLevel: invitation.accessLevel,
+      expiresAt: invitation.expiresAt,
+      invitedBy: invitation.invitedBy
+    };
+  }
+
+  /**
+   * Adds the user to the invitation's workspace. Users who already belong to the workspace
+   * keep their access level.
+   */
+  public async accept(
+    reference: InvitationReference,
+    user: InvitationUser,
+    client: InvitationClientInfo = {}
+  ): Promise<{ workspaceId: string; workspaceName: string; accessLevel: string; alreadyMember: boolean }> {
+    const invitation = await this.findUsableInvitation(reference, user);
+    const pool = await this.dbManager.getPool();
+
+    const membership = await pool.request()
+      .input('workspaceId', sql.NVarChar, invitation.workspaceId)
+      .input('userId', sql.NVarChar, user.userId)
+      .query('SELECT accessLevel FROM WorkspaceUsers WHERE workspaceId = @workspaceId AND userId = @userId');
+    const currentLevel: string | null = invitation.ownerId === user.userId
+      ? 'owner'
+      : membership.recordset[0]?.accessLevel || null;
+
+    // Following a join link into a workspace you're already in doesn't use it up
+    if (currentLevel && invitation.type === 'link') {
+      return { workspaceId: invitation.workspaceId, workspaceName: invitation.workspaceName, accessLevel: currentLevel, alreadyMember: true };
+    }
+
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+    try {
+      // The conditions are checked again here so concurrent acceptances can't exceed the cap
+      const update = await new sql.Request(transaction)
+        .input('id', sql.NVarChar, invitation.id)
+        .input('userId', sql.NVarChar, user.userId)
+        .query(invitation.type === 'email'
+          ? `
+            UPDATE WorkspaceInvitations
+            SET status = 'accepted', useCount = useCount + 1, respondedAt = GETUTCDATE(), respondedBy = @userId
+            WHERE id = @id AND status = 'pending' AND expiresAt > GETUTCDATE()
+          `
+          : `
+            UPDATE WorkspaceInvitations
+            SET useCount = useCount + 1
+            WHERE id = @id AND status = 'pending' AND expiresAt > GETUTCDATE() AND (maxUses IS NULL OR useCount < maxUses)
+          `);
+      if (update.rowsAffected[0] === 0) {
+        throw new WorkspaceInvitationError('This invitation is no longer valid', 410);
+      }
+
+      if (!currentLevel) {
+        await new sql.Request(transaction)
+          .input('id', sql.NVarChar, uuidv4())
+          .input('workspaceId', sql.NVarChar, invitation.workspaceId)
+          .input('userId', sql.NVarChar, user.userId)
+          .input('accessLevel', sql.NVarChar, invitation.accessLevel)
+          .input('assignedBy', sql.NVarChar, invitation.createdBy)
+          .query(`
+            INSERT INTO WorkspaceUsers (id, workspaceId, userId, accessLevel, assignedBy)
+            VALUES (@id, @workspaceId, @userId, @accessLevel, @assignedBy)
+          `);
+      }
+
+      await AuditService.getInstance().record({ userId: user.userId, ...client }, {
+        action: 'workspace_invitation_accepted',
+        resource: 'workspace',
+        resourceId: invitation.workspaceId,
+        details: {
+          invitationId: invitation.id,
+          type: invitation.type,
+          before: { accessLevel: currentLevel },
+          after: { accessLevel: currentLevel || invitation.accessLevel }
+        }
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info(`User ${user.userId} accepted invitation ${invitation.id} to workspace ${invitation.workspaceId}`);
+    return {
+      workspaceId: invitation.workspaceId,
+      workspaceName: invitation.workspaceName,
+      accessLevel: currentLevel || invitation.accessLevel,
+      alreadyMember: !!currentLevel
+    };
+  }
+
+  /**
+   * Declines an email invitation. Join links can simply be ignored.
+   */
+  public async decline(reference: InvitationReference, user: InvitationUser, client: InvitationClientInfo = {}): Promise<void> {
+    const invitation = await this.findUsableInvitation(reference, user);
+    if (invitation.type !== 'email') {
+      throw new WorkspaceInvitationError('Join links cannot be declined');
+    }
+
+    const pool = await this.dbManager.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+    try {
+      const update = await new sql.Request(transaction)
+        .input('id', sql.NVarChar, invitation.id)
+        .input('userId', sql.NVarChar, user.userId)
+        .query(`
+          UPDATE WorkspaceInvitations
+          SET status = 'declined', respondedAt = GETUTCDATE(), respondedBy = @userId
+          WHERE id = @id AND status = 'pending'
+        `);
+      if (update.rowsAffected[0] === 0) {
+        throw new WorkspaceInvitationError('This invitation is no longer valid', 410);
+      }
+
+      await AuditService.getInstance().record({ userId: user.userId, ...client }, {
+        action: 'workspace_invitation_declined',
+        resource: 'workspace',
+        resourceId: invitation.workspaceId,
+        details: { invitationId: invitation.id, type: invitation.type }
+      }, transaction);
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info(`User ${user.userId} declined invitation ${invitation.id} to workspace ${invitation.workspaceId}`);
+  }
+
+  private async findUsableInvitation(reference: InvitationReference, user: InvitationUser) {
+    const pool = await this.dbManager.getPool();
+    const request = pool.request();
+    let condition: string;
+    if ('token' in reference) {
+      request.input('tokenHash', sql.NVarChar, this.hashToken(reference.token));
+      condition = 'i.tokenHash = @tokenHash';
+    } else {
+      request.input('id', sql.NVarChar, reference.invitationId);
+      condition = "i.id = @id AND i.type = 'email'";
+    }
+
+    const result = await request.query(`
+      SELECT i.*, w.name AS workspaceName, w.ownerId, u.email AS invitedBy
+      FROM WorkspaceInvitations i
+      INNER JOIN Workspaces w ON w.id = i.workspaceId
+      LEFT JOIN Users u ON u.id = i.createdBy
+      WHERE ${condition}
+    `);
+    const invitation = result.recordset[0];
+
+    // Invitations for someone else are reported as missing when looked up by id
+    if (!invitation || ('invitationId' in reference && invitation.email !== user.email.trim().toLowerCase())) {
+      throw new WorkspaceInvitationError('Invitation not found', 404);
+    }
+    if (invitation.status === 'revoked') {
+      throw new WorkspaceInvitationError('This invitation has been revoked', 410);
+    }
+    if (invitation.status !== 'pending') {
+      throw new WorkspaceInvitationError(`This invitation has already been ${invitation.status}`, 410);
+    }
+    if (new Date(invitation.expiresAt) <= new Date()) {
+      throw new WorkspaceInvitationError('This invitation has expired', 410);
+    }
+    if (invitation.maxUses !== null && invitation.useCount >= invitation.maxUses) {
+      throw new WorkspaceInvitationError('This join link has reached its usage limit', 410);
+    }
+    if (invitation.type === 'email' && invitation.email !== user.email.trim().toLowerCase()) {
+      throw new WorkspaceInvitationError('This invitation was sent to a different email address', 403);
+    }
+    return invitation;
+  }
+
+  private async insertInvitation(invitation: {
+    workspaceId: string;
+    type: InvitationType;
+    email: string | null;
+    tokenHash: string;
+    accessLevel: InvitationAccessLevel;
+    maxUses: number | null;
+    expiresAt: Date;
+    createdBy: string;
+  }): Promise<WorkspaceInvitation> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('id', sql.NVarChar, uuidv4())
+      .input('workspaceId', sql.NVarChar, invitation.workspaceId)
+      .input('type', sql.NVarChar, invitation.type)
+      .input('email', sql.NVarChar, invitation.email)
+      .input('tokenHash', sql.NVarChar, invitation.tokenHash)
+      .input('accessLevel', sql.NVarChar, invitation.accessLevel)
+      .input('maxUses', sql.Int, invitation.maxUses)
+      .input('expiresAt', sql.DateTime2, invitation.expiresAt)
+      .input('createdBy', sql.NVarChar, invitation.createdBy)
+      .query(`
+        INSERT INTO WorkspaceInvitations (id, workspaceId, type, email, tokenHash, accessLevel, maxUses, expiresAt, createdBy, createdAt)
+        OUTPUT ${WorkspaceInvitationService.INVITATION_COLUMNS.split(', ').map(column => `INSERTED.${column}`).join(', ')}
+        VALUES (@id, @workspaceId, @type, @email, @tokenHash, @accessLevel, @maxUses, @expiresAt, @createdBy, GETUTCDATE())
+      `);
+    return result.recordset[0];
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private getAppBaseUrl(): string {
+    return (ConfigurationManager.getInstance().getValue('general', 'APP_BASE_URL') || 'http://localhost:5173').replace(/\/+$/, '');
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+  }
+}
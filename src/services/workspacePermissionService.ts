@@ -0,0 +1,112 @@
+import sql from 'mssql';
+import { DatabaseManager } from '../config/database';
+import { TwoFactorService } from './twoFactorService';
+
+export type WorkspaceAccessLevel = 'owner' | 'admin' | 'member' | 'readonly';
+
+export type WorkspaceCapability =
+  | 'view'              // See the workspace, its files, search results and indexing progress
+  | 'chat'              // Ask questions against the workspace
+  | 'upload'            // Add files
+  | 'deleteFile'        // Remove files
+  | 'reindex'           // Queue indexing jobs
+  | 'manageMembers'     // Assign and remove users and change their access level
+  | 'manageWorkspace';  // Rename or delete the workspace
+
+/**
+ * What each WorkspaceUsers.accessLevel allows. Platform admins get every capability in every
+ * workspace, whatever their membership.
+ */
+export const WORKSPACE_CAPABILITIES: Record<WorkspaceAccessLevel, WorkspaceCapability[]> = {
+  owner: ['view', 'chat', 'upload', 'deleteFile', 'reindex', 'manageMembers', 'manageWorkspace'],
+  admin: ['view', 'chat', 'upload', 'deleteFile', 'reindex', 'manageMembers'],
+  member: ['view', 'chat', 'upload', 'deleteFile', 'reindex'],
+  readonly: ['view', 'chat']
+};
+
+const ALL_CAPABILITIES = WORKSPACE_CAPABILITIES.owner;
+
+export interface WorkspaceUser {
+  userId: string;
+  role?: string;
+  sessionId?: string;
+  twoFactorVerified?: boolean;
+}
+
+export interface WorkspaceAccess {
+  workspaceId: string;
+  workspaceName: string;
+  ownerId: string;
+  accessLevel: WorkspaceAccessLevel | null;   // null for platform admins who aren't members
+  capabilities: WorkspaceCapability[];
+}
+
+/**
+ * Resolves what a user may do in a workspace. The owner recorded on the workspace always has
+ * owner access, even without a WorkspaceUsers row (e.g. auto-created default workspaces).
+ */
+export class WorkspacePermissionService {
+  private static instance: WorkspacePermissionService;
+  private dbManager: DatabaseManager;
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  public static getInstance(): WorkspacePermissionService {
+    if (!WorkspacePermissionService.instance) {
+      WorkspacePermissionService.instance = new WorkspacePermissionService();
+    }
+    return WorkspacePermissionService.instance;
+  }
+
+  /**
+   * @returns The user's access, or null if the workspace doesn't exist or the user has none
+   */
+  public async getAccess(workspaceId: string, user: WorkspaceUser): Promise<WorkspaceAccess | null> {
+    const pool = await this.dbManager.getPool();
+    const result = await pool.request()
+      .input('workspaceId', sql.NVarChar, workspaceId)
+      .input('userId', sql.NVarChar, user.userId)
+      .query(`
+        SELECT w.id, w.name, w.ownerId, wu.accessLevel
+        FROM Workspaces w
+        LEFT JOIN WorkspaceUsers wu ON wu.workspaceId = w.id AND wu.userId = @userId
+        WHERE w.id = @workspaceId
+      `);
+    const row = result.recordset[0];
+    if (!row) {
+      return null;
+    }
+
+    const accessLevel: WorkspaceAccessLevel | null = row.ownerId === user.userId ? 'owner' : row.accessLevel || null;
+    const capabilities = this.getCapabilities(accessLevel, user);
+    if (capabilities.length === 0) {
+      return null;
+    }
+
+    return {
+      workspaceId: row.id,
+      workspaceName: row.name,
+      ownerId: row.ownerId,
+      accessLevel,
+      capabilities
+    };
+  }
+
+  public getCapabilities(accessLevel: WorkspaceAccessLevel | null, user: WorkspaceUser): WorkspaceCapability[] {
+    if (this.isPlatformAdmin(user)) {
+      return [...ALL_CAPABILITIES];
+    }
+    return accessLevel ? [...(WORKSPACE_CAPABILITIES[accessLevel] || [])] : [];
+  }
+
+  // Admins who still owe a second factor only get what their membership allows, like requireAdmin
+  public isPlatformAdmin(user: WorkspaceUser): boolean {
+    if (user.role !== 'admin') {
+      return false;
+    }
+    return !user.sessionId || user.twoFactorVerified === true ||
+      !TwoFactorService.getInstance().isRequiredForRole(user.role);
+  }
+}
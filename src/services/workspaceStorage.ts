@@ -291,6 +291,17 @@ This folder structure ensures proper organization and enables advanced features
     return `${blobServiceClient?.accountName}/${WorkspaceStorageService.MAIN_CONTAINER_NAME}/${folderPath}${fileName}`;
   }
   
+  /**
+   * Gets the path of a file's blob within the main container
+   * @param workspaceId - The unique ID of the workspace
+   * @param workspaceName - The name of the workspace
+   * @param fileName - The name of the file
+   * @returns The blob path
+   */
+  public getBlobPath(workspaceId: string, workspaceName: string, fileName: string): string {
+    return `${WorkspaceStorageService.WORKSPACE_PARENT_FOLDER}${this.getWorkspaceFolderName(workspaceId, workspaceName)}/${fileName}`;
+  }
+
   /**
    * Gets the workspace folder name (used for Azure Search index name)
    * @param workspaceId - The unique ID of the workspace
@@ -1,4 +1,5 @@
 import winston from 'winston';
+import { Writable } from 'stream';
 
 // Define log levels
 const levels = {
@@ -30,6 +31,32 @@ const format = winston.format.combine(
   )
 );
 
+export interface RecentLogEntry {
+  level: string;
+  message: string;
+  timestamp: string;
+}
+
+// Keep the latest warnings and errors in memory for the admin monitoring view
+const RECENT_LOG_LIMIT = 200;
+const recentLogs: RecentLogEntry[] = [];
+const recentLogStream = new Writable({
+  objectMode: true,
+  write(info: any, _encoding, callback) {
+    recentLogs.push({
+      level: info[Symbol.for('level')] || 'info',
+      message: String(info.message).replace(/\u001b\[\d+m/g, ''),
+      timestamp: new Date().toISOString()
+    });
+    if (recentLogs.length > RECENT_LOG_LIMIT) {
+      recentLogs.shift();
+    }
+    callback();
+  }
+});
+
+export const getRecentLogs = (limit: number = 50): RecentLogEntry[] => recentLogs.slice(-limit).reverse();
+
 // Define which transports the logger must use
 const transports = [
   // Console transport
@@ -57,6 +84,12 @@ const transports = [
       winston.format.timestamp(),
       winston.format.json()
     )
+  }),
+
+  // In-memory transport for recent warnings and errors
+  new winston.transports.Stream({
+    stream: recentLogStream,
+    level: 'warn'
   })
 ];
 